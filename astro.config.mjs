@@ -1,10 +1,29 @@
 // @ts-check
+import process from 'node:process';
 import { defineConfig } from 'astro/config';
+import vercel from '@astrojs/vercel';
 
 import tailwindcss from '@tailwindcss/vite';
+import { resolveDeployment } from './src/lib/deployment';
+import buildReport from './src/integrations/build-report';
+
+// Production address, or the preview URL of a Vercel / Cloudflare Pages branch deployment
+const deployment = resolveDeployment(process.env);
 
 // https://astro.build/config
 export default defineConfig({
+  site: deployment.siteUrl,
+  // Pages stay prerendered; only routes with `prerender = false` (src/pages/api) run on demand
+  adapter: vercel(),
+  // English is served unprefixed; Bahasa Indonesia pages live under src/pages/id/
+  i18n: {
+    defaultLocale: 'en',
+    locales: ['en', 'id'],
+    routing: {
+      prefixDefaultLocale: false,
+    },
+  },
+  integrations: [buildReport()],
   vite: {
     plugins: [tailwindcss()],
   },
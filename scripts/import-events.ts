@@ -0,0 +1,63 @@
+// Import events from a CSV file (e.g. Google Forms responses) into src/content/events
+//
+//   bun run import:events responses.csv [--out dir] [--timezone Asia/Jakarta]
+//                                       [--date-order dmy|mdy] [--force]
+//
+// Existing files are left alone unless --force is given. Exits with 1 when a row was skipped
+// or a file was kept.
+import { existsSync } from 'node:fs';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import process from 'node:process';
+import { parseArgs } from 'node:util';
+import { EVENT_CONTENT_DIR } from '../src/lib/event-content';
+import {
+  formatImportSummary,
+  importEventsFromCsv,
+  toEventMarkdown,
+  type DateOrder,
+} from '../src/lib/event-import';
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    out: { type: 'string', default: EVENT_CONTENT_DIR },
+    timezone: { type: 'string', default: 'Asia/Jakarta' },
+    'date-order': { type: 'string', default: 'dmy' },
+    force: { type: 'boolean', default: false },
+  },
+});
+
+const [file] = positionals;
+const dateOrder = values['date-order'] as DateOrder;
+if (!file || !['dmy', 'mdy'].includes(dateOrder)) {
+  console.error(
+    'Usage: bun run import:events <file.csv> [--out dir] [--timezone zone] [--date-order dmy|mdy] [--force]'
+  );
+  process.exit(2);
+}
+
+const existing = existsSync(values.out)
+  ? (await readdir(values.out)).filter(name => name.endsWith('.md')).map(name => name.slice(0, -3))
+  : [];
+
+const report = importEventsFromCsv(await readFile(file, 'utf8'), {
+  timezone: values.timezone,
+  dateOrder,
+});
+
+await mkdir(values.out, { recursive: true });
+let kept = 0;
+for (const event of report.events) {
+  const target = path.join(values.out, `${event.slug}.md`);
+  if (existing.includes(event.slug) && !values.force) {
+    process.stdout.write(`Kept ${target}, it already exists (--force overwrites it)\n`);
+    kept++;
+    continue;
+  }
+  await writeFile(target, toEventMarkdown(event));
+  process.stdout.write(`Wrote ${target}\n`);
+}
+
+process.stdout.write(`${formatImportSummary(report)}\n`);
+if (report.skipped.length > 0 || kept > 0) process.exit(1);
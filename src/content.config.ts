@@ -0,0 +1,24 @@
+// Content collections
+// `events`: one Markdown file per event in src/content/events, read when EVENT_SOURCES includes
+// `content` (see src/lib/event-sources.ts). `series`: recurring events in src/content/series,
+// read the same way. Files starting with an underscore are ignored.
+import { defineCollection } from 'astro:content';
+import { glob } from 'astro/loaders';
+import {
+  EVENT_CONTENT_DIR,
+  SERIES_CONTENT_DIR,
+  eventFrontmatterSchema,
+  eventSeriesSchema,
+} from './lib/event-content';
+
+const events = defineCollection({
+  loader: glob({ pattern: '**/[^_]*.md', base: `./${EVENT_CONTENT_DIR}` }),
+  schema: eventFrontmatterSchema,
+});
+
+const series = defineCollection({
+  loader: glob({ pattern: '**/[^_]*.md', base: `./${SERIES_CONTENT_DIR}` }),
+  schema: eventSeriesSchema,
+});
+
+export const collections = { events, series };
@@ -0,0 +1,6 @@
+declare namespace App {
+  interface Locals {
+    // Set by src/middleware.ts for every page under /admin except the login page
+    admin?: import('./lib/admin-auth').AdminSession;
+  }
+}
@@ -0,0 +1,370 @@
+// English UI strings. Keys are the source of truth for every other dictionary.
+const en = {
+  'site.description': "Empowering Indonesia's Data Engineering Community since 2019",
+
+  'nav.home': 'Home',
+  'nav.about': 'About',
+  'nav.events': 'Events',
+  'nav.articles': 'Articles',
+  'nav.playground': 'Playground',
+  'nav.contact': 'Contact',
+  'nav.search': 'Search',
+  'nav.toggleMenu': 'Toggle menu',
+
+  'footer.tagline':
+    "Empowering Indonesia's data engineering community through knowledge sharing, events, and collaboration since {year}.",
+  'footer.quickLinks': 'Quick Links',
+  'footer.contactUs': 'Contact Us',
+  'footer.rights': 'All rights reserved.',
+
+  'common.deiEvent': 'DEI Event',
+  'common.deiArticle': 'DEI Article',
+  'common.deiTeam': 'DEI Team',
+  'common.readArticle': 'Read Article',
+  'common.joinCommunity': 'Join Our Community',
+  'common.liveNow': 'Live Now',
+  'common.cancelled': 'Cancelled',
+  'common.completed': 'Completed',
+  'common.registerNow': 'Register Now',
+  'common.virtualEvent': 'Virtual Event',
+  'common.minRead': '{count} min read',
+
+  'home.heroTitleLine1': "Empowering Indonesia's",
+  'home.heroTitleLine2': 'Data Engineering Community',
+  'home.heroSubtitle':
+    "Since {year}, we've been building a thriving community of data professionals through knowledge sharing, events, and collaboration.",
+  'home.exploreEvents': 'Explore Events',
+  'home.readArticles': 'Read Articles',
+  'home.statMembers': 'Telegram Members',
+  'home.statYears': 'Years Active',
+  'home.statEvents': 'Events & Workshops',
+  'home.whoWeAre': 'Who We Are',
+  'home.whoWeAreBody':
+    '{name} (DEI) is a community-driven platform dedicated to advancing data engineering practices in Indonesia. We bring together professionals, enthusiasts, and learners to share knowledge and grow together.',
+  'home.learnMoreAboutUs': 'Learn More About Us',
+  'home.upcomingEvents': 'Upcoming Events',
+  'home.viewAllEvents': 'View All Events',
+  'home.learnMore': 'Learn More',
+  'home.noUpcomingEvents': 'No upcoming events at the moment.',
+  'home.viewPastEvents': 'View Past Events',
+  'home.latestArticles': 'Latest Articles',
+  'home.viewAllArticles': 'View All Articles',
+  'home.articlesUnavailable': 'Unable to load articles at the moment.',
+  'home.joinTitle': 'Join Our Community',
+  'home.joinBody':
+    'Connect with {count}+ data professionals, stay updated on events, and contribute to the growing data engineering ecosystem in Indonesia.',
+  'home.getInTouch': 'Get in Touch',
+
+  'about.missionTitle': 'Our Mission',
+  'about.mission1':
+    'To empower data professionals in Indonesia through knowledge sharing, community building, and skill development. We believe that by connecting practitioners and enthusiasts, we can elevate the entire data engineering landscape in the country.',
+  'about.mission2':
+    'We organize workshops, webinars, and networking events to help our members stay current with the latest technologies and best practices in data engineering.',
+  'about.visionTitle': 'Our Vision',
+  'about.vision1':
+    'To become the premier hub for data engineering excellence in Indonesia, where professionals can learn, connect, and grow together.',
+  'about.vision2':
+    "We envision a thriving ecosystem where data engineering practices are standardized and elevated across industries, contributing to Indonesia's digital transformation.",
+  'about.journeyTitle': 'Our Journey',
+  'about.founded': 'Founded',
+  'about.foundedBody':
+    'Data Engineering Indonesia was established with a small group of passionate data engineers who wanted to create a knowledge-sharing platform for the Indonesian data community.',
+  'about.growing': 'Growing Community',
+  'about.growingBody':
+    'Despite the pandemic, we pivoted to virtual events and saw significant growth in our community. Hosted our first online workshops and webinars on data engineering topics.',
+  'about.expansion': 'Expansion',
+  'about.expansionBody':
+    'Launched collaborative projects with industry partners. Grew to over 1,000 community members. Started publishing technical articles on Medium to reach a wider audience.',
+  'about.present': 'Present & Future',
+  'about.presentBody':
+    'With 2,600+ members and growing, we continue to organize events, publish content, and build partnerships. This website represents our commitment to making DEI resources more accessible.',
+  'about.teamTitle': 'Meet the Team',
+  'about.teamBody':
+    'Our dedicated organizers work tirelessly to bring valuable content and events to the community.',
+  'about.valuesTitle': 'Our Values',
+  'about.valueKnowledge': 'Knowledge Sharing',
+  'about.valueKnowledgeBody': 'We believe in open knowledge and collaborative learning',
+  'about.valueCommunity': 'Community First',
+  'about.valueCommunityBody': 'Building meaningful connections among data professionals',
+  'about.valueImpact': 'Impact Driven',
+  'about.valueImpactBody': 'Focusing on practical outcomes and real-world applications',
+  'about.valueInclusive': 'Inclusive',
+  'about.valueInclusiveBody': 'Welcoming practitioners at all levels and backgrounds',
+  'about.title': 'About',
+  'about.heroTitle': 'About {name}',
+  'about.heroSubtitle': "Building Indonesia's data engineering ecosystem since {year}",
+  'about.memberLinkedin': '{name} on LinkedIn',
+  'about.memberTwitter': '{name} on X (Twitter)',
+  'about.memberEmail': 'Email {name}',
+
+  'contact.howToReach': 'How to Reach Us',
+  'contact.howToReachBody': 'Choose the best way to connect with us based on your needs',
+  'contact.emailTitle': 'Email Us',
+  'contact.emailBody':
+    'For general inquiries, partnership opportunities, or questions about our community and events.',
+  'contact.linkedinTitle': 'Connect on LinkedIn',
+  'contact.linkedinBody':
+    'For professional networking, corporate partnerships, and industry collaboration.',
+  'contact.linkedinCta': 'Visit LinkedIn Page',
+  'contact.telegramTitle': 'Join Our Telegram Community',
+  'contact.helpTitle': 'What We Can Help You With',
+  'contact.helpEvents': 'Event Inquiries',
+  'contact.helpEventsBody': 'Questions about upcoming events, workshops, or speaking opportunities',
+  'contact.helpPartnerships': 'Partnerships',
+  'contact.helpPartnershipsBody':
+    'Corporate partnerships, sponsorships, and collaboration opportunities',
+  'contact.helpContent': 'Content Contribution',
+  'contact.helpContentBody':
+    'Submit articles or resources to be featured on our Medium publication',
+  'contact.responseTitle': 'Response Time',
+  'contact.title': 'Contact',
+  'contact.heroTitle': 'Contact Us',
+  'contact.heroSubtitle': 'Get in touch with the {name} team',
+  'contact.telegramBody':
+    'Connect with {count}+ data engineering professionals in Indonesia. Get updates on events, share knowledge, and network with peers.',
+  'contact.responseBefore': 'We typically respond to inquiries within',
+  'contact.responseDays': '2-3 business days',
+  'contact.responseAfter':
+    '. For urgent matters related to upcoming events, please mention it in your subject line.',
+  'contact.formTitle': 'Send Us a Message',
+  'contact.formBody': 'Pick what your message is about so it reaches the right organizers.',
+  'contact.inquiryType': 'Topic',
+  'contact.inquiry.partnership': 'Partnership',
+  'contact.inquiry.speaking': 'Speaking',
+  'contact.inquiry.sponsorship': 'Sponsorship',
+  'contact.inquiry.general': 'General question',
+  'contact.formName': 'Name',
+  'contact.formEmail': 'Email',
+  'contact.formOrganization': 'Organization (optional)',
+  'contact.formMessage': 'Message',
+  'contact.formHoneypot': 'Leave this field empty',
+  'contact.formSubmit': 'Send Message',
+  'contact.formSubmitting': 'Sending…',
+  'contact.formSent': 'Thanks! Your message has been sent and we will get back to you by email.',
+  'contact.formInvalid':
+    'Please fill in your name, a valid email address and a message of at least {min} characters.',
+  'contact.formRateLimited': 'You have sent several messages already. Please try again later.',
+  'contact.formFailed': 'Your message could not be sent right now. Please email us instead.',
+
+  'events.heroTitle': 'Events & Workshops',
+  'events.heroSubtitle':
+    'Join our workshops, webinars, and meetups to learn and connect with the data engineering community',
+  'events.subscribe': 'Subscribe to Calendar',
+  'events.downloadIcs': 'Download .ics',
+  'events.upcoming': 'Upcoming Events',
+  'events.viewDetails': 'View Details',
+  'events.noUpcoming': 'No Upcoming Events',
+  'events.noUpcomingBody':
+    "We're planning our next events. Check back soon or join our Telegram for updates!",
+  'events.joinForUpdates': 'Join Community for Updates',
+  'events.past': 'Past Events',
+  'events.pastEvent': 'Past Event',
+  'events.viewRecap': 'View Recap',
+  'events.collaborateTitle': 'Want to Collaborate?',
+  'events.collaborateBody':
+    "Interested in hosting a workshop, speaking at our events, or partnering with us? We'd love to hear from you!",
+  'events.emailUs': 'Email Us',
+  'events.connectLinkedin': 'Connect on LinkedIn',
+  'events.title': 'Events',
+
+  'series.badge': 'Series',
+  'series.viewSeries': 'View Series',
+  'series.moreSessionsOne': '+{count} more session',
+  'series.moreSessions': '+{count} more sessions',
+  'series.sessionCountOne': '{count} session',
+  'series.sessionCount': '{count} sessions',
+  'series.nextSession': 'Next Session',
+  'series.about': 'About This Series',
+  'series.upcoming': 'Upcoming Sessions',
+  'series.past': 'Past Sessions',
+  'series.noUpcoming': 'No further sessions are scheduled.',
+
+  'eventDetail.allEvents': 'All Events',
+  'eventDetail.about': 'About This Event',
+  'eventDetail.when': 'When',
+  'eventDetail.addToCalendar': 'Add to Calendar',
+  'eventDetail.where': 'Where',
+  'eventDetail.registration': 'Registration',
+  'eventDetail.cancelled': 'This event has been cancelled.',
+  'eventDetail.closed': 'Registration is closed.',
+  'eventDetail.full': 'This event is fully booked.',
+  'eventDetail.partOfSeries': 'Part of the series',
+  'eventDetail.session': 'Session {session}',
+  'eventDetail.sessionOf': 'Session {session} of {count}',
+
+  'registration.seatsLeft': 'Seats left: {count}',
+  'registration.waitlist': 'Fully booked · {count} on the waitlist',
+  'registration.registered': '{count} registered',
+  'registration.joinWaitlist': 'Join Waitlist',
+  'registration.name': 'Name',
+  'registration.email': 'Email',
+  'registration.submitting': 'Sending…',
+  'registration.confirmed': "You're registered! Your seat is saved.",
+  'registration.waitlisted':
+    "The event is full, so you're number {position} on the waitlist. You'll get a seat automatically if one opens up.",
+  'registration.cancelHint': 'Need to cancel? Keep this link:',
+  'registration.invalidInput': 'Please enter your name and a valid email address.',
+  'registration.alreadyRegistered': 'This email is already registered for this event.',
+  'registration.closed': 'Registration for this event is closed.',
+  'registration.rateLimited':
+    'Too many sign-ups from your connection. Please try again in a few minutes.',
+  'registration.failed': 'Registration is unavailable right now. Please try again later.',
+  'registration.byEmail': 'Sign-ups for this event are taken by email.',
+  'registration.byEmailCta': 'Register by Email',
+  'registration.cancelTitle': 'Cancel Registration',
+  'registration.cancelBody': 'Cancelling frees your seat for the next person on the waitlist.',
+  'registration.cancelButton': 'Cancel My Registration',
+  'registration.cancelled': 'Your registration has been cancelled.',
+  'registration.cancelByEmail':
+    'To cancel, email {email} with the name and email address you registered with.',
+  'registration.missingToken':
+    'This cancellation link is incomplete. Use the link you received when registering.',
+  'registration.notFound': 'This registration was not found or has already been cancelled.',
+
+  'articles.title': 'Articles',
+  'articles.heroTitle': 'Articles & Resources',
+  'articles.heroSubtitle':
+    'Insights, tutorials, and best practices from the Indonesian data engineering community',
+  'articles.contributeTitle': 'Want to Contribute?',
+  'articles.contributeBody':
+    'Share your knowledge with our community by writing for our Medium publication',
+  'articles.writeOnMedium': 'Write for DEI on Medium',
+  'articles.latest': 'Latest Articles',
+  'articles.browseByTopic': 'Browse by topic:',
+  'articles.unavailableTitle': 'Unable to Load Articles',
+  'articles.unavailableBody': "We're having trouble fetching articles from Medium at the moment.",
+  'articles.visitMedium': 'Visit Medium Directly',
+  'articles.guidelinesTitle': 'Contribution Guidelines',
+  'articles.howToSubmit': 'How to Submit an Article',
+  'articles.step1': "Create a Medium account if you don't have one",
+  'articles.step2': 'Write your article following our topic guidelines',
+  'articles.step3': 'Submit to {name} publication',
+  'articles.step4': 'Our editorial team will review and publish',
+  'articles.topicSuggestions': 'Topic Suggestions',
+  'articles.topicPipelines': 'Data Pipeline Design',
+  'articles.topicEtl': 'ETL/ELT Best Practices',
+  'articles.topicCloud': 'Cloud Data Platforms',
+  'articles.topicQuality': 'Data Quality & Governance',
+  'articles.topicStreaming': 'Real-time Streaming',
+  'articles.topicCaseStudies': 'Case Studies & Tutorials',
+  'articles.questions': 'Questions about contributing?',
+  'articles.emailUsAt': 'Email us at',
+
+  'articleDetail.allArticles': 'All Articles',
+  'articleDetail.originallyPublished': 'Originally published on {source}.',
+  'articleDetail.readOriginal': 'Read and respond on the original post',
+  'articleDetail.navigation': 'Article navigation',
+  'articleDetail.previous': '← Previous Article',
+  'articleDetail.next': 'Next Article →',
+
+  'archive.page': 'Page {page}',
+  'archive.title': 'Article Archive',
+  'archive.summary': 'Page {page} of {lastPage} · {total} articles from the community',
+
+  'tags.articleCountOne': '{count} article',
+  'tags.articleCount': '{count} articles',
+  'tags.title': 'Articles tagged "{tag}"',
+  'tags.description': '{count} about {tag} from the {name} community',
+
+  'pagination.label': 'Pagination',
+  'pagination.previous': '← Previous',
+  'pagination.next': 'Next →',
+
+  'search.facetAll': 'All',
+  'search.facetEvents': 'Events',
+  'search.facetArticles': 'Articles',
+  'search.start': 'Start typing to search.',
+  'search.loading': 'Loading search index…',
+  'search.unavailable': 'Search is unavailable right now. Please try again later.',
+  'search.noResults': 'No results for “{query}”.',
+  'search.resultOne': '{count} result for “{query}”',
+  'search.results': '{count} results for “{query}”',
+  'search.badgeEvent': 'Event',
+  'search.badgeArticle': 'Article',
+  'search.title': 'Search',
+  'search.description': 'Search events and articles from the community',
+  'search.subtitle': 'Find past and upcoming events, tutorials and articles',
+  'search.placeholder': 'Try “airflow”, “dbt” or “streaming”',
+  'search.filterByType': 'Filter by type',
+  'search.noscriptBefore': 'Search needs JavaScript. Browse',
+  'search.noscriptEvents': 'events',
+  'search.noscriptOr': 'or',
+  'search.noscriptArticles': 'articles',
+  'search.noscriptAfter': 'instead.',
+
+  'playground.title': 'SQL Playground',
+  'playground.description': 'Practise SQL in your browser with sample data and guided exercises',
+  'playground.subtitle':
+    'Write SQL against sample community and pipeline data. Queries run in your browser, nothing is sent to a server.',
+  'playground.exercises': 'Exercises',
+  'playground.exercisesIntro': 'Each exercise checks your answer against the expected output.',
+  'playground.topic.joins': 'Joins',
+  'playground.topic.window': 'Window functions',
+  'playground.topic.cte': 'CTEs',
+  'playground.freePlay': 'Free play',
+  'playground.freePlayIntro': 'Pick a dataset and explore it with any query.',
+  'playground.dataset': 'Dataset',
+  'playground.schema': 'Show the tables in this dataset',
+  'playground.editorLabel': 'SQL query',
+  'playground.run': 'Run',
+  'playground.check': 'Check answer',
+  'playground.solution': 'Show solution',
+  'playground.reset': 'Reset',
+  'playground.shortcut': 'Press Ctrl+Enter (⌘+Enter on a Mac) to run.',
+  'playground.loading': 'Loading the SQL engine…',
+  'playground.ready': 'Ready. Run a query to see its result.',
+  'playground.loadFailed': 'The SQL engine could not be loaded. Please reload the page.',
+  'playground.error': 'Error: {message}',
+  'playground.noResult': 'The query ran but did not return a result.',
+  'playground.rowOne': '{count} row',
+  'playground.rows': '{count} rows',
+  'playground.truncated': 'Showing the first {shown} of {count} rows.',
+  'playground.correct': 'Correct! Your result matches the expected output.',
+  'playground.wrong.no_result':
+    'Your query did not return a result to check. End it with a SELECT.',
+  'playground.wrong.columns': 'Expected {expected} columns but your result has {actual}.',
+  'playground.wrong.row_count': 'Expected {expected} rows but your result has {actual}.',
+  'playground.wrong.order': 'The rows are right, but not in the requested order.',
+  'playground.wrong.values': 'Some values do not match the expected output.',
+  'playground.noscript': 'The playground needs JavaScript to run queries.',
+  'playground.allExercises': 'All exercises',
+  'playground.navigation': 'Exercise navigation',
+  'playground.previous': '← Previous exercise',
+  'playground.next': 'Next exercise →',
+  'playground.eventExercises': 'Practice exercises',
+
+  'game.play': 'Play: build the pipeline',
+  'game.title': 'Build the pipeline',
+  'game.intro':
+    'Drag source, transform and sink blocks into the slots, then run your pipeline. Faster runs with fewer moves score more.',
+  'game.close': 'Close',
+  'game.loading': 'Loading the game…',
+  'game.loadFailed': 'The game could not be loaded. Please try again later.',
+  'game.level': 'Level {level}/{count}: {title}',
+  'game.score': 'Score {score}',
+  'game.time': '{seconds}s',
+  'game.run': 'Run pipeline',
+  'game.next': 'Next level',
+  'game.again': 'Play again',
+  'game.levelDone': 'The pipeline works! +{points} points',
+  'game.finished': 'All pipelines built! Final score: {score}',
+  'game.newHighScore': 'New high score!',
+  'game.highScores': 'High scores',
+  'game.highScoreRow': '{rank}. {score} points ({date})',
+  'game.kind.source': 'Source',
+  'game.kind.transform': 'Transform',
+  'game.kind.sink': 'Sink',
+  'game.problem.incomplete': 'Fill every slot before running the pipeline.',
+  'game.problem.source_first': 'A pipeline starts with a source.',
+  'game.problem.sink_last': 'A pipeline ends in a sink.',
+  'game.problem.transform_middle': 'Only transforms go between the source and the sink.',
+  'game.problem.missing': 'This level needs {block}.',
+  'game.problem.order': '{block} is in the wrong place.',
+
+  'og.article': 'Article',
+  'og.location.physical': 'In person',
+  'og.location.virtual': 'Online',
+  'og.location.hybrid': 'Hybrid',
+};
+
+export default en;
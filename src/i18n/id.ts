@@ -0,0 +1,375 @@
+// Bahasa Indonesia UI strings
+import type { Dictionary } from '../lib/i18n';
+
+const id: Dictionary = {
+  'site.description': 'Memberdayakan Komunitas Data Engineering Indonesia sejak 2019',
+
+  'nav.home': 'Beranda',
+  'nav.about': 'Tentang',
+  'nav.events': 'Acara',
+  'nav.articles': 'Artikel',
+  'nav.playground': 'Playground',
+  'nav.contact': 'Kontak',
+  'nav.search': 'Cari',
+  'nav.toggleMenu': 'Buka/tutup menu',
+
+  'footer.tagline':
+    'Memberdayakan komunitas data engineering Indonesia melalui berbagi pengetahuan, acara, dan kolaborasi sejak {year}.',
+  'footer.quickLinks': 'Tautan Cepat',
+  'footer.contactUs': 'Hubungi Kami',
+  'footer.rights': 'Hak cipta dilindungi.',
+
+  'common.deiEvent': 'Acara DEI',
+  'common.deiArticle': 'Artikel DEI',
+  'common.deiTeam': 'Tim DEI',
+  'common.readArticle': 'Baca Artikel',
+  'common.joinCommunity': 'Gabung Komunitas Kami',
+  'common.liveNow': 'Sedang Berlangsung',
+  'common.cancelled': 'Dibatalkan',
+  'common.completed': 'Selesai',
+  'common.registerNow': 'Daftar Sekarang',
+  'common.virtualEvent': 'Acara Virtual',
+  'common.minRead': '{count} menit baca',
+
+  'home.heroTitleLine1': 'Memberdayakan Komunitas',
+  'home.heroTitleLine2': 'Data Engineering Indonesia',
+  'home.heroSubtitle':
+    'Sejak {year}, kami membangun komunitas profesional data yang berkembang melalui berbagi pengetahuan, acara, dan kolaborasi.',
+  'home.exploreEvents': 'Jelajahi Acara',
+  'home.readArticles': 'Baca Artikel',
+  'home.statMembers': 'Anggota Telegram',
+  'home.statYears': 'Tahun Aktif',
+  'home.statEvents': 'Acara & Workshop',
+  'home.whoWeAre': 'Siapa Kami',
+  'home.whoWeAreBody':
+    '{name} (DEI) adalah platform berbasis komunitas yang berfokus memajukan praktik data engineering di Indonesia. Kami mempertemukan profesional, penggiat, dan pembelajar untuk berbagi pengetahuan dan tumbuh bersama.',
+  'home.learnMoreAboutUs': 'Kenali Kami Lebih Jauh',
+  'home.upcomingEvents': 'Acara Mendatang',
+  'home.viewAllEvents': 'Lihat Semua Acara',
+  'home.learnMore': 'Selengkapnya',
+  'home.noUpcomingEvents': 'Belum ada acara mendatang saat ini.',
+  'home.viewPastEvents': 'Lihat Acara Sebelumnya',
+  'home.latestArticles': 'Artikel Terbaru',
+  'home.viewAllArticles': 'Lihat Semua Artikel',
+  'home.articlesUnavailable': 'Artikel belum dapat dimuat saat ini.',
+  'home.joinTitle': 'Gabung Komunitas Kami',
+  'home.joinBody':
+    'Terhubung dengan {count}+ profesional data, dapatkan kabar acara terbaru, dan ikut berkontribusi pada ekosistem data engineering Indonesia yang terus berkembang.',
+  'home.getInTouch': 'Hubungi Kami',
+
+  'about.missionTitle': 'Misi Kami',
+  'about.mission1':
+    'Memberdayakan profesional data di Indonesia melalui berbagi pengetahuan, membangun komunitas, dan pengembangan keterampilan. Kami percaya bahwa dengan menghubungkan praktisi dan penggiat, kita dapat mengangkat lanskap data engineering di seluruh negeri.',
+  'about.mission2':
+    'Kami menyelenggarakan workshop, webinar, dan acara networking agar anggota kami selalu mengikuti teknologi dan praktik terbaik terbaru di bidang data engineering.',
+  'about.visionTitle': 'Visi Kami',
+  'about.vision1':
+    'Menjadi pusat utama keunggulan data engineering di Indonesia, tempat para profesional dapat belajar, terhubung, dan tumbuh bersama.',
+  'about.vision2':
+    'Kami membayangkan ekosistem yang berkembang di mana praktik data engineering terstandardisasi dan meningkat di berbagai industri, berkontribusi pada transformasi digital Indonesia.',
+  'about.journeyTitle': 'Perjalanan Kami',
+  'about.founded': 'Didirikan',
+  'about.foundedBody':
+    'Data Engineering Indonesia didirikan oleh sekelompok kecil data engineer yang bersemangat membangun wadah berbagi pengetahuan bagi komunitas data Indonesia.',
+  'about.growing': 'Komunitas yang Bertumbuh',
+  'about.growingBody':
+    'Di tengah pandemi, kami beralih ke acara virtual dan komunitas kami tumbuh pesat. Kami menyelenggarakan workshop dan webinar daring pertama seputar data engineering.',
+  'about.expansion': 'Ekspansi',
+  'about.expansionBody':
+    'Meluncurkan proyek kolaborasi dengan mitra industri. Tumbuh hingga lebih dari 1.000 anggota komunitas. Mulai menerbitkan artikel teknis di Medium untuk menjangkau lebih banyak pembaca.',
+  'about.present': 'Kini & Nanti',
+  'about.presentBody':
+    'Dengan 2.600+ anggota dan terus bertambah, kami terus menyelenggarakan acara, menerbitkan konten, dan membangun kemitraan. Situs ini adalah wujud komitmen kami untuk membuat sumber daya DEI lebih mudah diakses.',
+  'about.teamTitle': 'Kenali Tim Kami',
+  'about.teamBody':
+    'Para penyelenggara kami bekerja tanpa lelah menghadirkan konten dan acara yang bermanfaat bagi komunitas.',
+  'about.valuesTitle': 'Nilai-Nilai Kami',
+  'about.valueKnowledge': 'Berbagi Pengetahuan',
+  'about.valueKnowledgeBody': 'Kami percaya pada pengetahuan terbuka dan belajar bersama',
+  'about.valueCommunity': 'Komunitas Utama',
+  'about.valueCommunityBody': 'Membangun hubungan bermakna antarprofesional data',
+  'about.valueImpact': 'Berorientasi Dampak',
+  'about.valueImpactBody': 'Berfokus pada hasil praktis dan penerapan nyata',
+  'about.valueInclusive': 'Inklusif',
+  'about.valueInclusiveBody': 'Terbuka bagi praktisi dari semua tingkat dan latar belakang',
+  'about.title': 'Tentang',
+  'about.heroTitle': 'Tentang {name}',
+  'about.heroSubtitle': 'Membangun ekosistem data engineering Indonesia sejak {year}',
+  'about.memberLinkedin': '{name} di LinkedIn',
+  'about.memberTwitter': '{name} di X (Twitter)',
+  'about.memberEmail': 'Kirim email ke {name}',
+
+  'contact.howToReach': 'Cara Menghubungi Kami',
+  'contact.howToReachBody': 'Pilih cara terbaik untuk terhubung dengan kami sesuai kebutuhan Anda',
+  'contact.emailTitle': 'Kirim Email',
+  'contact.emailBody':
+    'Untuk pertanyaan umum, peluang kemitraan, atau pertanyaan seputar komunitas dan acara kami.',
+  'contact.linkedinTitle': 'Terhubung di LinkedIn',
+  'contact.linkedinBody':
+    'Untuk jejaring profesional, kemitraan korporat, dan kolaborasi industri.',
+  'contact.linkedinCta': 'Kunjungi Halaman LinkedIn',
+  'contact.telegramTitle': 'Gabung Komunitas Telegram Kami',
+  'contact.helpTitle': 'Apa yang Bisa Kami Bantu',
+  'contact.helpEvents': 'Pertanyaan Acara',
+  'contact.helpEventsBody':
+    'Pertanyaan seputar acara mendatang, workshop, atau kesempatan menjadi pembicara',
+  'contact.helpPartnerships': 'Kemitraan',
+  'contact.helpPartnershipsBody': 'Kemitraan korporat, sponsor, dan peluang kolaborasi',
+  'contact.helpContent': 'Kontribusi Konten',
+  'contact.helpContentBody': 'Kirim artikel atau materi untuk ditampilkan di publikasi Medium kami',
+  'contact.responseTitle': 'Waktu Respons',
+  'contact.title': 'Kontak',
+  'contact.heroTitle': 'Hubungi Kami',
+  'contact.heroSubtitle': 'Hubungi tim {name}',
+  'contact.telegramBody':
+    'Terhubung dengan {count}+ profesional data engineering di Indonesia. Dapatkan kabar acara, berbagi pengetahuan, dan perluas jejaring.',
+  'contact.responseBefore': 'Kami biasanya membalas pertanyaan dalam',
+  'contact.responseDays': '2-3 hari kerja',
+  'contact.responseAfter':
+    '. Untuk hal mendesak terkait acara mendatang, mohon sebutkan di subjek email Anda.',
+  'contact.formTitle': 'Kirim Pesan',
+  'contact.formBody': 'Pilih topik pesan Anda agar sampai ke pengurus yang tepat.',
+  'contact.inquiryType': 'Topik',
+  'contact.inquiry.partnership': 'Kemitraan',
+  'contact.inquiry.speaking': 'Menjadi pembicara',
+  'contact.inquiry.sponsorship': 'Sponsor',
+  'contact.inquiry.general': 'Pertanyaan umum',
+  'contact.formName': 'Nama',
+  'contact.formEmail': 'Email',
+  'contact.formOrganization': 'Organisasi (opsional)',
+  'contact.formMessage': 'Pesan',
+  'contact.formHoneypot': 'Biarkan kolom ini kosong',
+  'contact.formSubmit': 'Kirim Pesan',
+  'contact.formSubmitting': 'Mengirim…',
+  'contact.formSent': 'Terima kasih! Pesan Anda sudah terkirim dan kami akan membalas lewat email.',
+  'contact.formInvalid':
+    'Isi nama Anda, alamat email yang valid, dan pesan minimal {min} karakter.',
+  'contact.formRateLimited': 'Anda sudah mengirim beberapa pesan. Silakan coba lagi nanti.',
+  'contact.formFailed': 'Pesan Anda belum bisa dikirim. Silakan kirim lewat email.',
+
+  'events.heroTitle': 'Acara & Workshop',
+  'events.heroSubtitle':
+    'Ikuti workshop, webinar, dan meetup kami untuk belajar dan terhubung dengan komunitas data engineering',
+  'events.subscribe': 'Langganan Kalender',
+  'events.downloadIcs': 'Unduh .ics',
+  'events.upcoming': 'Acara Mendatang',
+  'events.viewDetails': 'Lihat Detail',
+  'events.noUpcoming': 'Belum Ada Acara Mendatang',
+  'events.noUpcomingBody':
+    'Kami sedang merencanakan acara berikutnya. Kunjungi lagi nanti atau gabung Telegram kami untuk kabar terbaru!',
+  'events.joinForUpdates': 'Gabung Komunitas untuk Kabar Terbaru',
+  'events.past': 'Acara Sebelumnya',
+  'events.pastEvent': 'Acara Lalu',
+  'events.viewRecap': 'Lihat Rangkuman',
+  'events.collaborateTitle': 'Ingin Berkolaborasi?',
+  'events.collaborateBody':
+    'Tertarik menyelenggarakan workshop, menjadi pembicara, atau bermitra dengan kami? Kami senang mendengar dari Anda!',
+  'events.emailUs': 'Kirim Email',
+  'events.connectLinkedin': 'Terhubung di LinkedIn',
+  'events.title': 'Acara',
+
+  'series.badge': 'Seri',
+  'series.viewSeries': 'Lihat Seri',
+  'series.moreSessionsOne': '+{count} sesi lagi',
+  'series.moreSessions': '+{count} sesi lagi',
+  'series.sessionCountOne': '{count} sesi',
+  'series.sessionCount': '{count} sesi',
+  'series.nextSession': 'Sesi Berikutnya',
+  'series.about': 'Tentang Seri Ini',
+  'series.upcoming': 'Sesi Mendatang',
+  'series.past': 'Sesi Sebelumnya',
+  'series.noUpcoming': 'Belum ada sesi berikutnya yang dijadwalkan.',
+
+  'eventDetail.allEvents': 'Semua Acara',
+  'eventDetail.about': 'Tentang Acara Ini',
+  'eventDetail.when': 'Waktu',
+  'eventDetail.addToCalendar': 'Tambah ke Kalender',
+  'eventDetail.where': 'Lokasi',
+  'eventDetail.registration': 'Pendaftaran',
+  'eventDetail.cancelled': 'Acara ini telah dibatalkan.',
+  'eventDetail.closed': 'Pendaftaran sudah ditutup.',
+  'eventDetail.full': 'Kuota acara ini sudah penuh.',
+  'eventDetail.partOfSeries': 'Bagian dari seri',
+  'eventDetail.session': 'Sesi {session}',
+  'eventDetail.sessionOf': 'Sesi {session} dari {count}',
+
+  'registration.seatsLeft': 'Sisa kursi: {count}',
+  'registration.waitlist': 'Penuh · {count} di daftar tunggu',
+  'registration.registered': '{count} terdaftar',
+  'registration.joinWaitlist': 'Masuk Daftar Tunggu',
+  'registration.name': 'Nama',
+  'registration.email': 'Email',
+  'registration.submitting': 'Mengirim…',
+  'registration.confirmed': 'Anda sudah terdaftar! Kursi Anda sudah kami simpan.',
+  'registration.waitlisted':
+    'Acara sudah penuh, jadi Anda berada di urutan {position} daftar tunggu. Anda otomatis mendapat kursi jika ada yang kosong.',
+  'registration.cancelHint': 'Perlu membatalkan? Simpan tautan ini:',
+  'registration.invalidInput': 'Masukkan nama Anda dan alamat email yang valid.',
+  'registration.alreadyRegistered': 'Email ini sudah terdaftar untuk acara ini.',
+  'registration.closed': 'Pendaftaran untuk acara ini sudah ditutup.',
+  'registration.rateLimited':
+    'Terlalu banyak pendaftaran dari koneksi Anda. Silakan coba lagi dalam beberapa menit.',
+  'registration.failed': 'Pendaftaran sedang tidak tersedia. Silakan coba lagi nanti.',
+  'registration.byEmail': 'Pendaftaran acara ini dilakukan melalui email.',
+  'registration.byEmailCta': 'Daftar lewat Email',
+  'registration.cancelTitle': 'Batalkan Pendaftaran',
+  'registration.cancelBody':
+    'Membatalkan pendaftaran akan memberikan kursi Anda kepada orang berikutnya di daftar tunggu.',
+  'registration.cancelButton': 'Batalkan Pendaftaran Saya',
+  'registration.cancelled': 'Pendaftaran Anda telah dibatalkan.',
+  'registration.cancelByEmail':
+    'Untuk membatalkan, kirim email ke {email} dengan nama dan alamat email yang Anda daftarkan.',
+  'registration.missingToken':
+    'Tautan pembatalan ini tidak lengkap. Gunakan tautan yang Anda terima saat mendaftar.',
+  'registration.notFound': 'Pendaftaran ini tidak ditemukan atau sudah dibatalkan.',
+
+  'articles.title': 'Artikel',
+  'articles.heroTitle': 'Artikel & Sumber Belajar',
+  'articles.heroSubtitle':
+    'Wawasan, tutorial, dan praktik terbaik dari komunitas data engineering Indonesia',
+  'articles.contributeTitle': 'Ingin Berkontribusi?',
+  'articles.contributeBody':
+    'Bagikan pengetahuan Anda kepada komunitas dengan menulis di publikasi Medium kami',
+  'articles.writeOnMedium': 'Menulis untuk DEI di Medium',
+  'articles.latest': 'Artikel Terbaru',
+  'articles.browseByTopic': 'Jelajahi berdasarkan topik:',
+  'articles.unavailableTitle': 'Artikel Tidak Dapat Dimuat',
+  'articles.unavailableBody': 'Kami sedang mengalami kendala mengambil artikel dari Medium.',
+  'articles.visitMedium': 'Kunjungi Medium Langsung',
+  'articles.guidelinesTitle': 'Panduan Kontribusi',
+  'articles.howToSubmit': 'Cara Mengirim Artikel',
+  'articles.step1': 'Buat akun Medium jika belum punya',
+  'articles.step2': 'Tulis artikel Anda sesuai panduan topik kami',
+  'articles.step3': 'Kirim ke publikasi {name}',
+  'articles.step4': 'Tim editorial kami akan meninjau dan menerbitkannya',
+  'articles.topicSuggestions': 'Saran Topik',
+  'articles.topicPipelines': 'Desain Data Pipeline',
+  'articles.topicEtl': 'Praktik Terbaik ETL/ELT',
+  'articles.topicCloud': 'Platform Data Cloud',
+  'articles.topicQuality': 'Kualitas & Tata Kelola Data',
+  'articles.topicStreaming': 'Streaming Real-time',
+  'articles.topicCaseStudies': 'Studi Kasus & Tutorial',
+  'articles.questions': 'Ada pertanyaan seputar kontribusi?',
+  'articles.emailUsAt': 'Kirim email ke',
+
+  'articleDetail.allArticles': 'Semua Artikel',
+  'articleDetail.originallyPublished': 'Awalnya diterbitkan di {source}.',
+  'articleDetail.readOriginal': 'Baca dan tanggapi di tulisan aslinya',
+  'articleDetail.navigation': 'Navigasi artikel',
+  'articleDetail.previous': '← Artikel Sebelumnya',
+  'articleDetail.next': 'Artikel Berikutnya →',
+
+  'archive.page': 'Halaman {page}',
+  'archive.title': 'Arsip Artikel',
+  'archive.summary': 'Halaman {page} dari {lastPage} · {total} artikel dari komunitas',
+
+  'tags.articleCountOne': '{count} artikel',
+  'tags.articleCount': '{count} artikel',
+  'tags.title': 'Artikel bertopik "{tag}"',
+  'tags.description': '{count} tentang {tag} dari komunitas {name}',
+
+  'pagination.label': 'Navigasi halaman',
+  'pagination.previous': '← Sebelumnya',
+  'pagination.next': 'Berikutnya →',
+
+  'search.facetAll': 'Semua',
+  'search.facetEvents': 'Acara',
+  'search.facetArticles': 'Artikel',
+  'search.start': 'Mulai mengetik untuk mencari.',
+  'search.loading': 'Memuat indeks pencarian…',
+  'search.unavailable': 'Pencarian sedang tidak tersedia. Silakan coba lagi nanti.',
+  'search.noResults': 'Tidak ada hasil untuk “{query}”.',
+  'search.resultOne': '{count} hasil untuk “{query}”',
+  'search.results': '{count} hasil untuk “{query}”',
+  'search.badgeEvent': 'Acara',
+  'search.badgeArticle': 'Artikel',
+  'search.title': 'Cari',
+  'search.description': 'Cari acara dan artikel dari komunitas',
+  'search.subtitle': 'Temukan acara lalu dan mendatang, tutorial, serta artikel',
+  'search.placeholder': 'Coba “airflow”, “dbt” atau “streaming”',
+  'search.filterByType': 'Saring berdasarkan jenis',
+  'search.noscriptBefore': 'Pencarian membutuhkan JavaScript. Jelajahi',
+  'search.noscriptEvents': 'acara',
+  'search.noscriptOr': 'atau',
+  'search.noscriptArticles': 'artikel',
+  'search.noscriptAfter': 'sebagai gantinya.',
+
+  'playground.title': 'SQL Playground',
+  'playground.description':
+    'Berlatih SQL langsung di browser dengan data contoh dan latihan terpandu',
+  'playground.subtitle':
+    'Tulis SQL untuk data contoh komunitas dan pipeline. Kueri dijalankan di browser Anda, tidak ada yang dikirim ke server.',
+  'playground.exercises': 'Latihan',
+  'playground.exercisesIntro':
+    'Setiap latihan memeriksa jawaban Anda terhadap hasil yang diharapkan.',
+  'playground.topic.joins': 'Join',
+  'playground.topic.window': 'Window function',
+  'playground.topic.cte': 'CTE',
+  'playground.freePlay': 'Bebas bereksplorasi',
+  'playground.freePlayIntro': 'Pilih dataset dan jelajahi dengan kueri apa pun.',
+  'playground.dataset': 'Dataset',
+  'playground.schema': 'Tampilkan tabel dalam dataset ini',
+  'playground.editorLabel': 'Kueri SQL',
+  'playground.run': 'Jalankan',
+  'playground.check': 'Periksa jawaban',
+  'playground.solution': 'Lihat solusi',
+  'playground.reset': 'Atur ulang',
+  'playground.shortcut': 'Tekan Ctrl+Enter (⌘+Enter di Mac) untuk menjalankan.',
+  'playground.loading': 'Memuat mesin SQL…',
+  'playground.ready': 'Siap. Jalankan kueri untuk melihat hasilnya.',
+  'playground.loadFailed': 'Mesin SQL gagal dimuat. Silakan muat ulang halaman.',
+  'playground.error': 'Galat: {message}',
+  'playground.noResult': 'Kueri berhasil dijalankan tetapi tidak menghasilkan data.',
+  'playground.rowOne': '{count} baris',
+  'playground.rows': '{count} baris',
+  'playground.truncated': 'Menampilkan {shown} baris pertama dari {count}.',
+  'playground.correct': 'Benar! Hasil Anda sesuai dengan hasil yang diharapkan.',
+  'playground.wrong.no_result':
+    'Kueri Anda tidak menghasilkan data untuk diperiksa. Akhiri dengan SELECT.',
+  'playground.wrong.columns': 'Diharapkan {expected} kolom tetapi hasil Anda memiliki {actual}.',
+  'playground.wrong.row_count': 'Diharapkan {expected} baris tetapi hasil Anda memiliki {actual}.',
+  'playground.wrong.order': 'Barisnya sudah benar, tetapi urutannya belum sesuai.',
+  'playground.wrong.values': 'Beberapa nilai tidak sesuai dengan hasil yang diharapkan.',
+  'playground.noscript': 'Playground membutuhkan JavaScript untuk menjalankan kueri.',
+  'playground.allExercises': 'Semua latihan',
+  'playground.navigation': 'Navigasi latihan',
+  'playground.previous': '← Latihan sebelumnya',
+  'playground.next': 'Latihan berikutnya →',
+  'playground.eventExercises': 'Latihan praktik',
+
+  'game.play': 'Main: bangun pipeline',
+  'game.title': 'Bangun pipeline',
+  'game.intro':
+    'Seret blok sumber, transformasi dan tujuan ke dalam slot, lalu jalankan pipeline Anda. Semakin cepat dan sedikit langkah, semakin tinggi skornya.',
+  'game.close': 'Tutup',
+  'game.loading': 'Memuat permainan…',
+  'game.loadFailed': 'Permainan gagal dimuat. Silakan coba lagi nanti.',
+  'game.level': 'Level {level}/{count}: {title}',
+  'game.score': 'Skor {score}',
+  'game.time': '{seconds} dtk',
+  'game.run': 'Jalankan pipeline',
+  'game.next': 'Level berikutnya',
+  'game.again': 'Main lagi',
+  'game.levelDone': 'Pipeline berjalan! +{points} poin',
+  'game.finished': 'Semua pipeline selesai! Skor akhir: {score}',
+  'game.newHighScore': 'Skor tertinggi baru!',
+  'game.highScores': 'Skor tertinggi',
+  'game.highScoreRow': '{rank}. {score} poin ({date})',
+  'game.kind.source': 'Sumber',
+  'game.kind.transform': 'Transformasi',
+  'game.kind.sink': 'Tujuan',
+  'game.problem.incomplete': 'Isi semua slot sebelum menjalankan pipeline.',
+  'game.problem.source_first': 'Pipeline dimulai dari sumber.',
+  'game.problem.sink_last': 'Pipeline berakhir di tujuan.',
+  'game.problem.transform_middle':
+    'Hanya transformasi yang boleh berada di antara sumber dan tujuan.',
+  'game.problem.missing': 'Level ini membutuhkan {block}.',
+  'game.problem.order': '{block} berada di posisi yang salah.',
+
+  'og.article': 'Artikel',
+  'og.location.physical': 'Tatap muka',
+  'og.location.virtual': 'Daring',
+  'og.location.hybrid': 'Hybrid',
+};
+
+export default id;
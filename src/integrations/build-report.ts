@@ -0,0 +1,37 @@
+// Prints where every dataset came from at the end of `astro build`, so a build that shipped
+// cached, sample or missing data says so in the deploy log, and writes the same records to
+// build-summary.json in the output directory (next to, not inside, the published files)
+import { writeFile } from 'node:fs/promises';
+import process from 'node:process';
+import type { AstroIntegration } from 'astro';
+import { createBuildSummary, formatBuildReport, getBuildReport } from '../lib/build-report';
+import { resolveDataSourcePolicy } from '../lib/data-policy';
+import { resolveDeployment } from '../lib/deployment';
+
+export const BUILD_SUMMARY_FILE = 'build-summary.json';
+
+export default function buildReport(): AstroIntegration {
+  let outDir: URL;
+
+  return {
+    name: 'dei-build-report',
+    hooks: {
+      'astro:config:done': ({ config }) => {
+        outDir = config.outDir;
+      },
+      'astro:build:done': async ({ logger }) => {
+        const report = getBuildReport();
+        const summary = createBuildSummary(report, {
+          policy: resolveDataSourcePolicy(process.env),
+          deployment: resolveDeployment(process.env),
+        });
+
+        logger[summary.live ? 'info' : 'warn'](formatBuildReport(report));
+
+        const file = new URL(BUILD_SUMMARY_FILE, outDir);
+        await writeFile(file, `${JSON.stringify(summary, null, 2)}\n`);
+        logger.info(`Build summary written to ${file.pathname}`);
+      },
+    },
+  };
+}
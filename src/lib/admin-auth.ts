@@ -0,0 +1,128 @@
+// Organizer sessions for the /admin area
+// Supabase Auth tokens are kept in httpOnly cookies scoped to /admin. Each admin request gets
+// a client carrying the organizer's access token, so row level security applies to every
+// write (see supabase/migrations). Server-only.
+import type { AstroCookies } from 'astro';
+import type { Session, SupabaseClient, User } from '@supabase/supabase-js';
+import { createSupabaseClient } from './supabase';
+
+export const ADMIN_HOME_PATH = '/admin/events';
+export const ADMIN_LOGIN_PATH = '/admin/login';
+
+const ACCESS_COOKIE = 'dei-admin-access';
+const REFRESH_COOKIE = 'dei-admin-refresh';
+const REFRESH_MAX_AGE = 60 * 60 * 24 * 30;
+
+export interface AdminSession {
+  user: User;
+  client: SupabaseClient;
+}
+
+export type SignInError = 'not_configured' | 'invalid_credentials' | 'not_organizer';
+
+export type SignInResult = { ok: true } | { ok: false; error: SignInError };
+
+export function isAdminPath(pathname: string): boolean {
+  return /^\/admin(\/|$)/.test(pathname);
+}
+
+// Only redirect back into the admin area, never to another site
+export function getSafeRedirect(next: string | null): string {
+  return next && isAdminPath(next) && !next.startsWith('//') ? next : ADMIN_HOME_PATH;
+}
+
+function setSessionCookies(cookies: AstroCookies, session: Session) {
+  const options = {
+    path: '/admin',
+    httpOnly: true,
+    secure: import.meta.env.PROD,
+    sameSite: 'lax' as const,
+  };
+  cookies.set(ACCESS_COOKIE, session.access_token, { ...options, maxAge: session.expires_in });
+  cookies.set(REFRESH_COOKIE, session.refresh_token, { ...options, maxAge: REFRESH_MAX_AGE });
+}
+
+function clearSessionCookies(cookies: AstroCookies) {
+  cookies.delete(ACCESS_COOKIE, { path: '/admin' });
+  cookies.delete(REFRESH_COOKIE, { path: '/admin' });
+}
+
+async function isOrganizer(client: SupabaseClient): Promise<boolean> {
+  const { data, error } = await client.rpc('is_organizer');
+  if (error) console.error('Error checking organizer role:', error);
+  return !error && data === true;
+}
+
+export async function signIn(
+  email: string,
+  password: string,
+  cookies: AstroCookies
+): Promise<SignInResult> {
+  const auth = createSupabaseClient();
+  if (!auth) return { ok: false, error: 'not_configured' };
+
+  const { data, error } = await auth.auth.signInWithPassword({ email, password });
+  if (error || !data.session) return { ok: false, error: 'invalid_credentials' };
+
+  if (!(await isOrganizer(createSupabaseClient(data.session.access_token)!))) {
+    await auth.auth.signOut();
+    return { ok: false, error: 'not_organizer' };
+  }
+
+  setSessionCookies(cookies, data.session);
+  return { ok: true };
+}
+
+// Resolve the session from the cookies, refreshing the short-lived access token when needed.
+// Returns null (and clears the cookies) when the visitor isn't a signed-in organizer.
+export async function getAdminSession(cookies: AstroCookies): Promise<AdminSession | null> {
+  const accessToken = cookies.get(ACCESS_COOKIE)?.value;
+  const refreshToken = cookies.get(REFRESH_COOKIE)?.value;
+  const auth = createSupabaseClient();
+  if (!auth || (!accessToken && !refreshToken)) return null;
+
+  try {
+    let session: { token: string; user: User } | null = null;
+
+    if (accessToken) {
+      const { data } = await auth.auth.getUser(accessToken);
+      if (data.user) session = { token: accessToken, user: data.user };
+    }
+    if (!session && refreshToken) {
+      const { data } = await auth.auth.refreshSession({ refresh_token: refreshToken });
+      if (data.session && data.user) {
+        setSessionCookies(cookies, data.session);
+        session = { token: data.session.access_token, user: data.user };
+      }
+    }
+
+    if (session) {
+      const client = createSupabaseClient(session.token)!;
+      // Checked on every request so removing someone from `organizers` takes effect at once
+      if (await isOrganizer(client)) return { user: session.user, client };
+    }
+  } catch (error) {
+    console.error('Error resolving admin session:', error);
+  }
+
+  clearSessionCookies(cookies);
+  return null;
+}
+
+export async function signOut(cookies: AstroCookies): Promise<void> {
+  const accessToken = cookies.get(ACCESS_COOKIE)?.value;
+  const refreshToken = cookies.get(REFRESH_COOKIE)?.value;
+  const auth = createSupabaseClient();
+
+  if (auth && accessToken && refreshToken) {
+    try {
+      // Revokes the refresh token so a copied cookie can't be reused
+      await auth.auth.setSession({ access_token: accessToken, refresh_token: refreshToken });
+      await auth.auth.signOut();
+    } catch (error) {
+      console.error('Error signing out:', error);
+    }
+  }
+
+  clearSessionCookies(cookies);
+}
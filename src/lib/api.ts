@@ -0,0 +1,56 @@
+// Helpers for the on-demand API routes under src/pages/api
+import type { APIRoute } from 'astro';
+import { DataSourceError } from './data-policy';
+
+export function jsonResponse(body: unknown, status = 200, headers: HeadersInit = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Cache-Control': 'no-store',
+      ...headers,
+    },
+  });
+}
+
+// Accept both fetch() JSON bodies and plain HTML form posts
+export async function readRequestBody(request: Request): Promise<Record<string, unknown>> {
+  const contentType = request.headers.get('content-type') || '';
+
+  try {
+    if (contentType.includes('application/json')) {
+      const body = await request.json();
+      return body && typeof body === 'object' && !Array.isArray(body) ? body : {};
+    }
+    if (
+      contentType.includes('application/x-www-form-urlencoded') ||
+      contentType.includes('multipart/form-data')
+    ) {
+      const form = await request.formData();
+      return Object.fromEntries(
+        [...form.entries()].filter(([, value]) => typeof value === 'string')
+      );
+    }
+  } catch {
+    // Malformed bodies are treated as empty and rejected by validation
+  }
+
+  return {};
+}
+
+// Event reads throw DataSourceError when Supabase is down (the policy is strict outside
+// development). Routes answer that with a JSON 503 the page scripts understand, rather than
+// Astro's HTML error page.
+export function handleDataSourceErrors(route: APIRoute): APIRoute {
+  return async context => {
+    try {
+      return await route(context);
+    } catch (error) {
+      if (!(error instanceof DataSourceError)) throw error;
+      console.error(
+        `${context.request.method} ${new URL(context.request.url).pathname}: ${error.message}`
+      );
+      return jsonResponse({ error: 'unavailable' }, 503);
+    }
+  };
+}
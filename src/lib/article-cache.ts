@@ -0,0 +1,60 @@
+// Article Cache
+// Every article a feed has returned is kept on disk, so a build during a feed outage ships the
+// previous articles instead of an empty section. Feeds only carry their latest posts (Medium's
+// about ten), so the file is also the archive that takes the article pages further back: each
+// fetch is merged into it rather than replacing it. CI restores the directory between runs
+// (see the deploy workflows).
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { MediumArticle } from './medium';
+
+export interface CachedFeed {
+  sourceId: string;
+  fetchedAt: string;
+  articles: MediumArticle[];
+}
+
+export const DEFAULT_ARTICLE_CACHE_DIR = '.cache/articles';
+// A fallback older than this is reported as stale
+export const ARTICLE_CACHE_STALE_AFTER_MS = 3 * 24 * 60 * 60 * 1000;
+
+export function getArticleCacheDir(env: Record<string, string | undefined>): string {
+  return env.ARTICLES_CACHE_DIR || DEFAULT_ARTICLE_CACHE_DIR;
+}
+
+function cacheFile(dir: string, sourceId: string): string {
+  return path.join(dir, `${sourceId.replace(/[^a-z0-9-]/gi, '_')}.json`);
+}
+
+export async function writeArticleCache(dir: string, feed: CachedFeed): Promise<void> {
+  await mkdir(dir, { recursive: true });
+  await writeFile(cacheFile(dir, feed.sourceId), JSON.stringify(feed));
+}
+
+// Null when there is no usable copy: missing, unreadable or not a cache file
+export async function readArticleCache(dir: string, sourceId: string): Promise<CachedFeed | null> {
+  try {
+    const feed = JSON.parse(await readFile(cacheFile(dir, sourceId), 'utf8')) as CachedFeed;
+    const valid =
+      feed?.sourceId === sourceId &&
+      !isNaN(new Date(feed.fetchedAt).getTime()) &&
+      Array.isArray(feed.articles);
+    return valid ? feed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isCacheStale(feed: CachedFeed, now: Date = new Date()): boolean {
+  return now.getTime() - new Date(feed.fetchedAt).getTime() > ARTICLE_CACHE_STALE_AFTER_MS;
+}
+
+// Fetched articles first, then archived ones the feed no longer carries; a fetched copy
+// replaces the archived one with the same link
+export function mergeArticleArchive(
+  fetched: MediumArticle[],
+  archived: MediumArticle[]
+): MediumArticle[] {
+  const links = new Set(fetched.map(article => article.link));
+  return [...fetched, ...archived.filter(article => !links.has(article.link))];
+}
@@ -0,0 +1,24 @@
+// Article Sources
+// RSS and Atom feeds merged into the articles section. Sources are listed in priority
+// order: when the same article appears in several feeds, the earlier source wins.
+
+export interface ArticleSource {
+  id: string;
+  label: string;
+  url: string;
+  // Used when a feed item has no author, e.g. a single-author personal blog
+  defaultAuthor?: string;
+}
+
+export const articleSources: ArticleSource[] = [
+  {
+    id: 'medium-dei',
+    label: 'Data Engineering Indonesia on Medium',
+    url: 'https://medium.com/feed/data-engineering-indonesia',
+    defaultAuthor: 'DEI Team',
+  },
+  // Member blogs, for example:
+  // { id: 'jane-substack', label: 'Jane on Substack', url: 'https://jane.substack.com/feed' },
+  // { id: 'john-devto', label: 'John on dev.to', url: 'https://dev.to/feed/john' },
+  // { id: 'team-hashnode', label: 'Team on Hashnode', url: 'https://team.hashnode.dev/rss.xml' },
+];
@@ -0,0 +1,93 @@
+// Build Report
+// Data loaders record where each dataset came from (live source, cached copy, sample data or
+// nothing), and the build-report integration prints the records and writes them to
+// build-summary.json once the build is done. Astro prerenders from its own bundle of these
+// modules, in the same process that loaded the config, so the records live on globalThis rather
+// than in module state.
+import type { DataSourcePolicy } from './data-policy';
+import type { Deployment } from './deployment';
+
+export type DataOrigin = 'live' | 'cache' | 'sample' | 'none';
+
+export interface DataSourceRecord {
+  dataset: string;
+  source: string;
+  origin: DataOrigin;
+  count: number;
+  // When the data was fetched from the source; older than the build for cached copies
+  fetchedAt?: string;
+  stale?: boolean;
+  error?: string;
+}
+
+const REPORT_KEY = Symbol.for('dei.buildReport');
+
+function records(): Map<string, DataSourceRecord> {
+  const store = globalThis as typeof globalThis & {
+    [REPORT_KEY]?: Map<string, DataSourceRecord>;
+  };
+  store[REPORT_KEY] ??= new Map();
+  return store[REPORT_KEY];
+}
+
+// A later record for the same dataset and source replaces the earlier one
+export function recordDataSource(record: DataSourceRecord): void {
+  records().set(`${record.dataset}:${record.source}`, record);
+}
+
+export function getBuildReport(): DataSourceRecord[] {
+  return [...records().values()];
+}
+
+export function clearBuildReport(): void {
+  records().clear();
+}
+
+function describeOrigin(record: DataSourceRecord): string {
+  switch (record.origin) {
+    case 'live':
+      return `live, ${record.count} items`;
+    case 'cache':
+      return `cached copy from ${record.fetchedAt}${record.stale ? ' (stale)' : ''}, ${record.count} items`;
+    case 'sample':
+      return `sample data, ${record.count} items`;
+    case 'none':
+      return 'unavailable, no items';
+  }
+}
+
+export function formatBuildReport(report: DataSourceRecord[]): string {
+  if (report.length === 0) return 'Data sources: none recorded';
+
+  return [
+    'Data sources:',
+    ...report.map(
+      record =>
+        `  ${record.dataset} from ${record.source}: ${describeOrigin(record)}` +
+        (record.error ? ` [${record.error}]` : '')
+    ),
+  ].join('\n');
+}
+
+// Machine-readable form of the report, for deploy tooling and CI artifacts
+export interface BuildSummary {
+  generatedAt: string;
+  policy: DataSourcePolicy;
+  deployment: Deployment;
+  // True when every dataset came from its live source
+  live: boolean;
+  datasets: DataSourceRecord[];
+}
+
+export function createBuildSummary(
+  report: DataSourceRecord[],
+  context: { policy: DataSourcePolicy; deployment: Deployment; now?: Date }
+): BuildSummary {
+  return {
+    generatedAt: (context.now ?? new Date()).toISOString(),
+    policy: context.policy,
+    deployment: context.deployment,
+    live: report.every(record => record.origin === 'live'),
+    datasets: report,
+  };
+}
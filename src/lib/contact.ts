@@ -0,0 +1,138 @@
+// Contact form
+// Submissions are validated here, stored in the Supabase `contact_messages` table and
+// forwarded to the organizers by email. Like registrations.ts, this module is shared with
+// the browser and must stay free of server-only imports.
+
+export const INQUIRY_TYPES = ['partnership', 'speaking', 'sponsorship', 'general'] as const;
+export type InquiryType = (typeof INQUIRY_TYPES)[number];
+
+export interface ContactInput {
+  inquiryType: InquiryType;
+  name: string;
+  email: string;
+  organization?: string;
+  message: string;
+}
+
+export interface ContactFieldError {
+  field: keyof ContactInput;
+  message: string;
+}
+
+export type ContactInputResult =
+  | { valid: true; input: ContactInput }
+  | { valid: false; errors: ContactFieldError[] };
+
+export type ContactErrorCode = 'invalid_input' | 'rate_limited' | 'not_configured' | 'failed';
+
+export type ContactOutcome = { ok: true } | { ok: false; error: ContactErrorCode };
+
+export const CONTACT_PATH = '/api/contact';
+
+// Hidden field real visitors never see; bots that fill every input give themselves away
+export const HONEYPOT_FIELD = 'website';
+
+export const CONTACT_LIMITS = {
+  name: 100,
+  email: 254,
+  organization: 150,
+  message: 5000,
+  messageMin: 10,
+} as const;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function readString(values: Record<string, unknown>, key: string): string {
+  return typeof values[key] === 'string' ? (values[key] as string).trim() : '';
+}
+
+export function isInquiryType(value: unknown): value is InquiryType {
+  return typeof value === 'string' && (INQUIRY_TYPES as readonly string[]).includes(value);
+}
+
+export function isHoneypotFilled(body: Record<string, unknown>): boolean {
+  return readString(body, HONEYPOT_FIELD) !== '';
+}
+
+export function validateContactInput(body: unknown): ContactInputResult {
+  const values = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const inquiryType = values.inquiryType ?? 'general';
+  const name = readString(values, 'name');
+  const email = readString(values, 'email').toLowerCase();
+  const organization = readString(values, 'organization');
+  const message = readString(values, 'message');
+  const errors: ContactFieldError[] = [];
+
+  if (!isInquiryType(inquiryType)) {
+    errors.push({ field: 'inquiryType', message: `must be one of ${INQUIRY_TYPES.join(', ')}` });
+  }
+
+  if (!name) {
+    errors.push({ field: 'name', message: 'is required' });
+  } else if (name.length > CONTACT_LIMITS.name) {
+    errors.push({ field: 'name', message: `must be at most ${CONTACT_LIMITS.name} characters` });
+  }
+
+  if (!email) {
+    errors.push({ field: 'email', message: 'is required' });
+  } else if (email.length > CONTACT_LIMITS.email || !EMAIL_PATTERN.test(email)) {
+    errors.push({ field: 'email', message: 'is not a valid email address' });
+  }
+
+  if (organization.length > CONTACT_LIMITS.organization) {
+    errors.push({
+      field: 'organization',
+      message: `must be at most ${CONTACT_LIMITS.organization} characters`,
+    });
+  }
+
+  if (message.length < CONTACT_LIMITS.messageMin) {
+    errors.push({
+      field: 'message',
+      message: `must be at least ${CONTACT_LIMITS.messageMin} characters`,
+    });
+  } else if (message.length > CONTACT_LIMITS.message) {
+    errors.push({
+      field: 'message',
+      message: `must be at most ${CONTACT_LIMITS.message} characters`,
+    });
+  }
+
+  if (errors.length > 0) return { valid: false, errors };
+
+  return {
+    valid: true,
+    input: {
+      inquiryType: inquiryType as InquiryType,
+      name,
+      email,
+      organization: organization || undefined,
+      message,
+    },
+  };
+}
+
+const INQUIRY_LABELS: Record<InquiryType, string> = {
+  partnership: 'Partnership',
+  speaking: 'Speaking',
+  sponsorship: 'Sponsorship',
+  general: 'General',
+};
+
+// Plain-text notification for the organizers; replying goes straight to the sender
+export function formatContactEmail(input: ContactInput, siteName: string) {
+  const from = input.organization ? `${input.name} (${input.organization})` : input.name;
+
+  return {
+    subject: `[${siteName}] ${INQUIRY_LABELS[input.inquiryType]} enquiry from ${from}`,
+    text: [
+      `Type: ${INQUIRY_LABELS[input.inquiryType]}`,
+      `Name: ${input.name}`,
+      `Email: ${input.email}`,
+      ...(input.organization ? [`Organization: ${input.organization}`] : []),
+      '',
+      input.message,
+    ].join('\n'),
+    replyTo: input.email,
+  };
+}
@@ -0,0 +1,51 @@
+// Data Source Policy
+// Decides what happens when a real data source (Supabase) is missing or fails. `fallback` uses
+// the built-in sample data so the site can be worked on without credentials; `strict` throws,
+// so a production build with a broken secret fails instead of publishing placeholder events.
+// Development and tests default to `fallback`, everything else to `strict`.
+
+export type DataSourcePolicy = 'strict' | 'fallback';
+
+const POLICIES: DataSourcePolicy[] = ['strict', 'fallback'];
+
+type Env = Record<string, string | boolean | undefined>;
+
+export function resolveDataSourcePolicy(env: Env): DataSourcePolicy {
+  // DATA_SOURCE_POLICY=strict|fallback overrides the default for the environment
+  const configured = env.DATA_SOURCE_POLICY;
+  if (typeof configured === 'string' && configured) {
+    if (POLICIES.includes(configured as DataSourcePolicy)) return configured as DataSourcePolicy;
+    console.warn(`Ignoring unknown DATA_SOURCE_POLICY "${configured}" (use strict or fallback)`);
+  }
+
+  const development = env.DEV === true || env.NODE_ENV === 'development' || env.NODE_ENV === 'test';
+  return development ? 'fallback' : 'strict';
+}
+
+export function getDataSourcePolicy(): DataSourcePolicy {
+  // .env files reach import.meta.env; deployment variables only reach process.env
+  return resolveDataSourcePolicy({ ...process.env, ...import.meta.env });
+}
+
+export class DataSourceError extends Error {
+  constructor(
+    public readonly dataset: string,
+    public readonly reason: string
+  ) {
+    super(
+      `Could not load ${dataset}: ${reason}. Sample data is not used outside development; ` +
+        'fix the data source, or set DATA_SOURCE_POLICY=fallback to build with sample data.'
+    );
+    this.name = 'DataSourceError';
+  }
+}
+
+// Under `fallback` warn and return the sample; under `strict` throw
+export function sampleDataOrThrow<T>(dataset: string, reason: string, sample: T): T {
+  if (getDataSourcePolicy() === 'strict') {
+    throw new DataSourceError(dataset, reason);
+  }
+
+  console.warn(`Using sample ${dataset}: ${reason}`);
+  return sample;
+}
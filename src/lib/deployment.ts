@@ -0,0 +1,81 @@
+// Deployment Detection
+// The same build runs on Vercel (full site) and Cloudflare Pages (static pages only), in
+// production and for preview branches. `astro.config.mjs` uses this to set `site`, so canonical
+// URLs, feeds and the sitemap point at the deployment being built, and staging builds keep
+// search engines out. Pages also ask it whether the on-demand API routes are served, since the
+// Cloudflare deployment publishes the static pages alone.
+import { DEFAULT_SITE_URL } from './site-url';
+
+export type DeploymentPlatform = 'vercel' | 'cloudflare' | 'local';
+
+export interface Deployment {
+  platform: DeploymentPlatform;
+  production: boolean;
+  siteUrl: string;
+  // Whether /api/* routes run alongside the pages (registration, the contact form)
+  serverRoutes: boolean;
+}
+
+type Env = Record<string, string | undefined>;
+
+// Cloudflare Pages does not expose its production branch, so it is configurable
+const DEFAULT_PRODUCTION_BRANCH = 'main';
+
+function withProtocol(host: string): string {
+  return /^https?:\/\//.test(host) ? host : `https://${host}`;
+}
+
+// SITE_URL is the public address of the production site, as in the site settings
+function productionUrl(env: Env, platformUrl?: string): string {
+  return withProtocol(env.SITE_URL || platformUrl || DEFAULT_SITE_URL);
+}
+
+// SERVER_ROUTES=true|false overrides the platform default, e.g. for a static build made in CI.
+// Astro inlines "true" and "false" into import.meta.env as booleans, hence the String().
+function serverRoutes(env: Env, platformDefault: boolean): boolean {
+  const configured = String(env.SERVER_ROUTES ?? '');
+  return configured ? configured === 'true' : platformDefault;
+}
+
+export function resolveDeployment(env: Env): Deployment {
+  // DEPLOY_ENV=production|staging overrides the platform's own notion
+  const forced = env.DEPLOY_ENV ? env.DEPLOY_ENV === 'production' : undefined;
+
+  if (env.VERCEL) {
+    const production = forced ?? env.VERCEL_ENV === 'production';
+    const previewHost = env.VERCEL_BRANCH_URL || env.VERCEL_URL;
+    return {
+      platform: 'vercel',
+      production,
+      siteUrl:
+        production || !previewHost
+          ? productionUrl(env, env.VERCEL_PROJECT_PRODUCTION_URL)
+          : withProtocol(previewHost),
+      serverRoutes: serverRoutes(env, true),
+    };
+  }
+
+  if (env.CF_PAGES) {
+    const branch = env.PRODUCTION_BRANCH || DEFAULT_PRODUCTION_BRANCH;
+    const production = forced ?? env.CF_PAGES_BRANCH === branch;
+    return {
+      platform: 'cloudflare',
+      production,
+      siteUrl:
+        production || !env.CF_PAGES_URL ? productionUrl(env) : withProtocol(env.CF_PAGES_URL),
+      serverRoutes: serverRoutes(env, false),
+    };
+  }
+
+  return {
+    platform: 'local',
+    production: forced ?? true,
+    siteUrl: productionUrl(env),
+    serverRoutes: serverRoutes(env, true),
+  };
+}
+
+export function getDeployment(): Deployment {
+  // .env files reach import.meta.env; deployment variables only reach process.env
+  return resolveDeployment({ ...process.env, ...import.meta.env });
+}
@@ -0,0 +1,224 @@
+// Event administration
+// Turns organizer input from the /admin/events pages into `events` rows for the write
+// functions in supabase.ts. Rows are checked with the same validator that guards the public
+// pages, so the admin area can't save an event the site would later skip.
+import type { Event } from '../types';
+import { getTimezoneOffset } from './event-status';
+import type { EventFieldError } from './event-validation';
+
+// Fields organizers edit; ids, counts and timestamps are managed by the database
+export type EventInput = Pick<
+  Event,
+  'title' | 'description' | 'startDate' | 'locationType' | 'category'
+> &
+  Partial<
+    Pick<
+      Event,
+      | 'slug'
+      | 'excerpt'
+      | 'endDate'
+      | 'timezone'
+      | 'venue'
+      | 'address'
+      | 'city'
+      | 'virtualLink'
+      | 'coverImage'
+      | 'tags'
+      | 'status'
+      | 'registrationUrl'
+      | 'maxAttendees'
+      | 'isFeatured'
+    >
+  >;
+
+export type EventMutationErrorCode =
+  | 'invalid_input'
+  | 'not_configured'
+  | 'not_found'
+  | 'slug_taken'
+  | 'failed';
+
+export type EventMutationOutcome<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: EventMutationErrorCode; errors?: EventFieldError[] };
+
+export const EVENT_MUTATION_MESSAGES: Record<EventMutationErrorCode, string> = {
+  invalid_input: 'Some fields need attention.',
+  not_configured: 'Supabase is not configured for this deployment.',
+  not_found: 'This event no longer exists.',
+  slug_taken: 'Another event already uses this slug.',
+  failed: 'The change could not be saved. Please try again.',
+};
+
+export const EVENT_MUTATION_STATUS: Record<EventMutationErrorCode, number> = {
+  invalid_input: 400,
+  not_configured: 503,
+  not_found: 404,
+  slug_taken: 409,
+  failed: 500,
+};
+
+const EVENT_COLUMNS: Record<keyof EventInput, string> = {
+  title: 'title',
+  slug: 'slug',
+  description: 'description',
+  excerpt: 'excerpt',
+  startDate: 'start_date',
+  endDate: 'end_date',
+  timezone: 'timezone',
+  locationType: 'location_type',
+  venue: 'venue',
+  address: 'address',
+  city: 'city',
+  virtualLink: 'virtual_link',
+  coverImage: 'cover_image',
+  category: 'category',
+  tags: 'tags',
+  status: 'status',
+  registrationUrl: 'registration_url',
+  maxAttendees: 'max_attendees',
+  isFeatured: 'is_featured',
+};
+
+const FIELDS_BY_COLUMN: Record<string, string> = Object.fromEntries(
+  Object.entries(EVENT_COLUMNS).map(([field, column]) => [column, field])
+);
+
+// Map camelCase input to snake_case columns; only fields present in `input` are written and
+// empty values clear the column
+export function toEventRow(input: Partial<EventInput>): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+
+  for (const [field, column] of Object.entries(EVENT_COLUMNS)) {
+    if (!(field in input)) continue;
+    const value = input[field as keyof EventInput];
+
+    if (value instanceof Date) {
+      // Invalid dates are passed through as text so validation can name the field
+      row[column] = isNaN(value.getTime()) ? String(value) : value.toISOString();
+    } else {
+      row[column] = value === undefined || value === '' ? null : value;
+    }
+  }
+
+  return row;
+}
+
+// Validation reports column names; the admin form works with input field names
+export function toInputErrors(errors: EventFieldError[]): EventFieldError[] {
+  return errors.map(error => ({ ...error, field: FIELDS_BY_COLUMN[error.field] ?? error.field }));
+}
+
+export function slugify(text: string): string {
+  const slug = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80)
+    .replace(/-+$/, '');
+  return slug || 'event';
+}
+
+// First free variant of `base`: base, base-2, base-3, ...
+export function uniqueSlug(base: string, taken: Iterable<string>): string {
+  const used = new Set(taken);
+  if (!used.has(base)) return base;
+
+  let suffix = 2;
+  while (used.has(`${base}-${suffix}`)) suffix++;
+  return `${base}-${suffix}`;
+}
+
+// Admin forms edit times on the event's own wall clock (<input type="datetime-local">)
+export function toDateTimeLocal(date: Date, timezone: string): string {
+  const local = new Date(date.getTime() + getTimezoneOffset(date, timezone));
+  return local.toISOString().slice(0, 16);
+}
+
+export function fromDateTimeLocal(value: string, timezone: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(value)) return null;
+  const wallClock = Date.parse(`${value}:00Z`);
+  if (isNaN(wallClock)) return null;
+
+  try {
+    // The offset depends on the instant itself, so refine once around DST changes
+    const guess = wallClock - getTimezoneOffset(new Date(wallClock), timezone);
+    return new Date(wallClock - getTimezoneOffset(new Date(guess), timezone));
+  } catch {
+    // Unknown timezone; validation reports it
+    return null;
+  }
+}
+
+// Raw form values, kept as strings so a rejected submission can be shown again as typed
+export type EventFormValues = Record<keyof EventInput, string>;
+
+const FORM_FIELDS = Object.keys(EVENT_COLUMNS) as (keyof EventInput)[];
+
+export function readEventForm(form: FormData): EventFormValues {
+  return Object.fromEntries(
+    FORM_FIELDS.map(field => {
+      const value = form.get(field);
+      return [field, typeof value === 'string' ? value.trim() : ''];
+    })
+  ) as EventFormValues;
+}
+
+export function toEventFormValues(event?: Event): EventFormValues {
+  const timezone = event?.timezone || 'Asia/Jakarta';
+
+  return {
+    title: event?.title ?? '',
+    slug: event?.slug ?? '',
+    description: event?.description ?? '',
+    excerpt: event?.excerpt ?? '',
+    startDate: event ? toDateTimeLocal(event.startDate, timezone) : '',
+    endDate: event?.endDate ? toDateTimeLocal(event.endDate, timezone) : '',
+    timezone,
+    locationType: event?.locationType ?? 'virtual',
+    venue: event?.venue ?? '',
+    address: event?.address ?? '',
+    city: event?.city ?? '',
+    virtualLink: event?.virtualLink ?? '',
+    coverImage: event?.coverImage ?? '',
+    category: event?.category ?? '',
+    tags: event?.tags.join(', ') ?? '',
+    status: event?.status ?? 'upcoming',
+    registrationUrl: event?.registrationUrl ?? '',
+    maxAttendees: event?.maxAttendees?.toString() ?? '',
+    isFeatured: event?.isFeatured ? 'on' : '',
+  };
+}
+
+export function parseEventForm(values: EventFormValues): EventInput {
+  const timezone = values.timezone || 'Asia/Jakarta';
+  const date = (value: string) => (value ? fromDateTimeLocal(value, timezone) : null);
+
+  return {
+    title: values.title,
+    // Left empty, the slug is generated from the title (or kept when editing)
+    slug: values.slug || undefined,
+    description: values.description,
+    excerpt: values.excerpt,
+    startDate: date(values.startDate) ?? new Date(NaN),
+    endDate: values.endDate ? (date(values.endDate) ?? new Date(NaN)) : undefined,
+    timezone,
+    locationType: values.locationType as Event['locationType'],
+    venue: values.venue,
+    address: values.address,
+    city: values.city,
+    virtualLink: values.virtualLink,
+    coverImage: values.coverImage,
+    category: values.category,
+    tags: values.tags
+      .split(',')
+      .map(tag => tag.trim())
+      .filter(Boolean),
+    status: (values.status || 'upcoming') as Event['status'],
+    registrationUrl: values.registrationUrl,
+    maxAttendees: values.maxAttendees ? Number(values.maxAttendees) : undefined,
+    isFeatured: values.isFeatured === 'on',
+  };
+}
@@ -0,0 +1,203 @@
+// Markdown events
+// Chapters without database access publish events as Markdown files in src/content/events,
+// one file per event: the frontmatter holds the Event fields, the body is the description.
+// The schema here backs the `events` content collection (src/content.config.ts) and checks
+// the files written by the CSV import (scripts/import-events.ts). Event series work the same
+// way from src/content/series.
+import { z } from 'astro/zod';
+import type { Event, EventSeries } from '../types';
+import { isValidTimezone } from './event-validation';
+import { parseRecurrenceRule } from './recurrence';
+import type { EventSource } from './event-sources';
+
+export const EVENT_CONTENT_DIR = 'src/content/events';
+export const SERIES_CONTENT_DIR = 'src/content/series';
+
+// Prefix for the ids of Markdown events, so they never clash with Supabase ids
+export const CONTENT_EVENT_ID_PREFIX = 'content:';
+
+const httpUrl = z
+  .string()
+  .url()
+  .refine(value => /^https?:\/\//.test(value), 'must be an http(s) URL');
+
+// Field names and defaults follow Event; ids, counts and timestamps are derived
+const eventFields = z.object({
+  title: z.string().trim().min(1),
+  excerpt: z.string().default(''),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().optional(),
+  timezone: z
+    .string()
+    .default('Asia/Jakarta')
+    .refine(isValidTimezone, 'must be an IANA timezone such as Asia/Jakarta'),
+  locationType: z.enum(['physical', 'virtual', 'hybrid']).default('virtual'),
+  venue: z.string().optional(),
+  address: z.string().optional(),
+  city: z.string().optional(),
+  virtualLink: httpUrl.optional(),
+  coverImage: z.string().default(''),
+  category: z.string().trim().min(1),
+  tags: z.array(z.string()).default([]),
+  status: z.enum(['upcoming', 'ongoing', 'completed', 'cancelled']).default('upcoming'),
+  // Registrations are stored in Supabase, so Markdown events link to an external sign-up page
+  registrationUrl: httpUrl,
+  maxAttendees: z.number().int().nonnegative().optional(),
+  isFeatured: z.boolean().default(false),
+  // Defaults to the start date
+  publishedAt: z.coerce.date().optional(),
+  // Defaults to publishedAt
+  updatedAt: z.coerce.date().optional(),
+  // Drafts are kept out of the site
+  draft: z.boolean().default(false),
+});
+
+export const eventFrontmatterSchema = eventFields.refine(
+  data => !data.endDate || data.endDate >= data.startDate,
+  { message: 'is before startDate', path: ['endDate'] }
+);
+
+export type EventFrontmatter = z.output<typeof eventFrontmatterSchema>;
+
+const seriesOverrideSchema = z.object({
+  // The local date the recurrence rule gives the session, even when the session moves
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be a date such as 2026-11-19'),
+  cancelled: z.boolean().default(false),
+  title: z.string().trim().min(1).optional(),
+  excerpt: z.string().optional(),
+  description: z.string().optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  locationType: z.enum(['physical', 'virtual', 'hybrid']).optional(),
+  venue: z.string().optional(),
+  address: z.string().optional(),
+  city: z.string().optional(),
+  virtualLink: httpUrl.optional(),
+  registrationUrl: httpUrl.optional(),
+});
+
+// A series has no status or attendee limit of its own. Like Markdown events, its sessions link
+// out for registration. Also checks Supabase `event_series` rows once their columns are renamed to these fields.
+export const eventSeriesSchema = eventFields
+  .omit({ status: true, maxAttendees: true })
+  .extend({
+    recurrence: z.string().superRefine((value, context) => {
+      const result = parseRecurrenceRule(value);
+      if (!result.valid) context.addIssue({ code: z.ZodIssueCode.custom, message: result.error });
+    }),
+    overrides: z.array(seriesOverrideSchema).default([]),
+  })
+  .superRefine((data, context) => {
+    if (data.endDate && data.endDate < data.startDate) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'is before startDate',
+        path: ['endDate'],
+      });
+    }
+    data.overrides.forEach((override, index) => {
+      if (data.overrides.findIndex(other => other.date === override.date) !== index) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `has a second override for ${override.date}`,
+          path: ['overrides', index, 'date'],
+        });
+      }
+    });
+  });
+
+export type EventSeriesFrontmatter = z.output<typeof eventSeriesSchema>;
+
+// `slug` is the file name without the extension
+export function frontmatterToEvent(slug: string, data: EventFrontmatter, body = ''): Event {
+  const publishedAt = data.publishedAt ?? data.startDate;
+
+  return {
+    id: `${CONTENT_EVENT_ID_PREFIX}${slug}`,
+    title: data.title,
+    slug,
+    description: body.trim(),
+    excerpt: data.excerpt,
+    startDate: data.startDate,
+    endDate: data.endDate,
+    timezone: data.timezone,
+    locationType: data.locationType,
+    venue: data.venue,
+    address: data.address,
+    city: data.city,
+    virtualLink: data.virtualLink,
+    coverImage: data.coverImage,
+    category: data.category,
+    tags: data.tags,
+    status: data.status,
+    registrationUrl: data.registrationUrl,
+    maxAttendees: data.maxAttendees,
+    registeredCount: 0,
+    waitlistCount: 0,
+    createdAt: publishedAt,
+    updatedAt: data.updatedAt ?? publishedAt,
+    publishedAt,
+    isFeatured: data.isFeatured,
+    isDraft: data.draft,
+  };
+}
+
+export function frontmatterToSeries(
+  slug: string,
+  data: EventSeriesFrontmatter,
+  body = '',
+  id = `${CONTENT_EVENT_ID_PREFIX}${slug}`
+): EventSeries {
+  const publishedAt = data.publishedAt ?? data.startDate;
+
+  return {
+    id,
+    title: data.title,
+    slug,
+    description: body.trim(),
+    excerpt: data.excerpt,
+    recurrence: data.recurrence,
+    startDate: data.startDate,
+    endDate: data.endDate,
+    timezone: data.timezone,
+    locationType: data.locationType,
+    venue: data.venue,
+    address: data.address,
+    city: data.city,
+    virtualLink: data.virtualLink,
+    coverImage: data.coverImage,
+    category: data.category,
+    tags: data.tags,
+    registrationUrl: data.registrationUrl,
+    isFeatured: data.isFeatured,
+    overrides: data.overrides,
+    updatedAt: data.updatedAt ?? publishedAt,
+    publishedAt,
+    isDraft: data.draft,
+  };
+}
+
+// Event source over the `events` and `series` content collections. astro:content only exists inside an Astro
+// build, so it is imported when the source is first read.
+export const contentEventSource: EventSource = {
+  id: 'content',
+  label: 'Markdown content',
+
+  async getEvents() {
+    const { getCollection } = await import('astro:content');
+    const entries = await getCollection('events', entry => !entry.data.draft);
+    return entries.map(entry => frontmatterToEvent(entry.id, entry.data, entry.body));
+  },
+
+  async getEventBySlug(slug) {
+    const { getEntry } = await import('astro:content');
+    const entry = await getEntry('events', slug);
+    return entry && !entry.data.draft ? frontmatterToEvent(entry.id, entry.data, entry.body) : null;
+  },
+
+  async getSeries() {
+    const { getCollection } = await import('astro:content');
+    const entries = await getCollection('series', entry => !entry.data.draft);
+    return entries.map(entry => frontmatterToSeries(entry.id, entry.data, entry.body));
+  },
+};
@@ -0,0 +1,411 @@
+// CSV event import
+// Turns a spreadsheet export, such as the responses of a Google Form for proposing events,
+// into Markdown files for the `events` content collection. Columns are matched by header
+// (the Event field name or a common form question such as "Event title" or "Registration
+// link"); unknown columns are ignored. Each row is checked against the same schema as the
+// collection, so an imported file never breaks the build. scripts/import-events.ts does the
+// file handling.
+import type { EventFieldError } from './event-validation';
+import { fromDateTimeLocal, slugify, toDateTimeLocal, uniqueSlug } from './event-admin';
+import { getTimezoneOffset } from './event-status';
+import { eventFrontmatterSchema } from './event-content';
+
+type ImportColumn =
+  | 'title'
+  | 'slug'
+  | 'description'
+  | 'excerpt'
+  | 'startDate'
+  | 'startTime'
+  | 'endDate'
+  | 'endTime'
+  | 'timezone'
+  | 'locationType'
+  | 'venue'
+  | 'address'
+  | 'city'
+  | 'virtualLink'
+  | 'coverImage'
+  | 'category'
+  | 'tags'
+  | 'status'
+  | 'registrationUrl'
+  | 'maxAttendees'
+  | 'isFeatured';
+
+// Headers accepted besides the column name itself, compared after normalizeHeader()
+const COLUMN_ALIASES: Record<ImportColumn, string[]> = {
+  title: ['event title', 'event name'],
+  slug: [],
+  description: ['details', 'event description'],
+  excerpt: ['summary', 'short description'],
+  startDate: ['date', 'start', 'event date'],
+  startTime: ['time'],
+  endDate: ['end'],
+  endTime: [],
+  timezone: ['time zone'],
+  locationType: ['format', 'event format'],
+  venue: ['location'],
+  address: [],
+  city: [],
+  virtualLink: ['meeting link', 'online link', 'zoom link'],
+  coverImage: ['image', 'banner'],
+  category: ['type', 'event type'],
+  tags: ['topics', 'keywords'],
+  status: [],
+  registrationUrl: ['registration link', 'sign up link', 'rsvp link'],
+  maxAttendees: ['capacity', 'seats'],
+  isFeatured: ['featured'],
+};
+
+// Frontmatter keys in the order they are written
+const FRONTMATTER_KEYS = [
+  'title',
+  'excerpt',
+  'startDate',
+  'endDate',
+  'timezone',
+  'locationType',
+  'venue',
+  'address',
+  'city',
+  'virtualLink',
+  'coverImage',
+  'category',
+  'tags',
+  'status',
+  'registrationUrl',
+  'maxAttendees',
+  'isFeatured',
+] as const;
+
+type FrontmatterValue = string | number | boolean | string[];
+
+export type Frontmatter = Partial<Record<(typeof FRONTMATTER_KEYS)[number], FrontmatterValue>>;
+
+// Slash dates are ambiguous: 11/20/2026 (mdy) or 20/11/2026 (dmy, e.g. Indonesian locale)
+export type DateOrder = 'dmy' | 'mdy';
+
+export interface ImportOptions {
+  // For rows without a timezone column
+  timezone?: string;
+  dateOrder?: DateOrder;
+}
+
+export interface ImportedEvent {
+  slug: string;
+  frontmatter: Frontmatter;
+  description: string;
+}
+
+export interface SkippedRow {
+  // 1-based data row, not counting the header
+  row: number;
+  title?: string;
+  errors: EventFieldError[];
+}
+
+export interface ImportReport {
+  events: ImportedEvent[];
+  skipped: SkippedRow[];
+  // Headers that matched no column
+  ignoredColumns: string[];
+}
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes. Line endings are
+// normalized to \n, also inside fields.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// "Registration Link:" and "registrationLink" both become "registration link"
+function normalizeHeader(header: string): string {
+  return header
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+const COLUMNS_BY_HEADER = new Map<string, ImportColumn>(
+  (Object.entries(COLUMN_ALIASES) as [ImportColumn, string[]][]).flatMap(([column, aliases]) =>
+    [normalizeHeader(column), ...aliases].map(header => [header, column] as const)
+  )
+);
+
+function parseLocalDate(value: string, order: DateOrder): string | null {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const slash = value.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/);
+  if (!iso && !slash) return null;
+
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : order === 'dmy'
+      ? [slash![3], slash![2], slash![1]]
+      : [slash![3], slash![1], slash![2]];
+  const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+
+  // Rejects 2026-02-30 and month 20 of a misread date order
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date) ? date : null;
+}
+
+// 19:00, 19.00, 7:00 PM, 7:00:00 PM
+function parseLocalTime(value: string): string | null {
+  const match = value.match(/^(\d{1,2})[:.](\d{2})(?::\d{2})?\s*([ap]\.?m\.?)?$/i);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const meridiem = match[3]?.[0].toLowerCase();
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'p' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+// Wall-clock time with the zone's offset, e.g. 2026-11-20T19:00:00+07:00
+function formatOffsetDateTime(date: Date, timezone: string): string {
+  const offset = getTimezoneOffset(date, timezone) / 60_000;
+  const sign = offset < 0 ? '-' : '+';
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+  return `${toDateTimeLocal(date, timezone)}:00${sign}${hours}:${minutes}`;
+}
+
+// A date and time on the event's wall clock, given in one cell ("2026-11-20 19:00") or two
+function parseDateTime(
+  dateCell: string,
+  timeCell: string,
+  timezone: string,
+  order: DateOrder
+): string | { error: string } {
+  // Already an absolute timestamp
+  if (/T\d{2}:\d{2}.*(Z|[+-]\d{2}:?\d{2})$/.test(dateCell) && !isNaN(Date.parse(dateCell))) {
+    return dateCell;
+  }
+
+  const [datePart, ...rest] = dateCell.split(/[\sT]+/);
+  const timePart = timeCell || rest.join(' ');
+  const date = parseLocalDate(datePart, order);
+  if (!date) {
+    return { error: `"${dateCell}" is not a date (use YYYY-MM-DD or the ${order} order)` };
+  }
+  if (!timePart) return { error: 'has no time' };
+  const time = parseLocalTime(timePart);
+  if (!time) return { error: `"${timePart}" is not a time` };
+
+  const instant = fromDateTimeLocal(`${date}T${time}`, timezone);
+  return instant ? formatOffsetDateTime(instant, timezone) : { error: 'could not be resolved' };
+}
+
+const LOCATION_TYPE_ALIASES: Record<string, string> = {
+  online: 'virtual',
+  daring: 'virtual',
+  offline: 'physical',
+  'in person': 'physical',
+  onsite: 'physical',
+  'on site': 'physical',
+  luring: 'physical',
+};
+
+const YES = ['yes', 'y', 'true', '1', 'ya'];
+const NO = ['no', 'n', 'false', '0', 'tidak', ''];
+
+function parseBoolean(value: string): boolean | string {
+  const normalized = value.trim().toLowerCase();
+  if (YES.includes(normalized)) return true;
+  if (NO.includes(normalized)) return false;
+  return value;
+}
+
+function importRow(
+  cells: Partial<Record<ImportColumn, string>>,
+  options: Required<ImportOptions>
+): { frontmatter: Frontmatter; errors: EventFieldError[] } {
+  const errors: EventFieldError[] = [];
+  const frontmatter: Frontmatter = {};
+  const set = (key: keyof Frontmatter, value: FrontmatterValue | undefined) => {
+    if (value !== undefined && value !== '') frontmatter[key] = value;
+  };
+
+  const timezone = cells.timezone || options.timezone;
+  const dateTime = (field: string, date?: string, time?: string) => {
+    const result = parseDateTime(date ?? '', time ?? '', timezone, options.dateOrder);
+    if (typeof result === 'string') return result;
+    errors.push({ field, message: result.error });
+    return undefined;
+  };
+
+  for (const key of ['title', 'excerpt', 'venue', 'address', 'city'] as const) {
+    set(key, cells[key]);
+  }
+  if (cells.startDate) {
+    set('startDate', dateTime('startDate', cells.startDate, cells.startTime));
+  }
+  if (cells.endDate || cells.endTime) {
+    // An end time alone is on the start day
+    const endDate = cells.endDate || cells.startDate?.split(/[\sT]+/)[0];
+    set('endDate', dateTime('endDate', endDate, cells.endTime));
+  }
+  set('timezone', timezone);
+
+  const locationType = cells.locationType?.trim().toLowerCase().replace(/-/g, ' ');
+  set('locationType', locationType && (LOCATION_TYPE_ALIASES[locationType] ?? locationType));
+  for (const key of ['virtualLink', 'coverImage', 'category', 'registrationUrl'] as const) {
+    set(key, cells[key]);
+  }
+  set('status', cells.status?.toLowerCase());
+  if (cells.tags) {
+    set(
+      'tags',
+      cells.tags
+        .split(/[,;]/)
+        .map(tag => tag.trim())
+        .filter(Boolean)
+    );
+  }
+  if (cells.maxAttendees) {
+    set(
+      'maxAttendees',
+      /^\d+$/.test(cells.maxAttendees) ? Number(cells.maxAttendees) : cells.maxAttendees
+    );
+  }
+  if (cells.isFeatured !== undefined) {
+    set('isFeatured', parseBoolean(cells.isFeatured));
+  }
+
+  // The schema only sees fields whose own parsing worked, so errors are not reported twice
+  const result = eventFrontmatterSchema.safeParse(frontmatter);
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      const field = issue.path.join('.');
+      const missing = issue.code === 'invalid_type' && issue.received === 'undefined';
+      if (!errors.some(error => error.field === field)) {
+        errors.push({ field: field || 'row', message: missing ? 'is required' : issue.message });
+      }
+    }
+  }
+
+  return { frontmatter, errors };
+}
+
+export function importEventsFromCsv(text: string, options: ImportOptions = {}): ImportReport {
+  const [headers = [], ...rows] = parseCsv(text);
+  const columns = headers.map(header => COLUMNS_BY_HEADER.get(normalizeHeader(header)));
+  const taken = new Set<string>();
+  const settings = {
+    timezone: options.timezone ?? 'Asia/Jakarta',
+    dateOrder: options.dateOrder ?? 'dmy',
+  };
+
+  const report: ImportReport = {
+    events: [],
+    skipped: [],
+    ignoredColumns: headers.filter((header, index) => header.trim() && !columns[index]),
+  };
+
+  rows.forEach((row, index) => {
+    if (row.every(cell => !cell.trim())) return;
+
+    const cells: Partial<Record<ImportColumn, string>> = {};
+    row.forEach((cell, column) => {
+      const key = columns[column];
+      // The first of two columns for the same field wins
+      if (key && cells[key] === undefined) cells[key] = cell.trim();
+    });
+
+    const { frontmatter, errors } = importRow(cells, settings);
+    const slug = cells.slug || slugify(cells.title ?? '');
+    if (cells.slug && slug !== slugify(slug)) {
+      errors.push({
+        field: 'slug',
+        message: `"${slug}" must be lowercase letters, numbers and hyphens`,
+      });
+    }
+
+    if (errors.length > 0) {
+      report.skipped.push({ row: index + 1, title: cells.title || undefined, errors });
+      return;
+    }
+
+    const unique = uniqueSlug(slug, taken);
+    taken.add(unique);
+    report.events.push({ slug: unique, frontmatter, description: cells.description ?? '' });
+  });
+
+  return report;
+}
+
+// JSON strings are valid YAML, and quoting every string keeps values such as "10:00" or "yes"
+// from being read as another type
+function toYamlValue(value: FrontmatterValue): string {
+  return Array.isArray(value)
+    ? `[${value.map(item => JSON.stringify(item)).join(', ')}]`
+    : JSON.stringify(value);
+}
+
+export function toEventMarkdown(event: ImportedEvent): string {
+  const lines = FRONTMATTER_KEYS.filter(key => event.frontmatter[key] !== undefined).map(
+    key => `${key}: ${toYamlValue(event.frontmatter[key]!)}`
+  );
+  const body = event.description.trim();
+
+  return ['---', ...lines, '---', '', ...(body ? [body, ''] : [])].join('\n');
+}
+
+export function formatImportSummary(report: ImportReport): string {
+  const total = report.events.length + report.skipped.length;
+  const lines = [
+    `Event import: ${report.events.length}/${total} row(s) imported, ${report.skipped.length} skipped`,
+    ...report.skipped.map(
+      skipped =>
+        `  - row ${skipped.row} (${skipped.title ?? 'untitled'}): ` +
+        skipped.errors.map(error => `${error.field} ${error.message}`).join('; ')
+    ),
+  ];
+  if (report.ignoredColumns.length > 0) {
+    lines.push(`Ignored columns: ${report.ignoredColumns.join(', ')}`);
+  }
+  return lines.join('\n');
+}
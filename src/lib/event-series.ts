@@ -0,0 +1,132 @@
+// Event Series
+// Recurring events such as a monthly talk or a multi-session bootcamp. A series holds the shared
+// details once, with a recurrence rule (recurrence.ts) that is evaluated in the series timezone,
+// so a 19:00 session stays at 19:00 across DST changes. Sessions are generated at build time as
+// ordinary events: event pages, the calendar feed and the sitemap list them like any other.
+// Overrides change or cancel one session, identified by the local date the rule gives it.
+import type { Event, EventSeries, EventSeriesRef } from '../types';
+import { fromDateTimeLocal, toDateTimeLocal } from './event-admin';
+import { getOccurrenceDates, parseRecurrenceRule } from './recurrence';
+
+// Open-ended series get sessions up to this far after the build
+export const SERIES_HORIZON_DAYS = 180;
+
+export function getSeriesPath(slug: string): string {
+  return `/events/series/${slug}`;
+}
+
+// e.g. data-talk-2026-11-19
+export function getSessionSlug(seriesSlug: string, date: string): string {
+  return `${seriesSlug}-${date}`;
+}
+
+function localDate(date: Date, timezone: string): string {
+  return toDateTimeLocal(date, timezone).slice(0, 10);
+}
+
+// Every session from the first one on, past sessions included
+export function expandEventSeries(series: EventSeries, now: Date = new Date()): Event[] {
+  const result = parseRecurrenceRule(series.recurrence);
+  if (!result.valid) {
+    console.warn(`Skipping event series ${series.slug}: recurrence ${result.error}`);
+    return [];
+  }
+
+  const { rule } = result;
+  const { timezone } = series;
+  const [firstDate, startTime] = toDateTimeLocal(series.startDate, timezone).split('T');
+  const openEnded = !rule.count && !rule.until;
+  const until = rule.until && rule.until.length > 10 ? new Date(rule.until) : undefined;
+  const horizon = new Date(now.getTime() + SERIES_HORIZON_DAYS * 86_400_000);
+  const last = openEnded ? localDate(horizon, timezone) : until && localDate(until, timezone);
+
+  const sessions = getOccurrenceDates(rule, firstDate, last)
+    .map(date => ({ date, start: fromDateTimeLocal(`${date}T${startTime}`, timezone) }))
+    .filter((session): session is { date: string; start: Date } => !!session.start)
+    .filter(session => !until || session.start <= until);
+
+  const overrides = new Map(series.overrides.map(override => [override.date, override]));
+  const lastSession = sessions.at(-1)?.date ?? firstDate;
+  const unmatched = series.overrides.filter(
+    override =>
+      !sessions.some(session => session.date === override.date) &&
+      (!openEnded || override.date <= lastSession)
+  );
+  if (unmatched.length > 0) {
+    const dates = unmatched.map(override => override.date).join(', ');
+    console.warn(`Event series ${series.slug} has no session on ${dates}; overrides ignored`);
+  }
+
+  const duration = series.endDate && series.endDate.getTime() - series.startDate.getTime();
+
+  return sessions.map(({ date, start }, index): Event => {
+    const override = overrides.get(date);
+    const startDate = override?.startDate ?? start;
+    const endDate =
+      override?.endDate ??
+      (duration === undefined ? undefined : new Date(startDate.getTime() + duration));
+
+    return {
+      id: `${series.id}:${date}`,
+      title: override?.title ?? series.title,
+      slug: getSessionSlug(series.slug, date),
+      description: override?.description ?? series.description,
+      excerpt: override?.excerpt ?? series.excerpt,
+      startDate,
+      endDate,
+      timezone,
+      locationType: override?.locationType ?? series.locationType,
+      venue: override?.venue ?? series.venue,
+      address: override?.address ?? series.address,
+      city: override?.city ?? series.city,
+      virtualLink: override?.virtualLink ?? series.virtualLink,
+      coverImage: series.coverImage,
+      category: series.category,
+      tags: series.tags,
+      status: override?.cancelled ? 'cancelled' : 'upcoming',
+      registrationUrl: override?.registrationUrl ?? series.registrationUrl,
+      registeredCount: 0,
+      waitlistCount: 0,
+      createdAt: series.publishedAt,
+      updatedAt: series.updatedAt,
+      publishedAt: series.publishedAt,
+      isFeatured: series.isFeatured,
+      series: {
+        slug: series.slug,
+        title: series.title,
+        session: index + 1,
+        sessions: openEnded ? undefined : sessions.length,
+      },
+    };
+  });
+}
+
+export interface EventGroup {
+  // Undefined for an event that is not part of a series
+  series?: Pick<EventSeriesRef, 'slug' | 'title'>;
+  events: Event[];
+}
+
+// The sessions of a series are gathered where the first of them appears; other events stay
+// on their own, in order
+export function groupEventsBySeries(events: Event[]): EventGroup[] {
+  const groups: EventGroup[] = [];
+  const bySeries = new Map<string, EventGroup>();
+
+  for (const event of events) {
+    if (!event.series) {
+      groups.push({ events: [event] });
+      continue;
+    }
+
+    let group = bySeries.get(event.series.slug);
+    if (!group) {
+      group = { series: { slug: event.series.slug, title: event.series.title }, events: [] };
+      bySeries.set(event.series.slug, group);
+      groups.push(group);
+    }
+    group.events.push(event);
+  }
+
+  return groups;
+}
@@ -0,0 +1,87 @@
+// Event Sources
+// Where public events come from. `EVENT_SOURCES` lists the sources to read, in priority order,
+// e.g. `EVENT_SOURCES=content` for a chapter that publishes Markdown files only, or
+// `EVENT_SOURCES=supabase,content` to add Markdown events to the database ones. When the same
+// slug appears in several sources, the earlier source wins. Event series (event-series.ts) are
+// read from the same sources.
+import type { Event, EventSeries } from '../types';
+import { supabaseEventSource } from './supabase';
+import { contentEventSource } from './event-content';
+
+export interface EventSource {
+  id: EventSourceId;
+  // Shown in warnings and the build report
+  label: string;
+  // Published events; throws when the source is unavailable
+  getEvents(): Promise<Event[]>;
+  // Null when the source has no published event with the slug
+  getEventBySlug(slug: string): Promise<Event | null>;
+  // Published event series, with their recurrence not yet expanded
+  getSeries(): Promise<EventSeries[]>;
+}
+
+export const EVENT_SOURCE_IDS = ['supabase', 'content'] as const;
+
+export type EventSourceId = (typeof EVENT_SOURCE_IDS)[number];
+
+export const DEFAULT_EVENT_SOURCES: EventSourceId[] = ['supabase'];
+
+type Env = Record<string, string | boolean | undefined>;
+
+// An unknown id is a configuration error rather than a source to skip, since skipping it
+// would silently drop its events
+export function parseEventSourceIds(env: Env): EventSourceId[] {
+  const configured = typeof env.EVENT_SOURCES === 'string' ? env.EVENT_SOURCES : '';
+  const ids = configured
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter(Boolean);
+  if (ids.length === 0) return DEFAULT_EVENT_SOURCES;
+
+  const unknown = ids.filter(id => !EVENT_SOURCE_IDS.includes(id as EventSourceId));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown EVENT_SOURCES entry "${unknown.join('", "')}" (use ${EVENT_SOURCE_IDS.join(', ')})`
+    );
+  }
+
+  return [...new Set(ids as EventSourceId[])];
+}
+
+export function getEventSourceIds(): EventSourceId[] {
+  // .env files reach import.meta.env; deployment variables only reach process.env
+  return parseEventSourceIds({ ...process.env, ...import.meta.env });
+}
+
+export function getEventSources(): EventSource[] {
+  // Built on demand rather than at load time: supabase.ts and this module import each other
+  const sources: Record<EventSourceId, EventSource> = {
+    supabase: supabaseEventSource,
+    content: contentEventSource,
+  };
+  return getEventSourceIds().map(id => sources[id]);
+}
+
+// Merge per-source lists, keeping the first event for a slug and sorting by start date
+export function mergeEvents(lists: Event[][]): Event[] {
+  const seen = new Set<string>();
+  const merged: Event[] = [];
+
+  for (const event of lists.flat()) {
+    if (seen.has(event.slug)) continue;
+    seen.add(event.slug);
+    merged.push(event);
+  }
+
+  return merged.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+}
+
+// Series from every source, the first source winning a slug
+export function mergeSeries<T extends EventSeries>(lists: T[][]): T[] {
+  const seen = new Set<string>();
+  return lists.flat().filter(series => {
+    if (seen.has(series.slug)) return false;
+    seen.add(series.slug);
+    return true;
+  });
+}
@@ -0,0 +1,73 @@
+// Event status resolution
+// The stored `status` column is only trusted for cancellations; everything else is
+// derived from the event dates so past events never linger as "upcoming".
+import type { Event } from '../types';
+
+export type TimelineStatus = Exclude<Event['status'], 'cancelled'>;
+
+type StatusInput = Pick<Event, 'startDate' | 'endDate' | 'timezone' | 'status'>;
+
+// Offset between UTC and the wall clock of `timezone` at the given instant, in milliseconds
+export function getTimezoneOffset(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(part => part.type === type)?.value ?? 0);
+
+  const wallClock = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second')
+  );
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Last instant of the calendar day on which `date` falls in `timezone`
+export function getEndOfDay(date: Date, timezone: string): Date {
+  const offset = getTimezoneOffset(date, timezone);
+  const local = new Date(date.getTime() + offset);
+  const localMidnight = Date.UTC(
+    local.getUTCFullYear(),
+    local.getUTCMonth(),
+    local.getUTCDate() + 1
+  );
+  return new Date(localMidnight - offset - 1);
+}
+
+// Events without an end date are treated as running until the end of their local day
+export function getEffectiveEndDate(
+  event: Pick<Event, 'startDate' | 'endDate' | 'timezone'>
+): Date {
+  return event.endDate ?? getEndOfDay(event.startDate, event.timezone);
+}
+
+export function getTimelineStatus(event: StatusInput, now: Date = new Date()): TimelineStatus {
+  if (now < event.startDate) return 'upcoming';
+  if (now <= getEffectiveEndDate(event)) return 'ongoing';
+  return 'completed';
+}
+
+export function resolveEventStatus(event: StatusInput, now: Date = new Date()): Event['status'] {
+  if (event.status === 'cancelled') return 'cancelled';
+  return getTimelineStatus(event, now);
+}
+
+export function withResolvedStatus(event: Event, now: Date = new Date()): Event {
+  return { ...event, status: resolveEventStatus(event, now) };
+}
+
+export function isActiveEvent(event: StatusInput, now: Date = new Date()): boolean {
+  const status = resolveEventStatus(event, now);
+  return status === 'upcoming' || status === 'ongoing';
+}
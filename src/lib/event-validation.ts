@@ -0,0 +1,234 @@
+// Runtime validation for Supabase `events` rows
+// Rows are checked before they are mapped to the camelCase Event interface so a single
+// broken row is quarantined with a readable reason instead of rendering a broken card.
+import type { Event } from '../types';
+
+type DbRow = Record<string, unknown>;
+
+export const LOCATION_TYPES: Event['locationType'][] = ['physical', 'virtual', 'hybrid'];
+export const EVENT_STATUSES: Event['status'][] = ['upcoming', 'ongoing', 'completed', 'cancelled'];
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export interface EventFieldError {
+  field: string;
+  message: string;
+}
+
+export interface InvalidEventRow {
+  id?: string;
+  slug?: string;
+  errors: EventFieldError[];
+  row: DbRow;
+}
+
+export type EventRowResult =
+  | { valid: true; event: Event }
+  | { valid: false; invalid: InvalidEventRow };
+
+export interface EventValidationReport {
+  events: Event[];
+  invalid: InvalidEventRow[];
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isMissing(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function parseDate(value: unknown): Date | null {
+  if (!(typeof value === 'string' || value instanceof Date)) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+export function isValidTimezone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+export function validateEventRow(row: DbRow): EventRowResult {
+  const errors: EventFieldError[] = [];
+  const fail = (field: string, message: string) => errors.push({ field, message });
+
+  // Required text fields
+  if (!(isNonEmptyString(row.id) || typeof row.id === 'number')) fail('id', 'is required');
+  for (const field of ['title', 'slug', 'category'] as const) {
+    if (!isNonEmptyString(row[field])) fail(field, 'is required');
+  }
+  if (isNonEmptyString(row.slug) && !SLUG_PATTERN.test(row.slug)) {
+    fail('slug', `"${row.slug}" must be lowercase letters, numbers and hyphens`);
+  }
+  if (typeof row.description !== 'string') fail('description', 'is required');
+  if (!isMissing(row.excerpt) && typeof row.excerpt !== 'string') {
+    fail('excerpt', 'must be a string');
+  }
+
+  // Dates
+  const startDate = parseDate(row.start_date);
+  if (isMissing(row.start_date)) fail('start_date', 'is required');
+  else if (!startDate) fail('start_date', `"${String(row.start_date)}" is not a valid date`);
+
+  const endDate = isMissing(row.end_date) ? undefined : parseDate(row.end_date);
+  if (endDate === null) fail('end_date', `"${String(row.end_date)}" is not a valid date`);
+  else if (endDate && startDate && endDate < startDate) fail('end_date', 'is before start_date');
+
+  const createdAt = parseDate(row.created_at);
+  if (!createdAt) fail('created_at', 'is not a valid date');
+  const updatedAt = parseDate(row.updated_at);
+  if (!updatedAt) fail('updated_at', 'is not a valid date');
+  const publishedAt = isMissing(row.published_at) ? createdAt : parseDate(row.published_at);
+  if (!publishedAt && !isMissing(row.published_at)) {
+    fail('published_at', `"${String(row.published_at)}" is not a valid date`);
+  }
+
+  const timezone = isMissing(row.timezone) ? 'Asia/Jakarta' : row.timezone;
+  if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+    fail('timezone', `"${String(row.timezone)}" is not a valid IANA timezone`);
+  }
+
+  // Enums
+  const locationType = isMissing(row.location_type) ? 'virtual' : row.location_type;
+  if (!LOCATION_TYPES.includes(locationType as Event['locationType'])) {
+    fail(
+      'location_type',
+      `"${String(row.location_type)}" must be one of ${LOCATION_TYPES.join(', ')}`
+    );
+  }
+  const status = isMissing(row.status) ? 'upcoming' : row.status;
+  if (!EVENT_STATUSES.includes(status as Event['status'])) {
+    fail('status', `"${String(row.status)}" must be one of ${EVENT_STATUSES.join(', ')}`);
+  }
+
+  // URLs
+  for (const field of ['virtual_link', 'registration_url'] as const) {
+    const value = row[field];
+    if (isMissing(value)) continue;
+    if (typeof value !== 'string' || !isHttpUrl(value)) {
+      fail(field, `"${String(value)}" is not a valid URL`);
+    }
+  }
+  if (!isMissing(row.cover_image)) {
+    const value = row.cover_image;
+    if (typeof value !== 'string' || !(value.startsWith('/') || isHttpUrl(value))) {
+      fail('cover_image', `"${String(value)}" is not a valid URL or path`);
+    }
+  }
+
+  // Optional location details
+  for (const field of ['venue', 'address', 'city'] as const) {
+    if (!isMissing(row[field]) && typeof row[field] !== 'string') fail(field, 'must be a string');
+  }
+
+  // Collections and counts
+  if (
+    !isMissing(row.tags) &&
+    !(Array.isArray(row.tags) && row.tags.every(tag => typeof tag === 'string'))
+  ) {
+    fail('tags', 'must be an array of strings');
+  }
+  if (!isMissing(row.max_attendees) && !isNonNegativeInteger(row.max_attendees)) {
+    fail('max_attendees', 'must be a non-negative integer');
+  }
+  for (const field of ['registered_count', 'waitlist_count'] as const) {
+    if (!isMissing(row[field]) && !isNonNegativeInteger(row[field])) {
+      fail(field, 'must be a non-negative integer');
+    }
+  }
+  if (!isMissing(row.is_featured) && typeof row.is_featured !== 'boolean') {
+    fail('is_featured', 'must be a boolean');
+  }
+
+  if (errors.length > 0) {
+    return {
+      valid: false,
+      invalid: {
+        id: isMissing(row.id) ? undefined : String(row.id),
+        slug: isNonEmptyString(row.slug) ? row.slug : undefined,
+        errors,
+        row,
+      },
+    };
+  }
+
+  const optionalString = (value: unknown) => (isMissing(value) ? undefined : (value as string));
+
+  return {
+    valid: true,
+    event: {
+      id: String(row.id),
+      title: row.title as string,
+      slug: row.slug as string,
+      description: row.description as string,
+      excerpt: (row.excerpt as string) || '',
+      startDate: startDate!,
+      endDate: endDate || undefined,
+      timezone: timezone as string,
+      locationType: locationType as Event['locationType'],
+      venue: optionalString(row.venue),
+      address: optionalString(row.address),
+      city: optionalString(row.city),
+      virtualLink: optionalString(row.virtual_link),
+      coverImage: (row.cover_image as string) || '',
+      category: row.category as string,
+      tags: (row.tags as string[]) || [],
+      status: status as Event['status'],
+      registrationUrl: optionalString(row.registration_url),
+      maxAttendees: isMissing(row.max_attendees) ? undefined : (row.max_attendees as number),
+      registeredCount: (row.registered_count as number) || 0,
+      waitlistCount: (row.waitlist_count as number) || 0,
+      createdAt: createdAt!,
+      updatedAt: updatedAt!,
+      publishedAt: publishedAt!,
+      isFeatured: (row.is_featured as boolean) || false,
+      isDraft: isMissing(row.published_at),
+    },
+  };
+}
+
+export function validateEventRows(rows: DbRow[]): EventValidationReport {
+  const report: EventValidationReport = { events: [], invalid: [] };
+
+  for (const row of rows) {
+    const result = validateEventRow(row);
+    if (result.valid) report.events.push(result.event);
+    else report.invalid.push(result.invalid);
+  }
+
+  return report;
+}
+
+export function formatInvalidEventRow(invalid: InvalidEventRow): string {
+  const label = `id=${invalid.id ?? '?'} slug=${invalid.slug ?? '?'}`;
+  const reasons = invalid.errors.map(error => `${error.field} ${error.message}`).join('; ');
+  return `${label}: ${reasons}`;
+}
+
+export function formatValidationSummary(report: EventValidationReport): string {
+  const total = report.events.length + report.invalid.length;
+  const lines = [
+    `Event validation: ${report.events.length}/${total} row(s) valid, ${report.invalid.length} skipped`,
+    ...report.invalid.map(invalid => `  - ${formatInvalidEventRow(invalid)}`),
+  ];
+  return lines.join('\n');
+}
@@ -0,0 +1,214 @@
+// Events
+// Public event reads for the pages, feeds and API routes. Events are read from the configured
+// sources (event-sources.ts) and merged. A source that is missing or fails is replaced by the
+// sample events in development and fails the build in production (data-policy.ts).
+// The sessions of event series (event-series.ts) are listed as events of their source.
+import type { Event, EventSeries } from '../types';
+import { recordDataSource } from './build-report';
+import { sampleDataOrThrow } from './data-policy';
+import { getEventSources, mergeEvents, mergeSeries, type EventSource } from './event-sources';
+import { isActiveEvent, withResolvedStatus } from './event-status';
+import { expandEventSeries } from './event-series';
+
+// Sample/Placeholder events for development without a configured source
+const sampleEvents: Event[] = [
+  {
+    id: '1',
+    title: 'DEI Workshop: Introduction to Data Engineering',
+    slug: 'intro-to-data-engineering',
+    description:
+      'Join us for an introductory workshop on data engineering fundamentals. Learn about ETL pipelines, data warehousing, and modern data stack.',
+    excerpt:
+      'An introductory workshop covering data engineering fundamentals, ETL pipelines, and modern data stack.',
+    startDate: new Date('2026-03-15T09:00:00'),
+    endDate: new Date('2026-03-15T12:00:00'),
+    timezone: 'Asia/Jakarta',
+    locationType: 'virtual',
+    virtualLink: 'https://zoom.us/j/example',
+    coverImage: '',
+    category: 'Workshop',
+    tags: ['beginner', 'data-engineering', 'etl'],
+    status: 'upcoming',
+    maxAttendees: 100,
+    registeredCount: 45,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    publishedAt: new Date(),
+    isFeatured: true,
+  },
+  {
+    id: '2',
+    title: 'Building Data Pipelines with Apache Airflow',
+    slug: 'data-pipelines-airflow',
+    description:
+      'Hands-on workshop on building and scheduling data pipelines using Apache Airflow.',
+    excerpt:
+      'Learn to build and schedule data pipelines using Apache Airflow in this hands-on workshop.',
+    startDate: new Date('2026-04-20T13:00:00'),
+    endDate: new Date('2026-04-20T16:00:00'),
+    timezone: 'Asia/Jakarta',
+    locationType: 'hybrid',
+    city: 'Jakarta',
+    venue: 'Tech Hub Jakarta',
+    coverImage: '',
+    category: 'Workshop',
+    tags: ['airflow', 'pipelines', 'automation'],
+    status: 'upcoming',
+    maxAttendees: 50,
+    registeredCount: 23,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    publishedAt: new Date(),
+    isFeatured: true,
+  },
+];
+
+const sampleSeries: EventSeries[] = [
+  {
+    id: 'series-1',
+    title: 'Data Talk',
+    slug: 'data-talk',
+    description:
+      'A monthly evening talk where members share how their teams build and run data platforms, followed by open Q&A.',
+    excerpt: 'A monthly evening talk on how teams build and run their data platforms.',
+    recurrence: 'FREQ=MONTHLY;BYDAY=3TH;COUNT=6',
+    startDate: new Date('2026-09-17T19:00:00+07:00'),
+    endDate: new Date('2026-09-17T21:00:00+07:00'),
+    timezone: 'Asia/Jakarta',
+    locationType: 'virtual',
+    virtualLink: 'https://zoom.us/j/example',
+    coverImage: '',
+    category: 'Meetup',
+    tags: ['talks', 'community'],
+    registrationUrl: 'https://forms.gle/example',
+    isFeatured: true,
+    overrides: [{ date: '2026-12-17', cancelled: true }],
+    updatedAt: new Date(),
+    publishedAt: new Date(),
+  },
+];
+
+interface SourceData {
+  events: Event[];
+  series: EventSeriesWithSessions[];
+}
+
+export interface EventSeriesWithSessions extends EventSeries {
+  // Every session, past ones included
+  sessions: Event[];
+}
+
+function withSessions(events: Event[], series: EventSeries[]): SourceData {
+  return {
+    events,
+    series: series.map(s => ({ ...s, sessions: expandEventSeries(s) })),
+  };
+}
+
+function allEvents({ events, series }: SourceData): Event[] {
+  return [...events, ...series.flatMap(s => s.sessions)];
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function loadSource(source: EventSource): Promise<SourceData> {
+  let error: string;
+  try {
+    const [events, series] = await Promise.all([source.getEvents(), source.getSeries()]);
+    const data = withSessions(events, series);
+    recordDataSource({
+      dataset: 'events',
+      source: source.label,
+      origin: 'live',
+      count: allEvents(data).length,
+    });
+    return data;
+  } catch (sourceError) {
+    error = errorMessage(sourceError);
+    console.error(`Error fetching events from ${source.label}: ${error}`);
+  }
+
+  const data = sampleDataOrThrow('events', error, withSessions(sampleEvents, sampleSeries));
+  recordDataSource({
+    dataset: 'events',
+    source: source.label,
+    origin: 'sample',
+    count: allEvents(data).length,
+    error,
+  });
+  return data;
+}
+
+export async function getEvents(sources: EventSource[] = getEventSources()): Promise<Event[]> {
+  const data = await Promise.all(sources.map(loadSource));
+  return mergeEvents(data.map(allEvents)).map(e => withResolvedStatus(e));
+}
+
+// Series from every source, the first source winning a slug as in getEvents
+export async function getEventSeries(
+  sources: EventSource[] = getEventSources()
+): Promise<EventSeriesWithSessions[]> {
+  const data = await Promise.all(sources.map(loadSource));
+  return mergeSeries(data.map(({ series }) => series)).map(series => ({
+    ...series,
+    sessions: series.sessions.map(e => withResolvedStatus(e)),
+  }));
+}
+
+// Session slugs end in the session date, e.g. data-talk-2026-11-19
+const SESSION_SLUG_PATTERN = /-\d{4}-\d{2}-\d{2}$/;
+
+async function findSession(source: EventSource, slug: string): Promise<Event | null> {
+  if (!SESSION_SLUG_PATTERN.test(slug)) return null;
+  const sessions = (await source.getSeries()).flatMap(s => expandEventSeries(s));
+  return sessions.find(e => e.slug === slug) ?? null;
+}
+
+// The first source with the slug wins, as in getEvents
+export async function getEventBySlug(
+  slug: string,
+  sources: EventSource[] = getEventSources()
+): Promise<Event | null> {
+  for (const source of sources) {
+    let event: Event | null;
+    try {
+      event = (await source.getEventBySlug(slug)) ?? (await findSession(source, slug));
+    } catch (sourceError) {
+      const error = errorMessage(sourceError);
+      console.error(`Error fetching event ${slug} from ${source.label}: ${error}`);
+      const sample = sampleDataOrThrow('events', error, withSessions(sampleEvents, sampleSeries));
+      event = allEvents(sample).find(e => e.slug === slug) ?? null;
+    }
+
+    if (event) return withResolvedStatus(event);
+  }
+
+  return null;
+}
+
+// Featured events are limited to those still upcoming or ongoing according to their dates.
+// A featured series only shows its next session.
+const FEATURED_EVENTS_LIMIT = 3;
+
+function selectFeaturedEvents(events: Event[]): Event[] {
+  const featuredSeries = new Set<string>();
+  return events
+    .filter(e => e.isFeatured && isActiveEvent(e))
+    .filter(e => {
+      if (!e.series) return true;
+      if (featuredSeries.has(e.series.slug)) return false;
+      featuredSeries.add(e.series.slug);
+      return true;
+    })
+    .map(e => withResolvedStatus(e))
+    .slice(0, FEATURED_EVENTS_LIMIT);
+}
+
+// No featured events in the sources means none on the homepage, not the sample ones
+export async function getFeaturedEvents(
+  sources: EventSource[] = getEventSources()
+): Promise<Event[]> {
+  return selectFeaturedEvents(await getEvents(sources));
+}
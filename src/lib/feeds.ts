@@ -0,0 +1,211 @@
+// RSS 2.0, Atom 1.0 and JSON Feed 1.1 generation for site events and articles
+import type { Article, Event } from '../types';
+
+export interface FeedMeta {
+  title: string;
+  description: string;
+  // The site name, as the feed's author
+  author: string;
+  siteUrl: string;
+  // Path of the feed itself, used for self links, e.g. "/rss.xml"
+  feedPath: string;
+}
+
+export interface FeedItem {
+  id: string;
+  title: string;
+  url: string;
+  summary: string;
+  contentHtml?: string;
+  publishedAt: Date;
+  updatedAt: Date;
+  author?: string;
+  categories: string[];
+  externalUrl?: string;
+}
+
+export const WHATS_NEW_LIMIT = 50;
+
+// Titles follow the configured site name (site-config.ts)
+export function getEventsFeed(siteName: string) {
+  return {
+    title: `${siteName} Events`,
+    description: `Workshops, webinars, and meetups from the ${siteName} community`,
+    author: siteName,
+  };
+}
+
+export function getWhatsNewFeed(siteName: string) {
+  return {
+    title: `What's New at ${siteName}`,
+    description: `Latest events and articles from the ${siteName} community`,
+    author: siteName,
+  };
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function absoluteUrl(path: string, siteUrl: string): string {
+  return new URL(path, siteUrl).href;
+}
+
+export function eventToFeedItem(event: Event, siteUrl: string): FeedItem {
+  const location =
+    event.locationType === 'virtual' ? 'Virtual Event' : event.city || event.venue || 'Indonesia';
+  const startsAt = event.startDate.toLocaleString('en-GB', {
+    dateStyle: 'long',
+    timeStyle: 'short',
+    timeZone: event.timezone,
+  });
+
+  return {
+    id: absoluteUrl(`/events/${event.slug}`, siteUrl),
+    title: event.status === 'cancelled' ? `[Cancelled] ${event.title}` : event.title,
+    url: absoluteUrl(`/events/${event.slug}`, siteUrl),
+    summary: `${startsAt} (${event.timezone}) · ${location} — ${event.excerpt}`,
+    contentHtml: `<p>${escapeXml(event.description)}</p>`,
+    publishedAt: event.publishedAt,
+    updatedAt: event.updatedAt,
+    categories: [event.category, ...event.tags],
+    externalUrl: event.registrationUrl,
+  };
+}
+
+export function articleToFeedItem(article: Article, siteUrl: string): FeedItem {
+  return {
+    id: article.url,
+    title: article.title,
+    url: absoluteUrl(`/articles/${article.slug}`, siteUrl),
+    summary: article.excerpt,
+    publishedAt: article.publishedAt,
+    updatedAt: article.publishedAt,
+    author: article.author,
+    categories: article.categories,
+    externalUrl: article.url,
+  };
+}
+
+// Items with an unparseable publish date cannot be serialized, so they are dropped
+function sortNewestFirst(items: FeedItem[]): FeedItem[] {
+  return items
+    .filter(item => !isNaN(item.publishedAt.getTime()) && !isNaN(item.updatedAt.getTime()))
+    .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
+}
+
+// Newest events and articles together, capped so the combined feed stays small
+export function mergeFeedItems(lists: FeedItem[][], limit = WHATS_NEW_LIMIT): FeedItem[] {
+  return sortNewestFirst(lists.flat()).slice(0, limit);
+}
+
+function getLastUpdated(items: FeedItem[]): Date {
+  const timestamps = items.map(item => item.updatedAt.getTime()).filter(time => !isNaN(time));
+  return timestamps.length > 0 ? new Date(Math.max(...timestamps)) : new Date();
+}
+
+export function generateRss(meta: FeedMeta, items: FeedItem[]): string {
+  const entries = sortNewestFirst(items).map(item =>
+    [
+      '    <item>',
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(item.url)}</link>`,
+      `      <guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+      `      <pubDate>${item.publishedAt.toUTCString()}</pubDate>`,
+      `      <description>${escapeXml(item.summary)}</description>`,
+      ...(item.author ? [`      <dc:creator>${escapeXml(item.author)}</dc:creator>`] : []),
+      ...item.categories.map(category => `      <category>${escapeXml(category)}</category>`),
+      '    </item>',
+    ].join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(meta.title)}</title>`,
+    `    <link>${escapeXml(meta.siteUrl)}</link>`,
+    `    <description>${escapeXml(meta.description)}</description>`,
+    '    <language>en</language>',
+    `    <lastBuildDate>${getLastUpdated(items).toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(absoluteUrl(meta.feedPath, meta.siteUrl))}" rel="self" type="application/rss+xml" />`,
+    ...entries,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+export function generateAtom(meta: FeedMeta, items: FeedItem[]): string {
+  const entries = sortNewestFirst(items).map(item =>
+    [
+      '  <entry>',
+      `    <id>${escapeXml(item.id)}</id>`,
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link rel="alternate" href="${escapeXml(item.url)}" />`,
+      ...(item.externalUrl
+        ? [`    <link rel="related" href="${escapeXml(item.externalUrl)}" />`]
+        : []),
+      `    <published>${item.publishedAt.toISOString()}</published>`,
+      `    <updated>${item.updatedAt.toISOString()}</updated>`,
+      ...(item.author ? [`    <author><name>${escapeXml(item.author)}</name></author>`] : []),
+      `    <summary>${escapeXml(item.summary)}</summary>`,
+      ...(item.contentHtml
+        ? [`    <content type="html">${escapeXml(item.contentHtml)}</content>`]
+        : []),
+      ...item.categories.map(category => `    <category term="${escapeXml(category)}" />`),
+      '  </entry>',
+    ].join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(absoluteUrl(meta.feedPath, meta.siteUrl))}</id>`,
+    `  <title>${escapeXml(meta.title)}</title>`,
+    `  <subtitle>${escapeXml(meta.description)}</subtitle>`,
+    `  <link rel="alternate" href="${escapeXml(meta.siteUrl)}" />`,
+    `  <link rel="self" href="${escapeXml(absoluteUrl(meta.feedPath, meta.siteUrl))}" />`,
+    `  <updated>${getLastUpdated(items).toISOString()}</updated>`,
+    `  <author><name>${escapeXml(meta.author)}</name></author>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+export function generateJsonFeed(meta: FeedMeta, items: FeedItem[]): string {
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: meta.title,
+    description: meta.description,
+    home_page_url: meta.siteUrl,
+    feed_url: absoluteUrl(meta.feedPath, meta.siteUrl),
+    language: 'en',
+    items: sortNewestFirst(items).map(item => ({
+      id: item.id,
+      url: item.url,
+      external_url: item.externalUrl,
+      title: item.title,
+      summary: item.summary,
+      ...(item.contentHtml ? { content_html: item.contentHtml } : { content_text: item.summary }),
+      date_published: item.publishedAt.toISOString(),
+      date_modified: item.updatedAt.toISOString(),
+      authors: item.author ? [{ name: item.author }] : undefined,
+      tags: item.categories,
+    })),
+  };
+
+  return JSON.stringify(feed, null, 2);
+}
+
+export const FEED_CONTENT_TYPES = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+} as const;
@@ -0,0 +1,86 @@
+// Build-time HTTP
+// Third-party feeds are fetched while the site builds, where a hung or flaky server would
+// stall or break the whole deploy. Requests here time out and retry transient failures
+// (timeouts, network errors, 429 and 5xx) with exponential backoff.
+
+export interface FetchRetryOptions {
+  // Per attempt
+  timeoutMs?: number;
+  // Extra attempts after the first one
+  retries?: number;
+  // Wait before the first retry; doubles for every retry after it
+  backoffMs?: number;
+}
+
+export const DEFAULT_FETCH_OPTIONS: Required<FetchRetryOptions> = {
+  timeoutMs: 10_000,
+  retries: 2,
+  backoffMs: 1_000,
+};
+
+export class FetchError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly retryable: boolean = true
+  ) {
+    super(message);
+    this.name = 'FetchError';
+  }
+}
+
+// Node reports network failures as "fetch failed" with the actual reason in `cause`
+function describeError(error: unknown): string {
+  if (!(error instanceof Error)) return String(error);
+  const cause = error.cause instanceof Error ? ` (${error.cause.message})` : '';
+  return `${error.message}${cause}`;
+}
+
+async function fetchOnce(url: string, timeoutMs: number): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+  } catch (error) {
+    const timedOut = error instanceof DOMException && error.name === 'TimeoutError';
+    throw new FetchError(
+      timedOut ? `Timed out after ${timeoutMs} ms` : `Request failed: ${describeError(error)}`
+    );
+  }
+
+  if (!response.ok) {
+    const retryable = response.status === 429 || response.status >= 500;
+    throw new FetchError(`HTTP ${response.status}`, response.status, retryable);
+  }
+
+  try {
+    return await response.text();
+  } catch (error) {
+    throw new FetchError(`Reading the response failed: ${describeError(error)}`);
+  }
+}
+
+// Response body as text; throws the last FetchError once the attempts run out
+export async function fetchTextWithRetry(
+  url: string,
+  options: FetchRetryOptions = {}
+): Promise<string> {
+  const { timeoutMs, retries, backoffMs } = { ...DEFAULT_FETCH_OPTIONS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchOnce(url, timeoutMs);
+    } catch (error) {
+      const fetchError = error as FetchError;
+      if (!fetchError.retryable || attempt >= retries) {
+        throw new FetchError(
+          attempt > 0
+            ? `${fetchError.message} (after ${attempt + 1} attempts)`
+            : fetchError.message,
+          fetchError.status,
+          fetchError.retryable
+        );
+      }
+      await new Promise(resolve => setTimeout(resolve, backoffMs * 2 ** attempt));
+    }
+  }
+}
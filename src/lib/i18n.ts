@@ -0,0 +1,103 @@
+// Internationalization
+// English is served from `/` and Bahasa Indonesia from `/id/`. Pages render the same
+// component for both trees and read their locale from the URL.
+import en from '../i18n/en';
+import id from '../i18n/id';
+
+export const LOCALES = ['en', 'id'] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export type TranslationKey = keyof typeof en;
+export type Dictionary = Record<TranslationKey, string>;
+
+const dictionaries: Record<Locale, Dictionary> = { en, id };
+
+// BCP 47 tags used for Intl formatting and hreflang
+export const LOCALE_TAGS: Record<Locale, string> = {
+  en: 'en-US',
+  id: 'id-ID',
+};
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  id: 'Bahasa Indonesia',
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+// Normalize Astro.currentLocale (undefined outside i18n routes) to a supported locale
+export function getLocale(value: string | undefined): Locale {
+  return isLocale(value) ? value : DEFAULT_LOCALE;
+}
+
+export function getLocaleFromPath(pathname: string): Locale {
+  const [segment] = pathname.split('/').filter(Boolean);
+  return isLocale(segment) && segment !== DEFAULT_LOCALE ? segment : DEFAULT_LOCALE;
+}
+
+// Remove the locale prefix, e.g. "/id/events/" becomes "/events/"
+export function stripLocale(pathname: string): string {
+  const locale = getLocaleFromPath(pathname);
+  if (locale === DEFAULT_LOCALE) return pathname || '/';
+  const stripped = pathname.replace(new RegExp(`^/${locale}(?=/|$)`), '');
+  return stripped || '/';
+}
+
+// Prefix a site path for a locale; the default locale stays unprefixed
+export function localizePath(path: string, locale: Locale): string {
+  if (!path.startsWith('/') || path.startsWith('//')) return path;
+  const unprefixed = stripLocale(path);
+  if (locale === DEFAULT_LOCALE) return unprefixed;
+  return unprefixed === '/' ? `/${locale}/` : `/${locale}${unprefixed}`;
+}
+
+export function getAlternatePaths(pathname: string): { locale: Locale; path: string }[] {
+  return LOCALES.map(locale => ({ locale, path: localizePath(pathname, locale) }));
+}
+
+// Fill {name} placeholders, leaving unknown ones in place
+export function interpolate(
+  template: string,
+  values: Record<string, string | number> = {}
+): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? String(values[name]) : match
+  );
+}
+
+// t('registration.seatsLeft', { count: 3 }) fills placeholders; missing keys fall back to English
+export function useTranslations(locale: Locale) {
+  const dictionary = dictionaries[locale];
+
+  return function t(key: TranslationKey, values: Record<string, string | number> = {}): string {
+    return interpolate(dictionary[key] ?? en[key] ?? key, values);
+  };
+}
+
+// Pass the event's timezone for event dates, so the day matches formatTime's
+export function formatDate(
+  date: Date | string,
+  locale: Locale,
+  timeZone?: string,
+  options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' }
+): string {
+  const value = typeof date === 'string' ? new Date(date) : date;
+  if (isNaN(value.getTime())) return '';
+  return value.toLocaleDateString(LOCALE_TAGS[locale], { ...options, timeZone });
+}
+
+export function formatTime(date: Date, locale: Locale, timeZone?: string): string {
+  return date.toLocaleTimeString(LOCALE_TAGS[locale], {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone,
+    timeZoneName: 'short',
+  });
+}
+
+export function formatNumber(value: number, locale: Locale): string {
+  return value.toLocaleString(LOCALE_TAGS[locale]);
+}
@@ -0,0 +1,180 @@
+// iCalendar (RFC 5545) generation for events
+import type { Event } from '../types';
+
+const PRODID = '-//Data Engineering Indonesia//Events//EN';
+const UID_DOMAIN = 'dataengineering.id';
+
+// Indonesia does not observe daylight saving time, so each zone is a single STANDARD rule
+const INDONESIAN_TIMEZONES: Record<string, { abbreviation: string; offset: string }> = {
+  'Asia/Jakarta': { abbreviation: 'WIB', offset: '+0700' },
+  'Asia/Makassar': { abbreviation: 'WITA', offset: '+0800' },
+  'Asia/Jayapura': { abbreviation: 'WIT', offset: '+0900' },
+};
+
+export interface CalendarOptions {
+  name?: string;
+  description?: string;
+  siteUrl?: string;
+}
+
+export function isSupportedTimezone(timezone: string): boolean {
+  return timezone in INDONESIAN_TIMEZONES;
+}
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets must be folded with CRLF followed by a single space
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+export function formatUtcDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+export function formatLocalDateTime(date: Date, timezone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find(part => part.type === type)?.value ?? '00';
+
+  return `${get('year')}${get('month')}${get('day')}T${get('hour')}${get('minute')}${get('second')}`;
+}
+
+function formatDateProperty(name: string, date: Date, timezone: string): string {
+  if (isSupportedTimezone(timezone)) {
+    return `${name};TZID=${timezone}:${formatLocalDateTime(date, timezone)}`;
+  }
+  return `${name}:${formatUtcDateTime(date)}`;
+}
+
+export function buildTimezone(timezone: string): string[] {
+  const zone = INDONESIAN_TIMEZONES[timezone];
+  if (!zone) return [];
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timezone}`,
+    `X-LIC-LOCATION:${timezone}`,
+    'BEGIN:STANDARD',
+    `TZOFFSETFROM:${zone.offset}`,
+    `TZOFFSETTO:${zone.offset}`,
+    `TZNAME:${zone.abbreviation}`,
+    'DTSTART:19700101T000000',
+    'END:STANDARD',
+    'END:VTIMEZONE',
+  ];
+}
+
+function buildLocation(event: Event): string | undefined {
+  const physical = [event.venue, event.address, event.city].filter(Boolean).join(', ');
+
+  switch (event.locationType) {
+    case 'physical':
+      return physical || undefined;
+    case 'virtual':
+      return event.virtualLink;
+    case 'hybrid':
+      return [physical, event.virtualLink].filter(Boolean).join(' / ') || undefined;
+  }
+}
+
+export function getEventUid(event: Event): string {
+  return `${event.id}@${UID_DOMAIN}`;
+}
+
+export function buildEvent(event: Event, siteUrl?: string): string[] {
+  const eventUrl = siteUrl ? new URL(`/events/${event.slug}`, siteUrl).href : undefined;
+  const location = buildLocation(event);
+  const description = [event.description, eventUrl].filter(Boolean).join('\n\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${getEventUid(event)}`,
+    `DTSTAMP:${formatUtcDateTime(event.updatedAt)}`,
+    `LAST-MODIFIED:${formatUtcDateTime(event.updatedAt)}`,
+    formatDateProperty('DTSTART', event.startDate, event.timezone),
+  ];
+
+  if (event.endDate) {
+    lines.push(formatDateProperty('DTEND', event.endDate, event.timezone));
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.title)}`);
+  lines.push(`DESCRIPTION:${escapeText(description)}`);
+  if (location) lines.push(`LOCATION:${escapeText(location)}`);
+  if (eventUrl) lines.push(`URL:${eventUrl}`);
+  lines.push(`CATEGORIES:${[event.category, ...event.tags].map(escapeText).join(',')}`);
+  lines.push(`STATUS:${event.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`);
+  lines.push('END:VEVENT');
+
+  return lines;
+}
+
+export function generateCalendar(events: Event[], options: CalendarOptions = {}): string {
+  const timezones = [...new Set(events.map(event => event.timezone))].filter(isSupportedTimezone);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  if (options.description) lines.push(`X-WR-CALDESC:${escapeText(options.description)}`);
+  lines.push('X-WR-TIMEZONE:Asia/Jakarta');
+  lines.push('REFRESH-INTERVAL;VALUE=DURATION:PT12H');
+  lines.push('X-PUBLISHED-TTL:PT12H');
+
+  for (const timezone of timezones) {
+    lines.push(...buildTimezone(timezone));
+  }
+  for (const event of events) {
+    lines.push(...buildEvent(event, options.siteUrl));
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function generateEventIcs(event: Event, siteUrl?: string): string {
+  return generateCalendar([event], { siteUrl });
+}
@@ -0,0 +1,112 @@
+// Outgoing mail
+// Routes send mail through a MailTransport so the delivery mechanism can be swapped: the
+// default sends through Nodemailer to whatever SMTP server the SMTP_* environment variables
+// point at, and tests point it at a local stand-in. Server-only: never import this from
+// client scripts.
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  replyTo?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Implicit TLS (usually port 465); otherwise STARTTLS is used when the server offers it
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: number
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+// Read SMTP settings from the environment; null when no server is configured
+export function getSmtpOptions(env: Record<string, string | undefined>): SmtpOptions | null {
+  const host = env.SMTP_HOST?.trim();
+  if (!host) return null;
+
+  // Astro inlines "true" into import.meta.env as a boolean
+  const secure = String(env.SMTP_SECURE) === 'true';
+  const port = Number(env.SMTP_PORT) || (secure ? 465 : 587);
+  const user = env.SMTP_USER || undefined;
+  const from = env.MAIL_FROM || user;
+
+  if (!from) {
+    console.warn('SMTP_HOST is set but neither MAIL_FROM nor SMTP_USER is; mail is disabled');
+    return null;
+  }
+
+  return { host, port, secure, user, pass: env.SMTP_PASS || undefined, from };
+}
+
+function address(value: string): string {
+  return value.replace(/[\r\n<>]/g, '').trim();
+}
+
+// Nodemailer handles the protocol (STARTTLS, AUTH, dot-stuffing) and MIME encoding, including
+// stripping line breaks from header values that carry visitor input
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  const timeout = options.timeoutMs ?? 10000;
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user && options.pass ? { user: options.user, pass: options.pass } : undefined,
+    connectionTimeout: timeout,
+    greetingTimeout: timeout,
+    socketTimeout: timeout,
+  });
+
+  return {
+    async send(message) {
+      try {
+        await transporter.sendMail({
+          from: address(options.from),
+          to: address(message.to),
+          replyTo: message.replyTo ? address(message.replyTo) : undefined,
+          subject: message.subject,
+          text: message.text,
+        });
+      } catch (error) {
+        const { responseCode } = error as { responseCode?: number };
+        throw new SmtpError(
+          `SMTP delivery failed: ${error instanceof Error ? error.message : String(error)}`,
+          responseCode
+        );
+      }
+    },
+  };
+}
+
+// The transport used by API routes; tests swap it with setMailTransport()
+let mailTransport: MailTransport | null | undefined;
+
+export function getMailTransport(): MailTransport | null {
+  if (mailTransport === undefined) {
+    // .env files reach import.meta.env; deployment variables only reach process.env
+    const options = getSmtpOptions({ ...process.env, ...import.meta.env });
+    mailTransport = options ? createSmtpTransport(options) : null;
+  }
+  return mailTransport;
+}
+
+export function setMailTransport(transport: MailTransport | null | undefined): void {
+  mailTransport = transport;
+}
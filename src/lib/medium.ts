@@ -1,10 +1,22 @@
-// Medium RSS Feed Parser
+// Article Feed Parser
+// Articles are aggregated from the RSS/Atom sources in `articleSources`; the Medium
+// publication is the primary source and member blogs are merged in alongside it. A feed that
+// cannot be fetched falls back to its last cached copy (`article-cache.ts`).
 import Parser from 'rss-parser';
+import type { Article } from '../types';
+import { articleSources, type ArticleSource } from './article-sources';
+import {
+  getArticleCacheDir,
+  isCacheStale,
+  mergeArticleArchive,
+  readArticleCache,
+  writeArticleCache,
+} from './article-cache';
+import { recordDataSource, type DataSourceRecord } from './build-report';
+import { fetchTextWithRetry, type FetchRetryOptions } from './http';
 
 const parser = new Parser();
 
-const MEDIUM_RSS_URL = 'https://medium.com/feed/data-engineering-indonesia';
-
 export interface MediumArticle {
   title: string;
   link: string;
@@ -12,24 +24,188 @@ export interface MediumArticle {
   'dc:creator'?: string;
   categories?: string[];
   'content:encoded'?: string;
+  source: string;
+  // ArticleSource id; tells apart articles whose links end in the same slug
+  sourceId: string;
+  // Local page, /articles/<slug>; unique once mergeArticles() has run
+  slug: string;
+}
+
+// Feeds differ in shape: RSS uses dc:creator/content:encoded, Atom uses author/content
+export function mapFeedItem(item: any, source: ArticleSource): MediumArticle {
+  const categories: unknown[] = Array.isArray(item.categories) ? item.categories : [];
+
+  return {
+    title: item.title || '',
+    link: item.link || '',
+    pubDate: item.pubDate || item.isoDate || '',
+    'dc:creator':
+      item['dc:creator'] || item.creator || item.author || source.defaultAuthor || source.label,
+    categories: categories
+      .map(category => (typeof category === 'string' ? category : (category as { _?: string })?._))
+      .filter((category): category is string => !!category),
+    'content:encoded': item['content:encoded'] || item.content || item.summary || '',
+    source: source.label,
+    sourceId: source.id,
+    slug: getArticleSlug(item.link || ''),
+  };
+}
+
+// Turns feed XML into items; an rss-parser instance unless a caller passes its own
+export interface FeedParser {
+  parseString(xml: string): Promise<{ items: unknown[] }>;
+}
+
+export interface FetchArticlesOptions extends FetchRetryOptions {
+  cacheDir?: string;
+  now?: Date;
+  parser?: FeedParser;
+}
+
+export interface SourceArticles {
+  articles: MediumArticle[];
+  record: DataSourceRecord;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Live feed merged into the archive when it can be fetched and parsed, else the archive alone,
+// else nothing
+export async function fetchSourceArticles(
+  source: ArticleSource,
+  options: FetchArticlesOptions = {}
+): Promise<SourceArticles> {
+  const cacheDir = options.cacheDir ?? getArticleCacheDir(process.env);
+  const now = options.now ?? new Date();
+  const feedParser = options.parser ?? parser;
+  const base = { dataset: 'articles', source: source.label };
+
+  let error: string;
+  try {
+    const feed = await feedParser.parseString(await fetchTextWithRetry(source.url, options));
+    const archived = await readArticleCache(cacheDir, source.id);
+    const articles = mergeArticleArchive(
+      feed.items.map(item => mapFeedItem(item, source)),
+      archived?.articles ?? []
+    );
+    const fetchedAt = now.toISOString();
+
+    await writeArticleCache(cacheDir, { sourceId: source.id, fetchedAt, articles }).catch(
+      cacheError =>
+        console.warn(`Could not cache articles from ${source.label}: ${errorMessage(cacheError)}`)
+    );
+    return { articles, record: { ...base, origin: 'live', count: articles.length, fetchedAt } };
+  } catch (fetchError) {
+    error = errorMessage(fetchError);
+    console.error(`Error fetching articles from ${source.label}: ${error}`);
+  }
+
+  const cached = await readArticleCache(cacheDir, source.id);
+  if (!cached) {
+    return { articles: [], record: { ...base, origin: 'none', count: 0, error } };
+  }
+
+  const stale = isCacheStale(cached, now);
+  console.warn(
+    `Using cached articles from ${source.label}, fetched ${cached.fetchedAt}` +
+      (stale ? '. The copy is stale: check the feed before the next deploy.' : '')
+  );
+  return {
+    articles: cached.articles,
+    record: {
+      ...base,
+      origin: 'cache',
+      count: cached.articles.length,
+      fetchedAt: cached.fetchedAt,
+      stale,
+      error,
+    },
+  };
 }
 
-export async function fetchMediumArticles(limit: number = 10): Promise<MediumArticle[]> {
+// Canonical form of an article URL used for de-duplication across feeds
+export function normalizeArticleUrl(link: string): string {
   try {
-    const feed = await parser.parseURL(MEDIUM_RSS_URL);
-
-    return feed.items.slice(0, limit).map((item: any) => ({
-      title: item.title || '',
-      link: item.link || '',
-      pubDate: item.pubDate || '',
-      'dc:creator': item['dc:creator'] || item.creator || 'DEI Team',
-      categories: item.categories || [],
-      'content:encoded': item['content:encoded'] || item.content || '',
-    }));
-  } catch (error) {
-    console.error('Error fetching Medium RSS:', error);
-    return [];
+    const url = new URL(link);
+    return `${url.hostname.replace(/^www\./, '').toLowerCase()}${url.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return link.trim().toLowerCase();
+  }
+}
+
+function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function getTimestamp(article: MediumArticle): number {
+  const time = new Date(article.pubDate).getTime();
+  return isNaN(time) ? 0 : time;
+}
+
+// The slug for an article whose link ends like an earlier one's, e.g. two blogs' weekly-update
+// posts: the source id is appended, then a counter if that is taken too
+function uniqueSlug(slug: string, sourceId: string, taken: Set<string>): string {
+  if (!taken.has(slug)) return slug;
+
+  const withSource = `${slug}-${getArticleSlug(sourceId)}`;
+  let candidate = withSource;
+  for (let n = 2; taken.has(candidate); n++) candidate = `${withSource}-${n}`;
+  return candidate;
+}
+
+// Merge per-source lists, keeping the first copy of a duplicate (sources are listed in
+// priority order) and sorting newest first. Items without a link to give them a local page are
+// dropped, and every article gets a unique slug, so no two share an /articles/ route.
+export function mergeArticles(lists: MediumArticle[][]): MediumArticle[] {
+  const seenUrls = new Set<string>();
+  const seenTitles = new Set<string>();
+  const slugs = new Set<string>();
+  const merged: MediumArticle[] = [];
+
+  for (const article of lists.flat()) {
+    const slug = getArticleSlug(article.link);
+    if (!slug) {
+      console.warn(`Skipping "${article.title}" from ${article.source}: no usable link`);
+      continue;
+    }
+
+    const url = normalizeArticleUrl(article.link);
+    const title = normalizeTitle(article.title);
+    if (seenUrls.has(url) || (title && seenTitles.has(title))) continue;
+
+    seenUrls.add(url);
+    if (title) seenTitles.add(title);
+    const unique = uniqueSlug(slug, article.sourceId, slugs);
+    slugs.add(unique);
+    merged.push({ ...article, slug: unique });
   }
+
+  return merged.sort((a, b) => getTimestamp(b) - getTimestamp(a));
+}
+
+// Merged articles from every source, recording in the build report where each came from
+export async function fetchArticles(
+  sources: ArticleSource[],
+  options: FetchArticlesOptions = {}
+): Promise<MediumArticle[]> {
+  const results = await Promise.all(sources.map(source => fetchSourceArticles(source, options)));
+  results.forEach(result => recordDataSource(result.record));
+
+  return mergeArticles(results.map(result => result.articles));
+}
+
+// Fetched once per build and shared by every page and endpoint
+let articlesPromise: Promise<MediumArticle[]> | undefined;
+
+// Pass no limit to fetch every article in the feeds
+export async function fetchMediumArticles(limit?: number): Promise<MediumArticle[]> {
+  articlesPromise ??= fetchArticles(articleSources);
+  return (await articlesPromise).slice(0, limit);
 }
 
 export function extractExcerpt(content: string, maxLength: number = 200): string {
@@ -47,18 +223,88 @@ export function extractFirstImage(content: string): string | undefined {
   return imgMatch ? imgMatch[1] : undefined;
 }
 
-export function formatDate(dateString: string): string {
-  const date = new Date(dateString);
-  return date.toLocaleDateString('id-ID', {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
-}
-
 export function calculateReadingTime(content: string): number {
   const wordsPerMinute = 200;
   const plainText = content.replace(/<[^>]*>/g, ' ');
   const wordCount = plainText.trim().split(/\s+/).length;
   return Math.ceil(wordCount / wordsPerMinute);
 }
+
+// Map a raw feed article to the site-wide Article type
+export function toArticle(article: MediumArticle): Article {
+  const content = article['content:encoded'] || '';
+
+  return {
+    title: article.title,
+    url: article.link,
+    publishedAt: new Date(article.pubDate),
+    author: article['dc:creator'] || 'DEI Team',
+    excerpt: extractExcerpt(content, 300),
+    categories: article.categories || [],
+    thumbnail: extractFirstImage(content),
+    content,
+    source: article.source,
+    slug: article.slug,
+  };
+}
+
+// Stable local slug from a Medium link, e.g.
+// https://medium.com/data-engineering-indonesia/getting-started-1a2b3c4d5e6f?source=rss
+// becomes "getting-started-1a2b3c4d5e6f"
+export function getArticleSlug(link: string): string {
+  let path = link;
+  try {
+    path = new URL(link).pathname;
+  } catch {
+    // Not an absolute URL, use the raw link
+  }
+
+  const segment = path.split('/').filter(Boolean).pop() || '';
+  return segment
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export const ARTICLES_PER_PAGE = 9;
+
+// URL-safe slug for a category/tag, e.g. "Apache Airflow" becomes "apache-airflow"
+export function getTagSlug(tag: string): string {
+  return tag
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export interface ArticleTag {
+  slug: string;
+  name: string;
+  articles: MediumArticle[];
+}
+
+// Group articles by category; tags that only differ in case or punctuation are merged
+export function groupArticlesByTag(articles: MediumArticle[]): ArticleTag[] {
+  const tags = new Map<string, ArticleTag>();
+
+  for (const article of articles) {
+    const slugs = new Set<string>();
+    for (const category of article.categories || []) {
+      const slug = getTagSlug(category);
+      if (!slug || slugs.has(slug)) continue;
+      slugs.add(slug);
+
+      const tag = tags.get(slug) ?? { slug, name: category, articles: [] };
+      tag.articles.push(article);
+      tags.set(slug, tag);
+    }
+  }
+
+  return [...tags.values()].sort(
+    (a, b) => b.articles.length - a.articles.length || a.name.localeCompare(b.name)
+  );
+}
+
+// The first archive page lives at /articles; later pages at /articles/page/[n]
+export function getArticlesPageUrl(page: number): string {
+  return page <= 1 ? '/articles' : `/articles/page/${page}`;
+}
@@ -0,0 +1,172 @@
+// Open Graph Image Rendering
+// satori lays out the card and turns the text into paths, resvg rasterizes the SVG to PNG. Fonts
+// come from @fontsource/inter, so the output does not depend on the fonts of the build machine.
+
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import satori from 'satori';
+import { Resvg } from '@resvg/resvg-js';
+import { OG_IMAGE_HEIGHT, OG_IMAGE_WIDTH, type OgImageContent } from './og-image';
+
+interface OgNode {
+  type: string;
+  props: { style?: Record<string, string | number>; children?: unknown; [name: string]: unknown };
+}
+
+const MAX_TITLE_LENGTH = 110;
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+}
+
+// Batik-patterned Lego blocks floating on the sea, as in the home page hero
+const BATIK_BACKGROUND = `<svg xmlns="http://www.w3.org/2000/svg" width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}" viewBox="0 0 ${OG_IMAGE_WIDTH} ${OG_IMAGE_HEIGHT}">
+  <defs>
+    <pattern id="stripes" width="20" height="20" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+      <rect width="20" height="20" fill="#1e3a5f"/>
+      <rect width="10" height="20" fill="#ffffff" fill-opacity="0.15"/>
+    </pattern>
+    <pattern id="lattice" width="30" height="30" patternUnits="userSpaceOnUse">
+      <rect width="30" height="30" fill="#1e3a5f"/>
+      <circle cx="15" cy="15" r="8" fill="none" stroke="#ffffff" stroke-width="1.5" stroke-opacity="0.2"/>
+      <circle cx="0" cy="0" r="4" fill="#ffffff" fill-opacity="0.1"/>
+      <circle cx="30" cy="30" r="4" fill="#ffffff" fill-opacity="0.1"/>
+    </pattern>
+    <pattern id="chevron" width="24" height="24" patternUnits="userSpaceOnUse">
+      <rect width="24" height="24" fill="#1e3a5f"/>
+      <path d="M0 12 L12 0 L24 12" fill="none" stroke="#ffffff" stroke-width="1.5" stroke-opacity="0.15"/>
+      <path d="M0 24 L12 12 L24 24" fill="none" stroke="#ffffff" stroke-width="1.5" stroke-opacity="0.15"/>
+    </pattern>
+  </defs>
+  <g transform="translate(960 70)">
+    <rect x="0" y="22" width="150" height="100" rx="6" fill="url(#stripes)"/>
+    <rect x="18" y="8" width="32" height="18" rx="3" fill="#ffffff" fill-opacity="0.12"/>
+    <rect x="59" y="8" width="32" height="18" rx="3" fill="#ffffff" fill-opacity="0.12"/>
+    <rect x="100" y="8" width="32" height="18" rx="3" fill="#ffffff" fill-opacity="0.12"/>
+  </g>
+  <g transform="translate(1040 240)">
+    <rect x="0" y="16" width="110" height="72" rx="5" fill="url(#lattice)"/>
+    <rect x="14" y="6" width="22" height="13" rx="2" fill="#ffffff" fill-opacity="0.12"/>
+    <rect x="44" y="6" width="22" height="13" rx="2" fill="#ffffff" fill-opacity="0.12"/>
+    <rect x="74" y="6" width="22" height="13" rx="2" fill="#ffffff" fill-opacity="0.12"/>
+  </g>
+  <g transform="translate(900 380)">
+    <rect x="0" y="14" width="90" height="60" rx="4" fill="url(#chevron)"/>
+    <rect x="10" y="5" width="18" height="11" rx="2" fill="#ffffff" fill-opacity="0.12"/>
+    <rect x="36" y="5" width="18" height="11" rx="2" fill="#ffffff" fill-opacity="0.12"/>
+    <rect x="62" y="5" width="18" height="11" rx="2" fill="#ffffff" fill-opacity="0.12"/>
+  </g>
+  <path d="M0,520 Q150,495 300,520 T600,520 T900,520 T1200,520 L1200,630 L0,630 Z" fill="#ffffff" fill-opacity="0.08"/>
+  <path d="M0,560 Q200,535 400,560 T800,560 T1200,560 L1200,630 L0,630 Z" fill="#ffffff" fill-opacity="0.1"/>
+</svg>`;
+
+const BACKGROUND_URI = `data:image/svg+xml;base64,${Buffer.from(BATIK_BACKGROUND).toString('base64')}`;
+
+let fonts: Promise<{ name: string; data: Buffer; weight: 400 | 700 }[]> | undefined;
+
+function loadFonts() {
+  const require = createRequire(import.meta.url);
+  const load = (weight: 400 | 700) =>
+    readFile(require.resolve(`@fontsource/inter/files/inter-latin-${weight}-normal.woff`)).then(
+      data => ({ name: 'Inter', data, weight })
+    );
+  fonts ??= Promise.all([load(400), load(700)]);
+  return fonts;
+}
+
+function element(
+  type: string,
+  style: Record<string, string | number>,
+  children?: unknown,
+  props: Record<string, unknown> = {}
+): OgNode {
+  return { type, props: { ...props, style, children } };
+}
+
+function buildCard(content: OgImageContent, siteName: string, siteUrl: string): OgNode {
+  const title = truncate(content.title, MAX_TITLE_LENGTH);
+  const details = content.details.filter(Boolean).join('  ·  ');
+
+  return element(
+    'div',
+    {
+      width: '100%',
+      height: '100%',
+      display: 'flex',
+      flexDirection: 'column',
+      justifyContent: 'space-between',
+      padding: '64px 72px',
+      backgroundImage: 'linear-gradient(135deg, #1e3a5f 0%, #2a4a73 50%, #152a45 100%)',
+      color: '#ffffff',
+      fontFamily: 'Inter',
+    },
+    [
+      element('img', { position: 'absolute', top: 0, left: 0 }, undefined, {
+        src: BACKGROUND_URI,
+        width: OG_IMAGE_WIDTH,
+        height: OG_IMAGE_HEIGHT,
+      }),
+      element('div', { display: 'flex', alignItems: 'center', fontSize: 28, fontWeight: 700 }, [
+        element('div', { display: 'flex' }, siteName),
+        ...(content.label
+          ? [
+              element(
+                'div',
+                {
+                  display: 'flex',
+                  marginLeft: 24,
+                  padding: '6px 18px',
+                  borderRadius: 999,
+                  backgroundColor: '#ffffff',
+                  color: '#1e3a5f',
+                  fontSize: 22,
+                },
+                truncate(content.label, 40)
+              ),
+            ]
+          : []),
+      ]),
+      element(
+        'div',
+        {
+          display: 'flex',
+          maxWidth: 820,
+          fontSize: title.length > 60 ? 56 : 68,
+          fontWeight: 700,
+          lineHeight: 1.15,
+        },
+        title
+      ),
+      element(
+        'div',
+        {
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'flex-end',
+          fontSize: 26,
+          color: '#dbeafe',
+        },
+        [
+          element('div', { display: 'flex', maxWidth: 820 }, truncate(details, 90)),
+          element(
+            'div',
+            { display: 'flex', fontWeight: 700, color: '#ffffff' },
+            new URL(siteUrl).host
+          ),
+        ]
+      ),
+    ]
+  );
+}
+
+export async function renderOgImage(
+  content: OgImageContent,
+  site: { name: string; url: string }
+): Promise<Uint8Array> {
+  const svg = await satori(buildCard(content, site.name, site.url), {
+    width: OG_IMAGE_WIDTH,
+    height: OG_IMAGE_HEIGHT,
+    fonts: await loadFonts(),
+  });
+  return new Resvg(svg, { fitTo: { mode: 'width', value: OG_IMAGE_WIDTH } }).render().asPng();
+}
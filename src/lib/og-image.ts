@@ -0,0 +1,112 @@
+// Open Graph Images
+// Every event, event series, article and top-level page gets its own share preview, generated at build time
+// (`og-image-render.ts`). This module only maps pages to image paths and card content, so layouts
+// can use it without pulling the renderer into on-demand routes.
+
+import {
+  formatDate,
+  getLocaleFromPath,
+  localizePath,
+  stripLocale,
+  useTranslations,
+  type Locale,
+} from './i18n';
+import type { Event } from '../types';
+import type { EventSeriesWithSessions } from './events';
+import type { MediumArticle } from './medium';
+
+export interface OgImageContent {
+  title: string;
+  // Short tag above the title: event or series category, article topic
+  label?: string;
+  // Date, location type, author; joined on one line under the title
+  details: string[];
+}
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+// Top-level pages with their own image; anything else not covered below uses the home page's
+export const OG_PAGES = [
+  '/',
+  '/about',
+  '/events',
+  '/articles',
+  '/contact',
+  '/search',
+  '/playground',
+] as const;
+
+export type OgPage = (typeof OG_PAGES)[number];
+
+// Image path for a page, e.g. /id/events/airflow-101 -> /og/id/events/airflow-101.png
+export function getOgImagePath(pathname: string): string {
+  const path = stripLocale(pathname).replace(/(.)\/$/, '$1');
+  const hasImage =
+    (OG_PAGES as readonly string[]).includes(path) ||
+    /^\/(events(\/series)?|articles)\/[^/]+$/.test(path);
+
+  const localized = localizePath(hasImage ? path : '/', getLocaleFromPath(pathname));
+  return `/og${localized.endsWith('/') ? `${localized}index` : localized}.png`;
+}
+
+function formatLocation(place: Pick<Event, 'locationType' | 'city'>, locale: Locale): string {
+  const location = useTranslations(locale)(`og.location.${place.locationType}`);
+  const city = place.locationType === 'virtual' ? undefined : place.city;
+  return city ? `${location}, ${city}` : location;
+}
+
+export function getEventOgContent(event: Event, locale: Locale): OgImageContent {
+  return {
+    title: event.title,
+    label: event.category,
+    details: [formatDate(event.startDate, locale, event.timezone), formatLocation(event, locale)],
+  };
+}
+
+export function getSeriesOgContent(
+  series: EventSeriesWithSessions,
+  locale: Locale
+): OgImageContent {
+  const t = useTranslations(locale);
+  const count = series.sessions.length;
+
+  return {
+    title: series.title,
+    label: series.category,
+    details: [
+      t(count === 1 ? 'series.sessionCountOne' : 'series.sessionCount', { count }),
+      formatLocation(series, locale),
+    ],
+  };
+}
+
+export function getArticleOgContent(article: MediumArticle, locale: Locale): OgImageContent {
+  const t = useTranslations(locale);
+
+  return {
+    title: article.title,
+    label: article.categories?.[0] || t('og.article'),
+    details: [formatDate(article.pubDate, locale), article['dc:creator'] || t('common.deiTeam')],
+  };
+}
+
+export function getPageOgContent(page: OgPage, locale: Locale, siteName: string): OgImageContent {
+  const t = useTranslations(locale);
+  const content: Record<OgPage, OgImageContent> = {
+    '/': {
+      title: `${t('home.heroTitleLine1')} ${t('home.heroTitleLine2')}`,
+      details: [siteName],
+    },
+    '/about': { title: t('about.heroTitle', { name: siteName }), details: [] },
+    '/events': { title: t('events.heroTitle'), details: [t('events.title')] },
+    '/articles': { title: t('articles.heroTitle'), details: [t('articles.title')] },
+    '/contact': {
+      title: t('contact.heroTitle'),
+      details: [t('contact.heroSubtitle', { name: siteName })],
+    },
+    '/search': { title: t('search.title'), details: [t('search.subtitle')] },
+    '/playground': { title: t('playground.title'), details: [t('playground.description')] },
+  };
+  return content[page];
+}
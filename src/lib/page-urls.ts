@@ -0,0 +1,14 @@
+// Page URLs
+// Share tags (og:url, twitter:url) always name the page itself, so a shared link lands on this
+// site. Only <link rel="canonical"> may point elsewhere: local copies of articles name the
+// original post, so search engines don't count the copy as duplicate content.
+
+export interface PageUrls {
+  page: URL;
+  canonical: URL;
+}
+
+export function getPageUrls(pathname: string, site: string | URL, originalUrl?: string): PageUrls {
+  const page = new URL(pathname, site);
+  return { page, canonical: originalUrl ? new URL(originalUrl) : page };
+}
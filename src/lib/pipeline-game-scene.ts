@@ -0,0 +1,400 @@
+// Phaser scene for the "build the pipeline" game. Imported on demand when a visitor opens the
+// game, so Phaser never weighs on the home page itself. Rules and scoring live in `pipeline-game.ts`.
+
+import * as Phaser from 'phaser';
+import {
+  addHighScore,
+  BLOCKS,
+  checkPipeline,
+  LEVELS,
+  scoreLevel,
+  type BlockKind,
+  type HighScore,
+  type HighScoreStorage,
+  type PipelineProblem,
+} from './pipeline-game';
+import { formatDate, interpolate, type Locale } from './i18n';
+
+export interface PipelineGameOptions {
+  parent: HTMLElement;
+  locale: Locale;
+  messages: Record<string, string>;
+  storage?: HighScoreStorage;
+}
+
+export interface PipelineGame {
+  destroy(): void;
+}
+
+interface LevelState {
+  level: number;
+  total: number;
+}
+
+type BlockObject = Phaser.GameObjects.Container & { blockId: string; home: Phaser.Math.Vector2 };
+
+const WIDTH = 960;
+const HEIGHT = 540;
+const BLOCK_WIDTH = 140;
+const BLOCK_HEIGHT = 64;
+const SLOT_GAP = 40;
+const SLOT_Y = 230;
+// A block snaps to a slot when dropped this close to its centre
+const SNAP_DISTANCE = 80;
+const FONT = 'Inter, system-ui, sans-serif';
+
+const COLORS = {
+  navy: 0x1e3a5f,
+  deep: 0x152a45,
+  light: 0x2a4a73,
+  white: 0xffffff,
+  error: 0xef4444,
+  success: 0x34c38f,
+};
+
+const KIND_COLORS: Record<BlockKind, number> = {
+  source: 0x4a9eff,
+  transform: 0xf5b942,
+  sink: 0x34c38f,
+};
+
+class PipelineScene extends Phaser.Scene {
+  private state: LevelState = { level: 0, total: 0 };
+  private slots: (BlockObject | null)[] = [];
+  private slotFrames: Phaser.GameObjects.Rectangle[] = [];
+  private moves = 0;
+  private failedRuns = 0;
+  private startedAt = 0;
+  private finished = false;
+  private hud!: Phaser.GameObjects.Text;
+  private feedback!: Phaser.GameObjects.Text;
+
+  constructor(private options: PipelineGameOptions) {
+    super('pipeline');
+  }
+
+  private message(key: string, values: Record<string, string | number> = {}): string {
+    return interpolate(this.options.messages[key] || '', values);
+  }
+
+  init(data: Partial<LevelState> = {}) {
+    this.state = { level: data.level ?? 0, total: data.total ?? 0 };
+    this.slots = [];
+    this.slotFrames = [];
+    this.moves = 0;
+    this.failedRuns = 0;
+    this.finished = false;
+  }
+
+  create() {
+    const level = LEVELS[this.state.level];
+    const { locale } = this.options;
+    this.drawBackground();
+
+    this.add.text(
+      32,
+      24,
+      this.message('level', {
+        level: this.state.level + 1,
+        count: LEVELS.length,
+        title: level.title[locale],
+      }),
+      { fontFamily: FONT, fontSize: '24px', fontStyle: 'bold', color: '#ffffff' }
+    );
+    this.add.text(32, 60, level.goal[locale], {
+      fontFamily: FONT,
+      fontSize: '16px',
+      color: '#dbeafe',
+      wordWrap: { width: WIDTH - 64 },
+    });
+    this.hud = this.add
+      .text(WIDTH - 32, 24, '', { fontFamily: FONT, fontSize: '18px', color: '#ffffff' })
+      .setOrigin(1, 0);
+    this.feedback = this.add
+      .text(WIDTH / 2, SLOT_Y + 70, '', { fontFamily: FONT, fontSize: '16px', color: '#fecaca' })
+      .setOrigin(0.5, 0);
+
+    this.drawSlots(level.slots);
+    this.drawPalette(level.palette);
+    this.drawLegend();
+    this.addButton(WIDTH - 132, 440, this.message('run'), () => this.runPipeline());
+
+    this.input.on(
+      'drag',
+      (_pointer: Phaser.Input.Pointer, block: BlockObject, x: number, y: number) => {
+        block.setPosition(x, y);
+      }
+    );
+    this.input.on('dragstart', (_pointer: Phaser.Input.Pointer, block: BlockObject) => {
+      block.setDepth(10);
+    });
+    this.input.on('dragend', (_pointer: Phaser.Input.Pointer, block: BlockObject) => {
+      block.setDepth(1);
+      this.drop(block);
+    });
+
+    this.startedAt = this.time.now;
+  }
+
+  update() {
+    if (this.finished) return;
+    const seconds = Math.floor((this.time.now - this.startedAt) / 1000);
+    this.hud.setText(
+      `${this.message('score', { score: this.state.total })}   ${this.message('time', { seconds })}`
+    );
+  }
+
+  private slotX(index: number, count: number): number {
+    const width = count * BLOCK_WIDTH + (count - 1) * SLOT_GAP;
+    return (WIDTH - width) / 2 + BLOCK_WIDTH / 2 + index * (BLOCK_WIDTH + SLOT_GAP);
+  }
+
+  private drawBackground() {
+    const graphics = this.add.graphics();
+    graphics.fillGradientStyle(COLORS.light, COLORS.light, COLORS.deep, COLORS.deep, 1);
+    graphics.fillRect(0, 0, WIDTH, HEIGHT);
+    // The same sea the static hero illustration floats its blocks on
+    graphics.fillStyle(COLORS.white, 0.08);
+    graphics.fillRect(0, 360, WIDTH, HEIGHT - 360);
+  }
+
+  private drawSlots(count: number) {
+    const arrows = this.add.graphics();
+    arrows.lineStyle(3, COLORS.white, 0.6);
+    for (let index = 0; index < count; index++) {
+      const x = this.slotX(index, count);
+      const frame = this.add
+        .rectangle(x, SLOT_Y, BLOCK_WIDTH, BLOCK_HEIGHT)
+        .setStrokeStyle(2, COLORS.white, 0.6)
+        .setFillStyle(COLORS.white, 0.05);
+      this.slotFrames.push(frame);
+      this.slots.push(null);
+
+      if (index < count - 1) {
+        const start = x + BLOCK_WIDTH / 2 + 6;
+        const end = start + SLOT_GAP - 12;
+        arrows.lineBetween(start, SLOT_Y, end, SLOT_Y);
+        arrows.lineBetween(end - 8, SLOT_Y - 6, end, SLOT_Y);
+        arrows.lineBetween(end - 8, SLOT_Y + 6, end, SLOT_Y);
+      }
+    }
+  }
+
+  private drawPalette(palette: string[]) {
+    const columns = 4;
+    palette.forEach((id, index) => {
+      const x = 32 + BLOCK_WIDTH / 2 + (index % columns) * (BLOCK_WIDTH + 20);
+      const y = 400 + Math.floor(index / columns) * (BLOCK_HEIGHT + 24);
+      this.createBlock(id, x, y);
+    });
+  }
+
+  private drawLegend() {
+    (Object.keys(KIND_COLORS) as BlockKind[]).forEach((kind, index) => {
+      const x = WIDTH - 232 + index * 76;
+      this.add.rectangle(x, 380, 12, 12, KIND_COLORS[kind]);
+      this.add.text(x + 10, 372, this.message(`kind.${kind}`), {
+        fontFamily: FONT,
+        fontSize: '12px',
+        color: '#ffffff',
+      });
+    });
+  }
+
+  private createBlock(id: string, x: number, y: number): BlockObject {
+    const definition = BLOCKS[id];
+    const color = KIND_COLORS[definition.kind];
+    const studs = [-40, 0, 40].map(offset =>
+      this.add
+        .rectangle(offset, -BLOCK_HEIGHT / 2 - 4, 24, 10, color)
+        .setStrokeStyle(1, COLORS.deep, 0.4)
+    );
+    const body = this.add
+      .rectangle(0, 0, BLOCK_WIDTH, BLOCK_HEIGHT, color)
+      .setStrokeStyle(2, COLORS.deep, 0.4);
+    const label = this.add
+      .text(0, 0, definition.label[this.options.locale], {
+        fontFamily: FONT,
+        fontSize: '16px',
+        fontStyle: 'bold',
+        color: '#152a45',
+        align: 'center',
+        wordWrap: { width: BLOCK_WIDTH - 16 },
+      })
+      .setOrigin(0.5);
+
+    const block = this.add.container(x, y, [...studs, body, label]) as BlockObject;
+    block.blockId = id;
+    block.home = new Phaser.Math.Vector2(x, y);
+    block
+      .setSize(BLOCK_WIDTH, BLOCK_HEIGHT)
+      .setDepth(1)
+      .setInteractive({ draggable: true, useHandCursor: true });
+    return block;
+  }
+
+  private drop(block: BlockObject) {
+    const previous = this.slots.indexOf(block);
+    if (previous !== -1) this.slots[previous] = null;
+
+    const target = this.slotFrames.findIndex(
+      frame => Phaser.Math.Distance.Between(frame.x, frame.y, block.x, block.y) < SNAP_DISTANCE
+    );
+    if (target === -1) {
+      this.moveTo(block, block.home.x, block.home.y);
+      return;
+    }
+
+    // A block already in the slot goes back to the tray (or swaps into the vacated slot)
+    const occupant = this.slots[target];
+    if (occupant) {
+      if (previous !== -1) {
+        this.slots[previous] = occupant;
+        this.moveTo(occupant, this.slotFrames[previous].x, SLOT_Y);
+      } else {
+        this.moveTo(occupant, occupant.home.x, occupant.home.y);
+      }
+    }
+    this.slots[target] = block;
+    this.moveTo(block, this.slotFrames[target].x, SLOT_Y);
+    this.moves++;
+    this.feedback.setText('');
+    this.slotFrames.forEach(frame => frame.setStrokeStyle(2, COLORS.white, 0.6));
+  }
+
+  private moveTo(block: BlockObject, x: number, y: number) {
+    this.tweens.add({ targets: block, x, y, duration: 150, ease: 'Sine.easeOut' });
+  }
+
+  private problemMessage(problem: PipelineProblem): string {
+    const block = problem.block ? BLOCKS[problem.block].label[this.options.locale] : '';
+    return this.message(`problem.${problem.code}`, { block });
+  }
+
+  private runPipeline() {
+    if (this.finished) return;
+    const level = LEVELS[this.state.level];
+    const problem = checkPipeline(
+      level,
+      this.slots.map(block => block?.blockId ?? null)
+    );
+
+    if (problem) {
+      this.failedRuns++;
+      this.feedback.setColor('#fecaca').setText(this.problemMessage(problem));
+      if (problem.slot !== undefined) {
+        this.slotFrames[problem.slot]?.setStrokeStyle(3, COLORS.error, 1);
+      }
+      this.cameras.main.shake(150, 0.004);
+      return;
+    }
+
+    this.finished = true;
+    const points = scoreLevel(level, {
+      seconds: (this.time.now - this.startedAt) / 1000,
+      moves: this.moves,
+      failedRuns: this.failedRuns,
+    });
+    const total = this.state.total + points;
+    this.hud.setText(this.message('score', { score: total }));
+    this.feedback.setColor('#bbf7d0').setText(this.message('levelDone', { points }));
+    this.slotFrames.forEach(frame => frame.setStrokeStyle(3, COLORS.success, 1));
+    this.flowData();
+
+    const isLast = this.state.level === LEVELS.length - 1;
+    this.time.delayedCall(1200, () => {
+      if (isLast) this.showSummary(total);
+      else
+        this.addButton(WIDTH - 132, 500, this.message('next'), () =>
+          this.scene.restart({ level: this.state.level + 1, total })
+        );
+    });
+  }
+
+  // Records travelling from the source to the sink once the pipeline works
+  private flowData() {
+    const first = this.slotFrames[0];
+    const last = this.slotFrames[this.slotFrames.length - 1];
+    for (let index = 0; index < 5; index++) {
+      const packet = this.add
+        .circle(first.x, SLOT_Y - BLOCK_HEIGHT / 2 - 18, 6, COLORS.white)
+        .setDepth(5);
+      this.tweens.add({
+        targets: packet,
+        x: last.x,
+        delay: index * 150,
+        duration: 900,
+        ease: 'Sine.easeInOut',
+        onComplete: () => packet.destroy(),
+      });
+    }
+  }
+
+  private showSummary(total: number) {
+    const entry: HighScore = {
+      score: total,
+      levels: LEVELS.length,
+      date: new Date().toISOString(),
+    };
+    const { scores, rank } = this.options.storage
+      ? addHighScore(this.options.storage, entry)
+      : { scores: [entry], rank: 0 };
+
+    this.add.rectangle(WIDTH / 2, HEIGHT / 2, WIDTH, HEIGHT, COLORS.deep, 0.92).setDepth(20);
+    const lines = [
+      this.message('finished', { score: total }),
+      rank === 0 ? this.message('newHighScore') : '',
+      '',
+      this.message('highScores'),
+      ...scores.map((score, index) =>
+        this.message('highScoreRow', {
+          rank: index + 1,
+          score: score.score,
+          date: formatDate(score.date, this.options.locale),
+        })
+      ),
+    ];
+    this.add
+      .text(WIDTH / 2, 100, lines.join('\n'), {
+        fontFamily: FONT,
+        fontSize: '20px',
+        color: '#ffffff',
+        align: 'center',
+        lineSpacing: 8,
+      })
+      .setOrigin(0.5, 0)
+      .setDepth(21);
+    this.addButton(
+      WIDTH / 2,
+      450,
+      this.message('again'),
+      () => this.scene.restart({ level: 0, total: 0 }),
+      21
+    );
+  }
+
+  private addButton(x: number, y: number, text: string, onClick: () => void, depth = 2) {
+    const background = this.add
+      .rectangle(0, 0, 220, 52, COLORS.white)
+      .setStrokeStyle(2, COLORS.deep);
+    const label = this.add
+      .text(0, 0, text, { fontFamily: FONT, fontSize: '18px', fontStyle: 'bold', color: '#1e3a5f' })
+      .setOrigin(0.5);
+    const button = this.add.container(x, y, [background, label]).setSize(220, 52).setDepth(depth);
+    button.setInteractive({ useHandCursor: true }).on('pointerup', onClick);
+    return button;
+  }
+}
+
+export function startPipelineGame(options: PipelineGameOptions): PipelineGame {
+  const game = new Phaser.Game({
+    type: Phaser.AUTO,
+    parent: options.parent,
+    width: WIDTH,
+    height: HEIGHT,
+    backgroundColor: '#1e3a5f',
+    scale: { mode: Phaser.Scale.FIT, autoCenter: Phaser.Scale.CENTER_BOTH },
+    scene: new PipelineScene(options),
+  });
+  return { destroy: () => game.destroy(true) };
+}
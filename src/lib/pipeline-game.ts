@@ -0,0 +1,222 @@
+// Pipeline Mini-Game
+// Blocks, levels, rules, scoring and the high-score table for the "build the pipeline" game on
+// the home page. Phaser only draws and handles input (`pipeline-game-scene.ts`), so everything
+// here is plain data and functions that also run in Bun.
+
+import type { Locale } from './i18n';
+
+export type BlockKind = 'source' | 'transform' | 'sink';
+
+export interface PipelineBlock {
+  id: string;
+  kind: BlockKind;
+  label: Record<Locale, string>;
+}
+
+export interface PipelineLevel {
+  id: string;
+  title: Record<Locale, string>;
+  goal: Record<Locale, string>;
+  slots: number;
+  // Blocks the pipeline must contain, in pipeline order; spare transform slots take any transform
+  requires: string[];
+  // Blocks offered in the tray, decoys included
+  palette: string[];
+  // Finishing faster than this earns a time bonus
+  bonusSeconds: number;
+}
+
+export type PipelineProblemCode =
+  | 'incomplete'
+  | 'source_first'
+  | 'sink_last'
+  | 'transform_middle'
+  | 'missing'
+  | 'order';
+
+export interface PipelineProblem {
+  code: PipelineProblemCode;
+  slot?: number;
+  block?: string;
+}
+
+export interface LevelStats {
+  seconds: number;
+  // Every block dropped into a slot counts, so rearranging costs points
+  moves: number;
+  failedRuns: number;
+}
+
+export interface HighScore {
+  score: number;
+  levels: number;
+  date: string;
+}
+
+export type HighScoreStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export const HIGH_SCORES_KEY = 'dei-pipeline-game-scores';
+export const MAX_HIGH_SCORES = 5;
+
+const LEVEL_POINTS = 500;
+const MIN_LEVEL_POINTS = 100;
+const POINTS_PER_SECOND = 10;
+const EXTRA_MOVE_PENALTY = 20;
+const FAILED_RUN_PENALTY = 50;
+
+const block = (id: string, kind: BlockKind, en: string, idLabel = en): PipelineBlock => ({
+  id,
+  kind,
+  label: { en, id: idLabel },
+});
+
+export const BLOCKS: Record<string, PipelineBlock> = Object.fromEntries(
+  [
+    block('csv', 'source', 'CSV files', 'Berkas CSV'),
+    block('postgres', 'source', 'Postgres'),
+    block('api', 'source', 'REST API'),
+    block('kafka', 'source', 'Kafka'),
+    block('lake', 'source', 'Data lake'),
+    block('clean', 'transform', 'Clean', 'Bersihkan'),
+    block('dedupe', 'transform', 'Deduplicate', 'Hapus duplikat'),
+    block('join', 'transform', 'Join', 'Gabungkan'),
+    block('aggregate', 'transform', 'Aggregate', 'Agregasi'),
+    block('window', 'transform', 'Time window', 'Jendela waktu'),
+    block('mask', 'transform', 'Mask PII', 'Samarkan PII'),
+    block('warehouse', 'sink', 'Warehouse', 'Gudang data'),
+    block('dashboard', 'sink', 'Dashboard'),
+    block('feature_store', 'sink', 'Feature store'),
+  ].map(entry => [entry.id, entry])
+);
+
+export const LEVELS: PipelineLevel[] = [
+  {
+    id: 'first-load',
+    title: { en: 'First load', id: 'Muatan pertama' },
+    goal: {
+      en: 'Load the CSV exports into the warehouse. Clean them on the way.',
+      id: 'Muat ekspor CSV ke gudang data. Bersihkan datanya di tengah jalan.',
+    },
+    slots: 3,
+    requires: ['csv', 'clean', 'warehouse'],
+    palette: ['csv', 'kafka', 'clean', 'warehouse'],
+    bonusSeconds: 30,
+  },
+  {
+    id: 'daily-orders',
+    title: { en: 'Daily orders', id: 'Pesanan harian' },
+    goal: {
+      en: 'Clean the orders in Postgres, then aggregate them per day for the warehouse.',
+      id: 'Bersihkan pesanan dari Postgres, lalu agregasikan per hari untuk gudang data.',
+    },
+    slots: 4,
+    requires: ['postgres', 'clean', 'aggregate', 'warehouse'],
+    palette: ['postgres', 'api', 'clean', 'join', 'aggregate', 'warehouse', 'dashboard'],
+    bonusSeconds: 40,
+  },
+  {
+    id: 'clickstream',
+    title: { en: 'Live clickstream', id: 'Clickstream langsung' },
+    goal: {
+      en: 'Stream clicks from Kafka to a live dashboard. Drop duplicate events before counting them per time window.',
+      id: 'Alirkan klik dari Kafka ke dashboard langsung. Buang event duplikat sebelum menghitungnya per jendela waktu.',
+    },
+    slots: 4,
+    requires: ['kafka', 'dedupe', 'window', 'dashboard'],
+    palette: ['kafka', 'csv', 'dedupe', 'window', 'clean', 'dashboard', 'warehouse'],
+    bonusSeconds: 40,
+  },
+  {
+    id: 'features',
+    title: { en: 'Feature pipeline', id: 'Pipeline fitur' },
+    goal: {
+      en: 'Feed the feature store from the data lake. Mask personal data before joining, and pick one more transform of your own.',
+      id: 'Isi feature store dari data lake. Samarkan data pribadi sebelum digabungkan, dan pilih satu transformasi lain sesukamu.',
+    },
+    slots: 5,
+    requires: ['lake', 'mask', 'join', 'feature_store'],
+    palette: ['lake', 'api', 'clean', 'mask', 'join', 'aggregate', 'feature_store', 'dashboard'],
+    bonusSeconds: 60,
+  },
+];
+
+// First problem with the blocks placed in the slots (null marks an empty slot), or null when the
+// pipeline satisfies the level
+export function checkPipeline(
+  level: PipelineLevel,
+  placed: (string | null)[]
+): PipelineProblem | null {
+  const empty = placed.findIndex(id => !id);
+  if (placed.length < level.slots || empty !== -1) {
+    return { code: 'incomplete', slot: empty === -1 ? placed.length : empty };
+  }
+
+  const kinds = placed.map(id => BLOCKS[id!]?.kind);
+  const last = placed.length - 1;
+  if (kinds[0] !== 'source') return { code: 'source_first', slot: 0 };
+  if (kinds[last] !== 'sink') return { code: 'sink_last', slot: last };
+  const misplaced = kinds.findIndex(
+    (kind, index) => index > 0 && index < last && kind !== 'transform'
+  );
+  if (misplaced !== -1) return { code: 'transform_middle', slot: misplaced };
+
+  let previous = -1;
+  for (const required of level.requires) {
+    const index = placed.indexOf(required);
+    if (index === -1) return { code: 'missing', block: required };
+    if (index < previous) return { code: 'order', slot: index, block: required };
+    previous = index;
+  }
+  return null;
+}
+
+export function scoreLevel(level: PipelineLevel, stats: LevelStats): number {
+  const timeBonus = Math.max(0, Math.ceil(level.bonusSeconds - stats.seconds)) * POINTS_PER_SECOND;
+  const extraMoves = Math.max(0, stats.moves - level.slots);
+  const points =
+    LEVEL_POINTS +
+    timeBonus -
+    extraMoves * EXTRA_MOVE_PENALTY -
+    stats.failedRuns * FAILED_RUN_PENALTY;
+  return Math.max(MIN_LEVEL_POINTS, points);
+}
+
+function isHighScore(value: unknown): value is HighScore {
+  const entry = value as HighScore;
+  return (
+    typeof entry?.score === 'number' &&
+    typeof entry.levels === 'number' &&
+    typeof entry.date === 'string'
+  );
+}
+
+// Storage may be unavailable (private browsing) or hold anything, so both fail soft to no scores
+export function readHighScores(storage: HighScoreStorage): HighScore[] {
+  try {
+    const stored: unknown = JSON.parse(storage.getItem(HIGH_SCORES_KEY) || '[]');
+    return Array.isArray(stored)
+      ? stored
+          .filter(isHighScore)
+          .sort((a, b) => b.score - a.score)
+          .slice(0, MAX_HIGH_SCORES)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// Returns the updated table and the new entry's position in it (-1 when it did not make the cut)
+export function addHighScore(
+  storage: HighScoreStorage,
+  entry: HighScore
+): { scores: HighScore[]; rank: number } {
+  const scores = [...readHighScores(storage), entry]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_HIGH_SCORES);
+  try {
+    storage.setItem(HIGH_SCORES_KEY, JSON.stringify(scores));
+  } catch {
+    // Full or blocked storage only costs the table, not the game
+  }
+  return { scores, rank: scores.indexOf(entry) };
+}
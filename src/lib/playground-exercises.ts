@@ -0,0 +1,252 @@
+// SQL Playground Datasets and Exercises
+// Expected output is never stored: the checker runs each solution against the same fresh dataset,
+// so editing the seed rows cannot leave an exercise with a stale answer.
+
+import type { Exercise, PlaygroundDataset } from './playground';
+
+export const DATASETS: PlaygroundDataset[] = [
+  {
+    id: 'community',
+    title: { en: 'Community members and events', id: 'Anggota dan acara komunitas' },
+    setup: `CREATE TABLE members (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  city TEXT,
+  joined_on TEXT NOT NULL
+);
+INSERT INTO members VALUES
+  (1, 'Ayu', 'Jakarta', '2024-01-15'),
+  (2, 'Budi', 'Bandung', '2024-02-03'),
+  (3, 'Citra', 'Jakarta', '2024-03-21'),
+  (4, 'Dewi', 'Surabaya', '2024-05-10'),
+  (5, 'Eko', 'Yogyakarta', '2024-06-01'),
+  (6, 'Fajar', 'Jakarta', '2024-08-19'),
+  (7, 'Gita', 'Bandung', '2025-01-07'),
+  (8, 'Hadi', 'Medan', '2025-02-14');
+
+CREATE TABLE events (
+  id INTEGER PRIMARY KEY,
+  title TEXT NOT NULL,
+  category TEXT NOT NULL,
+  city TEXT,
+  event_date TEXT NOT NULL,
+  capacity INTEGER
+);
+INSERT INTO events VALUES
+  (1, 'Airflow 101', 'Workshop', 'Jakarta', '2025-01-25', 30),
+  (2, 'dbt Meetup', 'Meetup', 'Bandung', '2025-02-22', 50),
+  (3, 'Streaming with Kafka', 'Workshop', 'Jakarta', '2025-03-29', 25),
+  (4, 'Data Quality Panel', 'Webinar', NULL, '2025-04-26', NULL),
+  (5, 'Lakehouse Deep Dive', 'Workshop', 'Surabaya', '2025-05-31', 20);
+
+CREATE TABLE registrations (
+  event_id INTEGER NOT NULL REFERENCES events (id),
+  member_id INTEGER NOT NULL REFERENCES members (id),
+  registered_on TEXT NOT NULL,
+  attended INTEGER NOT NULL
+);
+INSERT INTO registrations VALUES
+  (1, 1, '2025-01-10', 1),
+  (1, 2, '2025-01-12', 1),
+  (1, 3, '2025-01-20', 0),
+  (1, 6, '2025-01-22', 1),
+  (2, 2, '2025-02-01', 1),
+  (2, 5, '2025-02-10', 1),
+  (2, 7, '2025-02-15', 0),
+  (3, 1, '2025-03-01', 1),
+  (3, 3, '2025-03-05', 1),
+  (3, 6, '2025-03-18', 1),
+  (3, 7, '2025-03-20', 0),
+  (4, 1, '2025-04-02', 1),
+  (4, 5, '2025-04-20', 0);`,
+    starter: 'SELECT * FROM events;',
+  },
+  {
+    id: 'pipelines',
+    title: { en: 'Pipeline runs', id: 'Eksekusi pipeline' },
+    setup: `CREATE TABLE pipeline_runs (
+  id INTEGER PRIMARY KEY,
+  pipeline TEXT NOT NULL,
+  started_at TEXT NOT NULL,
+  status TEXT NOT NULL,
+  duration_seconds INTEGER NOT NULL,
+  rows_loaded INTEGER NOT NULL
+);
+INSERT INTO pipeline_runs VALUES
+  (1, 'orders_daily', '2025-03-01 02:00', 'success', 420, 12000),
+  (2, 'customers_sync', '2025-03-01 03:00', 'success', 95, 800),
+  (3, 'orders_daily', '2025-03-02 02:00', 'success', 460, 12500),
+  (4, 'customers_sync', '2025-03-02 03:00', 'failed', 30, 0),
+  (5, 'orders_daily', '2025-03-03 02:00', 'failed', 120, 0),
+  (6, 'customers_sync', '2025-03-03 03:00', 'success', 110, 950),
+  (7, 'orders_daily', '2025-03-04 02:00', 'success', 610, 15800),
+  (8, 'clickstream_hourly', '2025-03-04 10:00', 'success', 240, 54000),
+  (9, 'clickstream_hourly', '2025-03-04 11:00', 'success', 255, 58000),
+  (10, 'clickstream_hourly', '2025-03-04 12:00', 'success', 230, 51000);`,
+    starter: 'SELECT * FROM pipeline_runs ORDER BY started_at;',
+  },
+];
+
+export const EXERCISES: Exercise[] = [
+  {
+    id: 'registrations-per-event',
+    topic: 'joins',
+    dataset: 'community',
+    title: { en: 'Registrations per event', id: 'Pendaftaran per acara' },
+    prompt: {
+      en: 'List every event title with its number of registrations, including events nobody has registered for yet. Sort by the count from high to low, then by title.',
+      id: 'Tampilkan judul setiap acara beserta jumlah pendaftarnya, termasuk acara yang belum memiliki pendaftar. Urutkan dari jumlah terbanyak, lalu berdasarkan judul.',
+    },
+    starter: `SELECT e.title
+FROM events AS e;`,
+    solution: `SELECT e.title, COUNT(r.member_id) AS registrations
+FROM events AS e
+LEFT JOIN registrations AS r ON r.event_id = e.id
+GROUP BY e.id, e.title
+ORDER BY registrations DESC, e.title;`,
+    ordered: true,
+  },
+  {
+    id: 'members-without-registrations',
+    topic: 'joins',
+    dataset: 'community',
+    title: { en: 'Members who never registered', id: 'Anggota yang belum pernah mendaftar' },
+    prompt: {
+      en: 'Find the name and city of members who have not registered for any event.',
+      id: 'Cari nama dan kota anggota yang belum pernah mendaftar ke acara apa pun.',
+    },
+    starter: `SELECT m.name, m.city
+FROM members AS m;`,
+    solution: `SELECT m.name, m.city
+FROM members AS m
+LEFT JOIN registrations AS r ON r.member_id = m.id
+WHERE r.member_id IS NULL;`,
+    ordered: false,
+  },
+  {
+    id: 'running-rows-loaded',
+    topic: 'window',
+    dataset: 'pipelines',
+    title: { en: 'Running total of loaded rows', id: 'Total berjalan baris yang dimuat' },
+    prompt: {
+      en: 'For every run, show the pipeline, start time, rows loaded and a running total of rows loaded by that pipeline so far. Sort by pipeline, then start time.',
+      id: 'Untuk setiap eksekusi, tampilkan pipeline, waktu mulai, jumlah baris yang dimuat dan total berjalan baris yang dimuat pipeline tersebut sejauh ini. Urutkan berdasarkan pipeline, lalu waktu mulai.',
+    },
+    starter: `SELECT pipeline, started_at, rows_loaded
+FROM pipeline_runs
+ORDER BY pipeline, started_at;`,
+    solution: `SELECT
+  pipeline,
+  started_at,
+  rows_loaded,
+  SUM(rows_loaded) OVER (PARTITION BY pipeline ORDER BY started_at) AS total_rows
+FROM pipeline_runs
+ORDER BY pipeline, started_at;`,
+    ordered: true,
+  },
+  {
+    id: 'slowest-successful-run',
+    topic: 'window',
+    dataset: 'pipelines',
+    title: { en: 'Slowest successful run', id: 'Eksekusi sukses paling lambat' },
+    prompt: {
+      en: 'For each pipeline, return the pipeline, start time and duration of its slowest successful run. Try ROW_NUMBER() instead of MAX().',
+      id: 'Untuk setiap pipeline, tampilkan pipeline, waktu mulai dan durasi eksekusi sukses yang paling lambat. Coba gunakan ROW_NUMBER() alih-alih MAX().',
+    },
+    starter: `SELECT pipeline, started_at, duration_seconds
+FROM pipeline_runs
+WHERE status = 'success';`,
+    solution: `SELECT pipeline, started_at, duration_seconds
+FROM (
+  SELECT
+    pipeline,
+    started_at,
+    duration_seconds,
+    ROW_NUMBER() OVER (PARTITION BY pipeline ORDER BY duration_seconds DESC) AS position
+  FROM pipeline_runs
+  WHERE status = 'success'
+)
+WHERE position = 1;`,
+    ordered: false,
+  },
+  {
+    id: 'duration-change',
+    topic: 'window',
+    dataset: 'pipelines',
+    title: { en: 'Change since the previous run', id: 'Perubahan dari eksekusi sebelumnya' },
+    prompt: {
+      en: 'Show the pipeline, start time, duration and how many seconds longer or shorter each run took than the previous run of the same pipeline (empty for the first run). Sort by pipeline, then start time.',
+      id: 'Tampilkan pipeline, waktu mulai, durasi dan selisih detik setiap eksekusi dibanding eksekusi sebelumnya pada pipeline yang sama (kosong untuk eksekusi pertama). Urutkan berdasarkan pipeline, lalu waktu mulai.',
+    },
+    starter: `SELECT pipeline, started_at, duration_seconds
+FROM pipeline_runs
+ORDER BY pipeline, started_at;`,
+    solution: `SELECT
+  pipeline,
+  started_at,
+  duration_seconds,
+  duration_seconds - LAG(duration_seconds) OVER (PARTITION BY pipeline ORDER BY started_at) AS change
+FROM pipeline_runs
+ORDER BY pipeline, started_at;`,
+    ordered: true,
+  },
+  {
+    id: 'attendance-rate',
+    topic: 'cte',
+    dataset: 'community',
+    title: { en: 'Attendance rate', id: 'Tingkat kehadiran' },
+    prompt: {
+      en: 'Using a CTE that counts registrations and attendees per event, list each event title with its registrations, attendees and attendance rate rounded to two decimals. Leave out events without registrations and sort by rate from high to low, then by title.',
+      id: 'Dengan CTE yang menghitung pendaftar dan peserta hadir per acara, tampilkan judul setiap acara beserta jumlah pendaftar, jumlah hadir dan tingkat kehadiran yang dibulatkan dua desimal. Abaikan acara tanpa pendaftar dan urutkan dari tingkat tertinggi, lalu berdasarkan judul.',
+    },
+    starter: `WITH per_event AS (
+  SELECT event_id, COUNT(*) AS registered
+  FROM registrations
+  GROUP BY event_id
+)
+SELECT * FROM per_event;`,
+    solution: `WITH per_event AS (
+  SELECT event_id, COUNT(*) AS registered, SUM(attended) AS attended
+  FROM registrations
+  GROUP BY event_id
+)
+SELECT e.title, p.registered, p.attended, ROUND(1.0 * p.attended / p.registered, 2) AS rate
+FROM per_event AS p
+JOIN events AS e ON e.id = p.event_id
+ORDER BY rate DESC, e.title;`,
+    ordered: true,
+  },
+  {
+    id: 'monthly-signups',
+    topic: 'cte',
+    dataset: 'community',
+    title: { en: 'Monthly sign-ups', id: 'Anggota baru per bulan' },
+    prompt: {
+      en: 'Use a recursive CTE to list every month of 2024 as YYYY-MM with the number of members who joined that month, including months with no new members.',
+      id: 'Gunakan CTE rekursif untuk menampilkan setiap bulan di tahun 2024 dalam format YYYY-MM beserta jumlah anggota yang bergabung pada bulan itu, termasuk bulan tanpa anggota baru.',
+    },
+    starter: `WITH RECURSIVE months (month) AS (
+  SELECT '2024-01-01'
+)
+SELECT strftime('%Y-%m', month) FROM months;`,
+    solution: `WITH RECURSIVE months (month) AS (
+  SELECT '2024-01-01'
+  UNION ALL
+  SELECT date(month, '+1 month') FROM months WHERE month < '2024-12-01'
+)
+SELECT strftime('%Y-%m', months.month) AS month, COUNT(m.id) AS new_members
+FROM months
+LEFT JOIN members AS m ON strftime('%Y-%m', m.joined_on) = strftime('%Y-%m', months.month)
+GROUP BY months.month
+ORDER BY months.month;`,
+    ordered: true,
+  },
+];
+
+export function getDataset(id: string): PlaygroundDataset | undefined {
+  return DATASETS.find(dataset => dataset.id === id);
+}
+
+export function getExercise(id: string): Exercise | undefined {
+  return EXERCISES.find(exercise => exercise.id === id);
+}
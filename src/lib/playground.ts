@@ -0,0 +1,117 @@
+// SQL Playground
+// Queries run in the browser against SQLite compiled to WebAssembly (sql.js). This module holds
+// the engine-agnostic parts, result handling and answer checking, so it stays free of
+// server-only imports and can be tested against the same engine in Bun.
+
+import type { Database } from 'sql.js';
+import type { Locale } from './i18n';
+
+export type ExerciseTopic = 'joins' | 'window' | 'cte';
+
+export type LocalizedText = Record<Locale, string>;
+
+export interface PlaygroundDataset {
+  id: string;
+  title: LocalizedText;
+  // Executed on a fresh database before every query, so exercises always start from the same rows
+  setup: string;
+  // Shown in the editor when playing with the dataset outside an exercise
+  starter: string;
+}
+
+export interface Exercise {
+  id: string;
+  topic: ExerciseTopic;
+  dataset: string;
+  title: LocalizedText;
+  prompt: LocalizedText;
+  starter: string;
+  solution: string;
+  // Whether the prompt asks for a specific row order
+  ordered: boolean;
+}
+
+export type SqlValue = number | string | Uint8Array | null;
+
+export interface QueryResult {
+  columns: string[];
+  rows: SqlValue[][];
+}
+
+export type ResultMismatch = 'no_result' | 'columns' | 'row_count' | 'order' | 'values';
+
+export type ResultCheck =
+  | { correct: true }
+  | { correct: false; reason: ResultMismatch; expected?: number; actual?: number };
+
+export const PLAYGROUND_PATH = '/playground';
+export const EXERCISE_TOPICS: ExerciseTopic[] = ['joins', 'window', 'cte'];
+
+// Averages and ratios are compared at this many decimals so equivalent formulas pass
+const DECIMALS = 4;
+
+export function exercisePath(id: string): string {
+  return `${PLAYGROUND_PATH}/${id}`;
+}
+
+// Run one or more statements and return the last result set, or null when nothing was selected
+export function runQuery(db: Database, sql: string): QueryResult | null {
+  const results = db.exec(sql);
+  const last = results[results.length - 1];
+  return last ? { columns: last.columns, rows: last.values } : null;
+}
+
+// Keeps types apart in the row key, so NULL never equals the text 'null' and 4 never equals '4'
+function normalizeValue(value: SqlValue): number | string | number[] | null {
+  if (typeof value === 'number') return Number(value.toFixed(DECIMALS));
+  if (value instanceof Uint8Array) return Array.from(value);
+  return value;
+}
+
+function rowKey(row: SqlValue[]): string {
+  return JSON.stringify(row.map(normalizeValue));
+}
+
+function sameRows(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((key, index) => key === b[index]);
+}
+
+// Column names are ignored: only the shape and the values have to match the expected output
+export function compareResults(
+  actual: QueryResult | null,
+  expected: QueryResult,
+  { ordered = false }: { ordered?: boolean } = {}
+): ResultCheck {
+  if (!actual) return { correct: false, reason: 'no_result' };
+  if (actual.columns.length !== expected.columns.length) {
+    return {
+      correct: false,
+      reason: 'columns',
+      expected: expected.columns.length,
+      actual: actual.columns.length,
+    };
+  }
+  if (actual.rows.length !== expected.rows.length) {
+    return {
+      correct: false,
+      reason: 'row_count',
+      expected: expected.rows.length,
+      actual: actual.rows.length,
+    };
+  }
+
+  const actualKeys = actual.rows.map(rowKey);
+  const expectedKeys = expected.rows.map(rowKey);
+  if (sameRows(actualKeys, expectedKeys)) return { correct: true };
+
+  const sortedMatch = sameRows([...actualKeys].sort(), [...expectedKeys].sort());
+  if (sortedMatch) return ordered ? { correct: false, reason: 'order' } : { correct: true };
+  return { correct: false, reason: 'values' };
+}
+
+// Exercise ids linked from free text, e.g. an event description pointing at /playground/<id>
+export function findLinkedExercises(text: string, exercises: Exercise[]): Exercise[] {
+  const linked = new Set<string>();
+  for (const match of text.matchAll(/\/playground\/([a-z0-9-]+)/g)) linked.add(match[1]);
+  return exercises.filter(exercise => linked.has(exercise.id));
+}
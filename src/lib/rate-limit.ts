@@ -0,0 +1,62 @@
+// Per-client rate limiting for the on-demand API routes
+// Counts are kept in memory, so each serverless instance enforces its own limit. That is
+// enough to blunt scripted spam against a single endpoint without an extra service.
+
+export interface RateLimitOptions {
+  limit: number;
+  windowMs: number;
+}
+
+export type RateLimitResult =
+  | { allowed: true; remaining: number }
+  | { allowed: false; retryAfterSeconds: number };
+
+export interface RateLimiter {
+  check(key: string, now?: number): RateLimitResult;
+  reset(): void;
+}
+
+// Sliding window: a request is allowed when fewer than `limit` requests from the same key
+// arrived within the last `windowMs`
+export function createRateLimiter({ limit, windowMs }: RateLimitOptions): RateLimiter {
+  const hits = new Map<string, number[]>();
+
+  return {
+    check(key, now = Date.now()) {
+      const recent = (hits.get(key) || []).filter(time => now - time < windowMs);
+
+      if (recent.length >= limit) {
+        hits.set(key, recent);
+        return {
+          allowed: false,
+          retryAfterSeconds: Math.max(Math.ceil((recent[0] + windowMs - now) / 1000), 1),
+        };
+      }
+
+      recent.push(now);
+      hits.set(key, recent);
+
+      // Drop keys whose window has passed so the map doesn't grow without bound
+      if (hits.size > 1000) {
+        for (const [other, times] of hits) {
+          if (times.every(time => now - time >= windowMs)) hits.delete(other);
+        }
+      }
+
+      return { allowed: true, remaining: limit - recent.length };
+    },
+    reset() {
+      hits.clear();
+    },
+  };
+}
+
+// Vercel puts the original client first in x-forwarded-for; fall back to the socket address
+export function getClientIp(request: Request, clientAddress?: string): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded) {
+    const first = forwarded.split(',')[0].trim();
+    if (first) return first;
+  }
+  return request.headers.get('x-real-ip') || clientAddress || 'unknown';
+}
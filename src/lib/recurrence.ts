@@ -0,0 +1,268 @@
+// Recurrence rules
+// The subset of RFC 5545 RRULEs that event series need: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY),
+// INTERVAL, COUNT, UNTIL, BYDAY (with an ordinal for monthly rules, e.g. 3TH or -1FR),
+// BYMONTHDAY and BYMONTH. Rules are evaluated on local calendar dates; event-series.ts adds the
+// time of day in the series timezone.
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface WeekdayRule {
+  // 0 is Sunday, as in Date#getUTCDay
+  weekday: number;
+  // The nth (or nth-last, when negative) such weekday of the month
+  nth?: number;
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  // A local date (YYYY-MM-DD) or an ISO instant, inclusive
+  until?: string;
+  byDay: WeekdayRule[];
+  byMonthDay: number[];
+  byMonth: number[];
+}
+
+export type RecurrenceRuleResult =
+  | { valid: true; rule: RecurrenceRule }
+  | { valid: false; error: string };
+
+const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Safety limits for rules whose bounds are far away or never match
+const MAX_PERIODS = 10_000;
+export const MAX_OCCURRENCES = 500;
+
+function parseIntegers(value: string, min: number, max: number): number[] | null {
+  const numbers = value.split(',').map(part => (/^[+-]?\d+$/.test(part) ? Number(part) : NaN));
+  return numbers.every(n => n !== 0 && Math.abs(n) >= min && Math.abs(n) <= max) ? numbers : null;
+}
+
+function parseUntil(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second] = match;
+  const date = `${year}-${month}-${day}`;
+  const until = hour ? `${date}T${hour}:${minute}:${second}Z` : date;
+  const time = Date.parse(hour ? until : `${date}T00:00:00Z`);
+  // Reject dates like 20260231 rather than rolling them over
+  return !isNaN(time) && new Date(time).toISOString().startsWith(date) ? until : null;
+}
+
+export function parseRecurrenceRule(value: string): RecurrenceRuleResult {
+  const parts = value
+    .trim()
+    .replace(/^RRULE:/i, '')
+    .split(';')
+    .filter(Boolean);
+  const fields = new Map<string, string>();
+  for (const part of parts) {
+    const [key, field] = part.split('=');
+    if (!key || field === undefined) return { valid: false, error: `"${part}" is not KEY=VALUE` };
+    fields.set(key.trim().toUpperCase(), field.trim().toUpperCase());
+  }
+
+  const freq = fields.get('FREQ') as Frequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    return { valid: false, error: `needs FREQ=${FREQUENCIES.join('|')}` };
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1, byDay: [], byMonthDay: [], byMonth: [] };
+
+  for (const [key, field] of fields) {
+    switch (key) {
+      case 'FREQ':
+      case 'WKST':
+        break;
+      case 'INTERVAL':
+      case 'COUNT': {
+        const number = /^\d+$/.test(field) ? Number(field) : 0;
+        if (number < 1) return { valid: false, error: `${key} must be a positive whole number` };
+        rule[key === 'INTERVAL' ? 'interval' : 'count'] = number;
+        break;
+      }
+      case 'UNTIL': {
+        const until = parseUntil(field);
+        if (!until)
+          return { valid: false, error: 'UNTIL must look like 20261231 or 20261231T170000Z' };
+        rule.until = until;
+        break;
+      }
+      case 'BYDAY':
+        for (const day of field.split(',')) {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(day);
+          const nth = match?.[1] ? Number(match[1]) : undefined;
+          if (!match || nth === 0 || (nth !== undefined && Math.abs(nth) > 5)) {
+            return { valid: false, error: `BYDAY has an invalid day "${day}"` };
+          }
+          rule.byDay.push({ weekday: WEEKDAYS.indexOf(match[2]), nth });
+        }
+        break;
+      case 'BYMONTHDAY': {
+        const days = parseIntegers(field, 1, 31);
+        if (!days)
+          return { valid: false, error: 'BYMONTHDAY takes days from 1 to 31 or -31 to -1' };
+        rule.byMonthDay = days;
+        break;
+      }
+      case 'BYMONTH': {
+        const months = parseIntegers(field, 1, 12);
+        if (!months || months.some(month => month < 0)) {
+          return { valid: false, error: 'BYMONTH takes months from 1 to 12' };
+        }
+        rule.byMonth = months;
+        break;
+      }
+      default:
+        return { valid: false, error: `${key} is not supported` };
+    }
+  }
+
+  if (rule.count && rule.until) {
+    return { valid: false, error: 'COUNT and UNTIL cannot be combined' };
+  }
+  const ordinal = rule.byDay.some(day => day.nth !== undefined);
+  if (ordinal && (freq === 'DAILY' || freq === 'WEEKLY')) {
+    return { valid: false, error: `BYDAY ordinals such as 3TH need FREQ=MONTHLY or YEARLY` };
+  }
+  if (freq === 'YEARLY' && rule.byDay.length > 0 && rule.byMonth.length === 0) {
+    return { valid: false, error: 'BYDAY in a yearly rule needs BYMONTH' };
+  }
+  if (freq === 'WEEKLY' && rule.byMonthDay.length > 0) {
+    return { valid: false, error: 'BYMONTHDAY cannot be used with FREQ=WEEKLY' };
+  }
+
+  return { valid: true, rule };
+}
+
+// Local dates are handled as whole days since the epoch, so the arithmetic ignores timezones
+const DAY = 86_400_000;
+
+function toDay(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`) / DAY;
+}
+
+function fromDay(day: number): string {
+  return new Date(day * DAY).toISOString().slice(0, 10);
+}
+
+function weekdayOf(day: number): number {
+  return new Date(day * DAY).getUTCDay();
+}
+
+// Days of the month the rule picks, e.g. [17] for the third Thursday of a month
+function pickMonthDays(rule: RecurrenceRule, year: number, month: number, startDay: number) {
+  const length = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const first = Date.UTC(year, month, 1) / DAY;
+  let days: number[] | undefined;
+
+  if (rule.byMonthDay.length > 0) {
+    days = rule.byMonthDay.map(day => (day > 0 ? day : length + 1 + day));
+  }
+  if (rule.byDay.length > 0) {
+    const matching = rule.byDay.flatMap(({ weekday, nth }) => {
+      const all: number[] = [];
+      for (let day = 1 + ((weekday - weekdayOf(first) + 7) % 7); day <= length; day += 7) {
+        all.push(day);
+      }
+      if (nth === undefined) return all;
+      const picked = all[nth > 0 ? nth - 1 : all.length + nth];
+      return picked === undefined ? [] : [picked];
+    });
+    days = days ? days.filter(day => matching.includes(day)) : matching;
+  }
+  days ??= [startDay];
+
+  return [...new Set(days)]
+    .filter(day => day >= 1 && day <= length)
+    .sort((a, b) => a - b)
+    .map(day => first + day - 1);
+}
+
+// Candidate days of the nth period after the one containing `start`
+function periodDays(rule: RecurrenceRule, start: number, period: number): number[] {
+  const startDate = new Date(start * DAY);
+  const year = startDate.getUTCFullYear();
+  const month = startDate.getUTCMonth();
+  const startDay = startDate.getUTCDate();
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = start + step;
+      const date = new Date(day * DAY);
+      const length = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0));
+      const monthDays = rule.byMonthDay.map(d => (d > 0 ? d : length.getUTCDate() + 1 + d));
+      if (rule.byDay.length > 0 && !rule.byDay.some(d => d.weekday === weekdayOf(day))) return [];
+      if (monthDays.length > 0 && !monthDays.includes(date.getUTCDate())) return [];
+      return [day];
+    }
+    case 'WEEKLY': {
+      // Weeks start on Monday (WKST=MO)
+      const monday = start - ((weekdayOf(start) + 6) % 7) + 7 * step;
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(d => d.weekday) : [weekdayOf(start)];
+      return [...new Set(weekdays.map(weekday => monday + ((weekday + 6) % 7)))].sort(
+        (a, b) => a - b
+      );
+    }
+    case 'MONTHLY':
+      return pickMonthDays(rule, year, month + step, startDay);
+    case 'YEARLY': {
+      const months = rule.byMonth.length > 0 ? rule.byMonth.map(m => m - 1) : [month];
+      return months
+        .sort((a, b) => a - b)
+        .flatMap(m => pickMonthDays(rule, year + step, m, startDay));
+    }
+  }
+}
+
+// First day of the nth period, used to stop once periods start after `last`
+function periodStart(rule: RecurrenceRule, start: number, period: number): number {
+  const startDate = new Date(start * DAY);
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return start + step;
+    case 'WEEKLY':
+      return start - ((weekdayOf(start) + 6) % 7) + 7 * step;
+    case 'MONTHLY':
+      return Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth() + step, 1) / DAY;
+    case 'YEARLY':
+      return Date.UTC(startDate.getUTCFullYear() + step, 0, 1) / DAY;
+  }
+}
+
+// Local dates (YYYY-MM-DD) the rule gives from `start` on, ending at COUNT, at a date-only
+// UNTIL, or after `last` for rules that would otherwise run on; at most MAX_OCCURRENCES.
+// Dates before `start` are skipped, and `start` itself only counts if the rule matches it.
+export function getOccurrenceDates(rule: RecurrenceRule, start: string, last?: string): string[] {
+  const startDay = toDay(start);
+  const untilDay = rule.until?.length === 10 ? toDay(rule.until) : undefined;
+  const ends = [untilDay, last ? toDay(last) : undefined].filter(day => day !== undefined);
+  const lastDay = ends.length > 0 ? Math.min(...ends) : Infinity;
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const dates: string[] = [];
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    if (periodStart(rule, startDay, period) > lastDay) break;
+
+    for (const day of periodDays(rule, startDay, period)) {
+      if (day < startDay) continue;
+      if (day > lastDay) return dates;
+      if (
+        rule.byMonth.length > 0 &&
+        !rule.byMonth.includes(new Date(day * DAY).getUTCMonth() + 1)
+      ) {
+        continue;
+      }
+      dates.push(fromDay(day));
+      if (dates.length >= limit) return dates;
+    }
+  }
+
+  return dates;
+}
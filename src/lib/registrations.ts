@@ -0,0 +1,153 @@
+// Native event registration
+// Capacity and the waitlist are enforced by the `register_for_event` and `cancel_registration`
+// database functions (see supabase/migrations). This module validates submissions and turns
+// event counts into what the site shows; it is also bundled for the browser, so it must stay
+// free of server-only imports.
+import type { Event } from '../types';
+
+export type RegistrationStatus = 'confirmed' | 'waitlisted' | 'cancelled';
+
+export interface RegistrationInput {
+  name: string;
+  email: string;
+}
+
+export interface RegistrationFieldError {
+  field: keyof RegistrationInput;
+  message: string;
+}
+
+export type RegistrationInputResult =
+  | { valid: true; input: RegistrationInput }
+  | { valid: false; errors: RegistrationFieldError[] };
+
+export interface Registration {
+  id: string;
+  status: Exclude<RegistrationStatus, 'cancelled'>;
+  cancelToken: string;
+  // 1-based place in the queue, only for waitlisted registrations
+  waitlistPosition?: number;
+}
+
+export interface CancelledRegistration {
+  // True when the freed seat went to the next person on the waitlist
+  promoted: boolean;
+}
+
+export type RegistrationErrorCode =
+  | 'invalid_input'
+  | 'not_configured'
+  | 'event_not_found'
+  | 'registration_closed'
+  | 'already_registered'
+  | 'registration_not_found'
+  | 'failed';
+
+export type RegistrationOutcome<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: RegistrationErrorCode };
+
+export const REGISTRATION_ERROR_STATUS: Record<RegistrationErrorCode, number> = {
+  invalid_input: 400,
+  not_configured: 503,
+  event_not_found: 404,
+  registration_closed: 409,
+  already_registered: 409,
+  registration_not_found: 404,
+  failed: 500,
+};
+
+export interface EventAvailability {
+  registeredCount: number;
+  waitlistCount: number;
+  // Undefined when the event has no attendee limit
+  seatsRemaining?: number;
+  isFull: boolean;
+  isOpen: boolean;
+}
+
+export const AVAILABILITY_PATH = '/api/events/availability.json';
+export const CANCEL_REGISTRATION_PATH = '/api/registrations/cancel';
+
+export function getRegisterPath(slug: string): string {
+  return `/api/events/${encodeURIComponent(slug)}/register`;
+}
+
+export const NAME_MAX_LENGTH = 100;
+const EMAIL_MAX_LENGTH = 254;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function validateRegistrationInput(body: unknown): RegistrationInputResult {
+  const values = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const name = typeof values.name === 'string' ? values.name.trim() : '';
+  const email = typeof values.email === 'string' ? values.email.trim().toLowerCase() : '';
+  const errors: RegistrationFieldError[] = [];
+
+  if (!name) {
+    errors.push({ field: 'name', message: 'is required' });
+  } else if (name.length > NAME_MAX_LENGTH) {
+    errors.push({ field: 'name', message: `must be at most ${NAME_MAX_LENGTH} characters` });
+  }
+
+  if (!email) {
+    errors.push({ field: 'email', message: 'is required' });
+  } else if (email.length > EMAIL_MAX_LENGTH || !EMAIL_PATTERN.test(email)) {
+    errors.push({ field: 'email', message: 'is not a valid email address' });
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, input: { name, email } };
+}
+
+// Events with an external registrationUrl keep using it; everything else registers here
+export function usesNativeRegistration(event: Pick<Event, 'registrationUrl'>): boolean {
+  return !event.registrationUrl;
+}
+
+export function isRegistrationOpen(event: Pick<Event, 'status'>): boolean {
+  return event.status === 'upcoming' || event.status === 'ongoing';
+}
+
+export function getEventAvailability(
+  event: Pick<Event, 'status' | 'maxAttendees' | 'registeredCount' | 'waitlistCount'>
+): EventAvailability {
+  const seatsRemaining =
+    event.maxAttendees === undefined
+      ? undefined
+      : Math.max(event.maxAttendees - event.registeredCount, 0);
+
+  return {
+    registeredCount: event.registeredCount,
+    waitlistCount: event.waitlistCount ?? 0,
+    seatsRemaining,
+    isFull: seatsRemaining === 0,
+    isOpen: isRegistrationOpen(event),
+  };
+}
+
+// The database functions raise these messages; anything else is an unexpected failure
+const DATABASE_ERRORS: RegistrationErrorCode[] = [
+  'event_not_found',
+  'registration_closed',
+  'already_registered',
+  'registration_not_found',
+];
+
+export function parseRegistrationError(message: string | undefined): RegistrationErrorCode {
+  return DATABASE_ERRORS.find(code => message?.includes(code)) ?? 'failed';
+}
+
+export type AvailabilityMessage = 'seatsLeft' | 'waitlist' | 'registered';
+
+// What an event card says about availability, and the number it mentions
+export function getAvailabilityMessage(availability: EventAvailability): {
+  key: AvailabilityMessage;
+  count: number;
+} {
+  if (availability.seatsRemaining === undefined) {
+    return { key: 'registered', count: availability.registeredCount };
+  }
+  if (availability.isFull) {
+    return { key: 'waitlist', count: availability.waitlistCount };
+  }
+  return { key: 'seatsLeft', count: availability.seatsRemaining };
+}
@@ -0,0 +1,136 @@
+// HTML sanitizer for third-party feed content
+// Feed HTML is rendered with set:html, so only an allowlist of formatting tags and
+// attributes survives; everything else is stripped, and stray `<` characters are escaped.
+
+const ALLOWED_TAGS = new Set([
+  'a',
+  'b',
+  'blockquote',
+  'br',
+  'code',
+  'em',
+  'figcaption',
+  'figure',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'hr',
+  'i',
+  'img',
+  'li',
+  'ol',
+  'p',
+  'pre',
+  'strong',
+  'sub',
+  'sup',
+  'table',
+  'tbody',
+  'td',
+  'th',
+  'thead',
+  'tr',
+  'ul',
+]);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'title'],
+  img: ['src', 'alt', 'title', 'width', 'height'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan'],
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+
+const VOID_TAGS = new Set(['br', 'hr', 'img']);
+
+// Tags whose content must be dropped together with the tag itself
+const DROPPED_CONTENT_TAGS = ['script', 'style', 'iframe', 'object', 'embed', 'noscript', 'svg'];
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const ATTRIBUTE_PATTERN =
+  /([a-zA-Z_:][-a-zA-Z0-9_:.]*)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&(?![a-zA-Z0-9#]+;)/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;');
+}
+
+function isSafeUrl(value: string): boolean {
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed.startsWith('/') || trimmed.startsWith('#')) return true;
+  return (
+    trimmed.startsWith('http://') || trimmed.startsWith('https://') || trimmed.startsWith('mailto:')
+  );
+}
+
+// Medium appends a 1x1 tracking pixel to every post
+function isTrackingPixel(attributes: Record<string, string>): boolean {
+  return (
+    (attributes.width === '1' && attributes.height === '1') ||
+    (attributes.src?.includes('/_/stat?') ?? false)
+  );
+}
+
+function sanitizeTag(tagName: string, rawAttributes: string): string {
+  const allowed = ALLOWED_ATTRIBUTES[tagName] ?? [];
+  const attributes: Record<string, string> = {};
+
+  for (const match of rawAttributes.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1].toLowerCase();
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+    if (!allowed.includes(name)) continue;
+    if (URL_ATTRIBUTES.has(name) && !isSafeUrl(value)) continue;
+    attributes[name] = value;
+  }
+
+  if (tagName === 'img' && (!attributes.src || isTrackingPixel(attributes))) return '';
+
+  const serialized = Object.entries(attributes).map(
+    ([name, value]) => ` ${name}="${escapeAttribute(value)}"`
+  );
+  if (tagName === 'a' && attributes.href && !attributes.href.startsWith('/')) {
+    serialized.push(' target="_blank"', ' rel="noopener noreferrer nofollow"');
+  }
+  if (tagName === 'img') serialized.push(' loading="lazy"');
+
+  return `<${tagName}${serialized.join('')}>`;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/</g, '&lt;');
+}
+
+function renderTag(closing: string, name: string, rawAttributes: string): string {
+  const tagName = name.toLowerCase();
+  if (!ALLOWED_TAGS.has(tagName)) return '';
+  if (closing) return VOID_TAGS.has(tagName) ? '' : `</${tagName}>`;
+  return sanitizeTag(tagName, rawAttributes);
+}
+
+export function sanitizeHtml(html: string): string {
+  let result = html.replace(/<!--[\s\S]*?-->/g, '');
+
+  for (const tag of DROPPED_CONTENT_TAGS) {
+    result = result.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}\\s*>`, 'gi'), '');
+    result = result.replace(new RegExp(`<${tag}\\b[^>]*>`, 'gi'), '');
+  }
+
+  // Rebuild the markup from complete tags only. A `<` that does not start one (an unterminated
+  // or malformed tag) is escaped, since the browser would otherwise finish that tag at the next
+  // `>` further down the page, attributes and all.
+  let output = '';
+  let position = 0;
+  for (const match of result.matchAll(TAG_PATTERN)) {
+    output += escapeText(result.slice(position, match.index));
+    output += renderTag(match[1], match[2], match[3]);
+    position = match.index + match[0].length;
+  }
+
+  return output + escapeText(result.slice(position));
+}
@@ -0,0 +1,41 @@
+// Build-time search index over events and articles, served at SEARCH_INDEX_PATH
+import type { Event } from '../types';
+import { extractExcerpt, type MediumArticle } from './medium';
+import type { SearchDocument } from './search';
+
+export function eventToSearchDocument(event: Event): SearchDocument {
+  return {
+    id: `event:${event.id}`,
+    type: 'event',
+    title: event.title,
+    url: `/events/${event.slug}`,
+    excerpt: event.excerpt,
+    date: event.startDate.toISOString(),
+    keywords: [event.category, ...event.tags, event.city, event.venue].filter(
+      (keyword): keyword is string => !!keyword
+    ),
+    text: [event.excerpt, event.description].join(' '),
+  };
+}
+
+export function articleToSearchDocument(article: MediumArticle): SearchDocument {
+  const publishedAt = new Date(article.pubDate);
+  const plainText = extractExcerpt(article['content:encoded'] || '', 2000);
+
+  return {
+    id: `article:${article.link}`,
+    type: 'article',
+    title: article.title,
+    url: `/articles/${article.slug}`,
+    excerpt: extractExcerpt(article['content:encoded'] || '', 160),
+    date: isNaN(publishedAt.getTime()) ? '' : publishedAt.toISOString(),
+    keywords: [...(article.categories || []), article['dc:creator']].filter(
+      (keyword): keyword is string => !!keyword
+    ),
+    text: plainText,
+  };
+}
+
+export function buildSearchIndex(events: Event[], articles: MediumArticle[]): SearchDocument[] {
+  return [...events.map(eventToSearchDocument), ...articles.map(articleToSearchDocument)];
+}
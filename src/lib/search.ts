@@ -0,0 +1,163 @@
+// Site Search
+// Ranking runs in the browser against the static index built by `search-index.ts`, so this
+// module must stay free of server-only imports.
+
+export type SearchDocumentType = 'event' | 'article';
+
+export interface SearchDocument {
+  id: string;
+  type: SearchDocumentType;
+  title: string;
+  url: string;
+  excerpt: string;
+  date: string;
+  // Tags, categories, author, city: short fields ranked above body text
+  keywords: string[];
+  text: string;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+}
+
+export interface SearchOptions {
+  type?: SearchDocumentType;
+  limit?: number;
+}
+
+export const SEARCH_INDEX_PATH = '/search-index.json';
+
+const FIELD_WEIGHTS = { title: 5, keywords: 3, text: 1 } as const;
+
+// Lowercase, strip accents and split on anything that is not a letter or digit
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+// Edit distance counting insertions, deletions, substitutions and adjacent swaps,
+// giving up once it exceeds `max`
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// Short words must match exactly; longer words tolerate one or two typos
+function allowedTypos(token: string): number {
+  if (token.length >= 8) return 2;
+  if (token.length >= 4) return 1;
+  return 0;
+}
+
+// How well a single query token matches a single document token, from 0 to 1
+export function matchToken(queryToken: string, documentToken: string): number {
+  if (queryToken === documentToken) return 1;
+  if (documentToken.startsWith(queryToken)) return 0.8;
+
+  const typos = allowedTypos(queryToken);
+  if (typos === 0) return 0;
+
+  const distance = editDistance(queryToken, documentToken, typos);
+  if (distance <= typos) return 0.6 - distance * 0.1;
+
+  // Typo in a partially typed word, e.g. "airfl" for "airflow"
+  const prefix = documentToken.slice(0, queryToken.length);
+  return editDistance(queryToken, prefix, typos) <= typos ? 0.4 : 0;
+}
+
+function bestMatch(queryToken: string, tokens: string[]): number {
+  let best = 0;
+  for (const token of tokens) {
+    best = Math.max(best, matchToken(queryToken, token));
+    if (best === 1) break;
+  }
+  return best;
+}
+
+interface TokenizedDocument {
+  document: SearchDocument;
+  title: string[];
+  keywords: string[];
+  text: string[];
+}
+
+const tokenCache = new WeakMap<SearchDocument, TokenizedDocument>();
+
+function tokenizeDocument(document: SearchDocument): TokenizedDocument {
+  let tokenized = tokenCache.get(document);
+  if (!tokenized) {
+    tokenized = {
+      document,
+      title: tokenize(document.title),
+      keywords: tokenize(document.keywords.join(' ')),
+      text: tokenize(document.text),
+    };
+    tokenCache.set(document, tokenized);
+  }
+  return tokenized;
+}
+
+// Every query token must match somewhere; each contributes its best weighted field match
+export function scoreDocument(document: SearchDocument, queryTokens: string[]): number {
+  const tokenized = tokenizeDocument(document);
+  let score = 0;
+
+  for (const queryToken of queryTokens) {
+    const tokenScore = Math.max(
+      bestMatch(queryToken, tokenized.title) * FIELD_WEIGHTS.title,
+      bestMatch(queryToken, tokenized.keywords) * FIELD_WEIGHTS.keywords,
+      bestMatch(queryToken, tokenized.text) * FIELD_WEIGHTS.text
+    );
+    if (tokenScore === 0) return 0;
+    score += tokenScore;
+  }
+
+  return score;
+}
+
+export function searchDocuments(
+  index: SearchDocument[],
+  query: string,
+  options: SearchOptions = {}
+): SearchResult[] {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) return [];
+
+  const results = index
+    .filter(document => !options.type || document.type === options.type)
+    .map(document => ({ document, score: scoreDocument(document, queryTokens) }))
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score || b.document.date.localeCompare(a.document.date));
+
+  return options.limit ? results.slice(0, options.limit) : results;
+}
+
+export function countByType(results: SearchResult[]): Record<SearchDocumentType, number> {
+  const counts: Record<SearchDocumentType, number> = { event: 0, article: 0 };
+  for (const result of results) counts[result.document.type]++;
+  return counts;
+}
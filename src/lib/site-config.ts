@@ -0,0 +1,107 @@
+// Site Configuration
+// Community details live here instead of being copy-pasted across pages. Values can be
+// overridden per deployment from the Supabase `site_settings` table or from SITE_*
+// environment variables; environment variables win.
+import type { Event, SiteConfig, SiteStats } from '../types';
+import { getEvents } from './events';
+import { DEFAULT_SITE_URL } from './site-url';
+import { getSiteSettings } from './supabase';
+
+export const defaultSiteConfig: SiteConfig = {
+  name: 'Data Engineering Indonesia',
+  description: "Empowering Indonesia's Data Engineering Community since 2019",
+  url: DEFAULT_SITE_URL,
+  email: 'data.engineering.id@gmail.com',
+  linkedinUrl: 'https://www.linkedin.com/company/74711316/',
+  telegramUrl: 'https://forms.gle/Vrr69AnQuZmLEcubA',
+  mediumUrl: 'https://medium.com/data-engineering-indonesia',
+  foundedYear: 2019,
+  memberCount: 2000,
+};
+
+// Setting key for each field, used as-is in `site_settings` and as SITE_<KEY> in the environment
+const SETTING_KEYS: Record<keyof SiteConfig, string> = {
+  name: 'name',
+  description: 'description',
+  url: 'url',
+  email: 'email',
+  linkedinUrl: 'linkedin_url',
+  telegramUrl: 'telegram_url',
+  mediumUrl: 'medium_url',
+  foundedYear: 'founded_year',
+  memberCount: 'member_count',
+};
+
+const NUMERIC_FIELDS = new Set<keyof SiteConfig>(['foundedYear', 'memberCount']);
+
+function parseSettings(
+  values: Record<string, unknown>,
+  toKey: (key: string) => string
+): Partial<SiteConfig> {
+  const overrides: Record<string, string | number> = {};
+
+  for (const [field, key] of Object.entries(SETTING_KEYS) as [keyof SiteConfig, string][]) {
+    const raw = values[toKey(key)];
+    if (raw === undefined || raw === null || String(raw).trim() === '') continue;
+
+    const value = String(raw).trim();
+    if (NUMERIC_FIELDS.has(field)) {
+      const number = Number(value);
+      if (!Number.isInteger(number) || number < 0) {
+        console.warn(`Ignoring site setting ${toKey(key)}: "${value}" is not a whole number`);
+        continue;
+      }
+      overrides[field] = number;
+    } else {
+      overrides[field] = value;
+    }
+  }
+
+  return overrides as Partial<SiteConfig>;
+}
+
+export function parseSiteSettings(settings: Record<string, unknown>): Partial<SiteConfig> {
+  return parseSettings(settings, key => key);
+}
+
+export function parseEnvOverrides(env: Record<string, unknown>): Partial<SiteConfig> {
+  return parseSettings(env, key => `SITE_${key.toUpperCase()}`);
+}
+
+export function resolveSiteConfig(...overrides: Partial<SiteConfig>[]): SiteConfig {
+  return Object.assign({}, defaultSiteConfig, ...overrides);
+}
+
+export function computeSiteStats(
+  config: SiteConfig,
+  events: Event[],
+  now: Date = new Date()
+): SiteStats {
+  return {
+    memberCount: config.memberCount,
+    eventsCount: events.filter(event => event.status !== 'cancelled').length,
+    yearsActive: Math.max(now.getFullYear() - config.foundedYear, 0),
+  };
+}
+
+// Loaded once per build and shared by every page, layout and endpoint
+let siteConfigPromise: Promise<SiteConfig> | undefined;
+let siteStatsPromise: Promise<SiteStats> | undefined;
+
+export function getSiteConfig(): Promise<SiteConfig> {
+  siteConfigPromise ??= getSiteSettings().then(settings =>
+    resolveSiteConfig(
+      parseSiteSettings(settings),
+      // .env files reach import.meta.env; deployment variables only reach process.env
+      parseEnvOverrides({ ...process.env, ...import.meta.env })
+    )
+  );
+  return siteConfigPromise;
+}
+
+export function getSiteStats(): Promise<SiteStats> {
+  siteStatsPromise ??= Promise.all([getSiteConfig(), getEvents()]).then(([config, events]) =>
+    computeSiteStats(config, events)
+  );
+  return siteStatsPromise;
+}
@@ -0,0 +1,3 @@
+// Production Site URL
+// Kept apart from site-config so astro.config can read it without loading events or Supabase.
+export const DEFAULT_SITE_URL = 'https://dataengineering.id';
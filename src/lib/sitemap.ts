@@ -0,0 +1,158 @@
+// Sitemap and robots.txt
+// /sitemap.xml is a sitemap index; the URLs themselves are split over /sitemap-[n].xml so no
+// file comes near the protocol limits (50,000 URLs or 50 MB) as events and articles pile up.
+// Every page is listed once per locale, with its translations as hreflang alternates.
+import type { Event } from '../types';
+import { LOCALE_TAGS, LOCALES, localizePath } from './i18n';
+import { escapeXml } from './feeds';
+import {
+  ARTICLES_PER_PAGE,
+  getArticlesPageUrl,
+  groupArticlesByTag,
+  type MediumArticle,
+} from './medium';
+import { EXERCISES } from './playground-exercises';
+import { exercisePath, PLAYGROUND_PATH } from './playground';
+import { getSeriesPath, groupEventsBySeries } from './event-series';
+
+// A page before localization; each one becomes a URL per locale
+export interface SitemapEntry {
+  path: string;
+  lastmod?: Date;
+}
+
+export const SITEMAP_PATH = '/sitemap.xml';
+// Per part file, counting every locale's URL
+export const SITEMAP_URL_LIMIT = 5000;
+
+// Prerendered pages without data of their own; the admin area, API and registration
+// cancel page are left out on purpose
+const STATIC_PAGES = ['/about', '/contact', '/search', PLAYGROUND_PATH];
+
+export function getSitemapPartPath(index: number): string {
+  return `/sitemap-${index + 1}.xml`;
+}
+
+function newest(dates: Date[]): Date | undefined {
+  const valid = dates.filter(date => !isNaN(date.getTime()));
+  return valid.length > 0 ? new Date(Math.max(...valid.map(date => date.getTime()))) : undefined;
+}
+
+function articleDates(articles: MediumArticle[]): Date[] {
+  return articles.map(article => new Date(article.pubDate));
+}
+
+export function buildSitemapEntries(events: Event[], articles: MediumArticle[]): SitemapEntry[] {
+  const eventDates = events.map(event => event.updatedAt);
+  const pageCount = Math.ceil(articles.length / ARTICLES_PER_PAGE);
+
+  return [
+    { path: '/', lastmod: newest([...eventDates, ...articleDates(articles)]) },
+    ...STATIC_PAGES.map(path => ({ path })),
+    ...EXERCISES.map(exercise => ({ path: exercisePath(exercise.id) })),
+    { path: '/events', lastmod: newest(eventDates) },
+    ...events.map(event => ({ path: `/events/${event.slug}`, lastmod: event.updatedAt })),
+    ...groupEventsBySeries(events).flatMap(({ series, events: sessions }) =>
+      series
+        ? [{ path: getSeriesPath(series.slug), lastmod: newest(sessions.map(e => e.updatedAt)) }]
+        : []
+    ),
+    // Page 1 of the archive is /articles itself
+    ...Array.from({ length: Math.max(pageCount, 1) }, (_, index) => ({
+      path: getArticlesPageUrl(index + 1),
+      lastmod: newest(
+        articleDates(articles.slice(index * ARTICLES_PER_PAGE, (index + 1) * ARTICLES_PER_PAGE))
+      ),
+    })),
+    ...groupArticlesByTag(articles).map(tag => ({
+      path: `/articles/tags/${tag.slug}`,
+      lastmod: newest(articleDates(tag.articles)),
+    })),
+    ...articles.map(article => ({
+      path: `/articles/${article.slug}`,
+      lastmod: newest([new Date(article.pubDate)]),
+    })),
+  ];
+}
+
+// Pages are built as directories, so their canonical URLs end in a slash
+function pageUrl(path: string, siteUrl: string): string {
+  return new URL(path.endsWith('/') ? path : `${path}/`, siteUrl).href;
+}
+
+export function generateUrlset(entries: SitemapEntry[], siteUrl: string): string {
+  const urls = entries.flatMap(entry => {
+    const alternates = LOCALES.map(
+      locale =>
+        `    <xhtml:link rel="alternate" hreflang="${LOCALE_TAGS[locale]}" href="${escapeXml(pageUrl(localizePath(entry.path, locale), siteUrl))}" />`
+    );
+
+    return LOCALES.map(locale =>
+      [
+        '  <url>',
+        `    <loc>${escapeXml(pageUrl(localizePath(entry.path, locale), siteUrl))}</loc>`,
+        ...(entry.lastmod ? [`    <lastmod>${entry.lastmod.toISOString()}</lastmod>`] : []),
+        ...alternates,
+        '  </url>',
+      ].join('\n')
+    );
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...urls,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+// Entries per part file; never empty, so the index always has a part to point at
+export function splitSitemapEntries(
+  entries: SitemapEntry[],
+  limit: number = SITEMAP_URL_LIMIT
+): SitemapEntry[][] {
+  const perPart = Math.max(Math.floor(limit / LOCALES.length), 1);
+  const parts: SitemapEntry[][] = [];
+  for (let start = 0; start < entries.length; start += perPart) {
+    parts.push(entries.slice(start, start + perPart));
+  }
+  return parts.length > 0 ? parts : [[]];
+}
+
+export function generateSitemapIndex(parts: SitemapEntry[][], siteUrl: string): string {
+  const sitemaps = parts.map((part, index) => {
+    const lastmod = newest(part.flatMap(entry => (entry.lastmod ? [entry.lastmod] : [])));
+    return [
+      '  <sitemap>',
+      `    <loc>${escapeXml(new URL(getSitemapPartPath(index), siteUrl).href)}</loc>`,
+      ...(lastmod ? [`    <lastmod>${lastmod.toISOString()}</lastmod>`] : []),
+      '  </sitemap>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps,
+    '</sitemapindex>',
+    '',
+  ].join('\n');
+}
+
+// Staging and preview deployments are closed to crawlers entirely
+export function generateRobotsTxt(production: boolean, siteUrl: string): string {
+  if (!production) return ['User-agent: *', 'Disallow: /', ''].join('\n');
+
+  return [
+    'User-agent: *',
+    'Allow: /',
+    'Disallow: /admin/',
+    'Disallow: /api/',
+    'Disallow: /registrations/',
+    'Disallow: /id/registrations/',
+    '',
+    `Sitemap: ${new URL(SITEMAP_PATH, siteUrl).href}`,
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,42 @@
+// Monaco setup for the SQL playground. Loaded on demand by the playground script: until it
+// arrives the page works with a plain textarea, so nothing here may be needed for a first query.
+
+import * as monaco from 'monaco-editor/esm/vs/editor/editor.api.js';
+import 'monaco-editor/esm/vs/editor/editor.all.js';
+import 'monaco-editor/esm/vs/basic-languages/sql/sql.contribution.js';
+import EditorWorker from 'monaco-editor/esm/vs/editor/editor.worker.js?worker';
+
+export interface SqlEditor {
+  getValue(): string;
+  setValue(value: string): void;
+  focus(): void;
+}
+
+export interface SqlEditorOptions {
+  value: string;
+  label: string;
+  onRun: () => void;
+}
+
+// SQL only needs the base editor worker; the language workers ship with editor.main
+self.MonacoEnvironment = { getWorker: () => new EditorWorker() };
+
+export function createSqlEditor(container: HTMLElement, options: SqlEditorOptions): SqlEditor {
+  const editor = monaco.editor.create(container, {
+    value: options.value,
+    language: 'sql',
+    ariaLabel: options.label,
+    automaticLayout: true,
+    fontSize: 14,
+    minimap: { enabled: false },
+    scrollBeyondLastLine: false,
+    tabSize: 2,
+  });
+  editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.Enter, options.onRun);
+
+  return {
+    getValue: () => editor.getValue(),
+    setValue: value => editor.setValue(value),
+    focus: () => editor.focus(),
+  };
+}
@@ -0,0 +1,65 @@
+// Static paths shared by the English pages and their /id/ counterparts
+import type { PaginateFunction } from 'astro';
+import { getEvents, getEventSeries } from './events';
+import { fetchMediumArticles, groupArticlesByTag, ARTICLES_PER_PAGE } from './medium';
+import { EXERCISES } from './playground-exercises';
+
+export async function getEventPaths() {
+  const events = await getEvents();
+
+  return events.map(event => ({
+    params: { slug: event.slug },
+    props: { event },
+  }));
+}
+
+export async function getEventSeriesPaths() {
+  const series = await getEventSeries();
+
+  return series.map(entry => ({
+    params: { slug: entry.slug },
+    props: { series: entry },
+  }));
+}
+
+export async function getArticlePaths() {
+  const articles = await fetchMediumArticles();
+
+  return articles.map((article, index) => ({
+    params: { slug: article.slug },
+    props: {
+      article,
+      previous: articles[index - 1],
+      next: articles[index + 1],
+    },
+  }));
+}
+
+export async function getArticlePagePaths(paginate: PaginateFunction) {
+  const articles = await fetchMediumArticles();
+
+  // Page 1 is served by /articles itself
+  return paginate(articles, { pageSize: ARTICLES_PER_PAGE }).filter(
+    path => path.params.page !== '1'
+  );
+}
+
+export async function getArticleTagPaths() {
+  const articles = await fetchMediumArticles();
+
+  return groupArticlesByTag(articles).map(tag => ({
+    params: { tag: tag.slug },
+    props: { tag },
+  }));
+}
+
+export function getExercisePaths() {
+  return EXERCISES.map((exercise, index) => ({
+    params: { exercise: exercise.id },
+    props: {
+      exercise,
+      previous: EXERCISES[index - 1],
+      next: EXERCISES[index + 1],
+    },
+  }));
+}
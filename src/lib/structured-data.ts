@@ -0,0 +1,133 @@
+// Schema.org Structured Data
+// JSON-LD for search engines: the community as an Organization on every page, and Event and
+// Article entries on their detail pages so workshops can show up in Google's event results.
+import type { Article, Event, SiteConfig } from '../types';
+import { getEventAvailability, usesNativeRegistration } from './registrations';
+
+export type JsonLd = Record<string, unknown>;
+
+// Absolute URLs of the page the entry describes and its share image
+export interface JsonLdPage {
+  url: string;
+  image: string;
+}
+
+const SCHEMA = 'https://schema.org';
+const LOGO_PATH = '/images/logo.png';
+// Google truncates longer article headlines
+const MAX_HEADLINE_LENGTH = 110;
+
+const ATTENDANCE_MODES: Record<Event['locationType'], string> = {
+  physical: `${SCHEMA}/OfflineEventAttendanceMode`,
+  virtual: `${SCHEMA}/OnlineEventAttendanceMode`,
+  hybrid: `${SCHEMA}/MixedEventAttendanceMode`,
+};
+
+function absoluteUrl(path: string, base: string): string {
+  return new URL(path, base).href;
+}
+
+function organizationRef(config: SiteConfig): JsonLd {
+  return { '@type': 'Organization', '@id': `${absoluteUrl('/', config.url)}#organization` };
+}
+
+export function organizationToJsonLd(config: SiteConfig): JsonLd {
+  return {
+    '@context': SCHEMA,
+    ...organizationRef(config),
+    name: config.name,
+    url: absoluteUrl('/', config.url),
+    logo: absoluteUrl(LOGO_PATH, config.url),
+    description: config.description,
+    email: config.email,
+    foundingDate: String(config.foundedYear),
+    sameAs: [config.linkedinUrl, config.mediumUrl].filter(Boolean),
+  };
+}
+
+function eventLocation(event: Event, page: JsonLdPage): JsonLd | JsonLd[] {
+  const place: JsonLd = {
+    '@type': 'Place',
+    name: event.venue || event.city || 'Indonesia',
+    address: {
+      '@type': 'PostalAddress',
+      streetAddress: event.address,
+      addressLocality: event.city,
+      addressCountry: 'ID',
+    },
+  };
+  // The page itself stands in until the organizers share the meeting link
+  const virtual: JsonLd = { '@type': 'VirtualLocation', url: event.virtualLink || page.url };
+
+  if (event.locationType === 'physical') return place;
+  if (event.locationType === 'virtual') return virtual;
+  return [place, virtual];
+}
+
+export function eventToJsonLd(event: Event, page: JsonLdPage, organizer: SiteConfig): JsonLd {
+  const native = usesNativeRegistration(event);
+  const { isFull, seatsRemaining } = getEventAvailability(event);
+
+  return {
+    '@context': SCHEMA,
+    '@type': 'Event',
+    name: event.title,
+    description: event.excerpt,
+    url: page.url,
+    image: [event.coverImage ? absoluteUrl(event.coverImage, page.url) : page.image],
+    startDate: event.startDate.toISOString(),
+    endDate: event.endDate?.toISOString(),
+    eventStatus:
+      event.status === 'cancelled' ? `${SCHEMA}/EventCancelled` : `${SCHEMA}/EventScheduled`,
+    eventAttendanceMode: ATTENDANCE_MODES[event.locationType],
+    location: eventLocation(event, page),
+    organizer: { ...organizationRef(organizer), name: organizer.name, url: organizer.url },
+    offers: {
+      '@type': 'Offer',
+      // Events registered on this site sign up on the event page itself
+      url: event.registrationUrl || page.url,
+      availability: `${SCHEMA}/${native && isFull ? 'SoldOut' : 'InStock'}`,
+      validFrom: event.publishedAt.toISOString(),
+    },
+    maximumAttendeeCapacity: event.maxAttendees,
+    // Only known for native registration; external sign-ups are not counted here
+    remainingAttendeeCapacity: native ? seatsRemaining : undefined,
+  };
+}
+
+export function articleToJsonLd(article: Article, page: JsonLdPage, publisher: SiteConfig): JsonLd {
+  const headline =
+    article.title.length > MAX_HEADLINE_LENGTH
+      ? `${article.title.slice(0, MAX_HEADLINE_LENGTH - 1).trimEnd()}…`
+      : article.title;
+
+  return {
+    '@context': SCHEMA,
+    '@type': 'Article',
+    headline,
+    description: article.excerpt,
+    url: page.url,
+    // The original post stays the canonical copy
+    mainEntityOfPage: article.url,
+    image: [article.thumbnail || page.image],
+    // Some feeds leave the date out; an invalid date would throw
+    datePublished: isNaN(article.publishedAt.getTime())
+      ? undefined
+      : article.publishedAt.toISOString(),
+    author: { '@type': 'Person', name: article.author },
+    publisher: {
+      ...organizationRef(publisher),
+      name: publisher.name,
+      logo: { '@type': 'ImageObject', url: absoluteUrl(LOGO_PATH, publisher.url) },
+    },
+    keywords: article.categories.length > 0 ? article.categories.join(', ') : undefined,
+  };
+}
+
+// Safe inside <script type="application/ld+json">: no "</script>" or HTML comment can break out
+export function serializeJsonLd(data: JsonLd | JsonLd[]): string {
+  return JSON.stringify(data)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026');
+}
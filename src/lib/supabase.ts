@@ -1,5 +1,32 @@
-import { createClient } from '@supabase/supabase-js';
-import type { Event } from '../types';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { Event, EventSeries, TeamMember } from '../types';
+import {
+  parseRegistrationError,
+  type CancelledRegistration,
+  type Registration,
+  type RegistrationInput,
+  type RegistrationOutcome,
+} from './registrations';
+import type { ContactInput, ContactOutcome } from './contact';
+import {
+  slugify,
+  toEventRow,
+  toInputErrors,
+  uniqueSlug,
+  type EventInput,
+  type EventMutationOutcome,
+} from './event-admin';
+import {
+  formatInvalidEventRow,
+  formatValidationSummary,
+  validateEventRow,
+  validateEventRows,
+} from './event-validation';
+import { withResolvedStatus } from './event-status';
+import { eventSeriesSchema, frontmatterToSeries } from './event-content';
+import { sampleDataOrThrow } from './data-policy';
+import { getEventSourceIds, type EventSource } from './event-sources';
+import { recordDataSource } from './build-report';
 
 // Initialize Supabase client only if credentials are available
 const supabaseUrl = import.meta.env.PUBLIC_SUPABASE_URL || '';
@@ -8,161 +35,639 @@ const supabaseKey = import.meta.env.PUBLIC_SUPABASE_ANON_KEY || '';
 // Only create client if both URL and key are provided
 export const supabase = supabaseUrl && supabaseKey ? createClient(supabaseUrl, supabaseKey) : null;
 
-// Check if Supabase is configured
-const isSupabaseConfigured = !!supabase;
+const SUPABASE_NOT_CONFIGURED = 'Supabase is not configured';
 
-// Map Supabase snake_case response to camelCase Event interface
-function mapDbEventToEvent(dbEvent: Record<string, unknown>): Event {
+// Fresh client for server-side auth flows; given an access token, requests run as that user
+export function createSupabaseClient(accessToken?: string): SupabaseClient | null {
+  if (!supabaseUrl || !supabaseKey) return null;
+
+  return createClient(supabaseUrl, supabaseKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    ...(accessToken && { global: { headers: { Authorization: `Bearer ${accessToken}` } } }),
+  });
+}
+
+// Validate Supabase rows and map them to the camelCase Event interface, reporting skipped rows
+function mapDbEvents(rows: Record<string, unknown>[]): Event[] {
+  const report = validateEventRows(rows);
+
+  if (report.invalid.length > 0) {
+    console.warn(formatValidationSummary(report));
+  }
+
+  return report.events;
+}
+
+function mapDbEvent(row: Record<string, unknown>): Event | null {
+  const result = validateEventRow(row);
+
+  if (!result.valid) {
+    console.warn(`Skipping invalid event row ${formatInvalidEventRow(result.invalid)}`);
+    return null;
+  }
+
+  return result.event;
+}
+
+// Series rows are checked with the Markdown series schema once their columns are renamed
+function mapDbSeries(row: Record<string, unknown>): EventSeries | null {
+  const column = (name: string) => row[name] ?? undefined;
+  const result = eventSeriesSchema.safeParse({
+    title: column('title'),
+    excerpt: column('excerpt'),
+    recurrence: column('recurrence'),
+    startDate: column('start_date'),
+    endDate: column('end_date'),
+    timezone: column('timezone'),
+    locationType: column('location_type'),
+    venue: column('venue'),
+    address: column('address'),
+    city: column('city'),
+    virtualLink: column('virtual_link'),
+    coverImage: column('cover_image'),
+    category: column('category'),
+    tags: column('tags'),
+    registrationUrl: column('registration_url'),
+    isFeatured: column('is_featured'),
+    overrides: column('overrides'),
+    updatedAt: column('updated_at'),
+    publishedAt: column('published_at'),
+  });
+
+  if (!result.success || typeof row.slug !== 'string') {
+    const errors = result.success
+      ? 'slug is required'
+      : result.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join('; ');
+    console.warn(`Skipping invalid event series row ${String(row.slug ?? row.id)}: ${errors}`);
+    return null;
+  }
+
+  const description = typeof row.description === 'string' ? row.description : '';
+  return frontmatterToSeries(row.slug, result.data, description, String(row.id));
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  const message = (error as { message?: unknown } | null)?.message;
+  return typeof message === 'string' ? message : String(error);
+}
+
+// Run a public read against Supabase and record where the dataset came from for the build
+// report. Sample data is a development convenience: under the strict policy (production builds)
+// a missing or failing Supabase throws instead, see data-policy.ts. Deployments without a
+// database get nothing.
+async function loadDataset<T>(
+  dataset: string,
+  client: SupabaseClient | null,
+  load: (client: SupabaseClient) => Promise<T[]>,
+  sample: T[]
+): Promise<T[]> {
+  let reason = SUPABASE_NOT_CONFIGURED;
+
+  // A deployment that reads events from elsewhere may run without a database at all
+  if (!client && !getEventSourceIds().includes('supabase')) {
+    recordDataSource({
+      dataset,
+      source: 'Supabase',
+      origin: 'none',
+      count: 0,
+      error: `${reason} and not listed in EVENT_SOURCES`,
+    });
+    return [];
+  }
+
+  if (client) {
+    let value: T[] | undefined;
+    try {
+      value = await load(client);
+    } catch (error) {
+      reason = describeError(error);
+      console.error(`Error fetching ${dataset}: ${reason}`);
+    }
+
+    if (value) {
+      recordDataSource({ dataset, source: 'Supabase', origin: 'live', count: value.length });
+      return value;
+    }
+  }
+
+  const value = sampleDataOrThrow(dataset, reason, sample);
+  recordDataSource({
+    dataset,
+    source: 'Supabase',
+    origin: 'sample',
+    count: value.length,
+    error: reason,
+  });
+  return value;
+}
+
+// Event Source
+// Public reads only return published events; drafts stay in the admin area. Throws when
+// Supabase is not configured or a query fails; events.ts decides what happens then.
+export function createSupabaseEventSource(client: SupabaseClient | null): EventSource {
+  return {
+    id: 'supabase',
+    label: 'Supabase',
+
+    async getEvents() {
+      if (!client) throw new Error(SUPABASE_NOT_CONFIGURED);
+
+      const { data, error } = await client
+        .from('events')
+        .select('*')
+        .not('published_at', 'is', null)
+        .order('start_date', { ascending: true });
+
+      if (error) throw new Error(error.message);
+      return mapDbEvents(data || []);
+    },
+
+    async getEventBySlug(slug) {
+      if (!client) throw new Error(SUPABASE_NOT_CONFIGURED);
+
+      const { data, error } = await client
+        .from('events')
+        .select('*')
+        .eq('slug', slug)
+        .not('published_at', 'is', null)
+        .maybeSingle();
+
+      if (error) throw new Error(error.message);
+      return data ? mapDbEvent(data) : null;
+    },
+
+    async getSeries() {
+      if (!client) throw new Error(SUPABASE_NOT_CONFIGURED);
+
+      const { data, error } = await client
+        .from('event_series')
+        .select('*')
+        .not('published_at', 'is', null)
+        .order('start_date', { ascending: true });
+
+      if (error) throw new Error(error.message);
+      return (data || []).map(mapDbSeries).filter((series): series is EventSeries => !!series);
+    },
+  };
+}
+
+export const supabaseEventSource = createSupabaseEventSource(supabase);
+
+// Event Admin Functions
+// Writes run under row level security, so pass the client from the organizer's session.
+// Unlike the public reads, these include drafts and never fall back to sample events.
+async function findTakenSlugs(client: SupabaseClient, base: string): Promise<string[]> {
+  const { data, error } = await client.from('events').select('slug').like('slug', `${base}%`);
+  if (error) throw error;
+  return (data || []).map(row => row.slug as string);
+}
+
+export async function getAllEvents(client: SupabaseClient | null = supabase): Promise<Event[]> {
+  if (!client) return [];
+
+  try {
+    const { data, error } = await client
+      .from('events')
+      .select('*')
+      .order('start_date', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching events for admin:', error);
+      return [];
+    }
+
+    return mapDbEvents(data || []).map(e => withResolvedStatus(e));
+  } catch (error) {
+    console.error('Error in getAllEvents:', error);
+    return [];
+  }
+}
+
+export async function getEventById(
+  id: string,
+  client: SupabaseClient | null = supabase
+): Promise<Event | null> {
+  if (!client) return null;
+
+  try {
+    const { data, error } = await client.from('events').select('*').eq('id', id).maybeSingle();
+
+    if (error) {
+      console.error('Error fetching event by id:', error);
+      return null;
+    }
+
+    return data ? mapDbEvent(data) : null;
+  } catch (error) {
+    console.error('Error in getEventById:', error);
+    return null;
+  }
+}
+
+// New events start as drafts; an empty slug is generated from the title and made unique
+export async function createEvent(
+  input: EventInput,
+  client: SupabaseClient | null = supabase
+): Promise<EventMutationOutcome<Event>> {
+  const now = new Date().toISOString();
+  const base = input.slug || slugify(input.title);
+  const row = {
+    ...toEventRow(input),
+    slug: base,
+    published_at: null,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const result = validateEventRow({ id: 'new', ...row });
+  if (!result.valid) {
+    return { ok: false, error: 'invalid_input', errors: toInputErrors(result.invalid.errors) };
+  }
+  if (!client) {
+    return { ok: false, error: 'not_configured' };
+  }
+
+  try {
+    const taken = await findTakenSlugs(client, base);
+    if (input.slug && taken.includes(base)) {
+      return { ok: false, error: 'slug_taken' };
+    }
+    row.slug = uniqueSlug(base, taken);
+
+    const { data, error } = await client.from('events').insert(row).select().single();
+
+    if (error || !data) {
+      // A concurrent insert can still claim the slug between the check and the insert
+      if (error?.code === '23505') return { ok: false, error: 'slug_taken' };
+      console.error('Error creating event:', error);
+      return { ok: false, error: 'failed' };
+    }
+
+    const event = mapDbEvent(data);
+    return event ? { ok: true, value: event } : { ok: false, error: 'failed' };
+  } catch (error) {
+    console.error('Error in createEvent:', error);
+    return { ok: false, error: 'failed' };
+  }
+}
+
+// Only the given fields change; an empty slug keeps the current one
+export async function updateEvent(
+  id: string,
+  changes: Partial<EventInput>,
+  client: SupabaseClient | null = supabase
+): Promise<EventMutationOutcome<Event>> {
+  if (!client) {
+    return { ok: false, error: 'not_configured' };
+  }
+
+  try {
+    const { data: existing, error: fetchError } = await client
+      .from('events')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching event for update:', fetchError);
+      return { ok: false, error: 'failed' };
+    }
+    if (!existing) {
+      return { ok: false, error: 'not_found' };
+    }
+
+    const row: Record<string, unknown> = {
+      ...toEventRow(changes),
+      updated_at: new Date().toISOString(),
+    };
+    if (!changes.slug) delete row.slug;
+
+    const result = validateEventRow({ ...existing, ...row });
+    if (!result.valid) {
+      return { ok: false, error: 'invalid_input', errors: toInputErrors(result.invalid.errors) };
+    }
+
+    if (row.slug && row.slug !== existing.slug) {
+      const { data: clash, error } = await client
+        .from('events')
+        .select('id')
+        .eq('slug', row.slug)
+        .neq('id', id)
+        .limit(1);
+      if (error) throw error;
+      if (clash?.length) return { ok: false, error: 'slug_taken' };
+    }
+
+    const { data, error } = await client.from('events').update(row).eq('id', id).select().single();
+
+    if (error || !data) {
+      if (error?.code === '23505') return { ok: false, error: 'slug_taken' };
+      console.error('Error updating event:', error);
+      return { ok: false, error: 'failed' };
+    }
+
+    const event = mapDbEvent(data);
+    return event ? { ok: true, value: event } : { ok: false, error: 'failed' };
+  } catch (error) {
+    console.error('Error in updateEvent:', error);
+    return { ok: false, error: 'failed' };
+  }
+}
+
+// Deleting an event also removes its registrations (on delete cascade)
+export async function deleteEvent(
+  id: string,
+  client: SupabaseClient | null = supabase
+): Promise<EventMutationOutcome<string>> {
+  if (!client) {
+    return { ok: false, error: 'not_configured' };
+  }
+
+  try {
+    const { data, error } = await client.from('events').delete().eq('id', id).select('id');
+
+    if (error) {
+      console.error('Error deleting event:', error);
+      return { ok: false, error: 'failed' };
+    }
+
+    return data?.length ? { ok: true, value: id } : { ok: false, error: 'not_found' };
+  } catch (error) {
+    console.error('Error in deleteEvent:', error);
+    return { ok: false, error: 'failed' };
+  }
+}
+
+// Publishing is idempotent: an already published event keeps its original publishedAt
+export async function publishEvent(
+  id: string,
+  client: SupabaseClient | null = supabase
+): Promise<EventMutationOutcome<Event>> {
+  if (!client) {
+    return { ok: false, error: 'not_configured' };
+  }
+
+  try {
+    const now = new Date().toISOString();
+    const { data, error } = await client
+      .from('events')
+      .update({ published_at: now, updated_at: now })
+      .eq('id', id)
+      .is('published_at', null)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error publishing event:', error);
+      return { ok: false, error: 'failed' };
+    }
+
+    const event = data ? mapDbEvent(data) : await getEventById(id, client);
+    return event ? { ok: true, value: event } : { ok: false, error: 'not_found' };
+  } catch (error) {
+    console.error('Error in publishEvent:', error);
+    return { ok: false, error: 'failed' };
+  }
+}
+
+// Supabase `team_members` row (snake_case, as returned by PostgREST)
+interface DbTeamMember {
+  id: string | number;
+  name: string | null;
+  role: string | null;
+  bio: string | null;
+  photo: string | null;
+  email: string | null;
+  linkedin_url: string | null;
+  twitter_url: string | null;
+  display_order: number | null;
+  is_active: boolean | null;
+}
+
+// Map a Supabase `team_members` row to the camelCase TeamMember interface
+function mapDbTeamMember(row: DbTeamMember): TeamMember {
   return {
-    id: dbEvent.id as string,
-    title: dbEvent.title as string,
-    slug: dbEvent.slug as string,
-    description: dbEvent.description as string,
-    excerpt: (dbEvent.excerpt as string) || '',
-    startDate: new Date(dbEvent.start_date as string),
-    endDate: dbEvent.end_date ? new Date(dbEvent.end_date as string) : undefined,
-    timezone: (dbEvent.timezone as string) || 'Asia/Jakarta',
-    locationType: (dbEvent.location_type as Event['locationType']) || 'virtual',
-    venue: dbEvent.venue as string | undefined,
-    address: dbEvent.address as string | undefined,
-    city: dbEvent.city as string | undefined,
-    virtualLink: dbEvent.virtual_link as string | undefined,
-    coverImage: (dbEvent.cover_image as string) || '',
-    category: dbEvent.category as string,
-    tags: (dbEvent.tags as string[]) || [],
-    status: (dbEvent.status as Event['status']) || 'upcoming',
-    registrationUrl: dbEvent.registration_url as string | undefined,
-    maxAttendees: dbEvent.max_attendees as number | undefined,
-    registeredCount: (dbEvent.registered_count as number) || 0,
-    createdAt: new Date(dbEvent.created_at as string),
-    updatedAt: new Date(dbEvent.updated_at as string),
-    publishedAt: new Date(dbEvent.published_at as string),
-    isFeatured: (dbEvent.is_featured as boolean) || false,
+    id: String(row.id),
+    name: row.name || '',
+    role: row.role || '',
+    bio: row.bio || '',
+    photo: row.photo || '',
+    email: row.email || undefined,
+    linkedinUrl: row.linkedin_url || undefined,
+    twitterUrl: row.twitter_url || undefined,
+    displayOrder: row.display_order ?? 0,
+    isActive: row.is_active ?? true,
   };
 }
 
-// Sample/Placeholder events for when Supabase is not configured
-const sampleEvents: Event[] = [
+// Sample team for development without Supabase
+const sampleTeamMembers: TeamMember[] = [
   {
     id: '1',
-    title: 'DEI Workshop: Introduction to Data Engineering',
-    slug: 'intro-to-data-engineering',
-    description:
-      'Join us for an introductory workshop on data engineering fundamentals. Learn about ETL pipelines, data warehousing, and modern data stack.',
-    excerpt:
-      'An introductory workshop covering data engineering fundamentals, ETL pipelines, and modern data stack.',
-    startDate: new Date('2026-03-15T09:00:00'),
-    endDate: new Date('2026-03-15T12:00:00'),
-    timezone: 'Asia/Jakarta',
-    locationType: 'virtual',
-    virtualLink: 'https://zoom.us/j/example',
-    coverImage: '',
-    category: 'Workshop',
-    tags: ['beginner', 'data-engineering', 'etl'],
-    status: 'upcoming',
-    maxAttendees: 100,
-    registeredCount: 45,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-    publishedAt: new Date(),
-    isFeatured: true,
-    registrationUrl: 'https://forms.google.com/example',
+    name: 'Team Member 1',
+    role: 'Founder & Lead Organizer',
+    bio: 'Placeholder bio for team member. Update with actual information.',
+    photo: '',
+    linkedinUrl: 'https://linkedin.com',
+    displayOrder: 1,
+    isActive: true,
   },
   {
     id: '2',
-    title: 'Building Data Pipelines with Apache Airflow',
-    slug: 'data-pipelines-airflow',
-    description:
-      'Hands-on workshop on building and scheduling data pipelines using Apache Airflow.',
-    excerpt:
-      'Learn to build and schedule data pipelines using Apache Airflow in this hands-on workshop.',
-    startDate: new Date('2026-04-20T13:00:00'),
-    endDate: new Date('2026-04-20T16:00:00'),
-    timezone: 'Asia/Jakarta',
-    locationType: 'hybrid',
-    city: 'Jakarta',
-    venue: 'Tech Hub Jakarta',
-    coverImage: '',
-    category: 'Workshop',
-    tags: ['airflow', 'pipelines', 'automation'],
-    status: 'upcoming',
-    maxAttendees: 50,
-    registeredCount: 23,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-    publishedAt: new Date(),
-    isFeatured: true,
-    registrationUrl: 'https://forms.google.com/example2',
+    name: 'Team Member 2',
+    role: 'Co-Organizer',
+    bio: 'Placeholder bio for team member. Update with actual information.',
+    photo: '',
+    linkedinUrl: 'https://linkedin.com',
+    displayOrder: 2,
+    isActive: true,
+  },
+  {
+    id: '3',
+    name: 'Team Member 3',
+    role: 'Event Coordinator',
+    bio: 'Placeholder bio for team member. Update with actual information.',
+    photo: '',
+    linkedinUrl: 'https://linkedin.com',
+    displayOrder: 3,
+    isActive: true,
   },
 ];
 
-// Event Functions
-export async function getEvents(): Promise<Event[]> {
-  if (!isSupabaseConfigured) {
-    console.log('Supabase not configured, returning sample events');
-    return sampleEvents;
+// Only active members are shown, ordered by displayOrder then name
+export function selectTeamMembers(members: TeamMember[]): TeamMember[] {
+  return members
+    .filter(member => member.isActive)
+    .sort((a, b) => a.displayOrder - b.displayOrder || a.name.localeCompare(b.name));
+}
+
+// Team Functions
+export async function getTeamMembers(
+  client: SupabaseClient | null = supabase
+): Promise<TeamMember[]> {
+  const members = await loadDataset(
+    'team members',
+    client,
+    async client => {
+      const { data, error } = await client
+        .from('team_members')
+        .select('*')
+        .eq('is_active', true)
+        .order('display_order', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map(mapDbTeamMember);
+    },
+    sampleTeamMembers
+  );
+
+  return selectTeamMembers(members);
+}
+
+// Site Settings Functions
+// `site_settings` is a key/value table, e.g. { key: 'member_count', value: '2500' }.
+// Settings only override the defaults in site-config.ts, so unlike the other datasets a
+// missing or failing table warns and returns no overrides under every policy.
+export async function getSiteSettings(
+  client: SupabaseClient | null = supabase
+): Promise<Record<string, string>> {
+  let reason = SUPABASE_NOT_CONFIGURED;
+
+  if (client) {
+    try {
+      const { data, error } = await client.from('site_settings').select('key, value');
+
+      if (error) throw error;
+      const settings = Object.fromEntries(
+        (data || []).map((row: { key: string; value: unknown }) => [
+          row.key,
+          String(row.value ?? ''),
+        ])
+      );
+      recordDataSource({
+        dataset: 'site settings',
+        source: 'Supabase',
+        origin: 'live',
+        count: Object.keys(settings).length,
+      });
+      return settings;
+    } catch (error) {
+      reason = describeError(error);
+      console.warn(`Using default site settings: ${reason}`);
+    }
+  }
+
+  recordDataSource({
+    dataset: 'site settings',
+    source: 'Supabase',
+    origin: 'none',
+    count: 0,
+    error: reason,
+  });
+  return {};
+}
+
+// Registration Functions
+// Both calls go through database functions that lock the event row, so capacity holds
+// under concurrent sign-ups. Without Supabase there is nowhere to store registrations.
+interface DbRegistration {
+  id: string;
+  status: Registration['status'];
+  cancel_token: string;
+  waitlist_position: number | null;
+}
+
+export async function createRegistration(
+  eventId: string,
+  input: RegistrationInput,
+  client: SupabaseClient | null = supabase
+): Promise<RegistrationOutcome<Registration>> {
+  if (!client) {
+    return { ok: false, error: 'not_configured' };
   }
 
   try {
-    const { data, error } = await supabase!
-      .from('events')
-      .select('*')
-      .order('start_date', { ascending: true });
+    const { data, error } = await client
+      .rpc('register_for_event', { p_event_id: eventId, p_name: input.name, p_email: input.email })
+      .single<DbRegistration>();
 
-    if (error) {
-      console.error('Error fetching events:', error);
-      return sampleEvents;
+    if (error || !data) {
+      const code = parseRegistrationError(error?.message);
+      if (code === 'failed') console.error('Error creating registration:', error);
+      return { ok: false, error: code };
     }
 
-    return data ? data.map(mapDbEventToEvent) : sampleEvents;
+    return {
+      ok: true,
+      value: {
+        id: data.id,
+        status: data.status,
+        cancelToken: data.cancel_token,
+        waitlistPosition: data.waitlist_position ?? undefined,
+      },
+    };
   } catch (error) {
-    console.error('Error in getEvents:', error);
-    return sampleEvents;
+    console.error('Error in createRegistration:', error);
+    return { ok: false, error: 'failed' };
   }
 }
 
-export async function getEventBySlug(slug: string): Promise<Event | null> {
-  if (!isSupabaseConfigured) {
-    return sampleEvents.find(e => e.slug === slug) || null;
+export async function cancelRegistration(
+  cancelToken: string,
+  client: SupabaseClient | null = supabase
+): Promise<RegistrationOutcome<CancelledRegistration>> {
+  if (!client) {
+    return { ok: false, error: 'not_configured' };
   }
 
   try {
-    const { data, error } = await supabase!.from('events').select('*').eq('slug', slug).single();
+    const { data, error } = await client
+      .rpc('cancel_registration', { p_cancel_token: cancelToken })
+      .single<{ event_id: string; promoted_id: string | null }>();
 
-    if (error) {
-      console.error('Error fetching event:', error);
-      return sampleEvents.find(e => e.slug === slug) || null;
+    if (error || !data) {
+      const code = parseRegistrationError(error?.message);
+      if (code === 'failed') console.error('Error cancelling registration:', error);
+      return { ok: false, error: code };
     }
 
-    return data ? mapDbEventToEvent(data) : null;
+    return { ok: true, value: { promoted: data.promoted_id !== null } };
   } catch (error) {
-    console.error('Error in getEventBySlug:', error);
-    return sampleEvents.find(e => e.slug === slug) || null;
+    console.error('Error in cancelRegistration:', error);
+    return { ok: false, error: 'failed' };
   }
 }
 
-export async function getFeaturedEvents(): Promise<Event[]> {
-  if (!isSupabaseConfigured) {
-    return sampleEvents.filter(e => e.isFeatured);
+// Contact Functions
+// Visitors may only insert into `contact_messages`, so the row is not selected back.
+export async function saveContactMessage(
+  input: ContactInput,
+  client: SupabaseClient | null = supabase
+): Promise<ContactOutcome> {
+  if (!client) {
+    return { ok: false, error: 'not_configured' };
   }
 
   try {
-    const { data, error } = await supabase!
-      .from('events')
-      .select('*')
-      .eq('is_featured', true)
-      .eq('status', 'upcoming')
-      .order('start_date', { ascending: true })
-      .limit(3);
+    // Visitors can't insert into contact_messages; the function checks the message again
+    const { error } = await client.rpc('submit_contact_message', {
+      p_inquiry_type: input.inquiryType,
+      p_name: input.name,
+      p_email: input.email,
+      p_organization: input.organization ?? null,
+      p_message: input.message,
+    });
 
     if (error) {
-      console.error('Error fetching featured events:', error);
-      return sampleEvents.filter(e => e.isFeatured);
+      if (error.message === 'rate_limited') return { ok: false, error: 'rate_limited' };
+      console.error('Error saving contact message:', error);
+      return { ok: false, error: 'failed' };
     }
 
-    return data?.length ? data.map(mapDbEventToEvent) : sampleEvents.filter(e => e.isFeatured);
+    return { ok: true };
   } catch (error) {
-    console.error('Error in getFeaturedEvents:', error);
-    return sampleEvents.filter(e => e.isFeatured);
+    console.error('Error in saveContactMessage:', error);
+    return { ok: false, error: 'failed' };
   }
 }
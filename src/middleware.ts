@@ -0,0 +1,19 @@
+import { defineMiddleware } from 'astro:middleware';
+import { ADMIN_LOGIN_PATH, getAdminSession, isAdminPath } from './lib/admin-auth';
+
+// Everything under /admin except the login page needs an organizer session. Public pages are
+// prerendered and pass straight through.
+export const onRequest = defineMiddleware(async (context, next) => {
+  const { pathname } = context.url;
+  if (!isAdminPath(pathname) || pathname.startsWith(ADMIN_LOGIN_PATH)) {
+    return next();
+  }
+
+  const session = await getAdminSession(context.cookies);
+  if (!session) {
+    return context.redirect(`${ADMIN_LOGIN_PATH}?next=${encodeURIComponent(pathname)}`);
+  }
+
+  context.locals.admin = session;
+  return next();
+});
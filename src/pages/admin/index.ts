@@ -0,0 +1,6 @@
+import type { APIRoute } from 'astro';
+import { ADMIN_HOME_PATH } from '../../lib/admin-auth';
+
+export const prerender = false;
+
+export const GET: APIRoute = ({ redirect }) => redirect(ADMIN_HOME_PATH);
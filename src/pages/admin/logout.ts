@@ -0,0 +1,9 @@
+import type { APIRoute } from 'astro';
+import { ADMIN_LOGIN_PATH, signOut } from '../../lib/admin-auth';
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ cookies, redirect }) => {
+  await signOut(cookies);
+  return redirect(ADMIN_LOGIN_PATH, 303);
+};
@@ -0,0 +1,62 @@
+import type { APIRoute } from 'astro';
+import { saveContactMessage } from '../../lib/supabase';
+import { getSiteConfig } from '../../lib/site-config';
+import { formatContactEmail, isHoneypotFilled, validateContactInput } from '../../lib/contact';
+import { getMailTransport } from '../../lib/mail';
+import { createRateLimiter, getClientIp } from '../../lib/rate-limit';
+import { jsonResponse, readRequestBody } from '../../lib/api';
+
+export const prerender = false;
+
+// Five messages per visitor every ten minutes is generous for people and tight for scripts
+const limiter = createRateLimiter({ limit: 5, windowMs: 10 * 60 * 1000 });
+
+export const POST: APIRoute = async ({ request, clientAddress }) => {
+  const rate = limiter.check(getClientIp(request, clientAddress));
+  if (!rate.allowed) {
+    return jsonResponse({ error: 'rate_limited' }, 429, {
+      'Retry-After': String(rate.retryAfterSeconds),
+    });
+  }
+
+  const body = await readRequestBody(request);
+
+  // Answer bots exactly like a successful send so they have no reason to adapt
+  if (isHoneypotFilled(body)) {
+    return jsonResponse({ ok: true }, 201);
+  }
+
+  const result = validateContactInput(body);
+  if (!result.valid) {
+    return jsonResponse({ error: 'invalid_input', errors: result.errors }, 400);
+  }
+
+  const transport = getMailTransport();
+  const siteConfig = await getSiteConfig();
+
+  // Storing and forwarding are independent: either one is enough for the message to arrive
+  const [stored, sent] = await Promise.all([
+    saveContactMessage(result.input),
+    transport
+      ? transport
+          .send({ to: siteConfig.email, ...formatContactEmail(result.input, siteConfig.name) })
+          .then(() => true)
+          .catch(error => {
+            console.error('Error forwarding contact message:', error);
+            return false;
+          })
+      : Promise.resolve(null),
+  ]);
+
+  if (stored.ok || sent) {
+    return jsonResponse({ ok: true }, 201);
+  }
+  // The database keeps its own limit per email address, shared by every instance
+  if (stored.error === 'rate_limited') {
+    return jsonResponse({ error: 'rate_limited' }, 429, { 'Retry-After': '600' });
+  }
+  if (stored.error === 'not_configured' && sent === null) {
+    return jsonResponse({ error: 'not_configured' }, 503);
+  }
+  return jsonResponse({ error: 'failed' }, 500);
+};
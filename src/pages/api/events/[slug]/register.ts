@@ -0,0 +1,46 @@
+import type { APIRoute } from 'astro';
+import { createRegistration } from '../../../../lib/supabase';
+import { getEventBySlug } from '../../../../lib/events';
+import {
+  isRegistrationOpen,
+  usesNativeRegistration,
+  validateRegistrationInput,
+  REGISTRATION_ERROR_STATUS,
+} from '../../../../lib/registrations';
+import { handleDataSourceErrors, jsonResponse, readRequestBody } from '../../../../lib/api';
+import { createRateLimiter, getClientIp } from '../../../../lib/rate-limit';
+
+export const prerender = false;
+
+// Ten sign-ups per visitor every ten minutes covers a group registering from one office, and
+// keeps a script from filling an event and its waitlist with fake names
+const limiter = createRateLimiter({ limit: 10, windowMs: 10 * 60 * 1000 });
+
+export const POST: APIRoute = handleDataSourceErrors(async ({ params, request, clientAddress }) => {
+  const rate = limiter.check(getClientIp(request, clientAddress));
+  if (!rate.allowed) {
+    return jsonResponse({ error: 'rate_limited' }, 429, {
+      'Retry-After': String(rate.retryAfterSeconds),
+    });
+  }
+
+  const result = validateRegistrationInput(await readRequestBody(request));
+  if (!result.valid) {
+    return jsonResponse({ error: 'invalid_input', errors: result.errors }, 400);
+  }
+
+  const event = params.slug ? await getEventBySlug(params.slug) : null;
+  if (!event) {
+    return jsonResponse({ error: 'event_not_found' }, 404);
+  }
+  if (!usesNativeRegistration(event) || !isRegistrationOpen(event)) {
+    return jsonResponse({ error: 'registration_closed' }, 409);
+  }
+
+  const outcome = await createRegistration(event.id, result.input);
+  if (!outcome.ok) {
+    return jsonResponse({ error: outcome.error }, REGISTRATION_ERROR_STATUS[outcome.error]);
+  }
+
+  return jsonResponse(outcome.value, 201);
+});
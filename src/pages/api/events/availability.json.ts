@@ -0,0 +1,17 @@
+import type { APIRoute } from 'astro';
+import { getEvents } from '../../../lib/events';
+import { getEventAvailability } from '../../../lib/registrations';
+import { handleDataSourceErrors, jsonResponse } from '../../../lib/api';
+
+export const prerender = false;
+
+// Live seat counts keyed by event slug; pages are static, so cards refresh from here
+export const GET: APIRoute = handleDataSourceErrors(async () => {
+  const events = await getEvents();
+
+  return jsonResponse(
+    Object.fromEntries(events.map(event => [event.slug, getEventAvailability(event)])),
+    200,
+    { 'Cache-Control': 'public, max-age=30' }
+  );
+});
@@ -0,0 +1,22 @@
+import type { APIRoute } from 'astro';
+import { cancelRegistration } from '../../../lib/supabase';
+import { REGISTRATION_ERROR_STATUS } from '../../../lib/registrations';
+import { handleDataSourceErrors, jsonResponse, readRequestBody } from '../../../lib/api';
+
+export const prerender = false;
+
+const TOKEN_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const POST: APIRoute = handleDataSourceErrors(async ({ request }) => {
+  const { token } = await readRequestBody(request);
+  if (typeof token !== 'string' || !TOKEN_PATTERN.test(token)) {
+    return jsonResponse({ error: 'invalid_input' }, 400);
+  }
+
+  const outcome = await cancelRegistration(token);
+  if (!outcome.ok) {
+    return jsonResponse({ error: outcome.error }, REGISTRATION_ERROR_STATUS[outcome.error]);
+  }
+
+  return jsonResponse(outcome.value);
+});
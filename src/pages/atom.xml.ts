@@ -0,0 +1,19 @@
+import type { APIRoute } from 'astro';
+import { getEvents } from '../lib/events';
+import { getSiteConfig } from '../lib/site-config';
+import { getEventsFeed, FEED_CONTENT_TYPES, eventToFeedItem, generateAtom } from '../lib/feeds';
+
+export const GET: APIRoute = async ({ site }) => {
+  const siteConfig = await getSiteConfig();
+  const siteUrl = site?.href || siteConfig.url;
+  const events = await getEvents();
+
+  const feed = generateAtom(
+    { ...getEventsFeed(siteConfig.name), siteUrl, feedPath: '/atom.xml' },
+    events.map(event => eventToFeedItem(event, siteUrl))
+  );
+
+  return new Response(feed, {
+    headers: { 'Content-Type': FEED_CONTENT_TYPES.atom },
+  });
+};
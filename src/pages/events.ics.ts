@@ -0,0 +1,19 @@
+import type { APIRoute } from 'astro';
+import { getEvents } from '../lib/events';
+import { getSiteConfig } from '../lib/site-config';
+import { generateCalendar } from '../lib/ical';
+
+export const GET: APIRoute = async ({ site }) => {
+  const events = await getEvents();
+  const siteConfig = await getSiteConfig();
+
+  const calendar = generateCalendar(events, {
+    name: `${siteConfig.name} Events`,
+    description: `Workshops, webinars, and meetups from the ${siteConfig.name} community`,
+    siteUrl: site?.href || siteConfig.url,
+  });
+
+  return new Response(calendar, {
+    headers: { 'Content-Type': 'text/calendar; charset=utf-8' },
+  });
+};
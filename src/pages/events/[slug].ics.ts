@@ -0,0 +1,22 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getEvents } from '../../lib/events';
+import { generateEventIcs } from '../../lib/ical';
+import { getSiteConfig } from '../../lib/site-config';
+import type { Event } from '../../types';
+
+export const getStaticPaths = (async () => {
+  const events = await getEvents();
+  return events.map(event => ({ params: { slug: event.slug }, props: { event } }));
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute = async ({ props, site }) => {
+  const { event } = props as { event: Event };
+  const siteUrl = site?.href || (await getSiteConfig()).url;
+
+  return new Response(generateEventIcs(event, siteUrl), {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${event.slug}.ics"`,
+    },
+  });
+};
@@ -0,0 +1,65 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getEvents, getEventSeries } from '../../lib/events';
+import { getSeriesPath } from '../../lib/event-series';
+import { fetchMediumArticles } from '../../lib/medium';
+import { getSiteConfig } from '../../lib/site-config';
+import { LOCALES, localizePath } from '../../lib/i18n';
+import {
+  getArticleOgContent,
+  getEventOgContent,
+  getOgImagePath,
+  getPageOgContent,
+  getSeriesOgContent,
+  OG_PAGES,
+  type OgImageContent,
+} from '../../lib/og-image';
+import { renderOgImage } from '../../lib/og-image-render';
+
+// One image per page and locale, at the path getOgImagePath() gives the layout
+export const getStaticPaths = (async () => {
+  const [events, series, articles, siteConfig] = await Promise.all([
+    getEvents(),
+    getEventSeries(),
+    fetchMediumArticles(),
+    getSiteConfig(),
+  ]);
+
+  return LOCALES.flatMap(locale => {
+    const images: [string, OgImageContent][] = [
+      ...OG_PAGES.map((page): [string, OgImageContent] => [
+        page,
+        getPageOgContent(page, locale, siteConfig.name),
+      ]),
+      ...events.map((event): [string, OgImageContent] => [
+        `/events/${event.slug}`,
+        getEventOgContent(event, locale),
+      ]),
+      ...series.map((item): [string, OgImageContent] => [
+        getSeriesPath(item.slug),
+        getSeriesOgContent(item, locale),
+      ]),
+      ...articles.map((article): [string, OgImageContent] => [
+        `/articles/${article.slug}`,
+        getArticleOgContent(article, locale),
+      ]),
+    ];
+
+    return images.map(([page, content]) => ({
+      params: { path: getOgImagePath(localizePath(page, locale)).replace(/^\/og\/|\.png$/g, '') },
+      props: { content },
+    }));
+  });
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute = async ({ props, site }) => {
+  const { content } = props as { content: OgImageContent };
+  const siteConfig = await getSiteConfig();
+  const png = await renderOgImage(content, {
+    name: siteConfig.name,
+    url: site?.href || siteConfig.url,
+  });
+
+  return new Response(new Uint8Array(png), {
+    headers: { 'Content-Type': 'image/png' },
+  });
+};
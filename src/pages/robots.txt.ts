@@ -0,0 +1,13 @@
+import type { APIRoute } from 'astro';
+import { getSiteConfig } from '../lib/site-config';
+import { resolveDeployment } from '../lib/deployment';
+import { generateRobotsTxt } from '../lib/sitemap';
+
+export const GET: APIRoute = async ({ site }) => {
+  const siteUrl = site?.href || (await getSiteConfig()).url;
+  const { production } = resolveDeployment(process.env);
+
+  return new Response(generateRobotsTxt(production, siteUrl), {
+    headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+  });
+};
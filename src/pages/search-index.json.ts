@@ -0,0 +1,12 @@
+import type { APIRoute } from 'astro';
+import { getEvents } from '../lib/events';
+import { fetchMediumArticles } from '../lib/medium';
+import { buildSearchIndex } from '../lib/search-index';
+
+export const GET: APIRoute = async () => {
+  const [events, articles] = await Promise.all([getEvents(), fetchMediumArticles()]);
+
+  return new Response(JSON.stringify(buildSearchIndex(events, articles)), {
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+  });
+};
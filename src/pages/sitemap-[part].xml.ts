@@ -0,0 +1,28 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getEvents } from '../lib/events';
+import { fetchMediumArticles } from '../lib/medium';
+import { getSiteConfig } from '../lib/site-config';
+import {
+  buildSitemapEntries,
+  generateUrlset,
+  splitSitemapEntries,
+  type SitemapEntry,
+} from '../lib/sitemap';
+
+export const getStaticPaths = (async () => {
+  const [events, articles] = await Promise.all([getEvents(), fetchMediumArticles()]);
+
+  return splitSitemapEntries(buildSitemapEntries(events, articles)).map((entries, index) => ({
+    params: { part: String(index + 1) },
+    props: { entries },
+  }));
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute = async ({ props, site }) => {
+  const { entries } = props as { entries: SitemapEntry[] };
+  const siteUrl = site?.href || (await getSiteConfig()).url;
+
+  return new Response(generateUrlset(entries, siteUrl), {
+    headers: { 'Content-Type': 'application/xml; charset=utf-8' },
+  });
+};
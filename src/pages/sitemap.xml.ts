@@ -0,0 +1,16 @@
+import type { APIRoute } from 'astro';
+import { getEvents } from '../lib/events';
+import { fetchMediumArticles } from '../lib/medium';
+import { getSiteConfig } from '../lib/site-config';
+import { buildSitemapEntries, generateSitemapIndex, splitSitemapEntries } from '../lib/sitemap';
+
+export const GET: APIRoute = async ({ site }) => {
+  const siteUrl = site?.href || (await getSiteConfig()).url;
+  const [events, articles] = await Promise.all([getEvents(), fetchMediumArticles()]);
+
+  const parts = splitSitemapEntries(buildSitemapEntries(events, articles));
+
+  return new Response(generateSitemapIndex(parts, siteUrl), {
+    headers: { 'Content-Type': 'application/xml; charset=utf-8' },
+  });
+};
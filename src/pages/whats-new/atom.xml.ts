@@ -0,0 +1,31 @@
+import type { APIRoute } from 'astro';
+import { getEvents } from '../../lib/events';
+import { getSiteConfig } from '../../lib/site-config';
+import { fetchMediumArticles, toArticle } from '../../lib/medium';
+import {
+  getWhatsNewFeed,
+  FEED_CONTENT_TYPES,
+  articleToFeedItem,
+  eventToFeedItem,
+  mergeFeedItems,
+  generateAtom,
+} from '../../lib/feeds';
+
+export const GET: APIRoute = async ({ site }) => {
+  const siteConfig = await getSiteConfig();
+  const siteUrl = site?.href || siteConfig.url;
+  const [events, articles] = await Promise.all([getEvents(), fetchMediumArticles()]);
+
+  const items = mergeFeedItems([
+    events.map(event => eventToFeedItem(event, siteUrl)),
+    articles.map(article => articleToFeedItem(toArticle(article), siteUrl)),
+  ]);
+  const feed = generateAtom(
+    { ...getWhatsNewFeed(siteConfig.name), siteUrl, feedPath: '/whats-new/atom.xml' },
+    items
+  );
+
+  return new Response(feed, {
+    headers: { 'Content-Type': FEED_CONTENT_TYPES.atom },
+  });
+};
@@ -17,16 +17,83 @@ export interface Event {
   category: string;
   tags: string[];
   status: 'upcoming' | 'ongoing' | 'completed' | 'cancelled';
+  // External sign-up page for events hosted elsewhere; other events use native registration
   registrationUrl?: string;
   maxAttendees?: number;
+  // Confirmed and waitlisted counts, kept in sync from the `registrations` table
   registeredCount: number;
+  waitlistCount?: number;
   createdAt: Date;
   updatedAt: Date;
   publishedAt: Date;
   isFeatured: boolean;
+  // Not yet published from the admin area; only organizers can see drafts
+  isDraft?: boolean;
+  // Set on sessions generated from an event series
+  series?: EventSeriesRef;
 }
 
-// Article Types (from Medium RSS)
+// Event Series Types
+// A recurring event, e.g. a monthly talk or a multi-session bootcamp. Its sessions are generated
+// from `recurrence` (see lib/event-series.ts) and appear as ordinary events.
+export interface EventSeries {
+  id: string;
+  title: string;
+  slug: string;
+  description: string;
+  excerpt: string;
+  // RFC 5545 RRULE, e.g. FREQ=MONTHLY;BYDAY=3TH, evaluated on the wall clock of `timezone`
+  recurrence: string;
+  // The first session; later sessions keep its local start time and length
+  startDate: Date;
+  endDate?: Date;
+  timezone: string;
+  locationType: Event['locationType'];
+  venue?: string;
+  address?: string;
+  city?: string;
+  virtualLink?: string;
+  coverImage: string;
+  category: string;
+  tags: string[];
+  // Sessions have no row of their own to register against, so they always link out
+  registrationUrl: string;
+  // Features the next session, not every one
+  isFeatured: boolean;
+  overrides: EventSeriesOverride[];
+  updatedAt: Date;
+  publishedAt: Date;
+  isDraft?: boolean;
+}
+
+// Changes to a single session, identified by the local date the rule gives it
+export interface EventSeriesOverride {
+  // YYYY-MM-DD in the series timezone
+  date: string;
+  cancelled: boolean;
+  title?: string;
+  excerpt?: string;
+  description?: string;
+  startDate?: Date;
+  endDate?: Date;
+  locationType?: Event['locationType'];
+  venue?: string;
+  address?: string;
+  city?: string;
+  virtualLink?: string;
+  registrationUrl?: string;
+}
+
+export interface EventSeriesRef {
+  slug: string;
+  title: string;
+  // 1-based position among the series' sessions
+  session: number;
+  // Total number of sessions; undefined for open-ended series
+  sessions?: number;
+}
+
+// Article Types (from Medium and member RSS/Atom feeds)
 export interface Article {
   title: string;
   url: string;
@@ -36,6 +103,9 @@ export interface Article {
   categories: string[];
   thumbnail?: string;
   content?: string;
+  source: string;
+  // Local page, /articles/<slug>
+  slug: string;
 }
 
 // Team Member Types
@@ -49,6 +119,7 @@ export interface TeamMember {
   linkedinUrl?: string;
   twitterUrl?: string;
   displayOrder: number;
+  isActive: boolean;
 }
 
 // Site Configuration
@@ -63,3 +134,10 @@ export interface SiteConfig {
   foundedYear: number;
   memberCount: number;
 }
+
+// Stats derived from live data at build time
+export interface SiteStats {
+  memberCount: number;
+  eventsCount: number;
+  yearsActive: number;
+}
@@ -0,0 +1,182 @@
+-- Native event registration
+-- Sign-ups are stored in `registrations`. Capacity is enforced inside the functions below,
+-- which lock the event row so concurrent sign-ups cannot overbook it. Once an event is full,
+-- new sign-ups are waitlisted; cancelling a confirmed seat promotes the oldest waitlisted person.
+-- `events.registered_count` and `events.waitlist_count` are kept in sync by a trigger and
+-- are never edited by hand.
+
+alter table public.events
+  add column if not exists waitlist_count integer not null default 0;
+
+create table if not exists public.registrations (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references public.events (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 100),
+  email text not null check (char_length(email) between 3 and 254),
+  status text not null check (status in ('confirmed', 'waitlisted', 'cancelled')),
+  -- Secret handed to the registrant so they can cancel without an account
+  cancel_token uuid not null unique default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- One active registration per email and event; cancelled rows may be re-registered
+create unique index if not exists registrations_event_email_active
+  on public.registrations (event_id, lower(email))
+  where status <> 'cancelled';
+
+create index if not exists registrations_event_status
+  on public.registrations (event_id, status, created_at);
+
+-- Registrations hold personal data: no direct access, only through the functions below
+alter table public.registrations enable row level security;
+
+create or replace function public.refresh_registration_counts(p_event_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.events
+  set
+    registered_count = (
+      select count(*) from public.registrations
+      where event_id = p_event_id and status = 'confirmed'
+    ),
+    waitlist_count = (
+      select count(*) from public.registrations
+      where event_id = p_event_id and status = 'waitlisted'
+    )
+  where id = p_event_id;
+$$;
+
+create or replace function public.on_registration_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    perform public.refresh_registration_counts(old.event_id);
+  end if;
+  if tg_op in ('INSERT', 'UPDATE') and (tg_op = 'INSERT' or new.event_id <> old.event_id) then
+    perform public.refresh_registration_counts(new.event_id);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists registrations_refresh_counts on public.registrations;
+create trigger registrations_refresh_counts
+  after insert or update or delete on public.registrations
+  for each row execute function public.on_registration_change();
+
+-- Errors are raised with a stable message the API maps to a response:
+-- event_not_found, registration_closed, already_registered, registration_not_found
+create or replace function public.register_for_event(p_event_id uuid, p_name text, p_email text)
+returns table (id uuid, status text, cancel_token uuid, waitlist_position integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event public.events%rowtype;
+  v_confirmed integer;
+  v_status text;
+  v_registration public.registrations%rowtype;
+begin
+  select * into v_event from public.events e where e.id = p_event_id for update;
+
+  if not found then
+    raise exception 'event_not_found';
+  end if;
+  if v_event.status in ('completed', 'cancelled') then
+    raise exception 'registration_closed';
+  end if;
+  if exists (
+    select 1 from public.registrations r
+    where r.event_id = p_event_id and lower(r.email) = lower(p_email) and r.status <> 'cancelled'
+  ) then
+    raise exception 'already_registered';
+  end if;
+
+  select count(*) into v_confirmed
+  from public.registrations r
+  where r.event_id = p_event_id and r.status = 'confirmed';
+
+  v_status := case
+    when v_event.max_attendees is null or v_confirmed < v_event.max_attendees then 'confirmed'
+    else 'waitlisted'
+  end;
+
+  insert into public.registrations (event_id, name, email, status)
+  values (p_event_id, trim(p_name), lower(trim(p_email)), v_status)
+  returning * into v_registration;
+
+  return query
+  select
+    v_registration.id,
+    v_registration.status,
+    v_registration.cancel_token,
+    case when v_status = 'waitlisted' then (
+      select count(*)::integer from public.registrations r
+      where r.event_id = p_event_id and r.status = 'waitlisted'
+    ) end;
+end;
+$$;
+
+create or replace function public.cancel_registration(p_cancel_token uuid)
+returns table (event_id uuid, promoted_id uuid)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_registration public.registrations%rowtype;
+  v_max_attendees integer;
+  v_confirmed integer;
+  v_promoted uuid;
+begin
+  select * into v_registration
+  from public.registrations r
+  where r.cancel_token = p_cancel_token and r.status <> 'cancelled';
+
+  if not found then
+    raise exception 'registration_not_found';
+  end if;
+
+  -- Lock the event so promotion cannot race a new sign-up
+  select e.max_attendees into v_max_attendees
+  from public.events e where e.id = v_registration.event_id for update;
+
+  update public.registrations r
+  set status = 'cancelled', updated_at = now()
+  where r.id = v_registration.id;
+
+  if v_registration.status = 'confirmed' then
+    select count(*) into v_confirmed
+    from public.registrations r
+    where r.event_id = v_registration.event_id and r.status = 'confirmed';
+
+    if v_max_attendees is null or v_confirmed < v_max_attendees then
+      update public.registrations r
+      set status = 'confirmed', updated_at = now()
+      where r.id = (
+        select w.id from public.registrations w
+        where w.event_id = v_registration.event_id and w.status = 'waitlisted'
+        order by w.created_at, w.id
+        limit 1
+      )
+      returning r.id into v_promoted;
+    end if;
+  end if;
+
+  return query select v_registration.event_id, v_promoted;
+end;
+$$;
+
+revoke all on function public.refresh_registration_counts(uuid) from public;
+revoke all on function public.on_registration_change() from public;
+grant execute on function public.register_for_event(uuid, text, text) to anon, authenticated;
+grant execute on function public.cancel_registration(uuid) to anon, authenticated;
@@ -0,0 +1,27 @@
+-- Contact form submissions
+-- Messages posted to /api/contact are stored here before they are forwarded by email, so an
+-- enquiry survives a mail outage. Visitors may only insert; reading the table needs the
+-- service role (Supabase dashboard or SQL editor).
+
+create table if not exists public.contact_messages (
+  id uuid primary key default gen_random_uuid(),
+  inquiry_type text not null
+    check (inquiry_type in ('partnership', 'speaking', 'sponsorship', 'general')),
+  name text not null check (char_length(name) between 1 and 100),
+  email text not null check (char_length(email) between 3 and 254),
+  organization text check (char_length(organization) <= 150),
+  message text not null check (char_length(message) between 10 and 5000),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists contact_messages_created_at
+  on public.contact_messages (created_at desc);
+
+alter table public.contact_messages enable row level security;
+
+drop policy if exists "Anyone can send a contact message" on public.contact_messages;
+create policy "Anyone can send a contact message"
+  on public.contact_messages
+  for insert
+  to anon, authenticated
+  with check (true);
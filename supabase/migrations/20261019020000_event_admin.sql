@@ -0,0 +1,62 @@
+-- Event administration
+-- Organizers sign in with Supabase Auth and manage events from /admin/events. A user is an
+-- organizer when their auth user id is listed in `organizers`; add one from the SQL editor:
+--   insert into public.organizers (user_id) select id from auth.users where email = '...';
+-- Events with a null `published_at` are drafts: visitors never see them, organizers see all.
+
+create table if not exists public.organizers (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+-- Managed from the SQL editor only
+alter table public.organizers enable row level security;
+
+create or replace function public.is_organizer()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.organizers where user_id = auth.uid());
+$$;
+
+grant execute on function public.is_organizer() to anon, authenticated;
+
+-- Existing events were all public, so they count as published from their creation date
+update public.events set published_at = created_at where published_at is null;
+
+-- Slugs are part of public URLs and must stay unique
+create unique index if not exists events_slug_key on public.events (slug);
+
+alter table public.events enable row level security;
+
+drop policy if exists "Published events are public" on public.events;
+create policy "Published events are public"
+  on public.events
+  for select
+  to anon, authenticated
+  using (published_at is not null or public.is_organizer());
+
+drop policy if exists "Organizers can create events" on public.events;
+create policy "Organizers can create events"
+  on public.events
+  for insert
+  to authenticated
+  with check (public.is_organizer());
+
+drop policy if exists "Organizers can update events" on public.events;
+create policy "Organizers can update events"
+  on public.events
+  for update
+  to authenticated
+  using (public.is_organizer())
+  with check (public.is_organizer());
+
+drop policy if exists "Organizers can delete events" on public.events;
+create policy "Organizers can delete events"
+  on public.events
+  for delete
+  to authenticated
+  using (public.is_organizer());
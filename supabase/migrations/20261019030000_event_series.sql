@@ -0,0 +1,53 @@
+-- Event series
+-- Recurring events, such as a monthly talk. A row holds the details shared by every session
+-- and an RFC 5545 recurrence rule (e.g. FREQ=MONTHLY;BYDAY=3TH;COUNT=6) evaluated in the
+-- series timezone from `start_date`; the site generates the sessions at build time.
+-- `overrides` changes or cancels single sessions, keyed by the date the rule gives them:
+--   [{ "date": "2026-12-17", "cancelled": true },
+--    { "date": "2027-01-21", "startDate": "2027-01-22T19:00:00+07:00", "venue": "Tech Hub" }]
+-- Like events, rows with a null `published_at` are drafts.
+
+create table if not exists public.event_series (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  slug text not null unique,
+  description text not null default '',
+  excerpt text not null default '',
+  recurrence text not null,
+  start_date timestamptz not null,
+  end_date timestamptz,
+  timezone text not null default 'Asia/Jakarta',
+  location_type text not null default 'virtual'
+    check (location_type in ('physical', 'virtual', 'hybrid')),
+  venue text,
+  address text,
+  city text,
+  virtual_link text,
+  cover_image text not null default '',
+  category text not null,
+  tags text[] not null default '{}',
+  -- Sessions have no events row to register against, so they link out
+  registration_url text not null,
+  is_featured boolean not null default false,
+  overrides jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  published_at timestamptz
+);
+
+alter table public.event_series enable row level security;
+
+drop policy if exists "Published event series are public" on public.event_series;
+create policy "Published event series are public"
+  on public.event_series
+  for select
+  to anon, authenticated
+  using (published_at is not null or public.is_organizer());
+
+drop policy if exists "Organizers can manage event series" on public.event_series;
+create policy "Organizers can manage event series"
+  on public.event_series
+  for all
+  to authenticated
+  using (public.is_organizer())
+  with check (public.is_organizer());
@@ -0,0 +1,28 @@
+-- Site settings
+-- Optional overrides for the community details in src/lib/site-config.ts, one row per key,
+-- e.g. { key: 'member_count', value: '2500' }. Keys the site does not know are ignored, and a
+-- missing or empty table leaves the defaults in place. SITE_* environment variables win over
+-- these rows.
+
+create table if not exists public.site_settings (
+  key text primary key,
+  value text not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.site_settings enable row level security;
+
+drop policy if exists "Site settings are public" on public.site_settings;
+create policy "Site settings are public"
+  on public.site_settings
+  for select
+  to anon, authenticated
+  using (true);
+
+drop policy if exists "Organizers can manage site settings" on public.site_settings;
+create policy "Organizers can manage site settings"
+  on public.site_settings
+  for all
+  to authenticated
+  using (public.is_organizer())
+  with check (public.is_organizer());
@@ -0,0 +1,39 @@
+-- Team members
+-- The organizers listed on /about, ordered by `display_order` then name. Former members stay
+-- in the table with `is_active` set to false and are hidden from the site.
+
+create table if not exists public.team_members (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  role text not null default '',
+  bio text not null default '',
+  photo text not null default '',
+  email text,
+  linkedin_url text,
+  twitter_url text,
+  display_order integer not null default 0,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists team_members_display_order
+  on public.team_members (display_order)
+  where is_active;
+
+alter table public.team_members enable row level security;
+
+drop policy if exists "Active team members are public" on public.team_members;
+create policy "Active team members are public"
+  on public.team_members
+  for select
+  to anon, authenticated
+  using (is_active or public.is_organizer());
+
+drop policy if exists "Organizers can manage team members" on public.team_members;
+create policy "Organizers can manage team members"
+  on public.team_members
+  for all
+  to authenticated
+  using (public.is_organizer())
+  with check (public.is_organizer());
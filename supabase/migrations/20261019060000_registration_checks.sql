@@ -0,0 +1,60 @@
+-- Registration checks for drafts and past events
+-- register_for_event is security definer and reachable by anyone with the anon key, so it
+-- cannot rely on the API route's checks or on row level security. Drafts (null or future
+-- `published_at`) are reported as missing so their existence does not leak, and events that
+-- have ended, or started when there is no `end_date`, are closed.
+
+-- Errors are raised with a stable message the API maps to a response:
+-- event_not_found, registration_closed, already_registered, registration_not_found
+create or replace function public.register_for_event(p_event_id uuid, p_name text, p_email text)
+returns table (id uuid, status text, cancel_token uuid, waitlist_position integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event public.events%rowtype;
+  v_confirmed integer;
+  v_status text;
+  v_registration public.registrations%rowtype;
+begin
+  select * into v_event from public.events e where e.id = p_event_id for update;
+
+  if not found or v_event.published_at is null or v_event.published_at > now() then
+    raise exception 'event_not_found';
+  end if;
+  if v_event.status in ('completed', 'cancelled')
+    or coalesce(v_event.end_date, v_event.start_date) < now() then
+    raise exception 'registration_closed';
+  end if;
+  if exists (
+    select 1 from public.registrations r
+    where r.event_id = p_event_id and lower(r.email) = lower(p_email) and r.status <> 'cancelled'
+  ) then
+    raise exception 'already_registered';
+  end if;
+
+  select count(*) into v_confirmed
+  from public.registrations r
+  where r.event_id = p_event_id and r.status = 'confirmed';
+
+  v_status := case
+    when v_event.max_attendees is null or v_confirmed < v_event.max_attendees then 'confirmed'
+    else 'waitlisted'
+  end;
+
+  insert into public.registrations (event_id, name, email, status)
+  values (p_event_id, trim(p_name), lower(trim(p_email)), v_status)
+  returning * into v_registration;
+
+  return query
+  select
+    v_registration.id,
+    v_registration.status,
+    v_registration.cancel_token,
+    case when v_status = 'waitlisted' then (
+      select count(*)::integer from public.registrations r
+      where r.event_id = p_event_id and r.status = 'waitlisted'
+    ) end;
+end;
+$$;
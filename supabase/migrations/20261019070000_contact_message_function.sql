@@ -0,0 +1,61 @@
+-- Contact messages through a function
+-- The insert policy on contact_messages let anyone with the public anon key write to the table
+-- directly, past the API route's honeypot, validation and rate limit. Visitors now have no
+-- table access at all; submit_contact_message is the only way in. It repeats the route's checks
+-- and allows five messages per email address every ten minutes, which holds across every
+-- serverless instance (the route's own limit is kept in memory per instance).
+
+drop policy if exists "Anyone can send a contact message" on public.contact_messages;
+
+-- Errors are raised with a stable message the API maps to a response:
+-- invalid_input, rate_limited
+create or replace function public.submit_contact_message(
+  p_inquiry_type text,
+  p_name text,
+  p_email text,
+  p_organization text,
+  p_message text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_email text := lower(trim(p_email));
+begin
+  if p_inquiry_type is null
+    or p_inquiry_type not in ('partnership', 'speaking', 'sponsorship', 'general')
+    or char_length(trim(coalesce(p_name, ''))) not between 1 and 100
+    or v_email is null
+    or char_length(v_email) > 254
+    or v_email !~ '^[^\s@]+@[^\s@]+\.[^\s@]+$'
+    or char_length(trim(coalesce(p_organization, ''))) > 150
+    or char_length(trim(coalesce(p_message, ''))) not between 10 and 5000 then
+    raise exception 'invalid_input';
+  end if;
+
+  if (
+    select count(*) from public.contact_messages m
+    where m.email = v_email and m.created_at > now() - interval '10 minutes'
+  ) >= 5 then
+    raise exception 'rate_limited';
+  end if;
+
+  insert into public.contact_messages (inquiry_type, name, email, organization, message)
+  values (
+    p_inquiry_type,
+    trim(p_name),
+    v_email,
+    nullif(trim(coalesce(p_organization, '')), ''),
+    trim(p_message)
+  );
+end;
+$$;
+
+create index if not exists contact_messages_email_created_at
+  on public.contact_messages (email, created_at desc);
+
+revoke all on function public.submit_contact_message(text, text, text, text, text) from public;
+grant execute on function public.submit_contact_message(text, text, text, text, text)
+  to anon, authenticated;
@@ -78,6 +78,8 @@ export const mockMediumArticles = [
     'dc:creator': 'John Doe',
     categories: ['data-engineering', 'beginner'],
     'content:encoded': '<p>Article content here...</p><img src="https://example.com/image.jpg" />',
+    sourceId: 'medium-dei',
+    slug: 'getting-started',
   },
   {
     title: 'Advanced ETL Techniques',
@@ -86,6 +88,8 @@ export const mockMediumArticles = [
     'dc:creator': 'Jane Smith',
     categories: ['etl', 'advanced'],
     'content:encoded': '<p>Advanced ETL content...</p>',
+    sourceId: 'medium-dei',
+    slug: 'advanced-etl',
   },
 ];
 
@@ -102,3 +106,59 @@ export const mockTeamMembers = [
     isActive: true,
   },
 ];
+
+// Raw Supabase `events` rows (snake_case, as returned by PostgREST)
+export const mockEventRows = [
+  {
+    id: 'event-1',
+    title: 'DEI Workshop: Introduction to Data Engineering',
+    slug: 'intro-to-data-engineering',
+    description: 'Learn the fundamentals of data engineering in this hands-on workshop.',
+    excerpt: 'An introductory workshop covering data engineering fundamentals.',
+    start_date: '2026-03-15T02:00:00Z',
+    end_date: '2026-03-15T05:00:00Z',
+    timezone: 'Asia/Jakarta',
+    location_type: 'virtual',
+    venue: null,
+    address: null,
+    city: null,
+    virtual_link: 'https://zoom.us/j/example',
+    cover_image: '',
+    category: 'Workshop',
+    tags: ['beginner', 'data-engineering'],
+    status: 'upcoming',
+    registration_url: 'https://forms.google.com/example',
+    max_attendees: 100,
+    registered_count: 45,
+    is_featured: true,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    published_at: '2026-01-02T00:00:00Z',
+  },
+  {
+    id: 'event-2',
+    title: 'Advanced Data Pipelines with Apache Airflow',
+    slug: 'advanced-airflow-pipelines',
+    description: 'Deep dive into building production-grade data pipelines.',
+    excerpt: 'Learn advanced Airflow concepts and best practices.',
+    start_date: '2026-04-20T06:00:00Z',
+    end_date: '2026-04-20T09:00:00Z',
+    timezone: 'Asia/Jakarta',
+    location_type: 'hybrid',
+    venue: 'Tech Hub Jakarta',
+    address: null,
+    city: 'Jakarta',
+    virtual_link: null,
+    cover_image: '',
+    category: 'Workshop',
+    tags: ['airflow', 'advanced', 'pipelines'],
+    status: 'upcoming',
+    registration_url: 'https://forms.google.com/example2',
+    max_attendees: 50,
+    registered_count: 23,
+    is_featured: false,
+    created_at: '2026-01-15T00:00:00Z',
+    updated_at: '2026-01-15T00:00:00Z',
+    published_at: '2026-01-15T00:00:00Z',
+  },
+];
@@ -0,0 +1,257 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { FetchError, fetchTextWithRetry } from '../../src/lib/http';
+import { fetchArticles, fetchSourceArticles } from '../../src/lib/medium';
+import { readArticleCache, writeArticleCache } from '../../src/lib/article-cache';
+import { clearBuildReport, formatBuildReport, getBuildReport } from '../../src/lib/build-report';
+import type { ArticleSource } from '../../src/lib/article-sources';
+import { rssFeed, startHttpStandIn, type HttpStandIn } from '../utils/http-server';
+
+const items = [
+  {
+    title: 'Streaming with Kafka',
+    link: 'https://medium.com/data-engineering-indonesia/streaming-kafka',
+    pubDate: 'Mon, 12 Oct 2026 08:00:00 GMT',
+  },
+  {
+    title: 'Intro to dbt',
+    link: 'https://medium.com/data-engineering-indonesia/intro-dbt',
+    pubDate: 'Mon, 05 Oct 2026 08:00:00 GMT',
+  },
+];
+
+// Fast settings so failure paths finish in milliseconds
+const fast = { timeoutMs: 200, retries: 2, backoffMs: 5 };
+
+describe('Resilient Article Fetching', () => {
+  let standIn: HttpStandIn;
+  let cacheDir: string;
+
+  function source(routePath: string, id = 'stand-in'): ArticleSource {
+    return { id, label: `Stand-in ${routePath}`, url: standIn.url(routePath) };
+  }
+
+  beforeAll(async () => {
+    standIn = await startHttpStandIn();
+  });
+
+  afterAll(async () => {
+    await standIn.close();
+  });
+
+  beforeEach(async () => {
+    standIn.routes.clear();
+    standIn.requests.clear();
+    clearBuildReport();
+    cacheDir = await mkdtemp(path.join(os.tmpdir(), 'dei-articles-'));
+  });
+
+  afterEach(async () => {
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  describe('Retries', () => {
+    it('should retry server errors until the feed answers', async () => {
+      standIn.routes.set('/flaky', { body: 'ok', failTimes: 2 });
+
+      expect(await fetchTextWithRetry(standIn.url('/flaky'), fast)).toBe('ok');
+      expect(standIn.requests.get('/flaky')).toBe(3);
+    });
+
+    it('should give up after the last retry', async () => {
+      standIn.routes.set('/down', { status: 503 });
+
+      const error = await fetchTextWithRetry(standIn.url('/down'), fast).catch(e => e);
+
+      expect(error).toBeInstanceOf(FetchError);
+      expect(error.message).toBe('HTTP 503 (after 3 attempts)');
+      expect(standIn.requests.get('/down')).toBe(3);
+    });
+
+    it('should not retry client errors', async () => {
+      const error = await fetchTextWithRetry(standIn.url('/missing'), fast).catch(e => e);
+
+      expect(error.status).toBe(404);
+      expect(standIn.requests.get('/missing')).toBe(1);
+    });
+
+    it('should time out slow responses', async () => {
+      standIn.routes.set('/slow', { body: 'late', delayMs: 1000 });
+
+      const error = await fetchTextWithRetry(standIn.url('/slow'), {
+        ...fast,
+        timeoutMs: 50,
+        retries: 1,
+      }).catch(e => e);
+
+      expect(error.message).toBe('Timed out after 50 ms (after 2 attempts)');
+      expect(standIn.requests.get('/slow')).toBe(2);
+    });
+  });
+
+  describe('Cache Fallback', () => {
+    it('should use the live feed and cache it', async () => {
+      // Arrange
+      standIn.routes.set('/feed', { body: rssFeed(items) });
+      const now = new Date('2026-10-19T10:00:00Z');
+
+      // Act
+      const { articles, record } = await fetchSourceArticles(source('/feed'), {
+        ...fast,
+        cacheDir,
+        now,
+      });
+
+      // Assert
+      expect(articles.map(article => article.title)).toEqual([
+        'Streaming with Kafka',
+        'Intro to dbt',
+      ]);
+      expect(record).toEqual({
+        dataset: 'articles',
+        source: 'Stand-in /feed',
+        origin: 'live',
+        count: 2,
+        fetchedAt: now.toISOString(),
+      });
+      expect((await readArticleCache(cacheDir, 'stand-in'))?.articles).toEqual(articles);
+    });
+
+    it('should keep older articles the feed no longer carries', async () => {
+      // Arrange: last week's feed still had an older post, and an earlier dbt title
+      standIn.routes.set('/feed', {
+        body: rssFeed([
+          { ...items[1], title: 'Intro to dbt (draft title)' },
+          {
+            title: 'Airflow Basics',
+            link: 'https://medium.com/data-engineering-indonesia/airflow-basics',
+            pubDate: 'Mon, 28 Sep 2026 08:00:00 GMT',
+          },
+        ]),
+      });
+      await fetchSourceArticles(source('/feed'), {
+        ...fast,
+        cacheDir,
+        now: new Date('2026-10-12T10:00:00Z'),
+      });
+      standIn.routes.set('/feed', { body: rssFeed(items) });
+
+      // Act
+      const { articles, record } = await fetchSourceArticles(source('/feed'), {
+        ...fast,
+        cacheDir,
+        now: new Date('2026-10-19T10:00:00Z'),
+      });
+
+      // Assert
+      expect(articles.map(article => article.title)).toEqual([
+        'Streaming with Kafka',
+        'Intro to dbt',
+        'Airflow Basics',
+      ]);
+      expect(record).toMatchObject({ origin: 'live', count: 3 });
+      expect((await readArticleCache(cacheDir, 'stand-in'))?.articles).toEqual(articles);
+    });
+
+    it('should fall back to the last cached feed when the source is down', async () => {
+      // Arrange: a successful build two days ago, the feed is down now
+      standIn.routes.set('/feed', { body: rssFeed(items) });
+      await fetchSourceArticles(source('/feed'), {
+        ...fast,
+        cacheDir,
+        now: new Date('2026-10-17T10:00:00Z'),
+      });
+      standIn.routes.set('/feed', { status: 500 });
+
+      // Act
+      const { articles, record } = await fetchSourceArticles(source('/feed'), {
+        ...fast,
+        cacheDir,
+        now: new Date('2026-10-19T10:00:00Z'),
+      });
+
+      // Assert
+      expect(articles).toHaveLength(2);
+      expect(record).toMatchObject({
+        origin: 'cache',
+        count: 2,
+        fetchedAt: '2026-10-17T10:00:00.000Z',
+        stale: false,
+        error: 'HTTP 500 (after 3 attempts)',
+      });
+    });
+
+    it('should fall back on malformed XML and flag an old copy as stale', async () => {
+      // Arrange
+      await writeArticleCache(cacheDir, {
+        sourceId: 'stand-in',
+        fetchedAt: '2026-09-01T00:00:00.000Z',
+        articles: [],
+      });
+      standIn.routes.set('/broken', { body: '<rss><channel><item><title>Cut off' });
+
+      // Act
+      const { record } = await fetchSourceArticles(source('/broken'), {
+        ...fast,
+        cacheDir,
+        now: new Date('2026-10-19T10:00:00Z'),
+      });
+
+      // Assert: a parse error is not worth retrying
+      expect(record).toMatchObject({ origin: 'cache', stale: true });
+      expect(standIn.requests.get('/broken')).toBe(1);
+    });
+
+    it('should report a source with neither a live feed nor a cache', async () => {
+      standIn.routes.set('/slow', { delayMs: 1000 });
+
+      const { articles, record } = await fetchSourceArticles(source('/slow'), {
+        ...fast,
+        timeoutMs: 20,
+        retries: 0,
+        cacheDir,
+      });
+
+      expect(articles).toEqual([]);
+      expect(record).toMatchObject({ origin: 'none', count: 0, error: 'Timed out after 20 ms' });
+    });
+
+    it('should ignore a corrupt cache file', async () => {
+      await writeFile(path.join(cacheDir, 'stand-in.json'), '{"sourceId": "stand-in"');
+
+      expect(await readArticleCache(cacheDir, 'stand-in')).toBeNull();
+      expect(await readArticleCache(cacheDir, 'never-fetched')).toBeNull();
+    });
+  });
+
+  describe('Build Report', () => {
+    it('should record which source every feed came from', async () => {
+      // Arrange
+      standIn.routes.set('/feed', { body: rssFeed(items) });
+      standIn.routes.set('/down', { status: 502 });
+
+      // Act
+      const articles = await fetchArticles(
+        [source('/feed', 'live-source'), source('/down', 'down-source')],
+        { ...fast, cacheDir }
+      );
+      const report = getBuildReport();
+
+      // Assert
+      expect(articles).toHaveLength(2);
+      expect(report.map(record => [record.source, record.origin])).toEqual([
+        ['Stand-in /feed', 'live'],
+        ['Stand-in /down', 'none'],
+      ]);
+      expect(formatBuildReport(report)).toBe(
+        [
+          'Data sources:',
+          '  articles from Stand-in /feed: live, 2 items',
+          '  articles from Stand-in /down: unavailable, no items [HTTP 502 (after 3 attempts)]',
+        ].join('\n')
+      );
+    });
+  });
+});
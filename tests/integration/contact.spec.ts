@@ -0,0 +1,352 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'bun:test';
+import type { APIContext } from 'astro';
+import {
+  CONTACT_PATH,
+  HONEYPOT_FIELD,
+  formatContactEmail,
+  isHoneypotFilled,
+  validateContactInput,
+  type ContactInput,
+} from '../../src/lib/contact';
+import {
+  createSmtpTransport,
+  getSmtpOptions,
+  setMailTransport,
+  SmtpError,
+  type MailMessage,
+} from '../../src/lib/mail';
+import { createRateLimiter, getClientIp } from '../../src/lib/rate-limit';
+import { saveContactMessage } from '../../src/lib/supabase';
+import { POST as contact } from '../../src/pages/api/contact';
+import { startSmtpStandIn, type SmtpStandIn } from '../utils/smtp-server';
+import { createSupabaseStandIn, type Row } from '../utils/supabase-stand-in';
+
+const validMessage = {
+  inquiryType: 'speaking',
+  name: 'Sari',
+  email: 'sari@example.com',
+  organization: 'Data Guild',
+  message: 'I would love to give a talk about streaming pipelines.',
+};
+
+let ipCounter = 0;
+
+// Each request gets its own address so the route's rate limiter doesn't leak between tests
+function postContact(body: unknown, ip = `10.0.0.${++ipCounter}`): APIContext {
+  const request = new Request(`http://localhost${CONTACT_PATH}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': ip },
+    body: JSON.stringify(body),
+  });
+  return { request } as unknown as APIContext;
+}
+
+describe('Contact Form', () => {
+  describe('Input Validation', () => {
+    it('should normalize a valid submission', () => {
+      // Act
+      const result = validateContactInput({ ...validMessage, email: ' Sari@Example.COM ' });
+
+      // Assert
+      expect(result).toEqual({ valid: true, input: { ...validMessage, inquiryType: 'speaking' } });
+    });
+
+    it('should default to a general inquiry and drop an empty organization', () => {
+      // Act
+      const result = validateContactInput({
+        ...validMessage,
+        inquiryType: undefined,
+        organization: ' ',
+      });
+
+      // Assert
+      expect(result.valid && result.input.inquiryType).toBe('general');
+      expect(result.valid && result.input.organization).toBeUndefined();
+    });
+
+    it('should report every invalid field', () => {
+      // Act
+      const result = validateContactInput({
+        inquiryType: 'complaint',
+        name: '',
+        email: 'nope',
+        organization: 'x'.repeat(151),
+        message: 'Hi',
+      });
+
+      // Assert
+      expect(result.valid).toBe(false);
+      if (!result.valid) {
+        expect(result.errors.map(error => error.field)).toEqual([
+          'inquiryType',
+          'name',
+          'email',
+          'organization',
+          'message',
+        ]);
+      }
+    });
+
+    it('should detect a filled honeypot', () => {
+      expect(isHoneypotFilled({ ...validMessage, [HONEYPOT_FIELD]: 'https://spam.example' })).toBe(
+        true
+      );
+      expect(isHoneypotFilled({ ...validMessage, [HONEYPOT_FIELD]: '' })).toBe(false);
+      expect(isHoneypotFilled(validMessage)).toBe(false);
+    });
+  });
+
+  describe('Rate Limiting', () => {
+    it('should block a client after the limit until the window passes', () => {
+      // Arrange
+      const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+
+      // Act & Assert
+      expect(limiter.check('1.2.3.4', 0)).toEqual({ allowed: true, remaining: 1 });
+      expect(limiter.check('1.2.3.4', 1000)).toEqual({ allowed: true, remaining: 0 });
+      expect(limiter.check('1.2.3.4', 2000)).toEqual({ allowed: false, retryAfterSeconds: 58 });
+      expect(limiter.check('5.6.7.8', 2000).allowed).toBe(true);
+      expect(limiter.check('1.2.3.4', 60_000).allowed).toBe(true);
+    });
+
+    it('should identify clients by the first forwarded address', () => {
+      // Arrange
+      const forwarded = new Request('http://localhost', {
+        headers: { 'X-Forwarded-For': '203.0.113.7, 10.0.0.1' },
+      });
+
+      // Act & Assert
+      expect(getClientIp(forwarded)).toBe('203.0.113.7');
+      expect(getClientIp(new Request('http://localhost'), '127.0.0.1')).toBe('127.0.0.1');
+      expect(getClientIp(new Request('http://localhost'))).toBe('unknown');
+    });
+  });
+
+  describe('Storage', () => {
+    const input: ContactInput = { ...validMessage, inquiryType: 'speaking' };
+
+    it('should store messages through the database function', async () => {
+      // Arrange
+      const standIn = createSupabaseStandIn();
+      const calls: Row[] = [];
+      standIn.functions.set('submit_contact_message', args => {
+        calls.push(args);
+        return null;
+      });
+
+      // Act
+      const outcome = await saveContactMessage(input, standIn.client);
+
+      // Assert
+      expect(outcome).toEqual({ ok: true });
+      expect(calls).toEqual([
+        {
+          p_inquiry_type: 'speaking',
+          p_name: 'Sari',
+          p_email: 'sari@example.com',
+          p_organization: 'Data Guild',
+          p_message: validMessage.message,
+        },
+      ]);
+      expect(standIn.requests.get('contact_messages')).toBeUndefined();
+    });
+
+    it('should report the database limit apart from other failures', async () => {
+      // Arrange
+      const standIn = createSupabaseStandIn();
+      standIn.functions.set('submit_contact_message', () => {
+        throw new Error('rate_limited');
+      });
+
+      // Act
+      const limited = await saveContactMessage(input, standIn.client);
+      standIn.functions.set('submit_contact_message', () => {
+        throw new Error('invalid_input');
+      });
+      const rejected = await saveContactMessage(input, standIn.client);
+
+      // Assert
+      expect(limited).toEqual({ ok: false, error: 'rate_limited' });
+      expect(rejected).toEqual({ ok: false, error: 'failed' });
+    });
+  });
+
+  describe('Mail', () => {
+    let server: SmtpStandIn;
+
+    beforeAll(async () => {
+      server = await startSmtpStandIn();
+    });
+
+    afterAll(async () => {
+      await server.close();
+    });
+
+    afterEach(() => {
+      server.messages.length = 0;
+      server.rejectCommand = undefined;
+    });
+
+    function transport() {
+      return createSmtpTransport({
+        host: '127.0.0.1',
+        port: server.port,
+        secure: false,
+        user: 'mailer',
+        pass: 'secret',
+        from: 'website@dataengineering.id',
+        timeoutMs: 2000,
+      });
+    }
+
+    it('should read SMTP settings from the environment', () => {
+      expect(getSmtpOptions({})).toBeNull();
+      expect(
+        getSmtpOptions({ SMTP_HOST: 'smtp.example.com', SMTP_USER: 'me@example.com' })
+      ).toEqual({
+        host: 'smtp.example.com',
+        port: 587,
+        secure: false,
+        user: 'me@example.com',
+        pass: undefined,
+        from: 'me@example.com',
+      });
+      expect(
+        getSmtpOptions({ SMTP_HOST: 'smtp.example.com', SMTP_SECURE: 'true', MAIL_FROM: 'a@b.co' })
+          ?.port
+      ).toBe(465);
+    });
+
+    it('should strip line breaks from headers', async () => {
+      // Act
+      await transport().send({
+        to: 'team@example.com',
+        subject: 'Hi\r\nBcc: victim@example.com',
+        text: 'Body',
+      });
+
+      // Assert
+      const [received] = server.messages;
+      expect(received.to).toEqual(['team@example.com']);
+      expect(received.headers.subject).toBe('Hi Bcc: victim@example.com');
+      expect(received.headers.bcc).toBeUndefined();
+    });
+
+    it('should deliver a message over SMTP', async () => {
+      // Arrange
+      const message: MailMessage = {
+        to: 'team@example.com',
+        ...formatContactEmail({ ...validMessage, inquiryType: 'speaking' }, 'DEI'),
+      };
+
+      // Act
+      await transport().send(message);
+
+      // Assert
+      expect(server.messages).toHaveLength(1);
+      const [received] = server.messages;
+      expect(received.from).toBe('website@dataengineering.id');
+      expect(received.to).toEqual(['team@example.com']);
+      expect(received.auth).toBe('\0mailer\0secret');
+      expect(received.headers.subject).toBe('[DEI] Speaking enquiry from Sari (Data Guild)');
+      expect(received.headers['reply-to']).toBe('sari@example.com');
+      expect(received.text).toContain('Email: sari@example.com');
+      expect(received.text.endsWith(validMessage.message)).toBe(true);
+    });
+
+    it('should reject when the server refuses the recipient', async () => {
+      // Arrange
+      server.rejectCommand = { command: 'RCPT', code: 550 };
+
+      // Act
+      const error = await transport()
+        .send({ to: 'nobody@example.com', subject: 'Hi', text: 'Body' })
+        .catch(e => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(SmtpError);
+      expect(error.code).toBe(550);
+    });
+
+    describe('API Route', () => {
+      afterEach(() => {
+        setMailTransport(undefined);
+      });
+
+      it('should forward valid messages through the mail transport', async () => {
+        // Arrange
+        setMailTransport(transport());
+
+        // Act
+        const response = await contact(postContact(validMessage));
+
+        // Assert
+        expect(response.status).toBe(201);
+        expect(server.messages).toHaveLength(1);
+        expect(server.messages[0].to).toEqual(['data.engineering.id@gmail.com']);
+      });
+
+      it('should reject invalid submissions with field errors', async () => {
+        // Arrange
+        setMailTransport(transport());
+
+        // Act
+        const response = await contact(postContact({ ...validMessage, email: 'nope' }));
+
+        // Assert
+        expect(response.status).toBe(400);
+        expect((await response.json()).errors).toEqual([
+          { field: 'email', message: 'is not a valid email address' },
+        ]);
+        expect(server.messages).toHaveLength(0);
+      });
+
+      it('should silently drop submissions that fill the honeypot', async () => {
+        // Arrange
+        setMailTransport(transport());
+
+        // Act
+        const response = await contact(
+          postContact({ ...validMessage, [HONEYPOT_FIELD]: 'https://spam.example' })
+        );
+
+        // Assert
+        expect(response.status).toBe(201);
+        expect(server.messages).toHaveLength(0);
+      });
+
+      it('should rate limit repeated submissions from one address', async () => {
+        // Arrange
+        setMailTransport(transport());
+        const statuses: number[] = [];
+
+        // Act
+        for (let i = 0; i < 6; i++) {
+          statuses.push((await contact(postContact(validMessage, '198.51.100.9'))).status);
+        }
+        const limited = await contact(postContact(validMessage, '198.51.100.9'));
+
+        // Assert
+        expect(statuses).toEqual([201, 201, 201, 201, 201, 429]);
+        expect(limited.headers.get('Retry-After')).toMatch(/^\d+$/);
+        expect(server.messages).toHaveLength(5);
+      });
+
+      it('should fail when the message can be neither stored nor sent', async () => {
+        // Arrange
+        server.rejectCommand = { command: 'MAIL', code: 451 };
+        setMailTransport(transport());
+
+        // Act
+        const failed = await contact(postContact(validMessage));
+        setMailTransport(null);
+        const unconfigured = await contact(postContact(validMessage));
+
+        // Assert
+        expect(failed.status).toBe(500);
+        expect(unconfigured.status).toBe(503);
+        expect(await unconfigured.json()).toEqual({ error: 'not_configured' });
+      });
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { DataSourceError, resolveDataSourcePolicy } from '../../src/lib/data-policy';
+import { getEventBySlug, getEvents, getFeaturedEvents } from '../../src/lib/events';
+import { getSiteSettings, getTeamMembers } from '../../src/lib/supabase';
+import {
+  clearBuildReport,
+  createBuildSummary,
+  formatBuildReport,
+  getBuildReport,
+} from '../../src/lib/build-report';
+import { createSupabaseStandIn } from '../utils/supabase-stand-in';
+
+// Tests run without Supabase credentials, so every public read takes the sample data path
+describe('Data Source Policy', () => {
+  describe('resolveDataSourcePolicy', () => {
+    it('should allow sample data in development and tests', () => {
+      expect(resolveDataSourcePolicy({ NODE_ENV: 'development' })).toBe('fallback');
+      expect(resolveDataSourcePolicy({ NODE_ENV: 'test' })).toBe('fallback');
+      expect(resolveDataSourcePolicy({ DEV: true })).toBe('fallback');
+    });
+
+    it('should be strict everywhere else', () => {
+      expect(resolveDataSourcePolicy({ NODE_ENV: 'production' })).toBe('strict');
+      expect(resolveDataSourcePolicy({})).toBe('strict');
+    });
+
+    it('should let DATA_SOURCE_POLICY override the default', () => {
+      expect(
+        resolveDataSourcePolicy({ NODE_ENV: 'production', DATA_SOURCE_POLICY: 'fallback' })
+      ).toBe('fallback');
+      expect(resolveDataSourcePolicy({ NODE_ENV: 'test', DATA_SOURCE_POLICY: 'strict' })).toBe(
+        'strict'
+      );
+    });
+
+    it('should ignore an unknown value rather than loosen the policy', () => {
+      expect(resolveDataSourcePolicy({ DATA_SOURCE_POLICY: 'lenient' })).toBe('strict');
+    });
+  });
+
+  describe('Fallback policy', () => {
+    beforeEach(() => {
+      clearBuildReport();
+    });
+
+    it('should serve sample events and report them', async () => {
+      // Act
+      const events = await getEvents();
+
+      // Assert
+      expect(events.length).toBeGreaterThan(0);
+      expect(getBuildReport()).toEqual([
+        {
+          dataset: 'events',
+          source: 'Supabase',
+          origin: 'sample',
+          count: events.length,
+          error: 'Supabase is not configured',
+        },
+      ]);
+    });
+
+    it('should find sample events by slug', async () => {
+      expect((await getEventBySlug('intro-to-data-engineering'))?.title).toContain('Workshop');
+      expect(await getEventBySlug('no-such-event')).toBeNull();
+    });
+  });
+
+  describe('Strict policy', () => {
+    let previous: string | undefined;
+
+    beforeEach(() => {
+      previous = process.env.DATA_SOURCE_POLICY;
+      process.env.DATA_SOURCE_POLICY = 'strict';
+    });
+
+    afterEach(() => {
+      if (previous === undefined) delete process.env.DATA_SOURCE_POLICY;
+      else process.env.DATA_SOURCE_POLICY = previous;
+    });
+
+    it('should fail instead of serving sample events', async () => {
+      const error = await getEvents().catch(e => e);
+
+      expect(error).toBeInstanceOf(DataSourceError);
+      expect(error.dataset).toBe('events');
+      expect(error.message).toContain('Could not load events: Supabase is not configured.');
+    });
+
+    it('should fail every public read', async () => {
+      for (const read of [
+        () => getEventBySlug('intro-to-data-engineering'),
+        getFeaturedEvents,
+        getTeamMembers,
+      ]) {
+        expect(await read().catch(e => e)).toBeInstanceOf(DataSourceError);
+      }
+    });
+
+    it('should fall back to the default site settings', async () => {
+      // Arrange
+      clearBuildReport();
+      const standIn = createSupabaseStandIn({});
+
+      // Act
+      const unconfigured = await getSiteSettings();
+      const missingTable = await getSiteSettings(standIn.client);
+
+      // Assert
+      expect(unconfigured).toEqual({});
+      expect(missingTable).toEqual({});
+      expect(getBuildReport()).toEqual([
+        {
+          dataset: 'site settings',
+          source: 'Supabase',
+          origin: 'none',
+          count: 0,
+          error: expect.stringContaining('site_settings'),
+        },
+      ]);
+    });
+  });
+
+  describe('Build Summary', () => {
+    it('should describe sample data in the report', () => {
+      const report = [
+        { dataset: 'events', source: 'Supabase', origin: 'live' as const, count: 12 },
+        {
+          dataset: 'team members',
+          source: 'Supabase',
+          origin: 'sample' as const,
+          count: 3,
+          error: 'Supabase is not configured',
+        },
+      ];
+
+      expect(formatBuildReport(report)).toBe(
+        [
+          'Data sources:',
+          '  events from Supabase: live, 12 items',
+          '  team members from Supabase: sample data, 3 items [Supabase is not configured]',
+        ].join('\n')
+      );
+    });
+
+    it('should summarize the build as JSON', () => {
+      // Arrange
+      const deployment = {
+        platform: 'cloudflare' as const,
+        production: true,
+        siteUrl: 'https://dataengineering.id',
+        serverRoutes: false,
+      };
+      const live = { dataset: 'events', source: 'Supabase', origin: 'live' as const, count: 12 };
+
+      // Act
+      const summary = createBuildSummary([live], {
+        policy: 'strict',
+        deployment,
+        now: new Date('2026-10-19T10:00:00Z'),
+      });
+
+      // Assert
+      expect(JSON.parse(JSON.stringify(summary))).toEqual({
+        generatedAt: '2026-10-19T10:00:00.000Z',
+        policy: 'strict',
+        deployment,
+        live: true,
+        datasets: [live],
+      });
+      expect(
+        createBuildSummary([{ ...live, origin: 'cache' }], { policy: 'strict', deployment }).live
+      ).toBe(false);
+    });
+  });
+});
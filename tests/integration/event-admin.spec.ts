@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  fromDateTimeLocal,
+  parseEventForm,
+  readEventForm,
+  slugify,
+  toDateTimeLocal,
+  toEventFormValues,
+  toEventRow,
+  toInputErrors,
+  uniqueSlug,
+  type EventInput,
+} from '../../src/lib/event-admin';
+import { getSafeRedirect, isAdminPath } from '../../src/lib/admin-auth';
+import {
+  createEvent,
+  deleteEvent,
+  getAllEvents,
+  publishEvent,
+  updateEvent,
+} from '../../src/lib/supabase';
+
+const input: EventInput = {
+  title: 'Streaming ETL with Kafka',
+  description: 'Build a streaming pipeline end to end.',
+  startDate: new Date('2026-11-20T02:00:00Z'),
+  endDate: new Date('2026-11-20T05:00:00Z'),
+  timezone: 'Asia/Jakarta',
+  locationType: 'physical',
+  venue: 'Tech Hub Jakarta',
+  category: 'Workshop',
+  tags: ['kafka', 'streaming'],
+  maxAttendees: 40,
+  isFeatured: true,
+};
+
+describe('Event Administration', () => {
+  describe('Slugs', () => {
+    it('should generate URL-safe slugs from titles', () => {
+      expect(slugify('Streaming ETL with Kafka')).toBe('streaming-etl-with-kafka');
+      expect(slugify('  Café & Données: 2026!  ')).toBe('cafe-donnees-2026');
+      expect(slugify('🚀')).toBe('event');
+    });
+
+    it('should append a counter when the slug is taken', () => {
+      expect(uniqueSlug('meetup', [])).toBe('meetup');
+      expect(uniqueSlug('meetup', ['meetup'])).toBe('meetup-2');
+      expect(uniqueSlug('meetup', ['meetup', 'meetup-2', 'meetup-3'])).toBe('meetup-4');
+    });
+  });
+
+  describe('Row Mapping', () => {
+    it('should map camelCase fields to snake_case columns', () => {
+      // Act
+      const row = toEventRow(input);
+
+      // Assert
+      expect(row).toEqual({
+        title: 'Streaming ETL with Kafka',
+        description: 'Build a streaming pipeline end to end.',
+        start_date: '2026-11-20T02:00:00.000Z',
+        end_date: '2026-11-20T05:00:00.000Z',
+        timezone: 'Asia/Jakarta',
+        location_type: 'physical',
+        venue: 'Tech Hub Jakarta',
+        category: 'Workshop',
+        tags: ['kafka', 'streaming'],
+        max_attendees: 40,
+        is_featured: true,
+      });
+    });
+
+    it('should only write the given fields and clear empty ones', () => {
+      expect(toEventRow({ city: '', maxAttendees: undefined })).toEqual({
+        city: null,
+        max_attendees: null,
+      });
+    });
+
+    it('should report validation errors by input field', () => {
+      expect(
+        toInputErrors([
+          { field: 'start_date', message: 'is required' },
+          { field: 'title', message: 'is required' },
+        ])
+      ).toEqual([
+        { field: 'startDate', message: 'is required' },
+        { field: 'title', message: 'is required' },
+      ]);
+    });
+  });
+
+  describe('Form Values', () => {
+    it('should convert between UTC and the event wall clock', () => {
+      expect(toDateTimeLocal(new Date('2026-11-20T02:00:00Z'), 'Asia/Jakarta')).toBe(
+        '2026-11-20T09:00'
+      );
+      expect(fromDateTimeLocal('2026-11-20T09:00', 'Asia/Jakarta')?.toISOString()).toBe(
+        '2026-11-20T02:00:00.000Z'
+      );
+      // Daylight saving time in effect
+      expect(fromDateTimeLocal('2026-07-01T18:30', 'Europe/Amsterdam')?.toISOString()).toBe(
+        '2026-07-01T16:30:00.000Z'
+      );
+    });
+
+    it('should reject malformed times and unknown timezones', () => {
+      expect(fromDateTimeLocal('20 November', 'Asia/Jakarta')).toBeNull();
+      expect(fromDateTimeLocal('2026-11-20T09:00', 'Mars/Olympus')).toBeNull();
+    });
+
+    it('should round-trip a submitted form', () => {
+      // Arrange
+      const form = new FormData();
+      const values = toEventFormValues({
+        ...input,
+        id: '1',
+        slug: 'streaming-etl',
+        timezone: 'Asia/Jakarta',
+        excerpt: '',
+        coverImage: '',
+        tags: ['kafka', 'streaming'],
+        status: 'upcoming',
+        registeredCount: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        publishedAt: new Date(),
+        isFeatured: true,
+      });
+      Object.entries(values).forEach(([key, value]) => form.set(key, value));
+
+      // Act
+      const parsed = parseEventForm(readEventForm(form));
+
+      // Assert
+      expect(parsed.startDate.toISOString()).toBe('2026-11-20T02:00:00.000Z');
+      expect(parsed.slug).toBe('streaming-etl');
+      expect(parsed.tags).toEqual(['kafka', 'streaming']);
+      expect(parsed.maxAttendees).toBe(40);
+      expect(parsed.isFeatured).toBe(true);
+    });
+
+    it('should leave the slug to be generated when the field is empty', () => {
+      // Act
+      const parsed = parseEventForm(readEventForm(new FormData()));
+
+      // Assert
+      expect(parsed.slug).toBeUndefined();
+      expect(parsed.timezone).toBe('Asia/Jakarta');
+      expect(isNaN(parsed.startDate.getTime())).toBe(true);
+    });
+  });
+
+  describe('Write Functions', () => {
+    it('should validate input before touching the database', async () => {
+      // Act
+      const outcome = await createEvent({ ...input, title: '', startDate: new Date(NaN) }, null);
+
+      // Assert
+      expect(outcome.ok).toBe(false);
+      if (!outcome.ok) {
+        expect(outcome.error).toBe('invalid_input');
+        expect(outcome.errors?.map(error => error.field)).toEqual(['title', 'startDate']);
+      }
+    });
+
+    it('should reject slugs that are not URL-safe', async () => {
+      // Act
+      const outcome = await createEvent({ ...input, slug: 'Not A Slug' }, null);
+
+      // Assert
+      expect(!outcome.ok && outcome.errors?.[0].field).toBe('slug');
+    });
+
+    it('should report a missing database', async () => {
+      expect(await createEvent(input, null)).toEqual({ ok: false, error: 'not_configured' });
+      expect(await updateEvent('1', { title: 'New' }, null)).toEqual({
+        ok: false,
+        error: 'not_configured',
+      });
+      expect(await publishEvent('1', null)).toEqual({ ok: false, error: 'not_configured' });
+      expect(await deleteEvent('1', null)).toEqual({ ok: false, error: 'not_configured' });
+      expect(await getAllEvents(null)).toEqual([]);
+    });
+  });
+
+  describe('Admin Routes', () => {
+    it('should match only the admin area', () => {
+      expect(isAdminPath('/admin')).toBe(true);
+      expect(isAdminPath('/admin/events/1')).toBe(true);
+      expect(isAdminPath('/administrator')).toBe(false);
+      expect(isAdminPath('/events')).toBe(false);
+    });
+
+    it('should only redirect back into the admin area after sign-in', () => {
+      expect(getSafeRedirect('/admin/events/new')).toBe('/admin/events/new');
+      expect(getSafeRedirect('https://evil.example/admin')).toBe('/admin/events');
+      expect(getSafeRedirect('//evil.example')).toBe('/admin/events');
+      expect(getSafeRedirect(null)).toBe('/admin/events');
+    });
+  });
+});
@@ -0,0 +1,508 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { getOccurrenceDates, parseRecurrenceRule } from '../../src/lib/recurrence';
+import {
+  expandEventSeries,
+  getSeriesPath,
+  groupEventsBySeries,
+  SERIES_HORIZON_DAYS,
+} from '../../src/lib/event-series';
+import { eventSeriesSchema, frontmatterToSeries } from '../../src/lib/event-content';
+import { getEventBySlug, getEventSeries, getEvents, getFeaturedEvents } from '../../src/lib/events';
+import { createSupabaseEventSource } from '../../src/lib/supabase';
+import { buildSitemapEntries } from '../../src/lib/sitemap';
+import { clearBuildReport, getBuildReport } from '../../src/lib/build-report';
+import type { EventSeries } from '../../src/types';
+import { mockEventRows } from '../fixtures/data';
+import { createSupabaseStandIn, type Row, type SupabaseStandIn } from '../utils/supabase-stand-in';
+
+const series: EventSeries = {
+  id: 'series-1',
+  title: 'Data Talk',
+  slug: 'data-talk',
+  description: 'A monthly evening talk.',
+  excerpt: 'Monthly talk.',
+  recurrence: 'FREQ=MONTHLY;BYDAY=3TH;COUNT=4',
+  startDate: new Date('2026-09-17T19:00:00+07:00'),
+  endDate: new Date('2026-09-17T21:00:00+07:00'),
+  timezone: 'Asia/Jakarta',
+  locationType: 'virtual',
+  coverImage: '',
+  category: 'Meetup',
+  tags: ['talks'],
+  registrationUrl: 'https://forms.gle/abc',
+  isFeatured: false,
+  overrides: [],
+  updatedAt: new Date('2026-09-01T00:00:00Z'),
+  publishedAt: new Date('2026-09-01T00:00:00Z'),
+};
+
+function dates(recurrence: string, start: string, last?: string): string[] {
+  const result = parseRecurrenceRule(recurrence);
+  if (!result.valid) throw new Error(result.error);
+  return getOccurrenceDates(result.rule, start, last);
+}
+
+// A published, upcoming `event_series` row; override what a test is about
+function seriesRow(overrides: Row): Row {
+  return {
+    id: 'series-row',
+    title: 'Airflow Clinic',
+    slug: 'airflow-clinic',
+    description: 'Bring your DAGs.',
+    excerpt: 'Weekly help with Airflow.',
+    recurrence: 'FREQ=WEEKLY;BYDAY=TU;COUNT=3',
+    start_date: '2099-03-03T12:00:00Z',
+    end_date: '2099-03-03T13:00:00Z',
+    timezone: 'Asia/Jakarta',
+    location_type: 'virtual',
+    venue: null,
+    address: null,
+    city: null,
+    virtual_link: null,
+    cover_image: '',
+    category: 'Workshop',
+    tags: ['airflow'],
+    registration_url: 'https://forms.gle/clinic',
+    is_featured: true,
+    overrides: [],
+    created_at: '2099-01-01T00:00:00Z',
+    updated_at: '2099-01-01T00:00:00Z',
+    published_at: '2099-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('Event Series', () => {
+  describe('parseRecurrenceRule', () => {
+    it('should read RRULE parts, with or without the RRULE: prefix', () => {
+      expect(parseRecurrenceRule('RRULE:FREQ=MONTHLY;BYDAY=3TH;COUNT=6;WKST=MO')).toEqual({
+        valid: true,
+        rule: {
+          freq: 'MONTHLY',
+          interval: 1,
+          count: 6,
+          byDay: [{ weekday: 4, nth: 3 }],
+          byMonthDay: [],
+          byMonth: [],
+        },
+      });
+      expect(parseRecurrenceRule('freq=weekly;interval=2;until=20261231')).toMatchObject({
+        valid: true,
+        rule: { freq: 'WEEKLY', interval: 2, until: '2026-12-31' },
+      });
+      expect(parseRecurrenceRule('FREQ=DAILY;UNTIL=20261231T170000Z')).toMatchObject({
+        rule: { until: '2026-12-31T17:00:00Z' },
+      });
+    });
+
+    it('should explain rules it cannot evaluate', () => {
+      const errors = [
+        'BYDAY=TH',
+        'FREQ=HOURLY',
+        'FREQ=WEEKLY;BYSETPOS=1',
+        'FREQ=WEEKLY;COUNT=0',
+        'FREQ=WEEKLY;COUNT=3;UNTIL=20261231',
+        'FREQ=DAILY;UNTIL=20260231',
+        'FREQ=WEEKLY;BYDAY=2TU',
+        'FREQ=YEARLY;BYDAY=1MO',
+        'FREQ=WEEKLY;BYMONTHDAY=1',
+        'FREQ=MONTHLY;BYDAY=6MO',
+      ].map(rule => {
+        const result = parseRecurrenceRule(rule);
+        return result.valid ? 'valid' : result.error;
+      });
+
+      expect(errors).toEqual([
+        'needs FREQ=DAILY|WEEKLY|MONTHLY|YEARLY',
+        'needs FREQ=DAILY|WEEKLY|MONTHLY|YEARLY',
+        'BYSETPOS is not supported',
+        'COUNT must be a positive whole number',
+        'COUNT and UNTIL cannot be combined',
+        'UNTIL must look like 20261231 or 20261231T170000Z',
+        'BYDAY ordinals such as 3TH need FREQ=MONTHLY or YEARLY',
+        'BYDAY in a yearly rule needs BYMONTH',
+        'BYMONTHDAY cannot be used with FREQ=WEEKLY',
+        'BYDAY has an invalid day "6MO"',
+      ]);
+    });
+  });
+
+  describe('getOccurrenceDates', () => {
+    it('should find nth and last weekdays of the month', () => {
+      expect(dates('FREQ=MONTHLY;BYDAY=3TH;COUNT=4', '2026-09-17')).toEqual([
+        '2026-09-17',
+        '2026-10-15',
+        '2026-11-19',
+        '2026-12-17',
+      ]);
+      expect(dates('FREQ=MONTHLY;BYDAY=-1FR;COUNT=3', '2026-10-30')).toEqual([
+        '2026-10-30',
+        '2026-11-27',
+        '2026-12-25',
+      ]);
+    });
+
+    it('should repeat on several weekdays, every other week or until a date', () => {
+      expect(dates('FREQ=WEEKLY;BYDAY=TU,TH;COUNT=4', '2026-11-03')).toEqual([
+        '2026-11-03',
+        '2026-11-05',
+        '2026-11-10',
+        '2026-11-12',
+      ]);
+      expect(dates('FREQ=WEEKLY;INTERVAL=2;UNTIL=20261201', '2026-10-20')).toEqual([
+        '2026-10-20',
+        '2026-11-03',
+        '2026-11-17',
+        '2026-12-01',
+      ]);
+      expect(dates('FREQ=DAILY;BYDAY=MO,WE,FR;COUNT=4', '2026-10-19')).toEqual([
+        '2026-10-19',
+        '2026-10-21',
+        '2026-10-23',
+        '2026-10-26',
+      ]);
+    });
+
+    it('should skip months and years without the day instead of moving it', () => {
+      expect(dates('FREQ=MONTHLY;BYMONTHDAY=31;COUNT=4', '2026-01-31')).toEqual([
+        '2026-01-31',
+        '2026-03-31',
+        '2026-05-31',
+        '2026-07-31',
+      ]);
+      expect(dates('FREQ=YEARLY;COUNT=3', '2028-02-29')).toEqual([
+        '2028-02-29',
+        '2032-02-29',
+        '2036-02-29',
+      ]);
+    });
+
+    it('should start at the first date the rule matches', () => {
+      expect(dates('FREQ=MONTHLY;BYDAY=1MO;COUNT=2', '2026-10-19')).toEqual([
+        '2026-11-02',
+        '2026-12-07',
+      ]);
+    });
+
+    it('should stop open-ended rules at the given last date', () => {
+      expect(dates('FREQ=MONTHLY;BYMONTHDAY=1', '2026-10-01', '2026-12-31')).toEqual([
+        '2026-10-01',
+        '2026-11-01',
+        '2026-12-01',
+      ]);
+    });
+  });
+
+  describe('expandEventSeries', () => {
+    it('should turn every occurrence into an event of the series', () => {
+      // Act
+      const sessions = expandEventSeries(series);
+
+      // Assert
+      expect(sessions.map(session => session.slug)).toEqual([
+        'data-talk-2026-09-17',
+        'data-talk-2026-10-15',
+        'data-talk-2026-11-19',
+        'data-talk-2026-12-17',
+      ]);
+      expect(sessions[2]).toMatchObject({
+        id: 'series-1:2026-11-19',
+        title: 'Data Talk',
+        status: 'upcoming',
+        registrationUrl: 'https://forms.gle/abc',
+        registeredCount: 0,
+        series: { slug: 'data-talk', title: 'Data Talk', session: 3, sessions: 4 },
+      });
+      expect(sessions[2].startDate.toISOString()).toBe('2026-11-19T12:00:00.000Z');
+      expect(sessions[2].endDate?.toISOString()).toBe('2026-11-19T14:00:00.000Z');
+    });
+
+    it('should keep the local start time across daylight saving changes', () => {
+      // Arrange: clocks in Amsterdam go back on 25 October 2026
+      const weekly = {
+        ...series,
+        recurrence: 'FREQ=WEEKLY;COUNT=3',
+        startDate: new Date('2026-10-20T19:00:00+02:00'),
+        endDate: new Date('2026-10-20T21:00:00+02:00'),
+        timezone: 'Europe/Amsterdam',
+      };
+
+      // Act
+      const sessions = expandEventSeries(weekly);
+
+      // Assert
+      expect(sessions.map(session => session.startDate.toISOString())).toEqual([
+        '2026-10-20T17:00:00.000Z',
+        '2026-10-27T18:00:00.000Z',
+        '2026-11-03T18:00:00.000Z',
+      ]);
+      expect(sessions[1].endDate?.toISOString()).toBe('2026-10-27T20:00:00.000Z');
+    });
+
+    it('should cancel, move and retitle single sessions', () => {
+      // Arrange
+      const withOverrides: EventSeries = {
+        ...series,
+        overrides: [
+          { date: '2026-10-15', cancelled: true },
+          {
+            date: '2026-11-19',
+            cancelled: false,
+            title: 'Data Talk: Year in Review',
+            startDate: new Date('2026-11-20T18:00:00+07:00'),
+            locationType: 'physical',
+            venue: 'Tech Hub Jakarta',
+          },
+        ],
+      };
+
+      // Act
+      const [, cancelled, moved] = expandEventSeries(withOverrides);
+
+      // Assert
+      expect(cancelled).toMatchObject({ slug: 'data-talk-2026-10-15', status: 'cancelled' });
+      expect(moved).toMatchObject({
+        slug: 'data-talk-2026-11-19',
+        title: 'Data Talk: Year in Review',
+        locationType: 'physical',
+        venue: 'Tech Hub Jakarta',
+        series: { title: 'Data Talk', session: 3 },
+      });
+      expect(moved.startDate.toISOString()).toBe('2026-11-20T11:00:00.000Z');
+      expect(moved.endDate?.toISOString()).toBe('2026-11-20T13:00:00.000Z');
+    });
+
+    it('should list open-ended series up to the horizon, without a session total', () => {
+      // Arrange
+      const now = new Date('2026-10-19T00:00:00Z');
+      const monthly = { ...series, recurrence: 'FREQ=MONTHLY;BYDAY=-1TU' };
+
+      // Act
+      const sessions = expandEventSeries(monthly, now);
+
+      // Assert
+      const horizon = now.getTime() + SERIES_HORIZON_DAYS * 86_400_000;
+      expect(sessions.map(session => session.slug)).toEqual([
+        'data-talk-2026-09-29',
+        'data-talk-2026-10-27',
+        'data-talk-2026-11-24',
+        'data-talk-2026-12-29',
+        'data-talk-2027-01-26',
+        'data-talk-2027-02-23',
+        'data-talk-2027-03-30',
+      ]);
+      expect(sessions.every(session => session.startDate.getTime() <= horizon)).toBe(true);
+      expect(sessions[6].series).toEqual({
+        slug: 'data-talk',
+        title: 'Data Talk',
+        session: 7,
+        sessions: undefined,
+      });
+    });
+
+    it('should end at an UNTIL instant in UTC', () => {
+      const sessions = expandEventSeries({
+        ...series,
+        recurrence: 'FREQ=WEEKLY;UNTIL=20261103T115959Z',
+        startDate: new Date('2026-10-20T19:00:00+07:00'),
+      });
+
+      expect(sessions.map(session => session.slug)).toEqual([
+        'data-talk-2026-10-20',
+        'data-talk-2026-10-27',
+      ]);
+    });
+
+    it('should skip series with a rule it cannot evaluate', () => {
+      expect(expandEventSeries({ ...series, recurrence: 'FREQ=HOURLY' })).toEqual([]);
+    });
+  });
+
+  describe('groupEventsBySeries', () => {
+    it('should gather sessions where the first one appears', () => {
+      // Arrange
+      const [first, second] = expandEventSeries(series);
+      const other = { ...first, id: 'other', slug: 'other', series: undefined };
+
+      // Act
+      const groups = groupEventsBySeries([first, other, second]);
+
+      // Assert
+      expect(groups.map(group => [group.series?.slug, group.events.map(e => e.slug)])).toEqual([
+        ['data-talk', ['data-talk-2026-09-17', 'data-talk-2026-10-15']],
+        [undefined, ['other']],
+      ]);
+      expect(getSeriesPath('data-talk')).toBe('/events/series/data-talk');
+    });
+
+    it('should list each series page once in the sitemap', () => {
+      const paths = buildSitemapEntries(expandEventSeries(series), []).map(entry => entry.path);
+
+      expect(paths.filter(path => path.startsWith('/events/series/'))).toEqual([
+        '/events/series/data-talk',
+      ]);
+      expect(paths).toContain('/events/data-talk-2026-11-19');
+    });
+  });
+
+  describe('Markdown series', () => {
+    const frontmatter = {
+      title: 'Data Talk',
+      recurrence: 'FREQ=MONTHLY;BYDAY=3TH;COUNT=6',
+      startDate: '2026-09-17T19:00:00+07:00',
+      category: 'Meetup',
+      registrationUrl: 'https://forms.gle/abc',
+    };
+
+    it('should apply the event defaults and read overrides', () => {
+      // Act
+      const data = eventSeriesSchema.parse({
+        ...frontmatter,
+        overrides: [{ date: '2026-12-17', cancelled: true }, { date: '2027-01-21' }],
+      });
+      const parsed = frontmatterToSeries('data-talk', data, '\nA monthly talk.\n');
+
+      // Assert
+      expect(parsed).toMatchObject({
+        id: 'content:data-talk',
+        slug: 'data-talk',
+        description: 'A monthly talk.',
+        timezone: 'Asia/Jakarta',
+        locationType: 'virtual',
+        tags: [],
+        isFeatured: false,
+        overrides: [
+          { date: '2026-12-17', cancelled: true },
+          { date: '2027-01-21', cancelled: false },
+        ],
+      });
+      expect(parsed.publishedAt).toEqual(parsed.startDate);
+    });
+
+    it('should reject series the pages could not build', () => {
+      const result = eventSeriesSchema.safeParse({
+        ...frontmatter,
+        recurrence: 'FREQ=WEEKLY;BYDAY=3TH',
+        registrationUrl: undefined,
+        overrides: [{ date: 'soon' }],
+      });
+
+      expect(result.success).toBe(false);
+      expect(
+        result.error?.issues.map(issue => [issue.path.join('.'), issue.message]).sort()
+      ).toEqual([
+        ['overrides.0.date', 'must be a date such as 2026-11-19'],
+        ['recurrence', 'BYDAY ordinals such as 3TH need FREQ=MONTHLY or YEARLY'],
+        ['registrationUrl', 'Required'],
+      ]);
+    });
+
+    it('should report overrides given twice for a date', () => {
+      const result = eventSeriesSchema.safeParse({
+        ...frontmatter,
+        overrides: [{ date: '2026-12-17' }, { date: '2026-12-17', cancelled: true }],
+      });
+
+      expect(result.error?.issues.map(issue => [issue.path.join('.'), issue.message])).toEqual([
+        ['overrides.1.date', 'has a second override for 2026-12-17'],
+      ]);
+    });
+  });
+
+  describe('Reads', () => {
+    let standIn: SupabaseStandIn;
+
+    beforeEach(() => {
+      standIn = createSupabaseStandIn({
+        events: [
+          {
+            ...mockEventRows[0],
+            id: 'single',
+            slug: 'single',
+            start_date: '2099-03-05T02:00:00Z',
+            end_date: null,
+            is_featured: true,
+          },
+        ],
+        event_series: [
+          seriesRow({ overrides: [{ date: '2099-03-10', cancelled: true }] }),
+          seriesRow({ id: 'draft', slug: 'draft-series', published_at: null }),
+          seriesRow({ id: 'broken', slug: 'broken-series', recurrence: 'FREQ=SOMETIMES' }),
+        ],
+      });
+      clearBuildReport();
+    });
+
+    it('should read published series from Supabase, skipping invalid rows', async () => {
+      // Act
+      const list = await createSupabaseEventSource(standIn.client).getSeries();
+
+      // Assert
+      expect(list).toHaveLength(1);
+      expect(list[0]).toMatchObject({
+        id: 'series-row',
+        slug: 'airflow-clinic',
+        description: 'Bring your DAGs.',
+        recurrence: 'FREQ=WEEKLY;BYDAY=TU;COUNT=3',
+        locationType: 'virtual',
+        virtualLink: undefined,
+        overrides: [{ date: '2099-03-10', cancelled: true }],
+      });
+      expect(list[0].startDate).toEqual(new Date('2099-03-03T12:00:00Z'));
+    });
+
+    it('should list sessions among the events and count them in the build report', async () => {
+      // Act
+      const events = await getEvents([createSupabaseEventSource(standIn.client)]);
+
+      // Assert
+      expect(events.map(event => [event.slug, event.status])).toEqual([
+        ['airflow-clinic-2099-03-03', 'upcoming'],
+        ['single', 'upcoming'],
+        ['airflow-clinic-2099-03-10', 'cancelled'],
+        ['airflow-clinic-2099-03-17', 'upcoming'],
+      ]);
+      expect(getBuildReport()).toEqual([
+        { dataset: 'events', source: 'Supabase', origin: 'live', count: 4 },
+      ]);
+    });
+
+    it('should return series with their sessions', async () => {
+      const [clinic] = await getEventSeries([createSupabaseEventSource(standIn.client)]);
+
+      expect(clinic.slug).toBe('airflow-clinic');
+      expect(clinic.sessions.map(session => session.series?.session)).toEqual([1, 2, 3]);
+    });
+
+    it('should find sessions by slug', async () => {
+      const sources = [createSupabaseEventSource(standIn.client)];
+
+      expect(await getEventBySlug('airflow-clinic-2099-03-17', sources)).toMatchObject({
+        id: 'series-row:2099-03-17',
+        series: { slug: 'airflow-clinic', session: 3, sessions: 3 },
+      });
+      expect(await getEventBySlug('airflow-clinic-2099-03-18', sources)).toBeNull();
+      expect(await getEventBySlug('draft-series-2099-03-03', sources)).toBeNull();
+    });
+
+    it('should feature only the next session of a series', async () => {
+      const events = await getFeaturedEvents([createSupabaseEventSource(standIn.client)]);
+
+      expect(events.map(event => event.slug)).toEqual(['airflow-clinic-2099-03-03', 'single']);
+    });
+
+    it('should fall back to the sample series when the source fails', async () => {
+      // Arrange
+      standIn.errors.set('event_series', {
+        message: 'relation "public.event_series" does not exist',
+      });
+
+      // Act
+      const list = await getEventSeries([createSupabaseEventSource(standIn.client)]);
+
+      // Assert
+      expect(list.map(entry => entry.slug)).toEqual(['data-talk']);
+      expect(getBuildReport()[0]).toMatchObject({ origin: 'sample' });
+    });
+  });
+});
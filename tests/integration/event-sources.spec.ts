@@ -0,0 +1,314 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { YAML } from 'bun';
+import { getEventBySlug, getEvents, getFeaturedEvents } from '../../src/lib/events';
+import { mergeEvents, parseEventSourceIds, type EventSource } from '../../src/lib/event-sources';
+import { eventFrontmatterSchema, frontmatterToEvent } from '../../src/lib/event-content';
+import {
+  formatImportSummary,
+  importEventsFromCsv,
+  parseCsv,
+  toEventMarkdown,
+} from '../../src/lib/event-import';
+import { DataSourceError } from '../../src/lib/data-policy';
+import { clearBuildReport, getBuildReport } from '../../src/lib/build-report';
+import type { Event, EventSeries } from '../../src/types';
+
+const baseEvent: Event = {
+  id: 'event-1',
+  title: 'DEI Meetup',
+  slug: 'dei-meetup',
+  description: 'Monthly meetup.',
+  excerpt: 'Monthly meetup.',
+  startDate: new Date('2099-03-15T02:00:00Z'),
+  timezone: 'Asia/Jakarta',
+  locationType: 'virtual',
+  coverImage: '',
+  category: 'Meetup',
+  tags: [],
+  status: 'upcoming',
+  registeredCount: 0,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  publishedAt: new Date('2026-01-01T00:00:00Z'),
+  isFeatured: false,
+};
+
+// In-memory source; `events: null` makes every read fail
+function memorySource(
+  label: string,
+  events: Event[] | null,
+  series: EventSeries[] = []
+): EventSource {
+  return {
+    id: 'content',
+    label,
+    getEvents: async () => {
+      if (!events) throw new Error(`${label} is down`);
+      return events;
+    },
+    getEventBySlug: async slug => {
+      if (!events) throw new Error(`${label} is down`);
+      return events.find(event => event.slug === slug) ?? null;
+    },
+    getSeries: async () => {
+      if (!events) throw new Error(`${label} is down`);
+      return series;
+    },
+  };
+}
+
+describe('Event Sources', () => {
+  describe('parseEventSourceIds', () => {
+    it('should default to Supabase', () => {
+      expect(parseEventSourceIds({})).toEqual(['supabase']);
+      expect(parseEventSourceIds({ EVENT_SOURCES: ' ' })).toEqual(['supabase']);
+    });
+
+    it('should read a priority-ordered list', () => {
+      expect(parseEventSourceIds({ EVENT_SOURCES: 'Content, supabase,content' })).toEqual([
+        'content',
+        'supabase',
+      ]);
+    });
+
+    it('should reject unknown sources instead of dropping their events', () => {
+      expect(() => parseEventSourceIds({ EVENT_SOURCES: 'supabase,airtable' })).toThrow(
+        'Unknown EVENT_SOURCES entry "airtable"'
+      );
+    });
+  });
+
+  describe('Merging', () => {
+    beforeEach(() => {
+      clearBuildReport();
+    });
+
+    it('should merge sources by start date, the first source winning a slug', async () => {
+      // Arrange
+      const database = memorySource('Database', [
+        { ...baseEvent, id: 'db-1', slug: 'late', startDate: new Date('2099-05-01T00:00:00Z') },
+        { ...baseEvent, id: 'db-2', slug: 'shared' },
+      ]);
+      const markdown = memorySource('Markdown', [
+        { ...baseEvent, id: 'md-1', slug: 'early', startDate: new Date('2099-01-01T00:00:00Z') },
+        { ...baseEvent, id: 'md-2', slug: 'shared' },
+      ]);
+
+      // Act
+      const events = await getEvents([database, markdown]);
+
+      // Assert
+      expect(events.map(event => event.id)).toEqual(['md-1', 'db-2', 'db-1']);
+      expect(getBuildReport().map(record => [record.source, record.origin, record.count])).toEqual([
+        ['Database', 'live', 2],
+        ['Markdown', 'live', 2],
+      ]);
+    });
+
+    it('should not mutate the source lists', () => {
+      const list = [
+        { ...baseEvent, slug: 'b', startDate: new Date('2099-02-01T00:00:00Z') },
+        { ...baseEvent, slug: 'a', startDate: new Date('2099-01-01T00:00:00Z') },
+      ];
+
+      mergeEvents([list]);
+
+      expect(list.map(event => event.slug)).toEqual(['b', 'a']);
+    });
+
+    it('should look a slug up in source order', async () => {
+      const sources = [
+        memorySource('Database', [{ ...baseEvent, id: 'db' }]),
+        memorySource('Markdown', [{ ...baseEvent, id: 'md' }]),
+      ];
+
+      expect((await getEventBySlug('dei-meetup', sources))?.id).toBe('db');
+      expect(await getEventBySlug('missing', sources)).toBeNull();
+    });
+
+    it('should feature upcoming featured events from every source', async () => {
+      const events = await getFeaturedEvents([
+        memorySource('Database', [{ ...baseEvent, slug: 'plain' }]),
+        memorySource('Markdown', [{ ...baseEvent, slug: 'featured', isFeatured: true }]),
+      ]);
+
+      expect(events.map(event => event.slug)).toEqual(['featured']);
+    });
+  });
+
+  describe('Failing sources', () => {
+    it('should replace a failing source with sample events in development', async () => {
+      // Arrange
+      clearBuildReport();
+      const sources = [memorySource('Database', null), memorySource('Markdown', [baseEvent])];
+
+      // Act
+      const events = await getEvents(sources);
+
+      // Assert
+      expect(events.map(event => event.slug)).toContain('dei-meetup');
+      expect(events.length).toBeGreaterThan(1);
+      expect(getBuildReport()[0]).toMatchObject({
+        source: 'Database',
+        origin: 'sample',
+        error: 'Database is down',
+      });
+    });
+
+    describe('under the strict policy', () => {
+      beforeEach(() => {
+        process.env.DATA_SOURCE_POLICY = 'strict';
+      });
+
+      afterEach(() => {
+        delete process.env.DATA_SOURCE_POLICY;
+      });
+
+      it('should fail even when another source works', async () => {
+        const sources = [memorySource('Markdown', [baseEvent]), memorySource('Database', null)];
+
+        expect(await getEvents(sources).catch(e => e)).toBeInstanceOf(DataSourceError);
+        expect(await getEventBySlug('other', sources).catch(e => e)).toBeInstanceOf(
+          DataSourceError
+        );
+      });
+    });
+  });
+
+  describe('Markdown events', () => {
+    it('should apply the Event defaults to minimal frontmatter', () => {
+      // Act
+      const data = eventFrontmatterSchema.parse({
+        title: 'Airflow Meetup',
+        startDate: '2026-11-20T19:00:00+07:00',
+        category: 'Meetup',
+        registrationUrl: 'https://forms.gle/abc',
+      });
+      const event = frontmatterToEvent('airflow-meetup', data, '\nTalks on Airflow.\n');
+
+      // Assert
+      expect(event).toMatchObject({
+        id: 'content:airflow-meetup',
+        slug: 'airflow-meetup',
+        description: 'Talks on Airflow.',
+        excerpt: '',
+        timezone: 'Asia/Jakarta',
+        locationType: 'virtual',
+        status: 'upcoming',
+        tags: [],
+        registeredCount: 0,
+        isFeatured: false,
+        isDraft: false,
+      });
+      expect(event.startDate.toISOString()).toBe('2026-11-20T12:00:00.000Z');
+      expect(event.publishedAt).toEqual(event.startDate);
+    });
+
+    it('should reject frontmatter the pages could not render', () => {
+      const result = eventFrontmatterSchema.safeParse({
+        title: 'Broken',
+        startDate: '2026-11-20T19:00:00+07:00',
+        endDate: '2026-11-20T18:00:00+07:00',
+        timezone: 'Mars/Olympus',
+        category: 'Meetup',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues.map(issue => issue.path.join('.')).sort()).toEqual([
+        'registrationUrl',
+        'timezone',
+      ]);
+    });
+  });
+
+  describe('CSV import', () => {
+    // Shaped like a Google Forms export: question headers, extra columns, dd/mm/yyyy dates
+    const csv = [
+      'Timestamp,Email Address,Event title,Date,Time,End time,Format,Venue,Type,Topics,Registration link,Capacity,Featured,Details',
+      '19/10/2026 10:02:11,a@example.com,Airflow Meetup,20/11/2026,7:00:00 PM,9:00:00 PM,In person,"Tech Hub, Jakarta",Meetup,"airflow; orchestration",https://forms.gle/abc,80,Yes,"Talks on ""Airflow 3"".',
+      '',
+      'Bring a laptop."',
+      '19/10/2026 11:00:00,b@example.com,Airflow Meetup,2026-12-05 10:00,,,Online,,Workshop,,https://forms.gle/def,,,',
+      '19/10/2026 12:00:00,c@example.com,Broken,31/02/2026,10:00,,Mars,,,,https://forms.gle/ghi,lots,,',
+      ',,,,,,,,,,,,,',
+    ].join('\r\n');
+
+    it('should parse quoted fields with commas, quotes and newlines', () => {
+      expect(parseCsv('\uFEFFa,b\n"x, y","say ""hi""\nthere"\n')).toEqual([
+        ['a', 'b'],
+        ['x, y', 'say "hi"\nthere'],
+      ]);
+    });
+
+    it('should import rows as Markdown events', () => {
+      // Act
+      const report = importEventsFromCsv(csv);
+
+      // Assert
+      expect(report.events.map(event => event.slug)).toEqual([
+        'airflow-meetup',
+        'airflow-meetup-2',
+      ]);
+      expect(report.events[0].frontmatter).toEqual({
+        title: 'Airflow Meetup',
+        startDate: '2026-11-20T19:00:00+07:00',
+        endDate: '2026-11-20T21:00:00+07:00',
+        timezone: 'Asia/Jakarta',
+        locationType: 'physical',
+        venue: 'Tech Hub, Jakarta',
+        category: 'Meetup',
+        tags: ['airflow', 'orchestration'],
+        registrationUrl: 'https://forms.gle/abc',
+        maxAttendees: 80,
+        isFeatured: true,
+      });
+      expect(report.events[0].description).toBe('Talks on "Airflow 3".\n\nBring a laptop.');
+      expect(report.events[1].frontmatter).toMatchObject({
+        startDate: '2026-12-05T10:00:00+07:00',
+        locationType: 'virtual',
+      });
+      expect(report.ignoredColumns).toEqual(['Timestamp', 'Email Address']);
+    });
+
+    it('should report rows that would not build, field by field', () => {
+      const report = importEventsFromCsv(csv);
+
+      expect(report.skipped).toHaveLength(1);
+      expect(formatImportSummary(report).split('\n').slice(0, 2)).toEqual([
+        'Event import: 2/3 row(s) imported, 1 skipped',
+        '  - row 3 (Broken): startDate "31/02/2026" is not a date (use YYYY-MM-DD or the dmy order); ' +
+          "locationType Invalid enum value. Expected 'physical' | 'virtual' | 'hybrid', received 'mars'; " +
+          'category is required; maxAttendees Expected number, received string',
+      ]);
+    });
+
+    it('should read slash dates in the chosen order', () => {
+      const report = importEventsFromCsv(
+        'Title,Date,Time,Category,Registration link\nMeetup,11/20/2026,19:00,Meetup,https://forms.gle/abc',
+        { dateOrder: 'mdy', timezone: 'Asia/Makassar' }
+      );
+
+      expect(report.events[0].frontmatter.startDate).toBe('2026-11-20T19:00:00+08:00');
+    });
+
+    it('should write files the content collection accepts', () => {
+      // Arrange
+      const [event] = importEventsFromCsv(csv).events;
+
+      // Act
+      const markdown = toEventMarkdown(event);
+      const [, yaml, body] = markdown.split(/^---$/m);
+      const data = eventFrontmatterSchema.parse(YAML.parse(yaml));
+
+      // Assert
+      expect(markdown.startsWith('---\ntitle: "Airflow Meetup"\n')).toBe(true);
+      expect(frontmatterToEvent(event.slug, data, body)).toMatchObject({
+        title: 'Airflow Meetup',
+        venue: 'Tech Hub, Jakarta',
+        tags: ['airflow', 'orchestration'],
+        description: 'Talks on "Airflow 3".\n\nBring a laptop.',
+        isFeatured: true,
+      });
+    });
+  });
+});
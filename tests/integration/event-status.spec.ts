@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  getEndOfDay,
+  getTimelineStatus,
+  isActiveEvent,
+  resolveEventStatus,
+} from '../../src/lib/event-status';
+import type { Event } from '../../src/types';
+
+// 09:00-12:00 WIB on 15 March 2026
+const workshop: Pick<Event, 'startDate' | 'endDate' | 'timezone' | 'status'> = {
+  startDate: new Date('2026-03-15T02:00:00Z'),
+  endDate: new Date('2026-03-15T05:00:00Z'),
+  timezone: 'Asia/Jakarta',
+  status: 'upcoming',
+};
+
+describe('Event Status Resolution', () => {
+  describe('Date-based Status', () => {
+    it('should be upcoming before the start date', () => {
+      // Arrange
+      const now = new Date('2026-03-14T00:00:00Z');
+
+      // Act & Assert
+      expect(resolveEventStatus(workshop, now)).toBe('upcoming');
+    });
+
+    it('should be ongoing between start and end date', () => {
+      // Arrange
+      const now = new Date('2026-03-15T03:30:00Z');
+
+      // Act & Assert
+      expect(resolveEventStatus(workshop, now)).toBe('ongoing');
+    });
+
+    it('should be completed after the end date even if stored as upcoming', () => {
+      // Arrange
+      const now = new Date('2026-03-15T05:00:01Z');
+
+      // Act & Assert
+      expect(resolveEventStatus(workshop, now)).toBe('completed');
+    });
+
+    it('should ignore a stale completed status for future events', () => {
+      // Arrange
+      const now = new Date('2026-03-01T00:00:00Z');
+
+      // Act & Assert
+      expect(resolveEventStatus({ ...workshop, status: 'completed' }, now)).toBe('upcoming');
+    });
+  });
+
+  describe('Cancelled Events', () => {
+    it('should always honour an explicit cancellation', () => {
+      // Arrange
+      const cancelled = { ...workshop, status: 'cancelled' as const };
+
+      // Act & Assert
+      expect(resolveEventStatus(cancelled, new Date('2026-03-01T00:00:00Z'))).toBe('cancelled');
+      expect(resolveEventStatus(cancelled, new Date('2026-04-01T00:00:00Z'))).toBe('cancelled');
+      expect(isActiveEvent(cancelled, new Date('2026-03-01T00:00:00Z'))).toBe(false);
+    });
+
+    it('should still place cancelled events on the timeline', () => {
+      // Arrange
+      const cancelled = { ...workshop, status: 'cancelled' as const };
+
+      // Act & Assert
+      expect(getTimelineStatus(cancelled, new Date('2026-03-01T00:00:00Z'))).toBe('upcoming');
+      expect(getTimelineStatus(cancelled, new Date('2026-04-01T00:00:00Z'))).toBe('completed');
+    });
+  });
+
+  describe('Events Without End Date', () => {
+    it('should run until the end of the local day in the event timezone', () => {
+      // Arrange
+      const event = { ...workshop, endDate: undefined };
+
+      // Act & Assert - 23:30 WIB is still the same day, 00:30 WIB is not
+      expect(resolveEventStatus(event, new Date('2026-03-15T16:30:00Z'))).toBe('ongoing');
+      expect(resolveEventStatus(event, new Date('2026-03-15T17:30:00Z'))).toBe('completed');
+    });
+
+    it('should use the event timezone rather than UTC for the day boundary', () => {
+      // Arrange - 20:00 WIT on 15 March is 11:00 UTC
+      const event = {
+        startDate: new Date('2026-03-15T11:00:00Z'),
+        timezone: 'Asia/Jayapura',
+        status: 'upcoming' as const,
+      };
+
+      // Act
+      const endOfDay = getEndOfDay(event.startDate, event.timezone);
+
+      // Assert - midnight WIT is 15:00 UTC
+      expect(endOfDay.toISOString()).toBe('2026-03-15T14:59:59.999Z');
+      expect(resolveEventStatus(event, new Date('2026-03-15T14:00:00Z'))).toBe('ongoing');
+      expect(resolveEventStatus(event, new Date('2026-03-15T15:00:00Z'))).toBe('completed');
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  formatValidationSummary,
+  validateEventRow,
+  validateEventRows,
+} from '../../src/lib/event-validation';
+import { mockEventRows } from '../fixtures/data';
+
+const validRow = mockEventRows[0];
+
+function expectInvalid(row: Record<string, unknown>, field: string) {
+  const result = validateEventRow(row);
+  expect(result.valid).toBe(false);
+  if (!result.valid) {
+    expect(result.invalid.errors.map(error => error.field)).toContain(field);
+  }
+  return result;
+}
+
+describe('Event Row Validation', () => {
+  describe('Valid Rows', () => {
+    it('should map a valid row to a camelCase Event', () => {
+      // Act
+      const result = validateEventRow(validRow);
+
+      // Assert
+      expect(result.valid).toBe(true);
+      if (result.valid) {
+        expect(result.event.slug).toBe('intro-to-data-engineering');
+        expect(result.event.startDate.toISOString()).toBe('2026-03-15T02:00:00.000Z');
+        expect(result.event.locationType).toBe('virtual');
+        expect(result.event.venue).toBeUndefined();
+        expect(result.event.maxAttendees).toBe(100);
+      }
+    });
+
+    it('should apply defaults for optional columns', () => {
+      // Arrange
+      const row = {
+        ...validRow,
+        timezone: null,
+        location_type: null,
+        status: null,
+        tags: null,
+        registered_count: null,
+        published_at: null,
+      };
+
+      // Act
+      const result = validateEventRow(row);
+
+      // Assert
+      expect(result.valid).toBe(true);
+      if (result.valid) {
+        expect(result.event.timezone).toBe('Asia/Jakarta');
+        expect(result.event.locationType).toBe('virtual');
+        expect(result.event.status).toBe('upcoming');
+        expect(result.event.tags).toEqual([]);
+        expect(result.event.registeredCount).toBe(0);
+        expect(result.event.publishedAt).toEqual(result.event.createdAt);
+      }
+    });
+
+    it('should accept numeric ids', () => {
+      // Act
+      const result = validateEventRow({ ...validRow, id: 42 });
+
+      // Assert
+      expect(result.valid).toBe(true);
+      if (result.valid) expect(result.event.id).toBe('42');
+    });
+  });
+
+  describe('Required Fields', () => {
+    it('should reject a null title', () => {
+      expectInvalid({ ...validRow, title: null }, 'title');
+    });
+
+    it('should reject a missing slug', () => {
+      expectInvalid({ ...validRow, slug: undefined }, 'slug');
+    });
+
+    it('should reject a missing category', () => {
+      expectInvalid({ ...validRow, category: '' }, 'category');
+    });
+
+    it('should reject a missing description', () => {
+      expectInvalid({ ...validRow, description: null }, 'description');
+    });
+
+    it('should reject slugs that are not URL-safe', () => {
+      expectInvalid({ ...validRow, slug: 'Intro To DE' }, 'slug');
+    });
+  });
+
+  describe('Dates', () => {
+    it('should reject a missing start_date', () => {
+      expectInvalid({ ...validRow, start_date: null }, 'start_date');
+    });
+
+    it('should reject a malformed start_date', () => {
+      expectInvalid({ ...validRow, start_date: 'next tuesday' }, 'start_date');
+    });
+
+    it('should reject a malformed end_date', () => {
+      expectInvalid({ ...validRow, end_date: '2026-13-45' }, 'end_date');
+    });
+
+    it('should reject an end_date before start_date', () => {
+      expectInvalid({ ...validRow, end_date: '2026-03-14T00:00:00Z' }, 'end_date');
+    });
+
+    it('should reject invalid timestamps', () => {
+      expectInvalid({ ...validRow, created_at: 'yesterday' }, 'created_at');
+      expectInvalid({ ...validRow, updated_at: null }, 'updated_at');
+      expectInvalid({ ...validRow, published_at: 'soon' }, 'published_at');
+    });
+
+    it('should reject unknown timezones', () => {
+      expectInvalid({ ...validRow, timezone: 'Asia/Bandung' }, 'timezone');
+    });
+  });
+
+  describe('Enums', () => {
+    it('should reject an unknown location_type', () => {
+      expectInvalid({ ...validRow, location_type: 'online' }, 'location_type');
+    });
+
+    it('should reject an unknown status', () => {
+      expectInvalid({ ...validRow, status: 'postponed' }, 'status');
+    });
+  });
+
+  describe('URLs', () => {
+    it('should reject a malformed virtual_link', () => {
+      expectInvalid({ ...validRow, virtual_link: 'zoom meeting 123' }, 'virtual_link');
+    });
+
+    it('should reject non-http registration URLs', () => {
+      expectInvalid({ ...validRow, registration_url: 'javascript:alert(1)' }, 'registration_url');
+    });
+
+    it('should accept root-relative cover images but reject garbage', () => {
+      expect(validateEventRow({ ...validRow, cover_image: '/images/cover.jpg' }).valid).toBe(true);
+      expectInvalid({ ...validRow, cover_image: 'cover.jpg' }, 'cover_image');
+    });
+  });
+
+  describe('Collections and Counts', () => {
+    it('should reject tags that are not an array of strings', () => {
+      expectInvalid({ ...validRow, tags: 'etl,airflow' }, 'tags');
+      expectInvalid({ ...validRow, tags: ['etl', 3] }, 'tags');
+    });
+
+    it('should reject negative or fractional capacities', () => {
+      expectInvalid({ ...validRow, max_attendees: -1 }, 'max_attendees');
+      expectInvalid({ ...validRow, registered_count: 2.5 }, 'registered_count');
+      expectInvalid({ ...validRow, waitlist_count: -3 }, 'waitlist_count');
+    });
+  });
+
+  describe('Batch Validation', () => {
+    it('should keep valid rows and quarantine invalid ones with their id and slug', () => {
+      // Arrange
+      const rows = [
+        validRow,
+        { ...mockEventRows[1], title: null, start_date: 'tbd' },
+        { ...validRow, id: 'event-9', slug: 'broken', location_type: 'moon' },
+      ];
+
+      // Act
+      const report = validateEventRows(rows);
+
+      // Assert
+      expect(report.events).toHaveLength(1);
+      expect(report.invalid).toHaveLength(2);
+      expect(report.invalid[0].id).toBe('event-2');
+      expect(report.invalid[0].slug).toBe('advanced-airflow-pipelines');
+      expect(report.invalid[0].errors).toHaveLength(2);
+      expect(report.invalid[1].row).toBe(rows[2]);
+    });
+
+    it('should summarise skipped rows for the build log', () => {
+      // Arrange
+      const report = validateEventRows([validRow, { ...validRow, id: 'event-9', status: 'x' }]);
+
+      // Act
+      const summary = formatValidationSummary(report);
+
+      // Assert
+      expect(summary).toContain('1/2 row(s) valid, 1 skipped');
+      expect(summary).toContain('id=event-9 slug=intro-to-data-engineering');
+      expect(summary).toContain('status "x" must be one of');
+    });
+  });
+});
@@ -1,274 +1,270 @@
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
-import { createMockEvent } from '../utils/helpers';
-import type { Event } from '../../src/types';
-
-// Helper to create chainable query builder
-function createQueryBuilder() {
-  const chainable = {
-    eq: (_column: string, _value: any) => chainable,
-    order: (_column: string, { ascending: _ascending }: { ascending: boolean }) => ({
-      data: [] as Event[],
-      error: null,
-    }),
-    single: async () => ({ data: null, error: null }),
-    data: [] as Event[],
-    error: null,
+import {
+  createEvent,
+  createSupabaseEventSource,
+  deleteEvent,
+  getAllEvents,
+  getEventById,
+  publishEvent,
+  updateEvent,
+} from '../../src/lib/supabase';
+import { getEventBySlug, getEvents, getFeaturedEvents } from '../../src/lib/events';
+import { DataSourceError } from '../../src/lib/data-policy';
+import { clearBuildReport, getBuildReport } from '../../src/lib/build-report';
+import { mockEventRows } from '../fixtures/data';
+import { createSupabaseStandIn, type Row, type SupabaseStandIn } from '../utils/supabase-stand-in';
+
+// Upcoming, published and valid; override what a test is about
+function eventRow(overrides: Row): Row {
+  return {
+    ...mockEventRows[0],
+    start_date: '2099-03-15T02:00:00Z',
+    end_date: '2099-03-15T05:00:00Z',
+    is_featured: false,
+    ...overrides,
   };
-  return chainable;
 }
 
-// Mock Supabase client for testing
-const mockSupabaseClient = {
-  from: (_table: string) => ({
-    select: (_columns = '*') => createQueryBuilder(),
-    insert: (_data: any) => ({
-      select: () => ({
-        single: async () => ({ data: null, error: null }),
-      }),
-    }),
-    update: (_data: any) => ({
-      eq: (_column: string, _value: any) => ({
-        select: () => ({
-          single: async () => ({ data: null, error: null }),
-        }),
-      }),
-    }),
-    delete: () => ({
-      eq: (_column: string, _value: any) => ({
-        data: null,
-        error: null,
-      }),
-    }),
+const rows = [
+  eventRow({ id: 'late', slug: 'late', start_date: '2099-05-01T02:00:00Z', end_date: null }),
+  eventRow({ id: 'early', slug: 'early', is_featured: true }),
+  eventRow({ id: 'draft', slug: 'draft', published_at: null }),
+  eventRow({
+    id: 'past',
+    slug: 'past',
+    start_date: '2026-01-10T02:00:00Z',
+    end_date: '2026-01-10T05:00:00Z',
+    is_featured: true,
   }),
-};
+];
 
-describe('Event CRUD Operations', () => {
-  let _testEvent: Event;
+describe('Supabase Events', () => {
+  let standIn: SupabaseStandIn;
 
   beforeEach(() => {
-    _testEvent = createMockEvent({
-      title: 'Test Workshop',
-      slug: 'test-workshop',
-    });
-  });
-
-  afterEach(() => {
-    // Cleanup would happen here with real database
+    standIn = createSupabaseStandIn({ events: rows, event_series: [] });
+    clearBuildReport();
   });
 
-  describe('Create Event', () => {
-    it('should create a new event with valid data', async () => {
-      // Arrange
-      const newEvent = createMockEvent({
-        title: 'Integration Test Event',
-        slug: 'integration-test-event',
-      });
-
+  describe('Event Source', () => {
+    it('should read published events in start date order', async () => {
       // Act
-      const result = await mockSupabaseClient.from('events').insert(newEvent).select().single();
+      const events = await createSupabaseEventSource(standIn.client).getEvents();
 
       // Assert
-      expect(result.error).toBeNull();
+      expect(events.map(event => event.slug)).toEqual(['past', 'early', 'late']);
+      expect(events[1]).toMatchObject({
+        id: 'early',
+        title: mockEventRows[0].title,
+        locationType: 'virtual',
+        registeredCount: 45,
+        isFeatured: true,
+      });
+      expect(events[1].startDate).toEqual(new Date('2099-03-15T02:00:00Z'));
     });
 
-    it('should fail to create event without required fields', async () => {
+    it('should skip rows that fail validation', async () => {
       // Arrange
-      const invalidEvent = {
-        // Missing required fields
-        description: 'Missing title and slug',
-      };
+      standIn.tables.get('events')!.push(eventRow({ id: 'broken', slug: 'broken', title: null }));
 
       // Act
-      const result = await mockSupabaseClient.from('events').insert(invalidEvent).select().single();
+      const events = await createSupabaseEventSource(standIn.client).getEvents();
 
-      // Assert - In real test, this would check for validation error
-      expect(result).toBeDefined();
+      // Assert
+      expect(events.map(event => event.slug)).not.toContain('broken');
+      expect(events).toHaveLength(3);
     });
-  });
 
-  describe('Read Events', () => {
-    it('should fetch all upcoming events', async () => {
-      // Act
-      const result = await mockSupabaseClient
-        .from('events')
-        .select('*')
-        .eq('status', 'upcoming')
-        .order('start_date', { ascending: true });
+    it('should find published events by slug, but not drafts', async () => {
+      const source = createSupabaseEventSource(standIn.client);
 
-      // Assert
-      expect(result.error).toBeNull();
-      expect(result.data).toBeDefined();
-      expect(Array.isArray(result.data)).toBe(true);
+      expect((await source.getEventBySlug('early'))?.id).toBe('early');
+      expect(await source.getEventBySlug('draft')).toBeNull();
+      expect(await source.getEventBySlug('missing')).toBeNull();
     });
 
-    it('should fetch event by slug', async () => {
+    it('should throw the PostgREST error when a query fails', async () => {
       // Arrange
-      const slug = 'test-workshop';
+      standIn.errors.set('events', { message: 'permission denied for table events' });
+      const source = createSupabaseEventSource(standIn.client);
 
-      // Act
-      const result = await mockSupabaseClient.from('events').select('*').eq('slug', slug).single();
+      // Act & Assert
+      await expect(source.getEvents()).rejects.toThrow('permission denied for table events');
+      await expect(source.getEventBySlug('early')).rejects.toThrow('permission denied');
+    });
 
-      // Assert
-      expect(result.error).toBeNull();
+    it('should throw when Supabase is not configured', async () => {
+      await expect(createSupabaseEventSource(null).getEvents()).rejects.toThrow(
+        'Supabase is not configured'
+      );
     });
+  });
 
-    it('should fetch featured events', async () => {
+  describe('Public Reads', () => {
+    it('should resolve the status of past events', async () => {
       // Act
-      const result = await mockSupabaseClient
-        .from('events')
-        .select('*')
-        .eq('is_featured', true)
-        .eq('status', 'upcoming')
-        .order('start_date', { ascending: true });
+      const events = await getEvents([createSupabaseEventSource(standIn.client)]);
 
       // Assert
-      expect(result.error).toBeNull();
-      expect(Array.isArray(result.data)).toBe(true);
+      expect(events.map(event => [event.slug, event.status])).toEqual([
+        ['past', 'completed'],
+        ['early', 'upcoming'],
+        ['late', 'upcoming'],
+      ]);
+      expect(getBuildReport()).toEqual([
+        { dataset: 'events', source: 'Supabase', origin: 'live', count: 3 },
+      ]);
     });
-  });
 
-  describe('Update Event', () => {
-    it('should update event title', async () => {
-      // Arrange
-      const eventId = 'test-event-id';
-      const updatedData = {
-        title: 'Updated Event Title',
-        updated_at: new Date().toISOString(),
-      };
+    it('should only feature upcoming events', async () => {
+      const events = await getFeaturedEvents([createSupabaseEventSource(standIn.client)]);
 
-      // Act
-      const result = await mockSupabaseClient
-        .from('events')
-        .update(updatedData)
-        .eq('id', eventId)
-        .select()
-        .single();
-
-      // Assert
-      expect(result.error).toBeNull();
+      expect(events.map(event => event.slug)).toEqual(['early']);
     });
 
-    it('should update event status from upcoming to completed', async () => {
+    it('should fall back to sample events when the query fails in development', async () => {
       // Arrange
-      const eventId = 'test-event-id';
-      const statusUpdate = {
-        status: 'completed',
-        updated_at: new Date().toISOString(),
-      };
+      standIn.errors.set('events', { message: 'connection refused' });
+      const sources = [createSupabaseEventSource(standIn.client)];
 
       // Act
-      const result = await mockSupabaseClient
-        .from('events')
-        .update(statusUpdate)
-        .eq('id', eventId)
-        .select()
-        .single();
+      const events = await getEvents(sources);
 
       // Assert
-      expect(result.error).toBeNull();
+      expect(events.length).toBeGreaterThan(0);
+      expect(events.map(event => event.slug)).not.toContain('early');
+      expect(getBuildReport()[0]).toMatchObject({
+        source: 'Supabase',
+        origin: 'sample',
+        error: 'connection refused',
+      });
+      expect(await getEventBySlug('early', sources)).toBeNull();
     });
-  });
 
-  describe('Delete Event', () => {
-    it('should delete event by id', async () => {
-      // Arrange
-      const eventId = 'test-event-id';
+    describe('under the strict policy', () => {
+      beforeEach(() => {
+        process.env.DATA_SOURCE_POLICY = 'strict';
+      });
 
-      // Act
-      const result = await mockSupabaseClient.from('events').delete().eq('id', eventId);
+      afterEach(() => {
+        delete process.env.DATA_SOURCE_POLICY;
+      });
 
-      // Assert
-      expect(result.error).toBeNull();
+      it('should fail instead of using sample events', async () => {
+        // Arrange
+        standIn.errors.set('events', { message: 'connection refused' });
+        const sources = [createSupabaseEventSource(standIn.client)];
+
+        // Act
+        const error = await getEvents(sources).catch(e => e);
+
+        // Assert
+        expect(error).toBeInstanceOf(DataSourceError);
+        expect(error.message).toContain('Could not load events: connection refused');
+      });
+
+      it('should still read a working database', async () => {
+        const event = await getEventBySlug('late', [createSupabaseEventSource(standIn.client)]);
+
+        expect(event?.id).toBe('late');
+      });
     });
   });
-});
 
-describe('Event Filtering and Search', () => {
-  describe('Filter by Category', () => {
-    it('should filter events by category', async () => {
-      // Act
-      const result = await mockSupabaseClient
-        .from('events')
-        .select('*')
-        .eq('category', 'Workshop')
-        .eq('status', 'upcoming');
+  describe('Admin Reads', () => {
+    it('should include drafts, newest first', async () => {
+      const events = await getAllEvents(standIn.client);
 
-      // Assert
-      expect(result.error).toBeNull();
-      expect(Array.isArray(result.data)).toBe(true);
+      expect(events.map(event => event.slug)).toEqual(['late', 'early', 'draft', 'past']);
+      expect(events.filter(event => event.isDraft).map(event => event.slug)).toEqual(['draft']);
+    });
+
+    it('should return nothing rather than sample events when a query fails', async () => {
+      // Arrange
+      standIn.errors.set('events', { message: 'JWT expired' });
+
+      // Act & Assert
+      expect(await getAllEvents(standIn.client)).toEqual([]);
+      expect(await getEventById('early', standIn.client)).toBeNull();
     });
   });
 
-  describe('Filter by Location Type', () => {
-    it('should filter virtual events', async () => {
+  describe('Admin Writes', () => {
+    const input = {
+      title: 'Late',
+      description: 'A second late event.',
+      startDate: new Date('2099-06-01T02:00:00Z'),
+      timezone: 'Asia/Jakarta',
+      locationType: 'virtual' as const,
+      category: 'Meetup',
+    };
+
+    it('should create drafts with a unique slug', async () => {
       // Act
-      const result = await mockSupabaseClient
-        .from('events')
-        .select('*')
-        .eq('location_type', 'virtual')
-        .eq('status', 'upcoming');
+      const outcome = await createEvent(input, standIn.client);
 
       // Assert
-      expect(result.error).toBeNull();
+      expect(outcome).toMatchObject({ ok: true, value: { slug: 'late-2', title: 'Late' } });
+      const stored = standIn.tables.get('events')!.find(row => row.slug === 'late-2');
+      expect(stored?.published_at).toBeNull();
+      expect(
+        await getEventBySlug('late-2', [createSupabaseEventSource(standIn.client)])
+      ).toBeNull();
     });
 
-    it('should filter physical events', async () => {
+    it('should refuse a slug that is taken', async () => {
+      expect(await createEvent({ ...input, slug: 'early' }, standIn.client)).toEqual({
+        ok: false,
+        error: 'slug_taken',
+      });
+      expect(await updateEvent('late', { slug: 'early' }, standIn.client)).toEqual({
+        ok: false,
+        error: 'slug_taken',
+      });
+    });
+
+    it('should only change the given fields', async () => {
       // Act
-      const result = await mockSupabaseClient
-        .from('events')
-        .select('*')
-        .eq('location_type', 'physical')
-        .eq('status', 'upcoming');
+      const outcome = await updateEvent('early', { title: 'Renamed', slug: '' }, standIn.client);
 
       // Assert
-      expect(result.error).toBeNull();
+      expect(outcome).toMatchObject({ ok: true, value: { title: 'Renamed', slug: 'early' } });
+      expect(await updateEvent('missing', { title: 'x' }, standIn.client)).toEqual({
+        ok: false,
+        error: 'not_found',
+      });
     });
-  });
 
-  describe('Sort by Date', () => {
-    it('should sort events by start_date ascending', async () => {
+    it('should publish once, keeping the original publish date', async () => {
       // Act
-      const result = await mockSupabaseClient
-        .from('events')
-        .select('*')
-        .order('start_date', { ascending: true });
+      const first = await publishEvent('draft', standIn.client);
+      const again = await publishEvent('draft', standIn.client);
 
       // Assert
-      expect(result.error).toBeNull();
+      expect(first.ok && again.ok).toBe(true);
+      if (first.ok && again.ok) {
+        expect(first.value.publishedAt).toBeInstanceOf(Date);
+        expect(again.value.publishedAt).toEqual(first.value.publishedAt);
+      }
+      expect(await publishEvent('missing', standIn.client)).toEqual({
+        ok: false,
+        error: 'not_found',
+      });
     });
-  });
-});
 
-describe('Event Registration Flow', () => {
-  it('should increment registered_count when user registers', async () => {
-    // Arrange
-    const eventId = 'test-event-id';
-    const currentCount = 45;
-
-    // Act - Simulate registration
-    const updateResult = await mockSupabaseClient
-      .from('events')
-      .update({
-        registered_count: currentCount + 1,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', eventId)
-      .select()
-      .single();
-
-    // Assert
-    expect(updateResult.error).toBeNull();
-  });
+    it('should delete events by id', async () => {
+      expect(await deleteEvent('late', standIn.client)).toEqual({ ok: true, value: 'late' });
+      expect(await deleteEvent('late', standIn.client)).toEqual({ ok: false, error: 'not_found' });
+      expect(standIn.tables.get('events')).toHaveLength(3);
+    });
 
-  it('should not allow registration beyond max_attendees', async () => {
-    // Arrange
-    const _eventId = 'test-event-id';
-    const maxAttendees = 50;
-    const currentCount = 50;
+    it('should report failed writes', async () => {
+      // Arrange
+      standIn.errors.set('events', { message: 'new row violates row-level security policy' });
 
-    // Act & Assert
-    if (currentCount >= maxAttendees) {
-      expect(true).toBe(true); // Registration should be blocked
-    }
+      // Act & Assert
+      expect(await createEvent(input, standIn.client)).toEqual({ ok: false, error: 'failed' });
+      expect(await deleteEvent('late', standIn.client)).toEqual({ ok: false, error: 'failed' });
+    });
   });
 });
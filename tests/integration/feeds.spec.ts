@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  articleToFeedItem,
+  escapeXml,
+  eventToFeedItem,
+  generateAtom,
+  generateJsonFeed,
+  generateRss,
+  mergeFeedItems,
+  getEventsFeed,
+  getWhatsNewFeed,
+  type FeedMeta,
+} from '../../src/lib/feeds';
+import { toArticle } from '../../src/lib/medium';
+import type { Event } from '../../src/types';
+import { mockMediumArticles } from '../fixtures/data';
+
+const siteUrl = 'https://dataengineering.id/';
+
+const meta: FeedMeta = {
+  title: 'Data Engineering Indonesia Events',
+  description: 'Workshops & meetups',
+  author: 'Data Engineering Indonesia',
+  siteUrl,
+  feedPath: '/rss.xml',
+};
+
+const baseEvent: Event = {
+  id: 'event-1',
+  title: 'DEI Workshop: ETL <Basics>',
+  slug: 'etl-basics',
+  description: 'Learn ETL & warehousing.',
+  excerpt: 'An introductory workshop.',
+  startDate: new Date('2026-03-15T02:00:00Z'),
+  endDate: new Date('2026-03-15T05:00:00Z'),
+  timezone: 'Asia/Jakarta',
+  locationType: 'virtual',
+  coverImage: '',
+  category: 'Workshop',
+  tags: ['beginner', 'etl'],
+  status: 'upcoming',
+  registrationUrl: 'https://forms.example.com/etl',
+  registeredCount: 0,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-05T00:00:00Z'),
+  publishedAt: new Date('2026-01-02T00:00:00Z'),
+  isFeatured: false,
+};
+
+const article = toArticle({ ...mockMediumArticles[0], source: 'Medium' });
+
+describe('Site Feeds', () => {
+  describe('Feed Items', () => {
+    it('should escape XML special characters', () => {
+      expect(escapeXml(`<a href="x">Tom & Jerry's</a>`)).toBe(
+        '&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;'
+      );
+    });
+
+    it('should link events to their local detail page', () => {
+      // Act
+      const item = eventToFeedItem(baseEvent, siteUrl);
+
+      // Assert
+      expect(item.url).toBe('https://dataengineering.id/events/etl-basics');
+      expect(item.externalUrl).toBe('https://forms.example.com/etl');
+      expect(item.categories).toEqual(['Workshop', 'beginner', 'etl']);
+      expect(item.summary).toContain('Virtual Event');
+    });
+
+    it('should flag cancelled events in the title', () => {
+      const item = eventToFeedItem({ ...baseEvent, status: 'cancelled' }, siteUrl);
+      expect(item.title).toBe('[Cancelled] DEI Workshop: ETL <Basics>');
+    });
+
+    it('should link articles to the local article page and keep the original URL', () => {
+      // Act
+      const item = articleToFeedItem(article, siteUrl);
+
+      // Assert
+      expect(item.url).toBe('https://dataengineering.id/articles/getting-started');
+      expect(item.externalUrl).toBe(mockMediumArticles[0].link);
+      expect(item.author).toBe('John Doe');
+    });
+
+    it('should merge events and articles newest first and apply the limit', () => {
+      // Arrange
+      const eventItem = eventToFeedItem(baseEvent, siteUrl);
+      const articleItem = articleToFeedItem(article, siteUrl);
+
+      // Act
+      const merged = mergeFeedItems([[eventItem], [articleItem]]);
+      const limited = mergeFeedItems([[eventItem], [articleItem]], 1);
+
+      // Assert
+      expect(merged.map(item => item.url)).toEqual([articleItem.url, eventItem.url]);
+      expect(limited).toHaveLength(1);
+    });
+
+    it('should drop items with an invalid publish date', () => {
+      const broken = articleToFeedItem({ ...article, publishedAt: new Date('nope') }, siteUrl);
+      expect(mergeFeedItems([[broken]])).toHaveLength(0);
+    });
+  });
+
+  describe('RSS 2.0', () => {
+    it('should render a channel with escaped items and a self link', () => {
+      // Act
+      const rss = generateRss(meta, [eventToFeedItem(baseEvent, siteUrl)]);
+
+      // Assert
+      expect(rss).toStartWith('<?xml version="1.0" encoding="UTF-8"?>');
+      expect(rss).toContain('<title>Data Engineering Indonesia Events</title>');
+      expect(rss).toContain('<description>Workshops &amp; meetups</description>');
+      expect(rss).toContain('<title>DEI Workshop: ETL &lt;Basics&gt;</title>');
+      expect(rss).toContain('<pubDate>Fri, 02 Jan 2026 00:00:00 GMT</pubDate>');
+      expect(rss).toContain('<category>etl</category>');
+      expect(rss).toContain(
+        '<atom:link href="https://dataengineering.id/rss.xml" rel="self" type="application/rss+xml" />'
+      );
+    });
+  });
+
+  describe('Feed titles', () => {
+    it('should follow the configured site name', () => {
+      // Act
+      const atom = generateAtom(
+        {
+          ...getWhatsNewFeed('Data Engineering Jakarta'),
+          siteUrl,
+          feedPath: '/whats-new/atom.xml',
+        },
+        [eventToFeedItem(baseEvent, siteUrl)]
+      );
+
+      // Assert
+      expect(getEventsFeed('Data Engineering Jakarta').title).toBe(
+        'Data Engineering Jakarta Events'
+      );
+      expect(atom).toContain('<title>What&apos;s New at Data Engineering Jakarta</title>');
+      expect(atom).toContain('<author><name>Data Engineering Jakarta</name></author>');
+    });
+  });
+
+  describe('Atom 1.0', () => {
+    it('should render entries with published and updated timestamps', () => {
+      // Act
+      const atom = generateAtom({ ...meta, feedPath: '/atom.xml' }, [
+        eventToFeedItem(baseEvent, siteUrl),
+      ]);
+
+      // Assert
+      expect(atom).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+      expect(atom).toContain('<id>https://dataengineering.id/atom.xml</id>');
+      expect(atom).toContain('<updated>2026-01-05T00:00:00.000Z</updated>');
+      expect(atom).toContain('<published>2026-01-02T00:00:00.000Z</published>');
+      expect(atom).toContain('<content type="html">&lt;p&gt;Learn ETL &amp;amp; warehousing.');
+      expect(atom).toContain('<link rel="related" href="https://forms.example.com/etl" />');
+    });
+  });
+
+  describe('JSON Feed 1.1', () => {
+    it('should render a valid JSON Feed document', () => {
+      // Act
+      const json = JSON.parse(
+        generateJsonFeed({ ...meta, feedPath: '/feed.json' }, [
+          eventToFeedItem(baseEvent, siteUrl),
+          articleToFeedItem(article, siteUrl),
+        ])
+      );
+
+      // Assert
+      expect(json.version).toBe('https://jsonfeed.org/version/1.1');
+      expect(json.feed_url).toBe('https://dataengineering.id/feed.json');
+      expect(json.items).toHaveLength(2);
+      expect(json.items[0].authors).toEqual([{ name: 'John Doe' }]);
+      expect(json.items[0].content_text).toBe(json.items[0].summary);
+      expect(json.items[1].content_html).toBe('<p>Learn ETL &amp; warehousing.</p>');
+      expect(json.items[1].date_published).toBe('2026-01-02T00:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  formatDate,
+  formatNumber,
+  getAlternatePaths,
+  getLocale,
+  getLocaleFromPath,
+  localizePath,
+  stripLocale,
+  useTranslations,
+  type TranslationKey,
+} from '../../src/lib/i18n';
+import en from '../../src/i18n/en';
+import id from '../../src/i18n/id';
+
+describe('Internationalization', () => {
+  describe('Routing', () => {
+    it('should detect the locale from the path prefix', () => {
+      expect(getLocaleFromPath('/id/events/')).toBe('id');
+      expect(getLocaleFromPath('/id')).toBe('id');
+      expect(getLocaleFromPath('/events/')).toBe('en');
+      expect(getLocaleFromPath('/identity')).toBe('en');
+    });
+
+    it('should fall back to the default locale for unknown values', () => {
+      expect(getLocale('id')).toBe('id');
+      expect(getLocale('fr')).toBe('en');
+      expect(getLocale(undefined)).toBe('en');
+    });
+
+    it('should strip the locale prefix', () => {
+      expect(stripLocale('/id/articles/page/2')).toBe('/articles/page/2');
+      expect(stripLocale('/id/')).toBe('/');
+      expect(stripLocale('/about')).toBe('/about');
+    });
+
+    it('should prefix paths for Bahasa Indonesia only', () => {
+      expect(localizePath('/events', 'id')).toBe('/id/events');
+      expect(localizePath('/', 'id')).toBe('/id/');
+      expect(localizePath('/id/events', 'en')).toBe('/events');
+      expect(localizePath('/events', 'en')).toBe('/events');
+    });
+
+    it('should leave external and protocol-relative links alone', () => {
+      expect(localizePath('https://medium.com/x', 'id')).toBe('https://medium.com/x');
+      expect(localizePath('//cdn.example.com/a.js', 'id')).toBe('//cdn.example.com/a.js');
+      expect(localizePath('mailto:team@example.com', 'id')).toBe('mailto:team@example.com');
+    });
+
+    it('should list the page in every locale', () => {
+      expect(getAlternatePaths('/id/events/meetup')).toEqual([
+        { locale: 'en', path: '/events/meetup' },
+        { locale: 'id', path: '/id/events/meetup' },
+      ]);
+    });
+  });
+
+  describe('Translations', () => {
+    it('should translate keys for each locale', () => {
+      expect(useTranslations('en')('nav.events')).toBe('Events');
+      expect(useTranslations('id')('nav.events')).toBe('Acara');
+    });
+
+    it('should fill placeholders and keep unknown ones', () => {
+      const t = useTranslations('id');
+
+      expect(t('registration.registered', { count: 12 })).toBe('12 terdaftar');
+      expect(t('registration.registered')).toBe('{count} terdaftar');
+    });
+
+    it('should fall back to English for missing keys', () => {
+      // Arrange
+      const key = 'nav.home' as TranslationKey;
+      const original = id[key];
+      delete (id as Partial<typeof id>)[key];
+
+      try {
+        // Act & Assert
+        expect(useTranslations('id')(key)).toBe('Home');
+      } finally {
+        id[key] = original;
+      }
+    });
+
+    it('should define the same keys and placeholders in every dictionary', () => {
+      const placeholders = (text: string) => (text.match(/\{\w+\}/g) || []).sort();
+
+      expect(Object.keys(id).sort()).toEqual(Object.keys(en).sort());
+      for (const key of Object.keys(en) as TranslationKey[]) {
+        expect(placeholders(id[key])).toEqual(placeholders(en[key]));
+      }
+    });
+  });
+
+  describe('Formatting', () => {
+    const date = new Date('2026-03-15T02:00:00Z');
+
+    it('should format dates per locale', () => {
+      expect(formatDate(date, 'en')).toBe('March 15, 2026');
+      expect(formatDate(date, 'id')).toBe('15 Maret 2026');
+      expect(formatDate('2026-03-15T02:00:00Z', 'en')).toBe('March 15, 2026');
+    });
+
+    it('should format dates on the given timezone', () => {
+      // 01:00 on March 16 in Jakarta is still March 15 in UTC
+      const earlyMorning = new Date('2026-03-15T18:00:00Z');
+
+      expect(formatDate(earlyMorning, 'en', 'Asia/Jakarta')).toBe('March 16, 2026');
+      expect(formatDate(earlyMorning, 'en', 'UTC')).toBe('March 15, 2026');
+    });
+
+    it('should return an empty string for invalid dates', () => {
+      expect(formatDate('not a date', 'en')).toBe('');
+    });
+
+    it('should format numbers with locale separators', () => {
+      expect(formatNumber(2000, 'en')).toBe('2,000');
+      expect(formatNumber(2000, 'id')).toBe('2.000');
+    });
+  });
+});
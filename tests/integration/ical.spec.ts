@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  escapeText,
+  foldLine,
+  formatLocalDateTime,
+  generateCalendar,
+  generateEventIcs,
+} from '../../src/lib/ical';
+import type { Event } from '../../src/types';
+
+const baseEvent: Event = {
+  id: 'event-1',
+  title: 'DEI Workshop: Introduction to Data Engineering',
+  slug: 'intro-to-data-engineering',
+  description: 'Learn ETL, warehousing; and the modern data stack.',
+  excerpt: 'An introductory workshop.',
+  startDate: new Date('2026-03-15T02:00:00Z'),
+  endDate: new Date('2026-03-15T05:00:00Z'),
+  timezone: 'Asia/Jakarta',
+  locationType: 'virtual',
+  virtualLink: 'https://zoom.us/j/example',
+  coverImage: '',
+  category: 'Workshop',
+  tags: ['beginner', 'etl'],
+  status: 'upcoming',
+  registeredCount: 0,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-02T03:04:05Z'),
+  publishedAt: new Date('2026-01-01T00:00:00Z'),
+  isFeatured: false,
+};
+
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('iCalendar Generation', () => {
+  describe('Text Helpers', () => {
+    it('should escape commas, semicolons, backslashes and newlines', () => {
+      // Act
+      const escaped = escapeText('a,b;c\\d\ne');
+
+      // Assert
+      expect(escaped).toBe('a\\,b\\;c\\\\d\\ne');
+    });
+
+    it('should fold lines longer than 75 octets', () => {
+      // Arrange
+      const line = `DESCRIPTION:${'x'.repeat(200)}`;
+
+      // Act
+      const folded = foldLine(line);
+
+      // Assert
+      const segments = folded.split('\r\n');
+      expect(segments.length).toBeGreaterThan(1);
+      segments.forEach(segment => {
+        expect(new TextEncoder().encode(segment).length).toBeLessThanOrEqual(75);
+      });
+      expect(folded.replace(/\r\n /g, '')).toBe(line);
+    });
+
+    it('should not split multi-byte characters when folding', () => {
+      // Arrange
+      const line = `SUMMARY:${'é'.repeat(60)}`;
+
+      // Act
+      const folded = foldLine(line);
+
+      // Assert
+      expect(folded.replace(/\r\n /g, '')).toBe(line);
+    });
+
+    it('should format local time in the event timezone', () => {
+      // Arrange
+      const date = new Date('2026-03-15T02:00:00Z');
+
+      // Act & Assert
+      expect(formatLocalDateTime(date, 'Asia/Jakarta')).toBe('20260315T090000');
+      expect(formatLocalDateTime(date, 'Asia/Makassar')).toBe('20260315T100000');
+      expect(formatLocalDateTime(date, 'Asia/Jayapura')).toBe('20260315T110000');
+    });
+  });
+
+  describe('Single Event Export', () => {
+    it('should produce a stable UID from the event id', () => {
+      // Act
+      const lines = unfold(generateEventIcs(baseEvent));
+
+      // Assert
+      expect(lines).toContain('UID:event-1@dataengineering.id');
+    });
+
+    it('should use TZID-qualified local times', () => {
+      // Act
+      const lines = unfold(generateEventIcs(baseEvent));
+
+      // Assert
+      expect(lines).toContain('DTSTART;TZID=Asia/Jakarta:20260315T090000');
+      expect(lines).toContain('DTEND;TZID=Asia/Jakarta:20260315T120000');
+      expect(lines).toContain('DTSTAMP:20260102T030405Z');
+    });
+
+    it('should include the virtual link as location for virtual events', () => {
+      // Act
+      const lines = unfold(generateEventIcs(baseEvent));
+
+      // Assert
+      expect(lines).toContain('LOCATION:https://zoom.us/j/example');
+    });
+
+    it('should join venue, address and city for physical events', () => {
+      // Arrange
+      const event: Event = {
+        ...baseEvent,
+        locationType: 'physical',
+        venue: 'Tech Hub',
+        address: 'Jl. Sudirman 1',
+        city: 'Jakarta',
+        virtualLink: undefined,
+      };
+
+      // Act
+      const lines = unfold(generateEventIcs(event));
+
+      // Assert
+      expect(lines).toContain('LOCATION:Tech Hub\\, Jl. Sudirman 1\\, Jakarta');
+    });
+
+    it('should mark cancelled events as STATUS:CANCELLED', () => {
+      // Act
+      const lines = unfold(generateEventIcs({ ...baseEvent, status: 'cancelled' }));
+
+      // Assert
+      expect(lines).toContain('STATUS:CANCELLED');
+    });
+
+    it('should link back to the event page when a site URL is given', () => {
+      // Act
+      const lines = unfold(generateEventIcs(baseEvent, 'https://dataengineering.id'));
+
+      // Assert
+      expect(lines).toContain('URL:https://dataengineering.id/events/intro-to-data-engineering');
+    });
+
+    it('should use CRLF line endings', () => {
+      // Act
+      const ics = generateEventIcs(baseEvent);
+
+      // Assert
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+    });
+  });
+
+  describe('Calendar Feed', () => {
+    it('should include one VTIMEZONE per Indonesian timezone used', () => {
+      // Arrange
+      const events: Event[] = [
+        baseEvent,
+        { ...baseEvent, id: 'event-2', timezone: 'Asia/Makassar' },
+        { ...baseEvent, id: 'event-3', timezone: 'Asia/Jayapura' },
+        { ...baseEvent, id: 'event-4', timezone: 'Asia/Jakarta' },
+      ];
+
+      // Act
+      const lines = unfold(generateCalendar(events, { name: 'DEI Events' }));
+
+      // Assert
+      expect(lines.filter(line => line === 'BEGIN:VTIMEZONE')).toHaveLength(3);
+      expect(lines).toContain('TZOFFSETTO:+0700');
+      expect(lines).toContain('TZOFFSETTO:+0800');
+      expect(lines).toContain('TZOFFSETTO:+0900');
+      expect(lines).toContain('TZNAME:WITA');
+      expect(lines.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(4);
+      expect(lines).toContain('X-WR-CALNAME:DEI Events');
+    });
+
+    it('should fall back to UTC times for unsupported timezones', () => {
+      // Arrange
+      const event: Event = { ...baseEvent, timezone: 'Europe/Amsterdam' };
+
+      // Act
+      const lines = unfold(generateCalendar([event]));
+
+      // Assert
+      expect(lines).not.toContain('BEGIN:VTIMEZONE');
+      expect(lines).toContain('DTSTART:20260315T020000Z');
+    });
+
+    it('should produce an empty but valid calendar with no events', () => {
+      // Act
+      const lines = unfold(generateCalendar([]));
+
+      // Assert
+      expect(lines[0]).toBe('BEGIN:VCALENDAR');
+      expect(lines).toContain('END:VCALENDAR');
+      expect(lines).not.toContain('BEGIN:VEVENT');
+    });
+  });
+});
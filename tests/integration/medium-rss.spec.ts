@@ -1,135 +1,167 @@
-import { describe, it, expect } from 'bun:test';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
 import { mockMediumArticles } from '../fixtures/data';
-
-// Mock RSS Parser
-const mockRssParser = {
-  parseURL: async (url: string) => {
-    if (url === 'https://medium.com/feed/data-engineering-indonesia') {
-      return {
-        items: mockMediumArticles,
-      };
-    }
-    throw new Error('Invalid RSS URL');
-  },
+import {
+  extractExcerpt,
+  extractFirstImage,
+  fetchArticles,
+  fetchSourceArticles,
+  getArticleSlug,
+  getArticlesPageUrl,
+  getTagSlug,
+  groupArticlesByTag,
+  mapFeedItem,
+  mergeArticles,
+  normalizeArticleUrl,
+  toArticle,
+  type FeedParser,
+} from '../../src/lib/medium';
+import { formatDate } from '../../src/lib/i18n';
+import type { ArticleSource } from '../../src/lib/article-sources';
+import { rssFeed, startHttpStandIn, type HttpStandIn } from '../utils/http-server';
+
+// Answers with the fixture items whatever the feed contains
+const fixtureParser: FeedParser = {
+  parseString: async () => ({ items: mockMediumArticles }),
 };
 
-// Helper functions (mirroring src/lib/medium.ts)
-function extractExcerpt(content: string, maxLength: number = 200): string {
-  const plainText = content.replace(/<[^>]*>/g, ' ');
-  const cleanText = plainText.replace(/\s+/g, ' ').trim();
-  if (cleanText.length <= maxLength) return cleanText;
-  return cleanText.substring(0, maxLength).trim() + '...';
-}
-
-function extractFirstImage(content: string): string | undefined {
-  const imgMatch = content.match(/<img[^>]+src="([^"]+)"/);
-  return imgMatch ? imgMatch[1] : undefined;
-}
-
-function formatDate(dateString: string): string {
-  const date = new Date(dateString);
-  return date.toLocaleDateString('id-ID', {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
+describe('Medium RSS Integration', () => {
+  let standIn: HttpStandIn;
+  let cacheDir: string;
+  let medium: ArticleSource;
+  const fast = { timeoutMs: 200, retries: 0, backoffMs: 5 };
+
+  beforeAll(async () => {
+    standIn = await startHttpStandIn();
+    medium = {
+      id: 'medium-dei',
+      label: 'DEI on Medium',
+      url: standIn.url('/feed/data-engineering-indonesia'),
+      defaultAuthor: 'DEI Team',
+    };
   });
-}
 
-describe('Medium RSS Integration', () => {
-  const MEDIUM_RSS_URL = 'https://medium.com/feed/data-engineering-indonesia';
+  afterAll(async () => {
+    await standIn.close();
+  });
+
+  beforeEach(async () => {
+    standIn.routes.clear();
+    standIn.routes.set('/feed/data-engineering-indonesia', {
+      body: rssFeed([
+        {
+          title: 'Data Engineering: &quot;Best Practices&quot; &amp; Tips &lt;2026&gt;',
+          link: 'https://medium.com/data-engineering-indonesia/best-practices',
+          pubDate: 'Thu, 15 Jan 2026 00:00:00 GMT',
+        },
+      ]),
+    });
+    cacheDir = await mkdtemp(path.join(os.tmpdir(), 'dei-medium-'));
+  });
+
+  afterEach(async () => {
+    await rm(cacheDir, { recursive: true, force: true });
+  });
 
   describe('RSS Feed Fetching', () => {
-    it('should successfully fetch Medium RSS feed', async () => {
+    it('should parse the Medium feed into articles', async () => {
       // Act
-      const feed = await mockRssParser.parseURL(MEDIUM_RSS_URL);
+      const { articles, record } = await fetchSourceArticles(medium, { ...fast, cacheDir });
 
       // Assert
-      expect(feed).toBeDefined();
-      expect(feed.items).toBeDefined();
-      expect(Array.isArray(feed.items)).toBe(true);
-      expect(feed.items.length).toBeGreaterThan(0);
+      expect(articles).toEqual([
+        {
+          title: 'Data Engineering: "Best Practices" & Tips <2026>',
+          link: 'https://medium.com/data-engineering-indonesia/best-practices',
+          pubDate: 'Thu, 15 Jan 2026 00:00:00 GMT',
+          'dc:creator': 'Stand-in',
+          categories: ['testing'],
+          'content:encoded': '',
+          source: 'DEI on Medium',
+          sourceId: 'medium-dei',
+          slug: 'best-practices',
+        },
+      ]);
+      expect(record).toMatchObject({ source: 'DEI on Medium', origin: 'live', count: 1 });
     });
 
-    it('should handle RSS fetch errors gracefully', async () => {
-      // Arrange
-      const invalidUrl = 'https://invalid-url.com/feed';
+    it('should map items from an injected parser', async () => {
+      // Act
+      const { articles } = await fetchSourceArticles(medium, {
+        ...fast,
+        cacheDir,
+        parser: fixtureParser,
+      });
 
-      // Act & Assert
-      try {
-        await mockRssParser.parseURL(invalidUrl);
-        expect(false).toBe(true); // Should not reach here
-      } catch (error) {
-        expect(error).toBeDefined();
-      }
+      // Assert
+      expect(articles.map(article => article.title)).toEqual(
+        mockMediumArticles.map(item => item.title)
+      );
+      expect(articles[0]).toMatchObject({
+        'dc:creator': 'John Doe',
+        categories: ['data-engineering', 'beginner'],
+        source: 'DEI on Medium',
+      });
     });
 
-    it('should return empty array when RSS feed is empty', async () => {
+    it('should return no articles for an empty feed', async () => {
       // Arrange
-      const emptyParser = {
-        parseURL: async () => ({ items: [] }),
-      };
+      standIn.routes.set('/feed/data-engineering-indonesia', { body: rssFeed([]) });
 
       // Act
-      const feed = await emptyParser.parseURL(MEDIUM_RSS_URL);
+      const { articles, record } = await fetchSourceArticles(medium, { ...fast, cacheDir });
 
       // Assert
-      expect(feed.items).toEqual([]);
+      expect(articles).toEqual([]);
+      expect(record).toMatchObject({ origin: 'live', count: 0 });
     });
-  });
 
-  describe('Article Data Parsing', () => {
-    it('should parse article title correctly', async () => {
+    it('should report a feed the parser rejects', async () => {
       // Arrange
-      const feed = await mockRssParser.parseURL(MEDIUM_RSS_URL);
-      const article = feed.items[0];
+      standIn.routes.set('/feed/data-engineering-indonesia', { body: '<html>Not a feed' });
 
-      // Assert
-      expect(article.title).toBeDefined();
-      expect(typeof article.title).toBe('string');
-      expect(article.title.length).toBeGreaterThan(0);
-    });
-
-    it('should parse article link correctly', async () => {
-      // Arrange
-      const feed = await mockRssParser.parseURL(MEDIUM_RSS_URL);
-      const article = feed.items[0];
+      // Act
+      const { articles, record } = await fetchSourceArticles(medium, { ...fast, cacheDir });
 
       // Assert
-      expect(article.link).toBeDefined();
-      expect(article.link).toContain('medium.com');
+      expect(articles).toEqual([]);
+      expect(record.origin).toBe('none');
+      expect(record.error).toBeDefined();
     });
 
-    it('should parse article author correctly', async () => {
+    it('should report errors thrown by an injected parser', async () => {
       // Arrange
-      const feed = await mockRssParser.parseURL(MEDIUM_RSS_URL);
-      const article = feed.items[0];
-
-      // Assert
-      expect(article['dc:creator']).toBeDefined();
-      expect(typeof article['dc:creator']).toBe('string');
-    });
+      const parser: FeedParser = {
+        parseString: async () => {
+          throw new Error('Unexpected close tag');
+        },
+      };
 
-    it('should parse publication date correctly', async () => {
-      // Arrange
-      const feed = await mockRssParser.parseURL(MEDIUM_RSS_URL);
-      const article = feed.items[0];
+      // Act
+      const { record } = await fetchSourceArticles(medium, { ...fast, cacheDir, parser });
 
       // Assert
-      expect(article.pubDate).toBeDefined();
-      const date = new Date(article.pubDate);
-      expect(date instanceof Date).toBe(true);
-      expect(!isNaN(date.getTime())).toBe(true);
+      expect(record).toMatchObject({ origin: 'none', error: 'Unexpected close tag' });
     });
 
-    it('should parse article categories/tags', async () => {
+    it('should keep the other feeds when one fails', async () => {
       // Arrange
-      const feed = await mockRssParser.parseURL(MEDIUM_RSS_URL);
-      const article = feed.items[0];
+      const broken = { id: 'broken', label: 'Broken', url: standIn.url('/missing') };
+
+      // Act
+      const articles = await fetchArticles([broken, medium], {
+        ...fast,
+        cacheDir,
+        parser: fixtureParser,
+      });
 
       // Assert
-      expect(article.categories).toBeDefined();
-      expect(Array.isArray(article.categories)).toBe(true);
-      expect(article.categories.length).toBeGreaterThan(0);
+      expect(articles.map(article => article.pubDate)).toEqual([
+        '2026-01-15T00:00:00Z',
+        '2026-01-10T00:00:00Z',
+      ]);
     });
   });
 
@@ -138,15 +170,13 @@ describe('Medium RSS Integration', () => {
       // Arrange
       const htmlContent =
         '<p>This is a long article with <strong>HTML</strong> tags that should be stripped.</p>';
-      const maxLength = 50;
 
       // Act
-      const excerpt = extractExcerpt(htmlContent, maxLength);
+      const excerpt = extractExcerpt(htmlContent, 50);
 
       // Assert
-      expect(excerpt).not.toContain('<p>');
-      expect(excerpt).not.toContain('<strong>');
-      expect(excerpt.length).toBeLessThanOrEqual(maxLength + 3); // +3 for "..."
+      expect(excerpt).toBe('This is a long article with HTML tags that should...');
+      expect(extractExcerpt('<p>Short  and\n sweet</p>')).toBe('Short and sweet');
     });
 
     it('should extract first image from content', () => {
@@ -162,161 +192,289 @@ describe('Medium RSS Integration', () => {
     });
 
     it('should return undefined when no image in content', () => {
-      // Arrange
-      const htmlContent = '<p>No images here</p>';
+      expect(extractFirstImage('<p>No images here</p>')).toBeUndefined();
+    });
+
+    it('should format publication dates for the Indonesian locale', () => {
+      expect(formatDate(mockMediumArticles[0].pubDate, 'id')).toBe('15 Januari 2026');
+    });
+  });
 
+  describe('Data Flow', () => {
+    it('should transform feed items to the Article type', () => {
       // Act
-      const imageUrl = extractFirstImage(htmlContent);
+      const article = toArticle(mapFeedItem(mockMediumArticles[0], medium));
 
       // Assert
-      expect(imageUrl).toBeUndefined();
+      expect(article).toMatchObject({
+        title: 'Getting Started with Data Engineering',
+        url: 'https://medium.com/data-engineering-indonesia/getting-started',
+        author: 'John Doe',
+        excerpt: 'Article content here...',
+        categories: ['data-engineering', 'beginner'],
+        thumbnail: 'https://example.com/image.jpg',
+        source: 'DEI on Medium',
+      });
+      expect(article.publishedAt).toEqual(new Date('2026-01-15T00:00:00Z'));
+    });
+
+    it('should handle articles without categories gracefully', () => {
+      const article = mapFeedItem({ title: 'No categories', categories: undefined }, medium);
+
+      expect(toArticle(article).categories).toEqual([]);
     });
+  });
+});
+
+describe('Article Slugs', () => {
+  it('should derive the slug from the last path segment of the Medium link', () => {
+    // Arrange
+    const link =
+      'https://medium.com/data-engineering-indonesia/getting-started-with-dbt-1a2b3c4d5e6f?source=rss----abc---4';
+
+    // Act & Assert
+    expect(getArticleSlug(link)).toBe('getting-started-with-dbt-1a2b3c4d5e6f');
+  });
+
+  it('should be stable for the same link', () => {
+    // Arrange
+    const link = mockMediumArticles[0].link;
 
-    it('should format date correctly for Indonesian locale', () => {
+    // Act & Assert
+    expect(getArticleSlug(link)).toBe(getArticleSlug(link));
+    expect(getArticleSlug(link)).toBe('getting-started');
+  });
+
+  it('should ignore trailing slashes and normalise unsafe characters', () => {
+    // Act & Assert
+    expect(getArticleSlug('https://medium.com/@someone/Data_Lake%20Tips/')).toBe(
+      'data-lake-20tips'
+    );
+  });
+});
+
+describe('Multiple Feed Aggregation', () => {
+  const mediumSource: ArticleSource = {
+    id: 'medium-dei',
+    label: 'DEI on Medium',
+    url: 'https://medium.com/feed/data-engineering-indonesia',
+    defaultAuthor: 'DEI Team',
+  };
+  const substackSource: ArticleSource = {
+    id: 'jane-substack',
+    label: 'Jane on Substack',
+    url: 'https://jane.substack.com/feed',
+  };
+
+  describe('Feed Item Mapping', () => {
+    it('should record the source label on each article', () => {
+      // Act
+      const article = mapFeedItem(mockMediumArticles[0], mediumSource);
+
+      // Assert
+      expect(article.source).toBe('DEI on Medium');
+      expect(article['dc:creator']).toBe('John Doe');
+    });
+
+    it('should map Atom entries with author and content fields', () => {
       // Arrange
-      const dateString = '2026-01-15T00:00:00Z';
+      const atomItem = {
+        title: 'Streaming with Flink',
+        link: 'https://jane.substack.com/p/streaming-with-flink',
+        pubDate: '2026-02-01T00:00:00.000Z',
+        author: 'Jane',
+        content: '<p>Flink content</p>',
+      };
 
       // Act
-      const formatted = formatDate(dateString);
+      const article = mapFeedItem(atomItem, substackSource);
 
       // Assert
-      expect(formatted).toContain('2026');
-      expect(typeof formatted).toBe('string');
+      expect(article['dc:creator']).toBe('Jane');
+      expect(article['content:encoded']).toBe('<p>Flink content</p>');
+      expect(article.categories).toEqual([]);
+    });
+
+    it('should fall back to the source default author or label', () => {
+      // Act & Assert
+      expect(mapFeedItem({ title: 'x', link: 'y' }, mediumSource)['dc:creator']).toBe('DEI Team');
+      expect(mapFeedItem({ title: 'x', link: 'y' }, substackSource)['dc:creator']).toBe(
+        'Jane on Substack'
+      );
+    });
+
+    it('should flatten RSS categories with attributes', () => {
+      // Arrange
+      const item = {
+        title: 'x',
+        link: 'y',
+        categories: ['dbt', { _: 'airflow', $: { domain: 'x' } }],
+      };
+
+      // Act & Assert
+      expect(mapFeedItem(item, substackSource).categories).toEqual(['dbt', 'airflow']);
     });
   });
 
-  describe('Article Limit and Pagination', () => {
-    it('should fetch specified number of articles', async () => {
+  describe('Merging', () => {
+    const article = (overrides: Record<string, string>) =>
+      mapFeedItem({ title: 'Untitled', link: 'https://example.com/a', ...overrides }, mediumSource);
+
+    it('should sort merged articles newest first', () => {
       // Arrange
-      const limit = 5;
+      const older = article({
+        title: 'Older',
+        link: 'https://a.test/older',
+        pubDate: '2026-01-01',
+      });
+      const newer = article({
+        title: 'Newer',
+        link: 'https://b.test/newer',
+        pubDate: '2026-02-01',
+      });
 
       // Act
-      const feed = await mockRssParser.parseURL(MEDIUM_RSS_URL);
-      const articles = feed.items.slice(0, limit);
+      const merged = mergeArticles([[older], [newer]]);
 
       // Assert
-      expect(articles.length).toBeLessThanOrEqual(limit);
+      expect(merged.map(a => a.title)).toEqual(['Newer', 'Older']);
     });
 
-    it('should handle articles without categories gracefully', async () => {
+    it('should deduplicate by canonical URL ignoring query strings and trailing slashes', () => {
       // Arrange
-      const feedWithNoCategories = {
-        parseURL: async () => ({
-          items: [
-            {
-              title: 'Article without categories',
-              categories: undefined,
-            },
-          ],
-        }),
-      };
+      const first = article({ title: 'One', link: 'https://medium.com/dei/post-1?source=rss' });
+      const copy = article({ title: 'One (copy)', link: 'https://www.medium.com/dei/post-1/' });
 
       // Act
-      const feed = await feedWithNoCategories.parseURL(MEDIUM_RSS_URL);
+      const merged = mergeArticles([[first], [copy]]);
 
       // Assert
-      expect(feed.items[0].categories).toBeUndefined();
+      expect(merged).toHaveLength(1);
+      expect(merged[0].title).toBe('One');
     });
-  });
 
-  describe('Error Handling and Edge Cases', () => {
-    it('should handle network timeout gracefully', async () => {
+    it('should deduplicate cross-posted articles by title', () => {
       // Arrange
-      const timeoutParser = {
-        parseURL: async () => {
-          throw new Error('Request timeout');
-        },
-      };
+      const medium = article({ title: 'dbt Tips & Tricks', link: 'https://medium.com/dei/dbt' });
+      const crossPost = mapFeedItem(
+        { title: 'DBT Tips & Tricks!', link: 'https://jane.substack.com/p/dbt' },
+        substackSource
+      );
+      const differentPost = mapFeedItem(
+        { title: 'More dbt tips', link: 'https://jane.substack.com/p/more-dbt' },
+        substackSource
+      );
 
-      // Act & Assert
-      try {
-        await timeoutParser.parseURL(MEDIUM_RSS_URL);
-        expect(false).toBe(true);
-      } catch (error: any) {
-        expect(error.message).toContain('timeout');
-      }
+      // Act
+      const merged = mergeArticles([[medium], [crossPost, differentPost]]);
+
+      // Assert
+      expect(merged.map(a => a.link)).toEqual([
+        'https://medium.com/dei/dbt',
+        'https://jane.substack.com/p/more-dbt',
+      ]);
+      expect(merged[0].source).toBe('DEI on Medium');
     });
 
-    it('should handle malformed RSS gracefully', async () => {
+    it('should give articles from different sources with the same slug their own page', () => {
       // Arrange
-      const malformedParser = {
-        parseURL: async () => ({
-          items: null, // Malformed response
-        }),
-      };
+      const hashnode: ArticleSource = { id: 'team-hashnode', label: 'Team', url: 'x' };
+      const ours = mapFeedItem(
+        { title: 'Weekly update (Jane)', link: 'https://jane.substack.com/p/weekly-update' },
+        substackSource
+      );
+      const theirs = mapFeedItem(
+        { title: 'Weekly update (John)', link: 'https://john.substack.com/p/weekly-update' },
+        substackSource
+      );
+      const third = mapFeedItem(
+        { title: 'Weekly update (Team)', link: 'https://team.hashnode.dev/weekly-update' },
+        hashnode
+      );
 
       // Act
-      const feed = await malformedParser.parseURL(MEDIUM_RSS_URL);
+      const merged = mergeArticles([[ours, theirs], [third]]);
 
-      // Assert - Should handle gracefully
-      expect(feed.items).toBeNull();
+      // Assert
+      expect(merged.map(a => a.slug)).toEqual([
+        'weekly-update',
+        'weekly-update-jane-substack',
+        'weekly-update-team-hashnode',
+      ]);
     });
 
-    it('should handle special characters in article titles', async () => {
+    it('should drop items without a link to a page', () => {
       // Arrange
-      const specialCharArticle = {
-        parseURL: async () => ({
-          items: [
-            {
-              title: 'Data Engineering: "Best Practices" & Tips <2026>',
-              link: 'https://medium.com/test',
-              'dc:creator': 'Test Author',
-              pubDate: '2026-01-01',
-              categories: ['test'],
-            },
-          ],
-        }),
-      };
+      const items = [
+        mapFeedItem({ title: 'No link' }, mediumSource),
+        mapFeedItem({ title: 'Site root', link: 'https://jane.substack.com/' }, substackSource),
+        mapFeedItem({ title: 'Kept', link: 'https://medium.com/dei/kept' }, mediumSource),
+      ];
 
       // Act
-      const feed = await specialCharArticle.parseURL(MEDIUM_RSS_URL);
+      const merged = mergeArticles([items]);
 
       // Assert
-      expect(feed.items[0].title).toContain('"Best Practices"');
-      expect(feed.items[0].title).toContain('<2026>');
+      expect(merged.map(a => a.slug)).toEqual(['kept']);
+    });
+
+    it('should normalise article URLs', () => {
+      // Act & Assert
+      expect(normalizeArticleUrl('https://WWW.Medium.com/dei/post/?x=1#top')).toBe(
+        'medium.com/dei/post'
+      );
     });
   });
 });
 
-describe('Medium Integration Data Flow', () => {
-  it('should transform RSS data to Article type correctly', async () => {
+describe('Article Archive and Tags', () => {
+  const source: ArticleSource = {
+    id: 'test',
+    label: 'Test Feed',
+    url: 'https://test.example/feed',
+  };
+  const article = (title: string, categories: string[]) =>
+    mapFeedItem({ title, link: `https://test.example/${title}`, categories }, source);
+
+  it('should slugify tag names', () => {
+    // Act & Assert
+    expect(getTagSlug('Apache Airflow')).toBe('apache-airflow');
+    expect(getTagSlug('  Data Engineering! ')).toBe('data-engineering');
+    expect(getTagSlug('big-data')).toBe('big-data');
+  });
+
+  it('should group articles by tag with counts', () => {
     // Arrange
-    const feed = await mockRssParser.parseURL('https://medium.com/feed/data-engineering-indonesia');
-    const rssItem = feed.items[0];
-
-    // Act - Transform to Article type
-    const article = {
-      title: rssItem.title,
-      url: rssItem.link,
-      publishedAt: new Date(rssItem.pubDate),
-      author: rssItem['dc:creator'],
-      excerpt: extractExcerpt(rssItem['content:encoded'] || '', 150),
-      categories: rssItem.categories || [],
-      thumbnail: extractFirstImage(rssItem['content:encoded'] || ''),
-    };
+    const articles = [
+      article('a', ['airflow', 'dbt']),
+      article('b', ['Airflow']),
+      article('c', ['dbt']),
+      article('d', ['airflow']),
+    ];
+
+    // Act
+    const tags = groupArticlesByTag(articles);
 
     // Assert
-    expect(article).toHaveProperty('title');
-    expect(article).toHaveProperty('url');
-    expect(article).toHaveProperty('publishedAt');
-    expect(article).toHaveProperty('author');
-    expect(article).toHaveProperty('excerpt');
-    expect(article).toHaveProperty('categories');
-    expect(article).toHaveProperty('thumbnail');
+    expect(tags.map(tag => [tag.slug, tag.articles.length])).toEqual([
+      ['airflow', 3],
+      ['dbt', 2],
+    ]);
+    expect(tags[0].name).toBe('airflow');
   });
 
-  it('should cache articles for performance', async () => {
-    // This would test caching logic in production
-    // For now, just verify the concept
-    const _cacheKey = 'medium_articles_cache';
-    const cachedData = null; // Simulate empty cache
+  it('should not count an article twice for duplicate categories', () => {
+    // Act
+    const tags = groupArticlesByTag([article('a', ['etl', 'ETL'])]);
 
-    // First fetch - should hit API
-    if (!cachedData) {
-      const feed = await mockRssParser.parseURL(
-        'https://medium.com/feed/data-engineering-indonesia'
-      );
-      expect(feed.items).toBeDefined();
-    }
+    // Assert
+    expect(tags).toHaveLength(1);
+    expect(tags[0].articles).toHaveLength(1);
+  });
+
+  it('should serve the first archive page from /articles', () => {
+    // Act & Assert
+    expect(getArticlesPageUrl(1)).toBe('/articles');
+    expect(getArticlesPageUrl(2)).toBe('/articles/page/2');
   });
 });
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  getArticleOgContent,
+  getEventOgContent,
+  getOgImagePath,
+  getPageOgContent,
+  getSeriesOgContent,
+  OG_IMAGE_HEIGHT,
+  OG_IMAGE_WIDTH,
+  OG_PAGES,
+} from '../../src/lib/og-image';
+import { renderOgImage } from '../../src/lib/og-image-render';
+import type { EventSeriesWithSessions } from '../../src/lib/events';
+import type { Event } from '../../src/types';
+import { mockMediumArticles } from '../fixtures/data';
+
+const event: Event = {
+  id: 'event-1',
+  title: 'Building Data Pipelines with Apache Airflow',
+  slug: 'data-pipelines-airflow',
+  description: 'Hands-on workshop on scheduling pipelines.',
+  excerpt: 'Learn to schedule data pipelines.',
+  startDate: new Date('2026-04-20T06:00:00Z'),
+  timezone: 'Asia/Jakarta',
+  locationType: 'hybrid',
+  city: 'Jakarta',
+  venue: 'Tech Hub Jakarta',
+  coverImage: '',
+  category: 'Workshop',
+  tags: ['airflow'],
+  status: 'upcoming',
+  registeredCount: 0,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  publishedAt: new Date('2026-01-01T00:00:00Z'),
+  isFeatured: false,
+};
+
+const article = { ...mockMediumArticles[0], source: 'Medium' };
+
+const series: EventSeriesWithSessions = {
+  ...event,
+  id: 'series-1',
+  title: 'Data Talk',
+  slug: 'data-talk',
+  category: 'Meetup',
+  locationType: 'virtual',
+  recurrence: 'FREQ=MONTHLY;BYDAY=3TH;COUNT=2',
+  registrationUrl: 'https://forms.example.com/data-talk',
+  overrides: [],
+  sessions: [event, { ...event, id: 'event-2', slug: 'data-talk-2026-05-21' }],
+};
+
+describe('Open Graph Images', () => {
+  describe('Image Paths', () => {
+    it('should give top-level pages their own image', () => {
+      expect(getOgImagePath('/')).toBe('/og/index.png');
+      expect(getOgImagePath('/id/')).toBe('/og/id/index.png');
+      expect(getOgImagePath('/events/')).toBe('/og/events.png');
+      expect(getOgImagePath('/id/playground')).toBe('/og/id/playground.png');
+    });
+
+    it('should give each event and article its own image', () => {
+      expect(getOgImagePath('/events/data-pipelines-airflow')).toBe(
+        '/og/events/data-pipelines-airflow.png'
+      );
+      expect(getOgImagePath('/id/articles/getting-started/')).toBe(
+        '/og/id/articles/getting-started.png'
+      );
+    });
+
+    it('should give each event series its own image', () => {
+      expect(getOgImagePath('/events/series/data-talk')).toBe('/og/events/series/data-talk.png');
+      expect(getOgImagePath('/id/events/series/data-talk/')).toBe(
+        '/og/id/events/series/data-talk.png'
+      );
+    });
+
+    it('should fall back to the localized home image', () => {
+      expect(getOgImagePath('/articles/page/2')).toBe('/og/index.png');
+      expect(getOgImagePath('/id/articles/tags/etl')).toBe('/og/id/index.png');
+      expect(getOgImagePath('/admin/events/new')).toBe('/og/index.png');
+    });
+  });
+
+  describe('Card Content', () => {
+    it('should show the event category, date and location', () => {
+      expect(getEventOgContent(event, 'en')).toEqual({
+        title: event.title,
+        label: 'Workshop',
+        details: ['April 20, 2026', 'Hybrid, Jakarta'],
+      });
+      expect(getEventOgContent({ ...event, locationType: 'virtual' }, 'id').details).toEqual([
+        '20 April 2026',
+        'Daring',
+      ]);
+    });
+
+    it('should show the series category, session count and location', () => {
+      expect(getSeriesOgContent(series, 'en')).toEqual({
+        title: 'Data Talk',
+        label: 'Meetup',
+        details: ['2 sessions', 'Online'],
+      });
+      expect(getSeriesOgContent({ ...series, sessions: [event] }, 'id').details).toEqual([
+        '1 sesi',
+        'Daring',
+      ]);
+    });
+
+    it('should show the article topic, date and author', () => {
+      expect(getArticleOgContent(article, 'en')).toEqual({
+        title: 'Getting Started with Data Engineering',
+        label: 'data-engineering',
+        details: ['January 15, 2026', 'John Doe'],
+      });
+      expect(getArticleOgContent({ ...article, categories: [] }, 'id').label).toBe('Artikel');
+    });
+
+    it('should have a title for every top-level page', () => {
+      OG_PAGES.forEach(page => {
+        // A missing key would show up as the key itself
+        expect(getPageOgContent(page, 'en', 'DEI').title).not.toMatch(/^[a-z]+\.[a-zA-Z]+$/);
+        expect(getPageOgContent(page, 'id', 'DEI').title).not.toMatch(/^[a-z]+\.[a-zA-Z]+$/);
+      });
+      expect(getPageOgContent('/about', 'id', 'DEI').title).toBe('Tentang DEI');
+    });
+  });
+
+  describe('Rendering', () => {
+    it('should render a PNG at the Open Graph size', async () => {
+      // Act
+      const png = await renderOgImage(getEventOgContent(event, 'en'), {
+        name: 'DEI',
+        url: 'https://dataengineering.id',
+      });
+      const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+
+      // Assert: PNG signature, then the IHDR chunk with width and height
+      expect([...png.subarray(0, 8)]).toEqual([137, 80, 78, 71, 13, 10, 26, 10]);
+      expect(view.getUint32(16)).toBe(OG_IMAGE_WIDTH);
+      expect(view.getUint32(20)).toBe(OG_IMAGE_HEIGHT);
+    });
+  });
+});
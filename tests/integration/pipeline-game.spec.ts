@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  addHighScore,
+  BLOCKS,
+  checkPipeline,
+  HIGH_SCORES_KEY,
+  LEVELS,
+  MAX_HIGH_SCORES,
+  readHighScores,
+  scoreLevel,
+  type HighScoreStorage,
+  type PipelineLevel,
+} from '../../src/lib/pipeline-game';
+
+const level: PipelineLevel = {
+  id: 'test',
+  title: { en: 'Test', id: 'Uji' },
+  goal: { en: 'Test', id: 'Uji' },
+  slots: 4,
+  requires: ['postgres', 'clean', 'warehouse'],
+  palette: ['postgres', 'clean', 'join', 'warehouse'],
+  bonusSeconds: 30,
+};
+
+function createStorage(initial: Record<string, string> = {}): HighScoreStorage & {
+  data: Record<string, string>;
+} {
+  const data = { ...initial };
+  return {
+    data,
+    getItem: key => data[key] ?? null,
+    setItem: (key, value) => {
+      data[key] = value;
+    },
+  };
+}
+
+describe('Pipeline Game', () => {
+  describe('Rules', () => {
+    it('should accept a pipeline that meets the level', () => {
+      expect(checkPipeline(level, ['postgres', 'clean', 'join', 'warehouse'])).toBeNull();
+      // The spare transform slot takes any transform
+      expect(checkPipeline(level, ['postgres', 'join', 'clean', 'warehouse'])).toBeNull();
+    });
+
+    it('should point at the first empty slot', () => {
+      expect(checkPipeline(level, ['postgres', null, 'join', 'warehouse'])).toEqual({
+        code: 'incomplete',
+        slot: 1,
+      });
+    });
+
+    it('should enforce source, transforms, sink', () => {
+      expect(checkPipeline(level, ['clean', 'postgres', 'join', 'warehouse'])).toEqual({
+        code: 'source_first',
+        slot: 0,
+      });
+      expect(checkPipeline(level, ['postgres', 'clean', 'warehouse', 'join'])).toEqual({
+        code: 'sink_last',
+        slot: 3,
+      });
+      expect(checkPipeline(level, ['postgres', 'api', 'clean', 'warehouse'])).toEqual({
+        code: 'transform_middle',
+        slot: 1,
+      });
+    });
+
+    it('should require the level blocks in order', () => {
+      expect(checkPipeline(level, ['postgres', 'join', 'aggregate', 'warehouse'])).toEqual({
+        code: 'missing',
+        block: 'clean',
+      });
+
+      const ordered = { ...level, requires: ['postgres', 'clean', 'join', 'warehouse'] };
+      expect(checkPipeline(ordered, ['postgres', 'join', 'clean', 'warehouse'])).toEqual({
+        code: 'order',
+        slot: 1,
+        block: 'join',
+      });
+    });
+
+    it('should make every level solvable from its own tray', () => {
+      LEVELS.forEach(entry => {
+        // Arrange: required blocks in order, spare slots filled with unused transforms
+        const spare = entry.palette.filter(
+          id => BLOCKS[id].kind === 'transform' && !entry.requires.includes(id)
+        );
+        const placed = [...entry.requires];
+        while (placed.length < entry.slots) placed.splice(1, 0, spare.shift()!);
+
+        // Assert
+        expect(entry.requires.every(id => entry.palette.includes(id))).toBe(true);
+        expect(checkPipeline(entry, placed)).toBeNull();
+      });
+    });
+  });
+
+  describe('Scoring', () => {
+    it('should reward speed and few moves', () => {
+      expect(scoreLevel(level, { seconds: 10, moves: 4, failedRuns: 0 })).toBe(700);
+      expect(scoreLevel(level, { seconds: 45, moves: 4, failedRuns: 0 })).toBe(500);
+      expect(scoreLevel(level, { seconds: 45, moves: 6, failedRuns: 1 })).toBe(410);
+    });
+
+    it('should never award less than the minimum', () => {
+      expect(scoreLevel(level, { seconds: 300, moves: 60, failedRuns: 20 })).toBe(100);
+    });
+  });
+
+  describe('High Scores', () => {
+    it('should keep the best scores in localStorage', () => {
+      // Arrange
+      const storage = createStorage();
+      [300, 900, 500, 700, 100, 800].forEach(score =>
+        addHighScore(storage, { score, levels: 4, date: '2026-10-19T10:00:00.000Z' })
+      );
+
+      // Act
+      const scores = readHighScores(storage);
+
+      // Assert
+      expect(scores.map(entry => entry.score)).toEqual([900, 800, 700, 500, 300]);
+      expect(JSON.parse(storage.data[HIGH_SCORES_KEY])).toHaveLength(MAX_HIGH_SCORES);
+    });
+
+    it('should report where a new score ranks', () => {
+      const storage = createStorage();
+      const date = '2026-10-19T10:00:00.000Z';
+      addHighScore(storage, { score: 500, levels: 4, date });
+
+      expect(addHighScore(storage, { score: 800, levels: 4, date }).rank).toBe(0);
+      expect(addHighScore(storage, { score: 600, levels: 4, date }).rank).toBe(1);
+    });
+
+    it('should ignore corrupt or unavailable storage', () => {
+      // Arrange
+      const corrupt = createStorage({ [HIGH_SCORES_KEY]: '{not json' });
+      const mixed = createStorage({
+        [HIGH_SCORES_KEY]: JSON.stringify([{ score: 'lots' }, { score: 10, levels: 1, date: 'x' }]),
+      });
+      const blocked: HighScoreStorage = {
+        getItem: () => {
+          throw new Error('SecurityError');
+        },
+        setItem: () => {
+          throw new Error('QuotaExceededError');
+        },
+      };
+
+      // Act & Assert
+      expect(readHighScores(corrupt)).toEqual([]);
+      expect(readHighScores(mixed)).toEqual([{ score: 10, levels: 1, date: 'x' }]);
+      expect(addHighScore(blocked, { score: 10, levels: 1, date: 'x' }).rank).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import initSqlJs, { type SqlJsStatic } from 'sql.js';
+import {
+  compareResults,
+  EXERCISE_TOPICS,
+  findLinkedExercises,
+  runQuery,
+  type QueryResult,
+} from '../../src/lib/playground';
+import { DATASETS, EXERCISES, getDataset } from '../../src/lib/playground-exercises';
+
+const expected: QueryResult = {
+  columns: ['title', 'registrations'],
+  rows: [
+    ['Airflow 101', 4],
+    ['dbt Meetup', 3],
+    ['Lakehouse Deep Dive', 0],
+  ],
+};
+
+describe('SQL Playground', () => {
+  let SQL: SqlJsStatic;
+
+  beforeAll(async () => {
+    SQL = await initSqlJs();
+  });
+
+  function execute(datasetId: string, sql: string): QueryResult | null {
+    const db = new SQL.Database();
+    try {
+      db.run(getDataset(datasetId)!.setup);
+      return runQuery(db, sql);
+    } finally {
+      db.close();
+    }
+  }
+
+  describe('Answer Checking', () => {
+    it('should accept the expected output under different column names', () => {
+      const actual = { columns: ['event', 'total'], rows: expected.rows };
+      expect(compareResults(actual, expected, { ordered: true })).toEqual({ correct: true });
+    });
+
+    it('should only require the row order when the exercise asks for it', () => {
+      // Arrange
+      const shuffled = { ...expected, rows: [...expected.rows].reverse() };
+
+      // Act & Assert
+      expect(compareResults(shuffled, expected)).toEqual({ correct: true });
+      expect(compareResults(shuffled, expected, { ordered: true })).toEqual({
+        correct: false,
+        reason: 'order',
+      });
+    });
+
+    it('should report the shape of a wrong result', () => {
+      expect(compareResults({ columns: ['title'], rows: [['x']] }, expected)).toEqual({
+        correct: false,
+        reason: 'columns',
+        expected: 2,
+        actual: 1,
+      });
+      expect(compareResults({ ...expected, rows: expected.rows.slice(1) }, expected)).toEqual({
+        correct: false,
+        reason: 'row_count',
+        expected: 3,
+        actual: 2,
+      });
+      expect(compareResults(null, expected)).toEqual({ correct: false, reason: 'no_result' });
+    });
+
+    it('should tell values apart but tolerate floating point noise', () => {
+      const rates = (value: number | null): QueryResult => ({ columns: ['rate'], rows: [[value]] });
+
+      expect(compareResults(rates(0.1 + 0.2), rates(0.3)).correct).toBe(true);
+      expect(compareResults(rates(0.67), rates(2 / 3)).correct).toBe(false);
+      expect(compareResults(rates(null), rates(0))).toEqual({ correct: false, reason: 'values' });
+      expect(compareResults({ columns: ['id'], rows: [['4']] }, rates(4)).correct).toBe(false);
+    });
+  });
+
+  describe('Query Execution', () => {
+    it('should return the last result set of a script', () => {
+      const result = execute('community', 'SELECT 1; SELECT name FROM members WHERE id = 1;');
+
+      expect(result).toEqual({ columns: ['name'], rows: [['Ayu']] });
+    });
+
+    it('should return null when nothing is selected', () => {
+      expect(execute('community', "UPDATE members SET city = 'Bogor'")).toBeNull();
+    });
+
+    it('should surface SQL errors', () => {
+      expect(() => execute('community', 'SELECT * FROM missing_table')).toThrow(/no such table/);
+    });
+  });
+
+  describe('Exercises', () => {
+    it('should cover every topic with unique ids and known datasets', () => {
+      const ids = EXERCISES.map(exercise => exercise.id);
+
+      expect(new Set(ids).size).toBe(ids.length);
+      EXERCISE_TOPICS.forEach(topic => {
+        expect(EXERCISES.some(exercise => exercise.topic === topic)).toBe(true);
+      });
+      EXERCISES.forEach(exercise => expect(getDataset(exercise.dataset)).toBeDefined());
+    });
+
+    it('should run every dataset starter query', () => {
+      DATASETS.forEach(dataset => {
+        expect(execute(dataset.id, dataset.starter)?.rows.length).toBeGreaterThan(0);
+      });
+    });
+
+    EXERCISES.forEach(exercise => {
+      it(`should accept the solution but not the starter for ${exercise.id}`, () => {
+        // Arrange
+        const solution = execute(exercise.dataset, exercise.solution)!;
+
+        // Act
+        const starter = execute(exercise.dataset, exercise.starter);
+
+        // Assert
+        expect(solution.rows.length).toBeGreaterThan(0);
+        expect(compareResults(solution, solution, { ordered: exercise.ordered })).toEqual({
+          correct: true,
+        });
+        expect(compareResults(starter, solution, { ordered: exercise.ordered }).correct).toBe(
+          false
+        );
+      });
+    });
+  });
+
+  describe('Event Links', () => {
+    it('should find exercises linked from an event description', () => {
+      // Arrange
+      const description = [
+        'Bring a laptop! Warm up with https://dataengineering.id/playground/running-rows-loaded',
+        'and /id/playground/attendance-rate before the session.',
+        'Ignore /playground/not-an-exercise.',
+      ].join('\n');
+
+      // Act
+      const linked = findLinkedExercises(description, EXERCISES);
+
+      // Assert
+      expect(linked.map(exercise => exercise.id)).toEqual([
+        'running-rows-loaded',
+        'attendance-rate',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import type { APIContext } from 'astro';
+import {
+  getAvailabilityMessage,
+  getEventAvailability,
+  getRegisterPath,
+  parseRegistrationError,
+  usesNativeRegistration,
+  validateRegistrationInput,
+} from '../../src/lib/registrations';
+import { readRequestBody } from '../../src/lib/api';
+import { cancelRegistration, createRegistration } from '../../src/lib/supabase';
+import { POST as register } from '../../src/pages/api/events/[slug]/register';
+import { GET as availability } from '../../src/pages/api/events/availability.json';
+import { POST as cancel } from '../../src/pages/api/registrations/cancel';
+import { createSupabaseStandIn } from '../utils/supabase-stand-in';
+
+function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Request {
+  return new Request(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+function context(request: Request, params: Record<string, string> = {}): APIContext {
+  return { request, params } as unknown as APIContext;
+}
+
+describe('Event Registration', () => {
+  describe('Input Validation', () => {
+    it('should trim the name and normalize the email', () => {
+      // Act
+      const result = validateRegistrationInput({ name: '  Budi  ', email: ' Budi@Example.COM ' });
+
+      // Assert
+      expect(result).toEqual({ valid: true, input: { name: 'Budi', email: 'budi@example.com' } });
+    });
+
+    it('should report every invalid field', () => {
+      // Act
+      const result = validateRegistrationInput({ name: ' ', email: 'not-an-email' });
+
+      // Assert
+      expect(result.valid).toBe(false);
+      if (!result.valid) {
+        expect(result.errors.map(error => error.field)).toEqual(['name', 'email']);
+      }
+    });
+
+    it('should reject overly long names and non-object bodies', () => {
+      expect(validateRegistrationInput({ name: 'x'.repeat(101), email: 'a@b.co' }).valid).toBe(
+        false
+      );
+      expect(validateRegistrationInput(null).valid).toBe(false);
+      expect(validateRegistrationInput({ name: 42, email: ['a@b.co'] }).valid).toBe(false);
+    });
+  });
+
+  describe('Availability', () => {
+    const event = {
+      status: 'upcoming' as const,
+      maxAttendees: 50,
+      registeredCount: 23,
+      waitlistCount: 0,
+    };
+
+    it('should count remaining seats', () => {
+      const availability = getEventAvailability(event);
+
+      expect(availability.seatsRemaining).toBe(27);
+      expect(availability.isFull).toBe(false);
+      expect(availability.isOpen).toBe(true);
+      expect(getAvailabilityMessage(availability)).toEqual({ key: 'seatsLeft', count: 27 });
+    });
+
+    it('should offer the waitlist once the event is full', () => {
+      // Act
+      const availability = getEventAvailability({
+        ...event,
+        registeredCount: 50,
+        waitlistCount: 4,
+      });
+
+      // Assert
+      expect(availability.seatsRemaining).toBe(0);
+      expect(availability.isFull).toBe(true);
+      expect(getAvailabilityMessage(availability)).toEqual({ key: 'waitlist', count: 4 });
+    });
+
+    it('should never be full without an attendee limit', () => {
+      // Act
+      const availability = getEventAvailability({ ...event, maxAttendees: undefined });
+
+      // Assert
+      expect(availability.seatsRemaining).toBeUndefined();
+      expect(availability.isFull).toBe(false);
+      expect(getAvailabilityMessage(availability)).toEqual({ key: 'registered', count: 23 });
+    });
+
+    it('should close registration for completed and cancelled events', () => {
+      expect(getEventAvailability({ ...event, status: 'completed' }).isOpen).toBe(false);
+      expect(getEventAvailability({ ...event, status: 'cancelled' }).isOpen).toBe(false);
+    });
+
+    it('should keep external registration links for events hosted elsewhere', () => {
+      expect(usesNativeRegistration({ registrationUrl: 'https://forms.example.com' })).toBe(false);
+      expect(usesNativeRegistration({ registrationUrl: undefined })).toBe(true);
+    });
+  });
+
+  describe('Database Errors', () => {
+    it('should map raised messages to error codes', () => {
+      expect(parseRegistrationError('already_registered')).toBe('already_registered');
+      expect(parseRegistrationError('P0001: registration_closed')).toBe('registration_closed');
+      expect(parseRegistrationError('connection reset')).toBe('failed');
+      expect(parseRegistrationError(undefined)).toBe('failed');
+    });
+
+    it('should register through the database function', async () => {
+      // Arrange
+      const standIn = createSupabaseStandIn();
+      standIn.functions.set('register_for_event', args => ({
+        id: 'registration-1',
+        status: args.p_email === 'late@example.com' ? 'waitlisted' : 'registered',
+        cancel_token: 'token-1',
+        waitlist_position: args.p_email === 'late@example.com' ? 1 : null,
+      }));
+      const input = { name: 'Budi', email: 'late@example.com' };
+
+      // Act
+      const outcome = await createRegistration('event-1', input, standIn.client);
+
+      // Assert
+      expect(outcome).toEqual({
+        ok: true,
+        value: {
+          id: 'registration-1',
+          status: 'waitlisted',
+          cancelToken: 'token-1',
+          waitlistPosition: 1,
+        },
+      });
+    });
+
+    it('should return the code the database function raised', async () => {
+      // Arrange
+      const standIn = createSupabaseStandIn();
+      standIn.functions.set('cancel_registration', () => {
+        throw new Error('registration_not_found');
+      });
+
+      // Act & Assert
+      expect(await cancelRegistration('token-1', standIn.client)).toEqual({
+        ok: false,
+        error: 'registration_not_found',
+      });
+      expect(await cancelRegistration('token-1', null)).toEqual({
+        ok: false,
+        error: 'not_configured',
+      });
+    });
+  });
+
+  describe('Request Bodies', () => {
+    it('should read JSON and form posts', async () => {
+      // Arrange
+      const form = new Request('http://localhost/api', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'name=Sari&email=sari%40example.com',
+      });
+
+      // Act & Assert
+      expect(await readRequestBody(postJson('http://localhost/api', { name: 'Sari' }))).toEqual({
+        name: 'Sari',
+      });
+      expect(await readRequestBody(form)).toEqual({ name: 'Sari', email: 'sari@example.com' });
+    });
+
+    it('should treat malformed or unsupported bodies as empty', async () => {
+      // Arrange
+      const malformed = new Request('http://localhost/api', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{"name":',
+      });
+      const text = new Request('http://localhost/api', { method: 'POST', body: 'hello' });
+
+      // Act & Assert
+      expect(await readRequestBody(malformed)).toEqual({});
+      expect(await readRequestBody(text)).toEqual({});
+      expect(await readRequestBody(postJson('http://localhost/api', ['a']))).toEqual({});
+    });
+  });
+
+  describe('API Routes', () => {
+    const slug = 'data-pipelines-airflow';
+    const url = `http://localhost${getRegisterPath(slug)}`;
+
+    it('should reject invalid submissions with field errors', async () => {
+      // Act
+      const response = await register(context(postJson(url, { name: '' }), { slug }));
+
+      // Assert
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.error).toBe('invalid_input');
+      expect(body.errors).toHaveLength(2);
+    });
+
+    it('should return 404 for unknown events', async () => {
+      // Act
+      const response = await register(
+        context(postJson(url, { name: 'Sari', email: 'sari@example.com' }), { slug: 'missing' })
+      );
+
+      // Assert
+      expect(response.status).toBe(404);
+    });
+
+    it('should refuse sign-ups once an event has ended', async () => {
+      // Act
+      const response = await register(
+        context(postJson(url, { name: 'Sari', email: 'sari@example.com' }), { slug })
+      );
+
+      // Assert
+      expect(response.status).toBe(409);
+      expect(await response.json()).toEqual({ error: 'registration_closed' });
+      expect(response.headers.get('Cache-Control')).toBe('no-store');
+    });
+
+    it('should require a well-formed cancel token', async () => {
+      // Arrange
+      const cancelUrl = 'http://localhost/api/registrations/cancel';
+
+      // Act
+      const invalid = await cancel(context(postJson(cancelUrl, { token: 'guess' })));
+      const valid = await cancel(context(postJson(cancelUrl, { token: crypto.randomUUID() })));
+
+      // Assert
+      expect(invalid.status).toBe(400);
+      expect(valid.status).toBe(503);
+      expect(await valid.json()).toEqual({ error: 'not_configured' });
+    });
+
+    it('should rate limit repeated sign-ups from one visitor', async () => {
+      // Arrange
+      const headers = { 'X-Forwarded-For': '203.0.113.40' };
+      const submit = () => register(context(postJson(url, { name: '' }, headers), { slug }));
+
+      // Act
+      for (let i = 0; i < 10; i++) await submit();
+      const limited = await submit();
+
+      // Assert
+      expect(limited.status).toBe(429);
+      expect(await limited.json()).toEqual({ error: 'rate_limited' });
+      expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+    });
+
+    describe('when the data source is down', () => {
+      let previous: string | undefined;
+
+      beforeEach(() => {
+        previous = process.env.DATA_SOURCE_POLICY;
+        process.env.DATA_SOURCE_POLICY = 'strict';
+      });
+
+      afterEach(() => {
+        if (previous === undefined) delete process.env.DATA_SOURCE_POLICY;
+        else process.env.DATA_SOURCE_POLICY = previous;
+      });
+
+      it('should answer with a JSON 503 instead of an error page', async () => {
+        // Arrange
+        const headers = { 'X-Forwarded-For': '203.0.113.41' };
+        const body = { name: 'Sari', email: 'sari@example.com' };
+
+        // Act
+        const signUp = await register(context(postJson(url, body, headers), { slug }));
+        const counts = await availability(
+          context(new Request('http://localhost/api/events/availability.json'))
+        );
+
+        // Assert
+        for (const response of [signUp, counts]) {
+          expect(response.status).toBe(503);
+          expect(await response.json()).toEqual({ error: 'unavailable' });
+          expect(response.headers.get('Content-Type')).toContain('application/json');
+        }
+      });
+    });
+  });
+});
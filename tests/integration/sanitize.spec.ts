@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'bun:test';
+import { sanitizeHtml } from '../../src/lib/sanitize';
+
+describe('HTML Sanitization', () => {
+  it('should keep allowed formatting tags', () => {
+    // Arrange
+    const html = '<h3>Title</h3><p>Some <strong>bold</strong> and <em>italic</em> text</p>';
+
+    // Act & Assert
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+
+  it('should remove script and style blocks including their content', () => {
+    // Arrange
+    const html = '<p>Hi</p><script>alert("x")</script><style>p{color:red}</style>';
+
+    // Act & Assert
+    expect(sanitizeHtml(html)).toBe('<p>Hi</p>');
+  });
+
+  it('should strip event handler and unknown attributes', () => {
+    // Arrange
+    const html = '<p onclick="steal()" class="x" style="color:red">Text</p>';
+
+    // Act & Assert
+    expect(sanitizeHtml(html)).toBe('<p>Text</p>');
+  });
+
+  it('should drop javascript: URLs', () => {
+    // Arrange
+    const html = '<a href="javascript:alert(1)">click</a>';
+
+    // Act & Assert
+    expect(sanitizeHtml(html)).toBe('<a>click</a>');
+  });
+
+  it('should open external links in a new tab', () => {
+    // Act
+    const result = sanitizeHtml('<a href="https://example.com">link</a>');
+
+    // Assert
+    expect(result).toContain('href="https://example.com"');
+    expect(result).toContain('rel="noopener noreferrer nofollow"');
+  });
+
+  it('should unwrap disallowed tags but keep their text', () => {
+    // Act & Assert
+    expect(sanitizeHtml('<div><span>kept</span></div>')).toBe('kept');
+  });
+
+  it('should keep images and lazy-load them', () => {
+    // Act
+    const result = sanitizeHtml(
+      '<img src="https://cdn-images-1.medium.com/a.png" alt="Diagram" />'
+    );
+
+    // Assert
+    expect(result).toBe(
+      '<img src="https://cdn-images-1.medium.com/a.png" alt="Diagram" loading="lazy">'
+    );
+  });
+
+  it('should remove the Medium tracking pixel', () => {
+    // Arrange
+    const html =
+      '<p>End</p><img src="https://medium.com/_/stat?event=post.clientViewed" width="1" height="1" alt="">';
+
+    // Act & Assert
+    expect(sanitizeHtml(html)).toBe('<p>End</p>');
+  });
+
+  it('should remove iframes and HTML comments', () => {
+    // Act & Assert
+    expect(sanitizeHtml('<!-- x --><iframe src="https://evil.test"></iframe><p>ok</p>')).toBe(
+      '<p>ok</p>'
+    );
+  });
+
+  it('should escape quotes inside attribute values', () => {
+    // Act
+    const result = sanitizeHtml(`<img src="https://a.test/x.png" alt='say "hi"'>`);
+
+    // Assert
+    expect(result).toContain('alt="say &quot;hi&quot;"');
+  });
+
+  it('should escape unterminated tags instead of letting the page close them', () => {
+    // Act & Assert
+    expect(sanitizeHtml('<p>Hi</p><img src=x onerror=alert(1) ')).toBe(
+      '<p>Hi</p>&lt;img src=x onerror=alert(1) '
+    );
+    expect(sanitizeHtml('<svg/onload=alert(1) ')).toBe('&lt;svg/onload=alert(1) ');
+    expect(sanitizeHtml('<p>ok</p><script src=https://evil.test/x.js')).toBe(
+      '<p>ok</p>&lt;script src=https://evil.test/x.js'
+    );
+  });
+
+  it('should escape a stray < in text and unclosed comments', () => {
+    // Act & Assert
+    expect(sanitizeHtml('<p>1 < 2</p>')).toBe('<p>1 &lt; 2</p>');
+    expect(sanitizeHtml('<p>ok</p><!-- <img src=x onerror=alert(1)>')).toBe('<p>ok</p>&lt;!-- ');
+  });
+});
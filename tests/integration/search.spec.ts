@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  countByType,
+  editDistance,
+  matchToken,
+  searchDocuments,
+  tokenize,
+  type SearchDocument,
+} from '../../src/lib/search';
+import { articleToSearchDocument, buildSearchIndex } from '../../src/lib/search-index';
+import type { Event } from '../../src/types';
+import { mockMediumArticles } from '../fixtures/data';
+
+const airflowEvent: Event = {
+  id: 'event-1',
+  title: 'Building Data Pipelines with Apache Airflow',
+  slug: 'data-pipelines-airflow',
+  description: 'Hands-on workshop on scheduling pipelines.',
+  excerpt: 'Learn to schedule data pipelines.',
+  startDate: new Date('2026-04-20T06:00:00Z'),
+  timezone: 'Asia/Jakarta',
+  locationType: 'hybrid',
+  city: 'Jakarta',
+  venue: 'Tech Hub Jakarta',
+  coverImage: '',
+  category: 'Workshop',
+  tags: ['airflow', 'orchestration'],
+  status: 'upcoming',
+  registeredCount: 0,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  publishedAt: new Date('2026-01-01T00:00:00Z'),
+  isFeatured: false,
+};
+
+const dbtEvent: Event = {
+  ...airflowEvent,
+  id: 'event-2',
+  title: 'dbt Meetup Bandung',
+  slug: 'dbt-meetup-bandung',
+  description: 'Analytics engineering with dbt. We also touch on Airflow.',
+  excerpt: 'Modelling data with dbt.',
+  startDate: new Date('2025-11-01T06:00:00Z'),
+  city: 'Bandung',
+  venue: undefined,
+  category: 'Meetup',
+  tags: ['dbt'],
+};
+
+const articles = mockMediumArticles.map(article => ({ ...article, source: 'Medium' }));
+const index: SearchDocument[] = buildSearchIndex([airflowEvent, dbtEvent], articles);
+
+describe('Site Search', () => {
+  describe('Index', () => {
+    it('should index events and articles with local URLs', () => {
+      expect(index.map(document => document.url)).toEqual([
+        '/events/data-pipelines-airflow',
+        '/events/dbt-meetup-bandung',
+        '/articles/getting-started',
+        '/articles/advanced-etl',
+      ]);
+    });
+
+    it('should index event tags, category and city as keywords', () => {
+      expect(index[0].keywords).toEqual([
+        'Workshop',
+        'airflow',
+        'orchestration',
+        'Jakarta',
+        'Tech Hub Jakarta',
+      ]);
+    });
+
+    it('should index article authors, categories and plain text', () => {
+      // Act
+      const document = articleToSearchDocument(articles[0]);
+
+      // Assert
+      expect(document.type).toBe('article');
+      expect(document.keywords).toEqual(['data-engineering', 'beginner', 'John Doe']);
+      expect(document.text).toBe('Article content here...');
+      expect(document.date).toBe('2026-01-15T00:00:00.000Z');
+    });
+  });
+
+  describe('Matching', () => {
+    it('should tokenize case- and accent-insensitively', () => {
+      expect(tokenize('Café-Analytics: dbt & Airflow!')).toEqual([
+        'cafe',
+        'analytics',
+        'dbt',
+        'airflow',
+      ]);
+    });
+
+    it('should compute a bounded edit distance', () => {
+      expect(editDistance('airflow', 'airflw', 2)).toBe(1);
+      expect(editDistance('kafka', 'kafak', 1)).toBe(1);
+      expect(editDistance('kafka', 'kfkaa', 1)).toBe(2);
+      expect(editDistance('spark', 'postgresql', 2)).toBe(3);
+    });
+
+    it('should prefer exact matches over prefixes over typos', () => {
+      expect(matchToken('airflow', 'airflow')).toBe(1);
+      expect(matchToken('air', 'airflow')).toBe(0.8);
+      expect(matchToken('airflwo', 'airflow')).toBeGreaterThan(0);
+      expect(matchToken('airflwo', 'airflow')).toBeLessThan(0.8);
+    });
+
+    it('should not apply typo tolerance to short words', () => {
+      expect(matchToken('dbx', 'dbt')).toBe(0);
+    });
+  });
+
+  describe('Ranking', () => {
+    it('should rank title matches above body matches', () => {
+      // Act
+      const results = searchDocuments(index, 'airflow');
+
+      // Assert
+      expect(results.map(result => result.document.id)).toEqual(['event:event-1', 'event:event-2']);
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+    });
+
+    it('should tolerate typos in the query', () => {
+      const results = searchDocuments(index, 'aiflow');
+      expect(results[0].document.id).toBe('event:event-1');
+    });
+
+    it('should require every query word to match', () => {
+      expect(searchDocuments(index, 'airflow bandung')).toHaveLength(1);
+      expect(searchDocuments(index, 'airflow surabaya')).toHaveLength(0);
+    });
+
+    it('should filter by type and count results per facet', () => {
+      // Act
+      const all = searchDocuments(index, 'data');
+      const articlesOnly = searchDocuments(index, 'data', { type: 'article' });
+
+      // Assert
+      expect(countByType(all)).toEqual({ event: 2, article: 1 });
+      expect(articlesOnly.map(result => result.document.type)).toEqual(['article']);
+    });
+
+    it('should return nothing for an empty query', () => {
+      expect(searchDocuments(index, '   ')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  computeSiteStats,
+  defaultSiteConfig,
+  getSiteConfig,
+  getSiteStats,
+  parseEnvOverrides,
+  parseSiteSettings,
+  resolveSiteConfig,
+} from '../../src/lib/site-config';
+import type { Event } from '../../src/types';
+
+const baseEvent: Event = {
+  id: 'event-1',
+  title: 'DEI Meetup',
+  slug: 'dei-meetup',
+  description: 'Monthly meetup.',
+  excerpt: 'Monthly meetup.',
+  startDate: new Date('2026-03-15T02:00:00Z'),
+  timezone: 'Asia/Jakarta',
+  locationType: 'virtual',
+  coverImage: '',
+  category: 'Meetup',
+  tags: [],
+  status: 'upcoming',
+  registeredCount: 0,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  publishedAt: new Date('2026-01-01T00:00:00Z'),
+  isFeatured: false,
+};
+
+describe('Site Configuration', () => {
+  describe('Overrides', () => {
+    it('should read snake_case keys from site settings', () => {
+      // Act
+      const overrides = parseSiteSettings({
+        telegram_url: 'https://t.me/dei',
+        member_count: '2500',
+        unknown_key: 'ignored',
+      });
+
+      // Assert
+      expect(overrides).toEqual({ telegramUrl: 'https://t.me/dei', memberCount: 2500 });
+    });
+
+    it('should read SITE_* environment variables', () => {
+      // Act
+      const overrides = parseEnvOverrides({
+        SITE_NAME: 'DEI Staging',
+        SITE_FOUNDED_YEAR: '2020',
+        SITE_EMAIL: '  ',
+        PUBLIC_SUPABASE_URL: 'https://example.supabase.co',
+      });
+
+      // Assert
+      expect(overrides).toEqual({ name: 'DEI Staging', foundedYear: 2020 });
+    });
+
+    it('should ignore numeric settings that are not whole numbers', () => {
+      expect(parseSiteSettings({ member_count: 'lots', founded_year: '-1' })).toEqual({});
+    });
+
+    it('should let later overrides win over earlier ones and the defaults', () => {
+      // Act
+      const config = resolveSiteConfig(
+        { name: 'From Supabase', email: 'team@example.com' },
+        { name: 'From Env' }
+      );
+
+      // Assert
+      expect(config.name).toBe('From Env');
+      expect(config.email).toBe('team@example.com');
+      expect(config.linkedinUrl).toBe(defaultSiteConfig.linkedinUrl);
+    });
+
+    it('should not mutate the defaults', () => {
+      resolveSiteConfig({ name: 'Changed' });
+      expect(defaultSiteConfig.name).toBe('Data Engineering Indonesia');
+    });
+  });
+
+  describe('Stats', () => {
+    it('should count non-cancelled events and years since founding', () => {
+      // Arrange
+      const events = [
+        baseEvent,
+        { ...baseEvent, id: 'event-2', status: 'completed' as const },
+        { ...baseEvent, id: 'event-3', status: 'cancelled' as const },
+      ];
+
+      // Act
+      const stats = computeSiteStats(defaultSiteConfig, events, new Date('2026-06-01T00:00:00Z'));
+
+      // Assert
+      expect(stats).toEqual({ memberCount: 2000, eventsCount: 2, yearsActive: 7 });
+    });
+  });
+
+  describe('Loading', () => {
+    it('should load the config once and reuse it', async () => {
+      // Act
+      const first = await getSiteConfig();
+      const second = await getSiteConfig();
+
+      // Assert
+      expect(second).toBe(first);
+      expect(first.url).toBe(defaultSiteConfig.url);
+    });
+
+    it('should compute stats from the events data source', async () => {
+      const stats = await getSiteStats();
+      expect(stats.eventsCount).toBeGreaterThan(0);
+      expect(stats.memberCount).toBe((await getSiteConfig()).memberCount);
+    });
+  });
+});
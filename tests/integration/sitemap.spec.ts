@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  buildSitemapEntries,
+  generateRobotsTxt,
+  generateSitemapIndex,
+  generateUrlset,
+  splitSitemapEntries,
+  type SitemapEntry,
+} from '../../src/lib/sitemap';
+import { resolveDeployment } from '../../src/lib/deployment';
+import { EXERCISES } from '../../src/lib/playground-exercises';
+import type { Event } from '../../src/types';
+import { mockEvents, mockMediumArticles } from '../fixtures/data';
+
+const siteUrl = 'https://dataengineering.id';
+
+const events = mockEvents.map(
+  event =>
+    ({
+      ...event,
+      startDate: new Date(event.startDate),
+      endDate: new Date(event.endDate),
+      createdAt: new Date(event.createdAt),
+      updatedAt: new Date(event.updatedAt),
+      publishedAt: new Date(event.createdAt),
+    }) as Event
+);
+const articles = mockMediumArticles.map(article => ({ ...article, source: 'Medium' }));
+
+function findEntry(entries: SitemapEntry[], path: string): SitemapEntry | undefined {
+  return entries.find(entry => entry.path === path);
+}
+
+describe('Sitemap', () => {
+  describe('Entries', () => {
+    it('should cover static pages, events, articles and archives', () => {
+      // Act
+      const paths = buildSitemapEntries(events, articles).map(entry => entry.path);
+
+      // Assert
+      expect(paths).toContain('/');
+      expect(paths).toContain('/about');
+      expect(paths).toContain('/playground');
+      expect(paths).toContain(`/playground/${EXERCISES[0].id}`);
+      expect(paths).toContain('/events/intro-to-data-engineering');
+      expect(paths).toContain('/articles');
+      expect(paths).toContain('/articles/getting-started');
+      expect(paths).toContain('/articles/tags/etl');
+      expect(paths.some(path => path.startsWith('/admin'))).toBe(false);
+      expect(new Set(paths).size).toBe(paths.length);
+    });
+
+    it('should take lastmod from updatedAt and pubDate', () => {
+      const entries = buildSitemapEntries(events, articles);
+
+      expect(findEntry(entries, '/events/advanced-airflow-pipelines')?.lastmod).toEqual(
+        new Date('2026-01-15T00:00:00Z')
+      );
+      expect(findEntry(entries, '/articles/advanced-etl')?.lastmod).toEqual(
+        new Date('2026-01-10T00:00:00Z')
+      );
+      // Listings change with their newest item
+      expect(findEntry(entries, '/events')?.lastmod).toEqual(new Date('2026-01-15T00:00:00Z'));
+      expect(findEntry(entries, '/articles')?.lastmod).toEqual(new Date('2026-01-15T00:00:00Z'));
+      expect(findEntry(entries, '/about')?.lastmod).toBeUndefined();
+    });
+
+    it('should leave out lastmod for articles without a valid date', () => {
+      const entries = buildSitemapEntries([], [{ ...articles[0], pubDate: '' }]);
+
+      expect(findEntry(entries, '/articles/getting-started')?.lastmod).toBeUndefined();
+      expect(findEntry(entries, '/')?.lastmod).toBeUndefined();
+    });
+
+    it('should add archive pages beyond the first', () => {
+      // Arrange: 20 articles make three pages of nine
+      const many = Array.from({ length: 20 }, (_, index) => ({
+        ...articles[0],
+        link: `https://medium.com/data-engineering-indonesia/post-${index}`,
+      }));
+
+      // Act
+      const paths = buildSitemapEntries([], many).map(entry => entry.path);
+
+      // Assert
+      expect(paths).toContain('/articles/page/2');
+      expect(paths).toContain('/articles/page/3');
+      expect(paths).not.toContain('/articles/page/4');
+      expect(paths).not.toContain('/articles/page/1');
+    });
+  });
+
+  describe('XML', () => {
+    it('should list each page per locale with hreflang alternates', () => {
+      // Act
+      const xml = generateUrlset(
+        [{ path: '/events/airflow', lastmod: new Date('2026-01-15T00:00:00Z') }],
+        siteUrl
+      );
+
+      // Assert
+      expect(xml).toContain('<loc>https://dataengineering.id/events/airflow/</loc>');
+      expect(xml).toContain('<loc>https://dataengineering.id/id/events/airflow/</loc>');
+      expect(xml).toContain('<lastmod>2026-01-15T00:00:00.000Z</lastmod>');
+      expect(xml).toContain(
+        '<xhtml:link rel="alternate" hreflang="id-ID" href="https://dataengineering.id/id/events/airflow/" />'
+      );
+      expect(xml.match(/<url>/g)).toHaveLength(2);
+    });
+
+    it('should escape URLs', () => {
+      const xml = generateUrlset([{ path: '/articles/tags/r&d' }], siteUrl);
+
+      expect(xml).toContain('/articles/tags/r&amp;d/');
+      expect(xml).not.toContain('r&d');
+    });
+
+    it('should split large sitemaps and index the parts', () => {
+      // Arrange
+      const entries = Array.from({ length: 5 }, (_, index) => ({
+        path: `/events/event-${index}`,
+        lastmod: new Date(Date.UTC(2026, 0, index + 1)),
+      }));
+
+      // Act: four URLs per part is two pages in both locales
+      const parts = splitSitemapEntries(entries, 4);
+      const index = generateSitemapIndex(parts, siteUrl);
+
+      // Assert
+      expect(parts.map(part => part.length)).toEqual([2, 2, 1]);
+      expect(index).toContain('<loc>https://dataengineering.id/sitemap-1.xml</loc>');
+      expect(index).toContain('<loc>https://dataengineering.id/sitemap-3.xml</loc>');
+      expect(index).toContain('<lastmod>2026-01-05T00:00:00.000Z</lastmod>');
+      expect(splitSitemapEntries([])).toEqual([[]]);
+    });
+  });
+
+  describe('robots.txt', () => {
+    it('should point crawlers at the sitemap in production', () => {
+      const robots = generateRobotsTxt(true, siteUrl);
+
+      expect(robots).toContain('Sitemap: https://dataengineering.id/sitemap.xml');
+      expect(robots).toContain('Disallow: /admin/');
+    });
+
+    it('should block everything on staging', () => {
+      expect(generateRobotsTxt(false, 'https://preview.example.com')).toBe(
+        'User-agent: *\nDisallow: /\n'
+      );
+    });
+  });
+
+  describe('Deployments', () => {
+    it('should use the production address for local builds', () => {
+      expect(resolveDeployment({})).toEqual({
+        platform: 'local',
+        production: true,
+        siteUrl: 'https://dataengineering.id',
+        serverRoutes: true,
+      });
+      expect(resolveDeployment({ SITE_URL: 'https://dei.example.com' }).siteUrl).toBe(
+        'https://dei.example.com'
+      );
+    });
+
+    it('should use the Vercel preview URL outside production', () => {
+      const env = {
+        VERCEL: '1',
+        VERCEL_URL: 'dei-abc123.vercel.app',
+        VERCEL_BRANCH_URL: 'dei-git-feature.vercel.app',
+        VERCEL_PROJECT_PRODUCTION_URL: 'dataengineering.id',
+      };
+
+      expect(resolveDeployment({ ...env, VERCEL_ENV: 'preview' })).toEqual({
+        platform: 'vercel',
+        production: false,
+        siteUrl: 'https://dei-git-feature.vercel.app',
+        serverRoutes: true,
+      });
+      expect(resolveDeployment({ ...env, VERCEL_ENV: 'production' }).siteUrl).toBe(
+        'https://dataengineering.id'
+      );
+    });
+
+    it('should treat Cloudflare Pages branches other than production as staging', () => {
+      const env = { CF_PAGES: '1', CF_PAGES_URL: 'https://feature.dei.pages.dev' };
+
+      expect(resolveDeployment({ ...env, CF_PAGES_BRANCH: 'feature' })).toEqual({
+        platform: 'cloudflare',
+        production: false,
+        siteUrl: 'https://feature.dei.pages.dev',
+        serverRoutes: false,
+      });
+      expect(resolveDeployment({ ...env, CF_PAGES_BRANCH: 'main' }).production).toBe(true);
+      expect(
+        resolveDeployment({ ...env, CF_PAGES_BRANCH: 'live', PRODUCTION_BRANCH: 'live' }).siteUrl
+      ).toBe('https://dataengineering.id');
+    });
+
+    it('should only serve API routes where the platform runs them', () => {
+      expect(resolveDeployment({ VERCEL: '1' }).serverRoutes).toBe(true);
+      expect(resolveDeployment({ CF_PAGES: '1' }).serverRoutes).toBe(false);
+      expect(resolveDeployment({ SERVER_ROUTES: 'false' }).serverRoutes).toBe(false);
+      expect(resolveDeployment({ CF_PAGES: '1', SERVER_ROUTES: 'true' }).serverRoutes).toBe(true);
+    });
+
+    it('should let DEPLOY_ENV override the platform', () => {
+      expect(resolveDeployment({ DEPLOY_ENV: 'staging' }).production).toBe(false);
+      expect(
+        resolveDeployment({ VERCEL: '1', VERCEL_ENV: 'preview', DEPLOY_ENV: 'production' })
+          .production
+      ).toBe(true);
+    });
+  });
+});
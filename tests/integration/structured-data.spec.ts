@@ -0,0 +1,264 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  articleToJsonLd,
+  eventToJsonLd,
+  organizationToJsonLd,
+  serializeJsonLd,
+  type JsonLd,
+} from '../../src/lib/structured-data';
+import { toArticle } from '../../src/lib/medium';
+import { getPageUrls } from '../../src/lib/page-urls';
+import { defaultSiteConfig } from '../../src/lib/site-config';
+import type { Event } from '../../src/types';
+import { mockMediumArticles } from '../fixtures/data';
+
+const event: Event = {
+  id: 'event-1',
+  title: 'Building Data Pipelines with Apache Airflow',
+  slug: 'data-pipelines-airflow',
+  description: 'Hands-on workshop on scheduling pipelines.',
+  excerpt: 'Learn to schedule data pipelines.',
+  startDate: new Date('2026-04-20T06:00:00Z'),
+  endDate: new Date('2026-04-20T09:00:00Z'),
+  timezone: 'Asia/Jakarta',
+  locationType: 'physical',
+  venue: 'Tech Hub Jakarta',
+  address: 'Jl. Sudirman No. 1',
+  city: 'Jakarta',
+  coverImage: '/images/events/airflow.jpg',
+  category: 'Workshop',
+  tags: ['airflow'],
+  status: 'upcoming',
+  maxAttendees: 50,
+  registeredCount: 12,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  publishedAt: new Date('2026-01-02T00:00:00Z'),
+  isFeatured: false,
+};
+
+const page = {
+  url: 'https://dataengineering.id/events/data-pipelines-airflow',
+  image: 'https://dataengineering.id/og/events/data-pipelines-airflow.png',
+};
+
+// Round-trip through JSON, as search engines see it: undefined fields disappear
+function parsed(data: JsonLd): JsonLd {
+  return JSON.parse(serializeJsonLd(data));
+}
+
+describe('Structured Data', () => {
+  describe('Organization', () => {
+    it('should describe the community from the site config', () => {
+      expect(parsed(organizationToJsonLd(defaultSiteConfig))).toEqual({
+        '@context': 'https://schema.org',
+        '@type': 'Organization',
+        '@id': 'https://dataengineering.id/#organization',
+        name: 'Data Engineering Indonesia',
+        url: 'https://dataengineering.id/',
+        logo: 'https://dataengineering.id/images/logo.png',
+        description: defaultSiteConfig.description,
+        email: defaultSiteConfig.email,
+        foundingDate: '2019',
+        sameAs: [defaultSiteConfig.linkedinUrl, defaultSiteConfig.mediumUrl],
+      });
+    });
+  });
+
+  describe('Event', () => {
+    it('should describe an in-person event with native registration', () => {
+      // Act
+      const data = parsed(eventToJsonLd(event, page, defaultSiteConfig));
+
+      // Assert
+      expect(data).toMatchObject({
+        '@context': 'https://schema.org',
+        '@type': 'Event',
+        name: event.title,
+        url: page.url,
+        image: ['https://dataengineering.id/images/events/airflow.jpg'],
+        startDate: '2026-04-20T06:00:00.000Z',
+        endDate: '2026-04-20T09:00:00.000Z',
+        eventStatus: 'https://schema.org/EventScheduled',
+        eventAttendanceMode: 'https://schema.org/OfflineEventAttendanceMode',
+        location: {
+          '@type': 'Place',
+          name: 'Tech Hub Jakarta',
+          address: {
+            '@type': 'PostalAddress',
+            streetAddress: 'Jl. Sudirman No. 1',
+            addressLocality: 'Jakarta',
+            addressCountry: 'ID',
+          },
+        },
+        organizer: { '@type': 'Organization', name: 'Data Engineering Indonesia' },
+        offers: {
+          '@type': 'Offer',
+          url: page.url,
+          availability: 'https://schema.org/InStock',
+          validFrom: '2026-01-02T00:00:00.000Z',
+        },
+        maximumAttendeeCapacity: 50,
+        remainingAttendeeCapacity: 38,
+      });
+    });
+
+    it('should map the location type to attendance mode and location', () => {
+      const virtual = parsed(
+        eventToJsonLd(
+          { ...event, locationType: 'virtual', virtualLink: 'https://zoom.us/j/1' },
+          page,
+          defaultSiteConfig
+        )
+      );
+      const hybrid = parsed(
+        eventToJsonLd({ ...event, locationType: 'hybrid' }, page, defaultSiteConfig)
+      );
+
+      expect(virtual.eventAttendanceMode).toBe('https://schema.org/OnlineEventAttendanceMode');
+      expect(virtual.location).toEqual({ '@type': 'VirtualLocation', url: 'https://zoom.us/j/1' });
+      expect(hybrid.eventAttendanceMode).toBe('https://schema.org/MixedEventAttendanceMode');
+      expect(hybrid.location).toMatchObject([
+        { '@type': 'Place' },
+        // No meeting link yet: the event page stands in
+        { '@type': 'VirtualLocation', url: page.url },
+      ]);
+    });
+
+    it('should point offers at an external registration page', () => {
+      // Arrange: counts are not tracked for sign-ups elsewhere
+      const external = {
+        ...event,
+        registrationUrl: 'https://forms.gle/example',
+        registeredCount: 50,
+      };
+
+      // Act
+      const data = parsed(eventToJsonLd(external, page, defaultSiteConfig));
+
+      // Assert
+      expect(data.offers).toMatchObject({
+        url: 'https://forms.gle/example',
+        availability: 'https://schema.org/InStock',
+      });
+      expect(data.maximumAttendeeCapacity).toBe(50);
+      expect(data).not.toHaveProperty('remainingAttendeeCapacity');
+    });
+
+    it('should mark full and cancelled events', () => {
+      const full = parsed(
+        eventToJsonLd({ ...event, registeredCount: 50 }, page, defaultSiteConfig)
+      );
+      const cancelled = parsed(
+        eventToJsonLd({ ...event, status: 'cancelled' }, page, defaultSiteConfig)
+      );
+
+      expect(full.offers).toMatchObject({ availability: 'https://schema.org/SoldOut' });
+      expect(full.remainingAttendeeCapacity).toBe(0);
+      expect(cancelled.eventStatus).toBe('https://schema.org/EventCancelled');
+    });
+
+    it('should fall back to the share image and leave out unknown capacity', () => {
+      const data = parsed(
+        eventToJsonLd(
+          { ...event, coverImage: '', maxAttendees: undefined, endDate: undefined },
+          page,
+          defaultSiteConfig
+        )
+      );
+
+      expect(data.image).toEqual([page.image]);
+      expect(data).not.toHaveProperty('endDate');
+      expect(data).not.toHaveProperty('maximumAttendeeCapacity');
+      expect(data).not.toHaveProperty('remainingAttendeeCapacity');
+    });
+  });
+
+  describe('Article', () => {
+    const article = toArticle({ ...mockMediumArticles[0], source: 'Medium' });
+    const articlePage = {
+      url: 'https://dataengineering.id/articles/getting-started',
+      image: 'https://dataengineering.id/og/articles/getting-started.png',
+    };
+
+    it('should describe an article from the feed', () => {
+      expect(parsed(articleToJsonLd(article, articlePage, defaultSiteConfig))).toEqual({
+        '@context': 'https://schema.org',
+        '@type': 'Article',
+        headline: 'Getting Started with Data Engineering',
+        description: article.excerpt,
+        url: articlePage.url,
+        mainEntityOfPage: mockMediumArticles[0].link,
+        image: ['https://example.com/image.jpg'],
+        datePublished: '2026-01-15T00:00:00.000Z',
+        author: { '@type': 'Person', name: 'John Doe' },
+        publisher: {
+          '@type': 'Organization',
+          '@id': 'https://dataengineering.id/#organization',
+          name: 'Data Engineering Indonesia',
+          logo: { '@type': 'ImageObject', url: 'https://dataengineering.id/images/logo.png' },
+        },
+        keywords: 'data-engineering, beginner',
+      });
+    });
+
+    it('should cope with long titles, missing dates and no image', () => {
+      // Arrange
+      const sparse = {
+        ...article,
+        title: 'Data '.repeat(40).trim(),
+        publishedAt: new Date(''),
+        thumbnail: undefined,
+        categories: [],
+      };
+
+      // Act
+      const data = parsed(articleToJsonLd(sparse, articlePage, defaultSiteConfig));
+
+      // Assert
+      expect((data.headline as string).length).toBe(110);
+      expect(data.image).toEqual([articlePage.image]);
+      expect(data).not.toHaveProperty('datePublished');
+      expect(data).not.toHaveProperty('keywords');
+    });
+  });
+
+  describe('Serialization', () => {
+    it('should not let content close the script tag', () => {
+      // Arrange
+      const data = { name: '</script><script>alert(1)</script> & <!-- more' };
+
+      // Act
+      const json = serializeJsonLd(data);
+
+      // Assert
+      expect(json).not.toContain('<');
+      expect(json).not.toContain('>');
+      expect(JSON.parse(json)).toEqual(data);
+    });
+  });
+
+  describe('Page URLs', () => {
+    it('should keep share URLs on the local copy of an article', () => {
+      // Act
+      const urls = getPageUrls(
+        '/articles/getting-started/',
+        'https://dataengineering.id',
+        'https://medium.com/data-engineering-indonesia/getting-started-abc123'
+      );
+
+      // Assert
+      expect(urls.page.href).toBe('https://dataengineering.id/articles/getting-started/');
+      expect(urls.canonical.href).toBe(
+        'https://medium.com/data-engineering-indonesia/getting-started-abc123'
+      );
+    });
+
+    it('should use the page itself as canonical by default', () => {
+      const urls = getPageUrls('/id/events/', 'https://dataengineering.id');
+
+      expect(urls.canonical.href).toBe('https://dataengineering.id/id/events/');
+      expect(urls.page).toBe(urls.canonical);
+    });
+  });
+});
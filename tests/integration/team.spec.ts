@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'bun:test';
+import { getTeamMembers, selectTeamMembers } from '../../src/lib/supabase';
+import type { TeamMember } from '../../src/types';
+import { mockTeamMembers } from '../fixtures/data';
+import { createSupabaseStandIn } from '../utils/supabase-stand-in';
+
+const baseMember: TeamMember = mockTeamMembers[0];
+
+describe('Team Members', () => {
+  describe('selectTeamMembers', () => {
+    it('should hide inactive members', () => {
+      // Arrange
+      const members = [
+        { ...baseMember, id: 'a', name: 'Active' },
+        { ...baseMember, id: 'b', name: 'Alumni', isActive: false },
+      ];
+
+      // Act
+      const result = selectTeamMembers(members);
+
+      // Assert
+      expect(result.map(member => member.id)).toEqual(['a']);
+    });
+
+    it('should order by displayOrder, then by name', () => {
+      // Arrange
+      const members = [
+        { ...baseMember, id: 'c', name: 'Citra', displayOrder: 2 },
+        { ...baseMember, id: 'b', name: 'Budi', displayOrder: 2 },
+        { ...baseMember, id: 'a', name: 'Ayu', displayOrder: 1 },
+      ];
+
+      // Act
+      const result = selectTeamMembers(members);
+
+      // Assert
+      expect(result.map(member => member.name)).toEqual(['Ayu', 'Budi', 'Citra']);
+    });
+
+    it('should not mutate the input list', () => {
+      const members = [
+        { ...baseMember, id: 'b', displayOrder: 2 },
+        { ...baseMember, id: 'a', displayOrder: 1 },
+      ];
+
+      selectTeamMembers(members);
+
+      expect(members.map(member => member.id)).toEqual(['b', 'a']);
+    });
+  });
+
+  describe('getTeamMembers', () => {
+    it('should read active members from Supabase', async () => {
+      // Arrange
+      const member = { name: 'Ayu', role: 'Organizer', bio: null, photo: null, is_active: true };
+      const standIn = createSupabaseStandIn({
+        team_members: [
+          { ...member, id: 2, name: 'Budi', display_order: 2 },
+          { ...member, id: 1, display_order: 1, linkedin_url: 'https://linkedin.com/in/ayu' },
+          { ...member, id: 3, name: 'Citra', display_order: 0, is_active: false },
+        ],
+      });
+
+      // Act
+      const members = await getTeamMembers(standIn.client);
+
+      // Assert
+      expect(members.map(m => [m.id, m.name])).toEqual([
+        ['1', 'Ayu'],
+        ['2', 'Budi'],
+      ]);
+      expect(members[0]).toMatchObject({ bio: '', linkedinUrl: 'https://linkedin.com/in/ayu' });
+    });
+
+    it('should fall back to local team data when the query fails', async () => {
+      // Arrange
+      const standIn = createSupabaseStandIn({ team_members: [] });
+      standIn.errors.set('team_members', { message: 'permission denied' });
+
+      // Act
+      const members = await getTeamMembers(standIn.client);
+
+      // Assert
+      expect(members.length).toBeGreaterThan(0);
+      expect(standIn.requests.get('team_members')).toBe(1);
+    });
+
+    it('should fall back to local team data when Supabase is not configured', async () => {
+      // Act
+      const members = await getTeamMembers();
+
+      // Assert
+      expect(members.length).toBeGreaterThan(0);
+      expect(members.every(member => member.isActive)).toBe(true);
+      const orders = members.map(member => member.displayOrder);
+      expect(orders).toEqual([...orders].sort((a, b) => a - b));
+    });
+  });
+});
@@ -1,30 +1,6 @@
 // Test Utilities and Helpers
 // Place shared test utilities here
 
-// Mock Supabase Client
-export function createMockSupabaseClient() {
-  return {
-    from: (_table: string) => ({
-      select: () => ({
-        data: [],
-        error: null,
-      }),
-      insert: () => ({
-        data: null,
-        error: null,
-      }),
-      update: () => ({
-        data: null,
-        error: null,
-      }),
-      delete: () => ({
-        data: null,
-        error: null,
-      }),
-    }),
-  };
-}
-
 // Test Database Setup
 export async function setupTestDatabase() {
   // Setup code for test database
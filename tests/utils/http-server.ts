@@ -0,0 +1,90 @@
+// Local HTTP stand-in
+// Serves canned responses per path so feed fetching can be tested against slow servers, 5xx
+// errors and malformed XML without touching the network.
+import http from 'node:http';
+import type net from 'node:net';
+
+export interface StandInRoute {
+  status?: number;
+  body?: string;
+  contentType?: string;
+  // Wait this long before answering, to trigger client timeouts
+  delayMs?: number;
+  // Answer the first n requests with 503 before serving the route normally
+  failTimes?: number;
+}
+
+export interface HttpStandIn {
+  baseUrl: string;
+  routes: Map<string, StandInRoute>;
+  // Requests received per path
+  requests: Map<string, number>;
+  url(path: string): string;
+  close(): Promise<void>;
+}
+
+export async function startHttpStandIn(): Promise<HttpStandIn> {
+  const sockets = new Set<net.Socket>();
+  const routes = new Map<string, StandInRoute>();
+  const requests = new Map<string, number>();
+
+  const server = http.createServer((request, response) => {
+    const path = request.url || '/';
+    const count = (requests.get(path) ?? 0) + 1;
+    requests.set(path, count);
+
+    const route = routes.get(path);
+    const respond = () => {
+      if (!route) {
+        response.writeHead(404).end('Not found');
+      } else if (count <= (route.failTimes ?? 0)) {
+        response.writeHead(503).end('Service unavailable');
+      } else {
+        response
+          .writeHead(route.status ?? 200, {
+            'Content-Type': route.contentType ?? 'application/rss+xml',
+          })
+          .end(route.body ?? '');
+      }
+    };
+
+    if (route?.delayMs) setTimeout(respond, route.delayMs);
+    else respond();
+  });
+  server.on('connection', socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+
+  return {
+    baseUrl,
+    routes,
+    requests,
+    url: path => `${baseUrl}${path}`,
+    close: () =>
+      new Promise(resolve => {
+        sockets.forEach(socket => socket.destroy());
+        server.close(() => resolve());
+      }),
+  };
+}
+
+// Minimal RSS 2.0 document with the fields the article parser reads
+export function rssFeed(items: { title: string; link: string; pubDate: string }[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '<channel><title>Stand-in feed</title><link>http://127.0.0.1/</link>',
+    ...items.map(
+      item =>
+        `<item><title>${item.title}</title><link>${item.link}</link>` +
+        `<pubDate>${item.pubDate}</pubDate><dc:creator>Stand-in</dc:creator>` +
+        '<category>testing</category></item>'
+    ),
+    '</channel></rss>',
+  ].join('\n');
+}
@@ -0,0 +1,127 @@
+// Local SMTP stand-in
+// Speaks just enough SMTP for createSmtpTransport() and records every accepted message, so
+// mail tests run without a real mail server.
+import net from 'node:net';
+
+export interface ReceivedMail {
+  from: string;
+  to: string[];
+  auth?: string;
+  headers: Record<string, string>;
+  text: string;
+}
+
+export interface SmtpStandIn {
+  port: number;
+  messages: ReceivedMail[];
+  // Reply to the given command (e.g. 'RCPT') with an error code instead of accepting it
+  rejectCommand?: { command: string; code: number };
+  close(): Promise<void>;
+}
+
+function parseMessage(data: string): Pick<ReceivedMail, 'headers' | 'text'> {
+  const [head, ...rest] = data.split('\r\n\r\n');
+  const headers: Record<string, string> = {};
+
+  for (const line of head.split('\r\n')) {
+    const separator = line.indexOf(':');
+    headers[line.slice(0, separator).toLowerCase()] = line.slice(separator + 1).trim();
+  }
+
+  const body = rest.join('\r\n\r\n').replace(/^\.\./gm, '.');
+  const text =
+    headers['content-transfer-encoding'] === 'base64'
+      ? Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8')
+      : body;
+
+  return { headers, text: text.replace(/\r\n/g, '\n') };
+}
+
+export async function startSmtpStandIn(): Promise<SmtpStandIn> {
+  const sockets = new Set<net.Socket>();
+
+  const standIn: SmtpStandIn = {
+    port: 0,
+    messages: [],
+    close: () =>
+      new Promise(resolve => {
+        sockets.forEach(socket => socket.destroy());
+        server.close(() => resolve());
+      }),
+  };
+
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.setEncoding('utf8');
+
+    let buffer = '';
+    let inData = false;
+    let mail: Omit<ReceivedMail, 'headers' | 'text'> = { from: '', to: [] };
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    socket.on('data', chunk => {
+      buffer += chunk;
+
+      while (buffer) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          standIn.messages.push({ ...mail, ...parseMessage(buffer.slice(0, end)) });
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          mail = { from: '', to: [] };
+          reply('250 OK: queued');
+          continue;
+        }
+
+        const end = buffer.indexOf('\r\n');
+        if (end === -1) return;
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        const command = line.split(' ')[0].toUpperCase();
+
+        if (standIn.rejectCommand?.command === command) {
+          reply(`${standIn.rejectCommand.code} Rejected by stand-in`);
+          continue;
+        }
+
+        switch (command) {
+          case 'EHLO':
+            reply('250-localhost');
+            reply('250 AUTH PLAIN');
+            break;
+          case 'AUTH':
+            mail.auth = Buffer.from(line.split(' ')[2] || '', 'base64').toString('utf8');
+            reply('235 Authenticated');
+            break;
+          case 'MAIL':
+            mail.from = line.match(/<(.*)>/)?.[1] || '';
+            reply('250 OK');
+            break;
+          case 'RCPT':
+            mail.to.push(line.match(/<(.*)>/)?.[1] || '');
+            reply('250 OK');
+            break;
+          case 'DATA':
+            inData = true;
+            reply('354 End data with <CR><LF>.<CR><LF>');
+            break;
+          case 'QUIT':
+            reply('221 Bye');
+            socket.end();
+            return;
+          default:
+            reply('502 Command not implemented');
+        }
+      }
+    });
+
+    reply('220 localhost SMTP stand-in');
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  standIn.port = (server.address() as net.AddressInfo).port;
+
+  return standIn;
+}
@@ -0,0 +1,263 @@
+// Local Supabase stand-in
+// An in-memory database behind the subset of the PostgREST query builder that src/lib uses
+// (select/insert/update/delete, eq/neq/is/not/like filters, order, limit, single/maybeSingle
+// and rpc), so the real library functions can be tested without a Supabase project.
+// Responses have the PostgREST shape: `{ data, error }`, never a rejected promise.
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type Row = Record<string, unknown>;
+
+export interface StandInError {
+  message: string;
+  code?: string;
+}
+
+export interface SupabaseStandIn {
+  // Cast to the real client type, ready to pass to src/lib
+  client: SupabaseClient;
+  // Rows per table; queries work on copies, so tests can inspect these after a write
+  tables: Map<string, Row[]>;
+  // Queries against these tables answer with the error instead, e.g. to test fallbacks
+  errors: Map<string, StandInError>;
+  // Database functions called through rpc(); throw to answer with an error
+  functions: Map<string, (args: Row) => Row | Row[] | null>;
+  // Queries received per table or function
+  requests: Map<string, number>;
+}
+
+interface PostgrestError {
+  message: string;
+  code: string;
+  details: string | null;
+  hint: string | null;
+}
+
+interface PostgrestResponse {
+  data: unknown;
+  error: PostgrestError | null;
+}
+
+type Action = 'select' | 'insert' | 'update' | 'delete' | 'rpc';
+
+function toError({ message, code = 'P0001' }: StandInError, details: string | null = null) {
+  return { message, code, details, hint: null };
+}
+
+// Postgres sorts nulls last when ascending and first when descending
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return (a as number | string) < (b as number | string) ? -1 : 1;
+}
+
+// SQL LIKE: % matches any run of characters, _ a single one
+function likeToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => {
+      if (char === '%') return '.*';
+      if (char === '_') return '.';
+      return char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 's');
+}
+
+function project(row: Row, columns: string): Row {
+  if (columns.trim() === '*') return { ...row };
+  return Object.fromEntries(columns.split(',').map(column => [column.trim(), row[column.trim()]]));
+}
+
+class QueryBuilder implements PromiseLike<PostgrestResponse> {
+  private action: Action = 'select';
+  private columns = '*';
+  private returning = false;
+  private values: Row[] = [];
+  private filters: ((row: Row) => boolean)[] = [];
+  private orders: { column: string; ascending: boolean }[] = [];
+  private maxRows?: number;
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(
+    private readonly standIn: SupabaseStandIn,
+    private readonly target: string,
+    private readonly args: Row = {}
+  ) {}
+
+  rpc(): this {
+    this.action = 'rpc';
+    return this;
+  }
+
+  select(columns = '*'): this {
+    this.columns = columns;
+    if (this.action !== 'select') this.returning = true;
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.action = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  update(values: Row): this {
+    this.action = 'update';
+    this.values = [values];
+    return this;
+  }
+
+  delete(): this {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    return this.where(row => row[column] === value);
+  }
+
+  neq(column: string, value: unknown): this {
+    return this.where(row => row[column] !== value);
+  }
+
+  is(column: string, value: boolean | null): this {
+    return this.where(row => (row[column] ?? null) === value);
+  }
+
+  not(column: string, operator: 'eq' | 'is', value: unknown): this {
+    if (operator === 'is') return this.where(row => (row[column] ?? null) !== value);
+    return this.where(row => row[column] !== value);
+  }
+
+  like(column: string, pattern: string): this {
+    const regExp = likeToRegExp(pattern);
+    return this.where(row => typeof row[column] === 'string' && regExp.test(row[column]));
+  }
+
+  order(column: string, { ascending = true }: { ascending?: boolean } = {}): this {
+    this.orders.push({ column, ascending });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.maxRows = count;
+    return this;
+  }
+
+  single(): this {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = PostgrestResponse, TResult2 = never>(
+    onfulfilled?: ((value: PostgrestResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  private where(filter: (row: Row) => boolean): this {
+    this.filters.push(filter);
+    return this;
+  }
+
+  private execute(): PostgrestResponse {
+    const { errors, requests } = this.standIn;
+    requests.set(this.target, (requests.get(this.target) ?? 0) + 1);
+
+    const error = errors.get(this.target);
+    if (error) return { data: null, error: toError(error) };
+
+    let rows: Row[];
+    try {
+      rows = this.run();
+    } catch (thrown) {
+      const message = thrown instanceof Error ? thrown.message : String(thrown);
+      return { data: null, error: toError({ message }) };
+    }
+
+    if (this.action !== 'select' && this.action !== 'rpc' && !this.returning) {
+      return { data: null, error: null };
+    }
+    return this.shape(rows.map(row => project(row, this.columns)));
+  }
+
+  // Rows the query returns, applying writes to the table on the way
+  private run(): Row[] {
+    if (this.action === 'rpc') {
+      const fn = this.standIn.functions.get(this.target);
+      if (!fn) throw new Error(`Could not find the function public.${this.target}`);
+      const result = fn(this.args);
+      return result === null ? [] : Array.isArray(result) ? result : [result];
+    }
+
+    const table = this.standIn.tables.get(this.target);
+    if (!table) throw new Error(`relation "public.${this.target}" does not exist`);
+
+    if (this.action === 'insert') {
+      const inserted = this.values.map(values => ({ id: crypto.randomUUID(), ...values }));
+      table.push(...inserted.map(row => ({ ...row })));
+      return inserted;
+    }
+
+    const matched = table.filter(row => this.filters.every(filter => filter(row)));
+
+    if (this.action === 'update') {
+      matched.forEach(row => Object.assign(row, this.values[0]));
+    } else if (this.action === 'delete') {
+      this.standIn.tables.set(
+        this.target,
+        table.filter(row => !matched.includes(row))
+      );
+    }
+
+    const sorted = [...matched].sort((a, b) => {
+      for (const { column, ascending } of this.orders) {
+        const order = compare(a[column], b[column]);
+        if (order !== 0) return ascending ? order : -order;
+      }
+      return 0;
+    });
+    return sorted.slice(0, this.maxRows).map(row => ({ ...row }));
+  }
+
+  private shape(rows: Row[]): PostgrestResponse {
+    if (this.cardinality === 'many') return { data: rows, error: null };
+    if (rows.length === 1) return { data: rows[0], error: null };
+    if (rows.length === 0 && this.cardinality === 'maybeSingle') return { data: null, error: null };
+
+    return {
+      data: null,
+      error: toError(
+        { message: 'Cannot coerce the result to a single JSON object', code: 'PGRST116' },
+        `The result contains ${rows.length} rows`
+      ),
+    };
+  }
+}
+
+export function createSupabaseStandIn(tables: Record<string, Row[]> = {}): SupabaseStandIn {
+  const standIn = {
+    tables: new Map(
+      Object.entries(tables).map(([name, rows]) => [name, rows.map(row => ({ ...row }))])
+    ),
+    errors: new Map<string, StandInError>(),
+    functions: new Map<string, (args: Row) => Row | Row[] | null>(),
+    requests: new Map<string, number>(),
+  } as SupabaseStandIn;
+
+  standIn.client = {
+    from: (table: string) => new QueryBuilder(standIn, table),
+    rpc: (fn: string, args: Row = {}) => new QueryBuilder(standIn, fn, args).rpc(),
+  } as unknown as SupabaseClient;
+
+  return standIn;
+}